@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { assessmentStartSchema, validateRequest } from '@/lib/requestSchema'
+import { SessionLimitError, findAssessmentByToken, startSession } from '@/lib/store/assessments'
+import { GRADING_UNAVAILABLE, assessmentSummary, candidateQuestions, candidateSession, gradingAvailable } from '@/lib/assessment'
+
+// Candidate routes need no account: the token in the link is the secret
+
+interface RouteContext {
+  params: { token: string }
+}
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const assessment = await findAssessmentByToken(params.token)
+  if (!assessment) {
+    return NextResponse.json({ error: 'Assessment not found' }, { status: 404 })
+  }
+  return NextResponse.json({ assessment: assessmentSummary(assessment) })
+}
+
+// Starts the candidate's timer and returns the questions with starter code
+// in the chosen language
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const assessment = await findAssessmentByToken(params.token)
+  if (!assessment) {
+    return NextResponse.json({ error: 'Assessment not found' }, { status: 404 })
+  }
+  if (!gradingAvailable()) {
+    return NextResponse.json(GRADING_UNAVAILABLE, { status: 503 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 })
+  }
+
+  const validation = validateRequest(assessmentStartSchema, body)
+  if (!validation.success) {
+    return NextResponse.json({ error: 'Invalid start request', fieldErrors: validation.fieldErrors }, { status: 400 })
+  }
+  const { candidateName, language } = validation.data
+
+  if (!assessment.languages.includes(language)) {
+    return NextResponse.json({
+      error: 'Invalid start request',
+      fieldErrors: [{ path: 'language', message: `language must be one of: ${assessment.languages.join(', ')}` }]
+    }, { status: 400 })
+  }
+
+  try {
+    const session = await startSession(assessment, candidateName, language)
+    return NextResponse.json({
+      assessment: assessmentSummary(assessment),
+      session: candidateSession(session),
+      questions: candidateQuestions(assessment, language)
+    }, { status: 201 })
+  } catch (error: any) {
+    if (error instanceof SessionLimitError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+    console.error('Error starting assessment:', error)
+    return NextResponse.json(
+      { error: 'Failed to start the assessment', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { findAssessmentByToken, finishSession, getSession } from '@/lib/store/assessments'
+import { candidateSession } from '@/lib/assessment'
+
+interface RouteContext {
+  params: { token: string; sessionId: string }
+}
+
+// Hands the assessment in before the timer runs out; no further
+// submissions are accepted
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const assessment = await findAssessmentByToken(params.token)
+  const session = assessment && await getSession(assessment.id, params.sessionId)
+  if (!session) {
+    return NextResponse.json({ error: 'Session not found' }, { status: 404 })
+  }
+
+  // Handing in after the deadline still closes the session at the deadline
+  const finishedAt = new Date(Math.min(Date.now(), Date.parse(session.deadline))).toISOString()
+  const finished = await finishSession(session.id, finishedAt)
+  return NextResponse.json({ session: candidateSession(finished ?? session) })
+}
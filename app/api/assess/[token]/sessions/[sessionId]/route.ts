@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { submissionSchema, validateRequest } from '@/lib/requestSchema'
+import { SessionEndedError, findAssessmentByToken, finishSession, getSession, recordSubmission } from '@/lib/store/assessments'
+import { describeRateLimit, rateLimitHeaders, submissionLimiter } from '@/lib/rateLimit'
+import {
+  GRADING_UNAVAILABLE,
+  assessmentSummary,
+  candidateQuestions,
+  candidateSession,
+  candidateSubmission,
+  gradeSubmission,
+  gradingAvailable,
+  sessionEnded,
+  variantFor
+} from '@/lib/assessment'
+
+interface RouteContext {
+  params: { token: string; sessionId: string }
+}
+
+export const dynamic = 'force-dynamic'
+
+async function findSession({ token, sessionId }: RouteContext['params']) {
+  const assessment = await findAssessmentByToken(token)
+  const session = assessment && await getSession(assessment.id, sessionId)
+  return assessment && session ? { assessment, session } : undefined
+}
+
+// Resumes a session, e.g. after a reload. Sessions whose time ran out are
+// closed at their deadline.
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const found = await findSession(params)
+  if (!found) {
+    return NextResponse.json({ error: 'Session not found' }, { status: 404 })
+  }
+  const { assessment } = found
+  let { session } = found
+
+  if (sessionEnded(session) && !session.finishedAt) {
+    session = await finishSession(session.id, session.deadline) ?? session
+  }
+
+  return NextResponse.json({
+    assessment: assessmentSummary(assessment),
+    session: candidateSession(session),
+    questions: candidateQuestions(assessment, session.language)
+  })
+}
+
+// Grades `code` for one question against its tests and keeps it as the
+// candidate's answer. Resubmitting replaces the earlier answer.
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const found = await findSession(params)
+  if (!found) {
+    return NextResponse.json({ error: 'Session not found' }, { status: 404 })
+  }
+  const { assessment, session } = found
+
+  if (sessionEnded(session)) {
+    return NextResponse.json({ error: 'This assessment has ended' }, { status: 409 })
+  }
+  if (!gradingAvailable()) {
+    return NextResponse.json(GRADING_UNAVAILABLE, { status: 503 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 })
+  }
+
+  const validation = validateRequest(submissionSchema, body)
+  if (!validation.success) {
+    return NextResponse.json({ error: 'Invalid submission', fieldErrors: validation.fieldErrors }, { status: 400 })
+  }
+  const { questionId, code } = validation.data
+
+  const question = assessment.questions.find(candidate => candidate.id === questionId)
+  const variant = question && variantFor(question, session.language)
+  if (!variant) {
+    return NextResponse.json({ error: 'Question not found' }, { status: 404 })
+  }
+
+  // Keyed on the session; how many sessions a link can start is capped
+  // separately (ASSESSMENT_MAX_SESSIONS)
+  const limit = submissionLimiter.take(session.id)
+  if (!limit.allowed) {
+    return NextResponse.json(describeRateLimit(limit, 'submissions'), { status: 429, headers: rateLimitHeaders(limit) })
+  }
+
+  try {
+    const graded = await gradeSubmission(variant, session.language, code)
+    const updated = await recordSubmission(session.id, {
+      ...graded,
+      questionId,
+      language: session.language,
+      code,
+      submittedAt: new Date().toISOString()
+    }, assessment.questions.length)
+
+    const submission = updated?.submissions.find(candidate => candidate.questionId === questionId)
+    return NextResponse.json({
+      submission: submission && candidateSubmission(submission),
+      score: updated?.score
+    }, { headers: rateLimitHeaders(limit) })
+  } catch (error: any) {
+    if (error instanceof SessionEndedError) {
+      return NextResponse.json({ error: error.message }, { status: 409, headers: rateLimitHeaders(limit) })
+    }
+    console.error('Error grading submission:', error)
+    return NextResponse.json(
+      { error: 'Failed to grade the submission', details: error.message },
+      { status: 500, headers: rateLimitHeaders(limit) }
+    )
+  }
+}
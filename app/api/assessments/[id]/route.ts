@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { UNAUTHENTICATED, sessionUser } from '@/lib/auth'
+import { deleteAssessment, getAssessment, listSessions } from '@/lib/store/assessments'
+
+interface RouteContext {
+  params: { id: string }
+}
+
+// The assessment with every candidate's session, submissions and test results
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const user = await sessionUser(request)
+  if (!user) {
+    return NextResponse.json(UNAUTHENTICATED, { status: 401 })
+  }
+
+  const assessment = await getAssessment(user.id, params.id)
+  if (!assessment) {
+    return NextResponse.json({ error: 'Assessment not found' }, { status: 404 })
+  }
+  return NextResponse.json({ assessment, sessions: await listSessions(assessment.id) })
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const user = await sessionUser(request)
+  if (!user) {
+    return NextResponse.json(UNAUTHENTICATED, { status: 401 })
+  }
+
+  if (!await deleteAssessment(user.id, params.id)) {
+    return NextResponse.json({ error: 'Assessment not found' }, { status: 404 })
+  }
+  return NextResponse.json({ success: true })
+}
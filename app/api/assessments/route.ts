@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { UNAUTHENTICATED, questionAccess, sessionUser } from '@/lib/auth'
+import { assessmentRequestSchema, validateRequest } from '@/lib/requestSchema'
+import { createAssessment, listAssessments } from '@/lib/store/assessments'
+import { getPaper } from '@/lib/store/papers'
+import { listQuestions } from '@/lib/store/questionBank'
+import { baseIdOf } from '@/lib/types'
+import { SANDBOX_LANGUAGES } from '@/lib/sandbox/languages'
+import { AssessmentDraft, GRADING_UNAVAILABLE, assessmentFromPaper, assessmentFromQuestions, gradingAvailable } from '@/lib/assessment'
+
+export const dynamic = 'force-dynamic'
+
+// The signed-in user's assessments, newest first
+export async function GET(request: NextRequest) {
+  const user = await sessionUser(request)
+  if (!user) {
+    return NextResponse.json(UNAUTHENTICATED, { status: 401 })
+  }
+
+  try {
+    return NextResponse.json({ assessments: await listAssessments(user.id), gradingAvailable: gradingAvailable() })
+  } catch (error: any) {
+    console.error('Error listing assessments:', error)
+    return NextResponse.json(
+      { error: 'Failed to list assessments', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+// Creates an assessment from one of the user's papers or from saved
+// questions they can read, with every language variant of each question
+export async function POST(request: NextRequest) {
+  const user = await sessionUser(request)
+  if (!user) {
+    return NextResponse.json(UNAUTHENTICATED, { status: 401 })
+  }
+  if (!gradingAvailable()) {
+    return NextResponse.json(GRADING_UNAVAILABLE, { status: 503 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 })
+  }
+
+  const validation = validateRequest(assessmentRequestSchema, body)
+  if (!validation.success) {
+    return NextResponse.json({ error: 'Invalid assessment request', fieldErrors: validation.fieldErrors }, { status: 400 })
+  }
+  const { title, durationMinutes, paperId, questionIds } = validation.data
+
+  try {
+    let draft: AssessmentDraft
+    if (paperId) {
+      const paper = await getPaper(user.id, paperId)
+      if (!paper) {
+        return NextResponse.json({ error: 'Paper not found' }, { status: 404 })
+      }
+      if (paper.questions.length === 0) {
+        return NextResponse.json({ error: 'The paper has no questions' }, { status: 400 })
+      }
+      draft = assessmentFromPaper(paper, title, durationMinutes)
+    } else {
+      const readable = await listQuestions({}, await questionAccess(user))
+      const baseIds = Array.from(new Set(questionIds!.map(id => {
+        const question = readable.find(candidate => candidate.id === id)
+        return question && baseIdOf(question)
+      })))
+      if (baseIds.some(baseId => !baseId)) {
+        return NextResponse.json({ error: 'Question not found' }, { status: 404 })
+      }
+      draft = assessmentFromQuestions(baseIds.map(baseId => readable.filter(question => baseIdOf(question) === baseId)), title, durationMinutes)
+    }
+
+    if (draft.languages.length === 0) {
+      return NextResponse.json({
+        error: 'No language to take the assessment in',
+        details: `Every question needs a variant in one of: ${SANDBOX_LANGUAGES.join(', ')}`
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({ assessment: await createAssessment(draft, user.id) }, { status: 201 })
+  } catch (error: any) {
+    console.error('Error creating assessment:', error)
+    return NextResponse.json(
+      { error: 'Failed to create assessment', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SESSION_COOKIE, sessionCookieOptions } from '@/lib/auth'
+import { loginRequestSchema, validateRequest } from '@/lib/requestSchema'
+import { authenticate, createSession } from '@/lib/store/users'
+import { listWorkspacesFor } from '@/lib/store/workspaces'
+
+// Signs in with { email, password }
+export async function POST(request: NextRequest) {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 })
+  }
+
+  const validation = validateRequest(loginRequestSchema, body)
+  if (!validation.success) {
+    return NextResponse.json({ error: 'Invalid sign-in request', fieldErrors: validation.fieldErrors }, { status: 400 })
+  }
+  const { email, password } = validation.data
+
+  try {
+    const user = await authenticate(email, password)
+    if (!user) {
+      return NextResponse.json({ error: 'Incorrect email or password' }, { status: 401 })
+    }
+
+    const session = await createSession(user.id)
+    const response = NextResponse.json({ user, workspaces: await listWorkspacesFor(user.id) })
+    response.cookies.set(SESSION_COOKIE, session.token, sessionCookieOptions(session.expiresAt))
+    return response
+  } catch (error: any) {
+    console.error('Error signing in:', error)
+    return NextResponse.json(
+      { error: 'Failed to sign in', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,12 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SESSION_COOKIE, sessionToken } from '@/lib/auth'
+import { deleteSession } from '@/lib/store/users'
+
+export async function POST(request: NextRequest) {
+  const token = sessionToken(request)
+  if (token) await deleteSession(token)
+
+  const response = NextResponse.json({ success: true })
+  response.cookies.delete(SESSION_COOKIE)
+  return response
+}
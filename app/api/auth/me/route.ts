@@ -0,0 +1,14 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { UNAUTHENTICATED, sessionUser } from '@/lib/auth'
+import { listWorkspacesFor } from '@/lib/store/workspaces'
+
+export const dynamic = 'force-dynamic'
+
+// The signed-in user and the workspaces they belong to
+export async function GET(request: NextRequest) {
+  const user = await sessionUser(request)
+  if (!user) {
+    return NextResponse.json(UNAUTHENTICATED, { status: 401 })
+  }
+  return NextResponse.json({ user, workspaces: await listWorkspacesFor(user.id) })
+}
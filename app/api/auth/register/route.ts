@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SESSION_COOKIE, sessionCookieOptions } from '@/lib/auth'
+import { registerRequestSchema, validateRequest } from '@/lib/requestSchema'
+import { UserValidationError, createSession, createUser } from '@/lib/store/users'
+
+// Creates an account from { name, email, password } and signs it in
+export async function POST(request: NextRequest) {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 })
+  }
+
+  const validation = validateRequest(registerRequestSchema, body)
+  if (!validation.success) {
+    return NextResponse.json({ error: 'Invalid account', fieldErrors: validation.fieldErrors }, { status: 400 })
+  }
+
+  try {
+    const user = await createUser(validation.data)
+    const session = await createSession(user.id)
+
+    const response = NextResponse.json({ user, workspaces: [] }, { status: 201 })
+    response.cookies.set(SESSION_COOKIE, session.token, sessionCookieOptions(session.expiresAt))
+    return response
+  } catch (error: any) {
+    if (error instanceof UserValidationError) {
+      return NextResponse.json({ error: 'Invalid account', details: error.problems }, { status: 400 })
+    }
+    console.error('Error creating account:', error)
+    return NextResponse.json(
+      { error: 'Failed to create account', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { FORBIDDEN, UNAUTHENTICATED, isAdmin, sessionUser } from '@/lib/auth'
+import { CatalogValidationError, deletePosition, getPosition, updatePosition } from '@/lib/store/catalog'
+
+interface RouteContext {
+  params: { id: string }
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const position = await getPosition(params.id)
+  if (!position) {
+    return NextResponse.json({ error: 'Position not found' }, { status: 404 })
+  }
+  return NextResponse.json({ position })
+}
+
+// Changes any of name, companies, seniority and interviewStyle
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const user = await sessionUser(request)
+  if (!user) {
+    return NextResponse.json(UNAUTHENTICATED, { status: 401 })
+  }
+  if (!isAdmin(user)) {
+    return NextResponse.json(FORBIDDEN, { status: 403 })
+  }
+
+  try {
+    const body = await request.json()
+    const position = await updatePosition(params.id, {
+      name: body.name,
+      companies: body.companies,
+      seniority: body.seniority,
+      interviewStyle: body.interviewStyle
+    })
+    if (!position) {
+      return NextResponse.json({ error: 'Position not found' }, { status: 404 })
+    }
+    return NextResponse.json({ position })
+  } catch (error: any) {
+    if (error instanceof CatalogValidationError) {
+      return NextResponse.json({ error: 'Invalid position', details: error.problems }, { status: 400 })
+    }
+    console.error('Error updating position:', error)
+    return NextResponse.json(
+      { error: 'Failed to update position', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const user = await sessionUser(request)
+  if (!user) {
+    return NextResponse.json(UNAUTHENTICATED, { status: 401 })
+  }
+  if (!isAdmin(user)) {
+    return NextResponse.json(FORBIDDEN, { status: 403 })
+  }
+
+  const deleted = await deletePosition(params.id)
+  if (!deleted) {
+    return NextResponse.json({ error: 'Position not found' }, { status: 404 })
+  }
+  return NextResponse.json({ success: true })
+}
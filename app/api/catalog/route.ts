@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { FORBIDDEN, UNAUTHENTICATED, isAdmin, sessionUser } from '@/lib/auth'
+import { CatalogValidationError, SENIORITY_BANDS, createPosition, listPositions } from '@/lib/store/catalog'
+
+export async function GET() {
+  try {
+    const positions = await listPositions()
+    return NextResponse.json({ positions, seniorityBands: SENIORITY_BANDS })
+  } catch (error: any) {
+    console.error('Error listing catalog:', error)
+    return NextResponse.json(
+      { error: 'Failed to list positions', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+// Adds a position: { name, companies, seniority, interviewStyle? }
+export async function POST(request: NextRequest) {
+  const user = await sessionUser(request)
+  if (!user) {
+    return NextResponse.json(UNAUTHENTICATED, { status: 401 })
+  }
+  if (!isAdmin(user)) {
+    return NextResponse.json(FORBIDDEN, { status: 403 })
+  }
+
+  try {
+    const body = await request.json()
+    const position = await createPosition({
+      name: body.name,
+      companies: body.companies,
+      seniority: body.seniority,
+      interviewStyle: body.interviewStyle
+    })
+    return NextResponse.json({ position }, { status: 201 })
+  } catch (error: any) {
+    if (error instanceof CatalogValidationError) {
+      return NextResponse.json({ error: 'Invalid position', details: error.problems }, { status: 400 })
+    }
+    console.error('Error creating position:', error)
+    return NextResponse.json(
+      { error: 'Failed to create position', details: error.message },
+      { status: 500 }
+    )
+  }
+}
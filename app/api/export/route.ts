@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { FormData, Question } from '@/lib/types'
+import { EXPORT_FORMATS, exportQuestions, isExportFormat } from '@/lib/export'
+import { UNAUTHENTICATED, sessionUser } from '@/lib/auth'
+import { recordHistory } from '@/lib/store/history'
+
+export async function POST(request: NextRequest) {
+  const user = await sessionUser(request)
+  if (!user) {
+    return NextResponse.json(UNAUTHENTICATED, { status: 401 })
+  }
+
+  try {
+    const { questions, format, inputParameters }: {
+      questions: Question[]
+      format: string
+      inputParameters?: Partial<FormData>
+    } = await request.json()
+
+    if (!questions || questions.length === 0) {
+      return NextResponse.json(
+        { error: 'No questions provided' },
+        { status: 400 }
+      )
+    }
+
+    if (!isExportFormat(format)) {
+      return NextResponse.json(
+        { error: `format must be one of: ${EXPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const { positionName, topic, difficultyLevel, type } = inputParameters ?? {}
+    const file = exportQuestions(questions, format, { positionName, topic, difficultyLevel, type })
+    await recordHistory({ userId: user.id, kind: 'export', status: 'succeeded', questions, detail: file.filename })
+      .catch(error => console.error('Failed to record history:', error))
+
+    return new NextResponse(file.body, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`
+      }
+    })
+  } catch (error: any) {
+    console.error('Error exporting questions:', error)
+    return NextResponse.json(
+      { error: 'Failed to export questions', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { FormData, Question } from '@/lib/types'
+import { describeGenerationError } from '@/lib/generation/errors'
+import { regenerateImplementation, regenerateQuestion } from '@/lib/generation/pipeline'
+import { describeRateLimit, generationLimiter, rateLimitHeaders } from '@/lib/rateLimit'
+import { UNAUTHENTICATED, questionAccess, sessionUser } from '@/lib/auth'
+import { regenerationRequestSchema, validateRequest } from '@/lib/requestSchema'
+import { findPositionByName } from '@/lib/store/catalog'
+import { isTemplateLanguage } from '@/lib/signature'
+
+// Replaces one question (all of its language variants) or, when `language`
+// is given, only that variant's template. `inputParameters` are the form
+// values the question was generated with.
+export async function POST(request: NextRequest) {
+  const user = await sessionUser(request)
+  if (!user) {
+    return NextResponse.json(UNAUTHENTICATED, { status: 401 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 })
+  }
+
+  const validation = validateRequest(regenerationRequestSchema, body)
+  if (!validation.success) {
+    return NextResponse.json({ error: 'Invalid regeneration request', fieldErrors: validation.fieldErrors }, { status: 400 })
+  }
+  const { siblings, language } = validation.data
+  const inputParameters: FormData = validation.data.inputParameters
+  // Fields beyond the checked ones are carried through as the client sent them
+  const question = validation.data.question as Question
+
+  if (!await findPositionByName(inputParameters.positionName)) {
+    return NextResponse.json({
+      error: 'Invalid regeneration request',
+      fieldErrors: [{ path: 'inputParameters.positionName', message: `"${inputParameters.positionName}" is not in the position catalog` }]
+    }, { status: 400 })
+  }
+
+  if (language) {
+    if (inputParameters.type !== 'complete_code') {
+      return NextResponse.json(
+        { error: 'Only "Complete the Code" questions have per-language templates' },
+        { status: 400 }
+      )
+    }
+    if (question.signature && isTemplateLanguage(language)) {
+      // Rendered from the signature, so a new one would be the same
+      return NextResponse.json(
+        { error: 'This template is rendered from the question\'s signature and cannot change' },
+        { status: 400 }
+      )
+    }
+  }
+
+  // Taken only once the request is valid, so a rejected one doesn't use up
+  // the user's allowance
+  const limit = generationLimiter.take(user.id)
+  if (!limit.allowed) {
+    return NextResponse.json(describeRateLimit(limit), { status: 429, headers: rateLimitHeaders(limit) })
+  }
+
+  try {
+    if (language) {
+      const updated = await regenerateImplementation(inputParameters, question, language)
+      return NextResponse.json({ question: updated }, { headers: rateLimitHeaders(limit) })
+    }
+
+    const questions = await regenerateQuestion(inputParameters, { replacing: question, siblings, access: await questionAccess(user) })
+    return NextResponse.json({ questions }, { headers: rateLimitHeaders(limit) })
+  } catch (error) {
+    const { body, status } = describeGenerationError(error)
+    return NextResponse.json(body, { status })
+  }
+}
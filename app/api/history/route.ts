@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { UNAUTHENTICATED, sessionUser } from '@/lib/auth'
+import { HistoryKind, listHistory } from '@/lib/store/history'
+
+export const dynamic = 'force-dynamic'
+
+const HISTORY_KINDS: HistoryKind[] = ['generation', 'paper', 'sheet', 'export', 'save']
+
+// The signed-in user's history, newest first; `?kind=` narrows it to one
+// kind of entry
+export async function GET(request: NextRequest) {
+  const user = await sessionUser(request)
+  if (!user) {
+    return NextResponse.json(UNAUTHENTICATED, { status: 401 })
+  }
+
+  const kind = request.nextUrl.searchParams.get('kind') || undefined
+  if (kind && !HISTORY_KINDS.includes(kind as HistoryKind)) {
+    return NextResponse.json({ error: `kind must be one of: ${HISTORY_KINDS.join(', ')}` }, { status: 400 })
+  }
+
+  try {
+    return NextResponse.json({ entries: await listHistory(user.id, kind as HistoryKind | undefined) })
+  } catch (error: any) {
+    console.error('Error listing history:', error)
+    return NextResponse.json(
+      { error: 'Failed to list history', details: error.message },
+      { status: 500 }
+    )
+  }
+}
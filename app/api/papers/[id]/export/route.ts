@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { UNAUTHENTICATED, sessionUser } from '@/lib/auth'
+import { EXPORT_FORMATS, isExportFormat } from '@/lib/export'
+import { exportPaper, paperVariants } from '@/lib/paper'
+import { recordHistory } from '@/lib/store/history'
+import { getPaper } from '@/lib/store/papers'
+
+interface RouteContext {
+  params: { id: string }
+}
+
+// Exports the whole paper, in order, as one file in { format }
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const user = await sessionUser(request)
+  if (!user) {
+    return NextResponse.json(UNAUTHENTICATED, { status: 401 })
+  }
+
+  try {
+    const { format } = await request.json().catch(() => ({}))
+    if (!isExportFormat(format)) {
+      return NextResponse.json(
+        { error: `format must be one of: ${EXPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const paper = await getPaper(user.id, params.id)
+    if (!paper) {
+      return NextResponse.json({ error: 'Paper not found' }, { status: 404 })
+    }
+
+    const file = exportPaper(paper, format)
+    await recordHistory({ userId: user.id, kind: 'export', status: 'succeeded', questions: paperVariants(paper), detail: file.filename })
+      .catch(error => console.error('Failed to record history:', error))
+
+    return new NextResponse(file.body, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`
+      }
+    })
+  } catch (error: any) {
+    console.error('Error exporting paper:', error)
+    return NextResponse.json(
+      { error: 'Failed to export paper', details: error.message },
+      { status: 500 }
+    )
+  }
+}
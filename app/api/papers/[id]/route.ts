@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { UNAUTHENTICATED, sessionUser } from '@/lib/auth'
+import { deletePaper, getPaper } from '@/lib/store/papers'
+
+interface RouteContext {
+  params: { id: string }
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const user = await sessionUser(request)
+  if (!user) {
+    return NextResponse.json(UNAUTHENTICATED, { status: 401 })
+  }
+
+  const paper = await getPaper(user.id, params.id)
+  if (!paper) {
+    return NextResponse.json({ error: 'Paper not found' }, { status: 404 })
+  }
+  return NextResponse.json({ paper })
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const user = await sessionUser(request)
+  if (!user) {
+    return NextResponse.json(UNAUTHENTICATED, { status: 401 })
+  }
+
+  if (!await deletePaper(user.id, params.id)) {
+    return NextResponse.json({ error: 'Paper not found' }, { status: 404 })
+  }
+  return NextResponse.json({ success: true })
+}
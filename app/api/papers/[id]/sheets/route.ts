@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { UNAUTHENTICATED, sessionUser } from '@/lib/auth'
+import { SheetColumnKey, SheetMappingError, getSheetStorage, resolveColumns, resolveTabName, upsertQuestionRows } from '@/lib/sheets'
+import { paperQuestionContext, paperVariants } from '@/lib/paper'
+import { recordHistory } from '@/lib/store/history'
+import { getPaper } from '@/lib/store/papers'
+
+interface RouteContext {
+  params: { id: string }
+}
+
+// Writes the paper to one tab, named after the paper unless { tab } is
+// given, in paper order. Each row carries its own slot's topic and
+// difficulty; sending the paper again updates the same rows.
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const user = await sessionUser(request)
+  if (!user) {
+    return NextResponse.json(UNAUTHENTICATED, { status: 401 })
+  }
+
+  const { columns: mapping, tab: name }: { columns?: string | string[]; tab?: string } = await request.json().catch(() => ({}))
+  const paper = await getPaper(user.id, params.id)
+  if (!paper) {
+    return NextResponse.json({ error: 'Paper not found' }, { status: 404 })
+  }
+  if (paper.questions.length === 0) {
+    return NextResponse.json({ error: 'The paper has no questions' }, { status: 400 })
+  }
+
+  let columns: SheetColumnKey[]
+  try {
+    columns = resolveColumns(mapping)
+  } catch (error) {
+    if (error instanceof SheetMappingError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    throw error
+  }
+  const tab = resolveTabName({ name: name || paper.title })
+
+  try {
+    const storage = getSheetStorage()
+    const created: string[] = []
+    const updated: string[] = []
+    for (const question of paper.questions) {
+      const result = await upsertQuestionRows(storage, question.variants, paperQuestionContext(paper, question), { columns, tab })
+      created.push(...result.created)
+      updated.push(...result.updated)
+    }
+
+    await recordHistory({ userId: user.id, kind: 'sheet', status: 'succeeded', questions: paperVariants(paper), detail: `Paper "${paper.title}" to tab "${tab}"` })
+      .catch(error => console.error('Failed to record history:', error))
+
+    return NextResponse.json({
+      success: true,
+      message: `"${paper.title}": ${created.length} question entries added and ${updated.length} updated in "${tab}"`,
+      storage: storage.name,
+      tab,
+      created,
+      updated
+    })
+  } catch (error: any) {
+    console.error('Sheet storage error:', error)
+    await recordHistory({ userId: user.id, kind: 'sheet', status: 'failed', questions: paperVariants(paper), detail: error.message })
+      .catch(historyError => console.error('Failed to record history:', historyError))
+    return NextResponse.json(
+      { error: 'Failed to write the paper to the sheet', details: error.message },
+      { status: 500 }
+    )
+  }
+}
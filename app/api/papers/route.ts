@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { UNAUTHENTICATED, questionAccess, sessionUser } from '@/lib/auth'
+import { paperRequestSchema, validateRequest } from '@/lib/requestSchema'
+import { findPositionByName } from '@/lib/store/catalog'
+import { recordHistory } from '@/lib/store/history'
+import { listPapers, savePaper } from '@/lib/store/papers'
+import { buildPaper, describePaperTime, paperVariants } from '@/lib/paper'
+import { describeGenerationError } from '@/lib/generation/errors'
+import { describeRateLimit, generationLimiter, rateLimitHeaders } from '@/lib/rateLimit'
+
+export const dynamic = 'force-dynamic'
+
+// The signed-in user's papers, newest first
+export async function GET(request: NextRequest) {
+  const user = await sessionUser(request)
+  if (!user) {
+    return NextResponse.json(UNAUTHENTICATED, { status: 401 })
+  }
+
+  try {
+    return NextResponse.json({ papers: await listPapers(user.id) })
+  } catch (error: any) {
+    console.error('Error listing papers:', error)
+    return NextResponse.json(
+      { error: 'Failed to list papers', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+// Builds and saves a paper from a blueprint of { topic, difficultyLevel,
+// count } slots and a time budget. Building from the bank alone doesn't
+// count against the generation rate limit.
+export async function POST(request: NextRequest) {
+  const user = await sessionUser(request)
+  if (!user) {
+    return NextResponse.json(UNAUTHENTICATED, { status: 401 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 })
+  }
+
+  const validation = validateRequest(paperRequestSchema, body)
+  if (!validation.success) {
+    return NextResponse.json({ error: 'Invalid paper request', fieldErrors: validation.fieldErrors }, { status: 400 })
+  }
+  const blueprint = validation.data
+
+  if (!await findPositionByName(blueprint.positionName)) {
+    return NextResponse.json({
+      error: 'Invalid paper request',
+      fieldErrors: [{ path: 'positionName', message: `"${blueprint.positionName}" is not in the position catalog` }]
+    }, { status: 400 })
+  }
+
+  let headers: Record<string, string> = {}
+  if (blueprint.source !== 'bank') {
+    const limit = generationLimiter.take(user.id)
+    if (!limit.allowed) {
+      return NextResponse.json(describeRateLimit(limit), { status: 429, headers: rateLimitHeaders(limit) })
+    }
+    headers = rateLimitHeaders(limit)
+  }
+
+  try {
+    const draft = await buildPaper(blueprint, { access: await questionAccess(user), signal: request.signal })
+    const paper = await savePaper(draft, user.id)
+    await recordHistory({
+      userId: user.id,
+      kind: 'paper',
+      status: 'succeeded',
+      questions: paperVariants(paper),
+      detail: `${paper.title}: ${describePaperTime(paper)}`
+    }).catch(error => console.error('Failed to record history:', error))
+
+    return NextResponse.json({ paper }, { status: 201, headers })
+  } catch (error) {
+    const { body, status } = describeGenerationError(error)
+    await recordHistory({ userId: user.id, kind: 'paper', status: 'failed', questions: [], detail: String(body.error) })
+      .catch(historyError => console.error('Failed to record history:', historyError))
+    return NextResponse.json(body, { status, headers })
+  }
+}
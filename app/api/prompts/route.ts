@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { FORBIDDEN, UNAUTHENTICATED, isAdmin, sessionUser } from '@/lib/auth'
+import {
+  PROMPT_VARIABLES,
+  PromptTemplateError,
+  UnknownPromptError,
+  createPromptVersion,
+  listPromptTemplates
+} from '@/lib/prompts'
+
+// Lists every template version, optionally for one `?name=`, together with
+// the variables each template name can use
+export async function GET(request: NextRequest) {
+  try {
+    const name = request.nextUrl.searchParams.get('name')
+    const templates = await listPromptTemplates()
+    return NextResponse.json({
+      templates: name ? templates.filter(template => template.name === name) : templates,
+      variables: PROMPT_VARIABLES
+    })
+  } catch (error: any) {
+    console.error('Error listing prompt templates:', error)
+    return NextResponse.json(
+      { error: 'Failed to list prompt templates', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+// Saves a new version of a template. Existing versions never change.
+export async function POST(request: NextRequest) {
+  const user = await sessionUser(request)
+  if (!user) {
+    return NextResponse.json(UNAUTHENTICATED, { status: 401 })
+  }
+  if (!isAdmin(user)) {
+    return NextResponse.json(FORBIDDEN, { status: 403 })
+  }
+
+  let payload: { name?: string; body?: string; description?: string }
+  try {
+    payload = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 })
+  }
+
+  if (typeof payload.name !== 'string' || typeof payload.body !== 'string') {
+    return NextResponse.json({ error: 'name and body are required' }, { status: 400 })
+  }
+
+  try {
+    const template = await createPromptVersion(payload.name, payload.body, payload.description)
+    return NextResponse.json({ template }, { status: 201 })
+  } catch (error: any) {
+    if (error instanceof UnknownPromptError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    if (error instanceof PromptTemplateError) {
+      return NextResponse.json({ error: 'Invalid prompt template', details: error.problems }, { status: 400 })
+    }
+    console.error('Error saving prompt template:', error)
+    return NextResponse.json(
+      { error: 'Failed to save prompt template', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { User } from '@/lib/store/users'
+import { UNAUTHENTICATED, questionAccess, sessionUser } from '@/lib/auth'
+import {
+  QuestionUpdate,
+  canReadQuestion,
+  canWriteQuestion,
+  deleteQuestion,
+  getQuestion,
+  updateQuestion
+} from '@/lib/store/questionBank'
+import { getWorkspace, isMember } from '@/lib/store/workspaces'
+
+interface RouteContext {
+  params: { id: string }
+}
+
+// Fields a client may change; ids and timestamps are managed by the bank
+const EDITABLE_FIELDS = [
+  'title',
+  'problemStatement',
+  'inputFormat',
+  'outputFormat',
+  'constraints',
+  'sampleInput',
+  'sampleOutput',
+  'hint',
+  'implementation',
+  'language',
+  'positionName',
+  'topic',
+  'difficultyLevel',
+  'type'
+] as const
+
+// Questions the user can't read are reported as missing, so their
+// existence isn't revealed; readable ones they can't change are a 403
+async function findQuestion(user: User, id: string, write: boolean) {
+  const question = await getQuestion(id)
+  const access = await questionAccess(user)
+  if (!question || !canReadQuestion(question, access)) {
+    return { response: NextResponse.json({ error: 'Question not found' }, { status: 404 }) }
+  }
+  if (write && !canWriteQuestion(question, access)) {
+    return { response: NextResponse.json({ error: 'Only the question\'s owner can change it' }, { status: 403 }) }
+  }
+  return { question }
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const user = await sessionUser(request)
+  if (!user) {
+    return NextResponse.json(UNAUTHENTICATED, { status: 401 })
+  }
+
+  const { question, response } = await findQuestion(user, params.id, false)
+  return response ?? NextResponse.json({ question })
+}
+
+// `workspaceId` shares the question with one of the owner's workspaces;
+// null makes it private again
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const user = await sessionUser(request)
+  if (!user) {
+    return NextResponse.json(UNAUTHENTICATED, { status: 401 })
+  }
+
+  try {
+    const { response } = await findQuestion(user, params.id, true)
+    if (response) return response
+
+    const body = await request.json()
+    const changes: Record<string, string | undefined> = {}
+
+    for (const field of EDITABLE_FIELDS) {
+      if (body[field] === undefined) continue
+      if (typeof body[field] !== 'string') {
+        return NextResponse.json({ error: `${field} must be a string` }, { status: 400 })
+      }
+      changes[field] = body[field]
+    }
+
+    if (body.workspaceId === null) {
+      changes.workspaceId = undefined
+    } else if (body.workspaceId !== undefined) {
+      const workspace = typeof body.workspaceId === 'string' ? await getWorkspace(body.workspaceId) : undefined
+      if (!workspace || !isMember(workspace, user.id)) {
+        return NextResponse.json({ error: 'Workspace not found' }, { status: 404 })
+      }
+      changes.workspaceId = workspace.id
+    }
+
+    const question = await updateQuestion(params.id, changes as QuestionUpdate)
+    if (!question) {
+      return NextResponse.json({ error: 'Question not found' }, { status: 404 })
+    }
+    return NextResponse.json({ question })
+  } catch (error: any) {
+    console.error('Error updating question:', error)
+    return NextResponse.json(
+      { error: 'Failed to update question', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const user = await sessionUser(request)
+  if (!user) {
+    return NextResponse.json(UNAUTHENTICATED, { status: 401 })
+  }
+
+  const { response } = await findQuestion(user, params.id, true)
+  if (response) return response
+
+  const deleted = await deleteQuestion(params.id)
+  if (!deleted) {
+    return NextResponse.json({ error: 'Question not found' }, { status: 404 })
+  }
+  return NextResponse.json({ success: true })
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { Question } from '@/lib/types'
+import { UNAUTHENTICATED, questionAccess, sessionUser } from '@/lib/auth'
+import { saveQuestionsRequestSchema, validateRequest } from '@/lib/requestSchema'
+import { QuestionAccessError, listQuestions, saveQuestions } from '@/lib/store/questionBank'
+import { recordHistory } from '@/lib/store/history'
+import { getWorkspace, isMember } from '@/lib/store/workspaces'
+
+// The signed-in user's questions, those shared with their workspaces, and
+// questions saved before accounts existed
+export async function GET(request: NextRequest) {
+  const user = await sessionUser(request)
+  if (!user) {
+    return NextResponse.json(UNAUTHENTICATED, { status: 401 })
+  }
+
+  try {
+    const params = request.nextUrl.searchParams
+    const questions = await listQuestions({
+      positionName: params.get('position') || undefined,
+      topic: params.get('topic') || undefined,
+      difficultyLevel: params.get('difficulty') || undefined,
+      language: params.get('language') || undefined,
+      type: params.get('type') || undefined,
+      search: params.get('search') || undefined
+    }, await questionAccess(user))
+
+    return NextResponse.json({ questions })
+  } catch (error: any) {
+    console.error('Error listing questions:', error)
+    return NextResponse.json(
+      { error: 'Failed to list questions', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+// Saves { questions, inputParameters } under the signed-in user, shared with
+// `workspaceId` when given
+export async function POST(request: NextRequest) {
+  const user = await sessionUser(request)
+  if (!user) {
+    return NextResponse.json(UNAUTHENTICATED, { status: 401 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 })
+  }
+
+  const validation = validateRequest(saveQuestionsRequestSchema, body)
+  if (!validation.success) {
+    return NextResponse.json({ error: 'Invalid save request', fieldErrors: validation.fieldErrors }, { status: 400 })
+  }
+  const { inputParameters, workspaceId } = validation.data
+  // Fields beyond the checked ones are saved as the client sent them
+  const questions = validation.data.questions as Question[]
+
+  try {
+    const workspace = workspaceId ? await getWorkspace(workspaceId) : undefined
+    if (workspaceId && (!workspace || !isMember(workspace, user.id))) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 })
+    }
+
+    const { created, updated } = await saveQuestions(questions, inputParameters, await questionAccess(user), workspaceId)
+
+    await recordHistory({
+      userId: user.id,
+      kind: 'save',
+      status: 'succeeded',
+      questions,
+      detail: workspace ? `Shared with ${workspace.name}` : 'Personal library'
+    }).catch(error => console.error('Failed to record history:', error))
+
+    return NextResponse.json({
+      success: true,
+      message: `${created.length} questions saved, ${updated.length} updated`,
+      questions: [...created, ...updated]
+    }, { status: created.length > 0 ? 201 : 200 })
+  } catch (error: any) {
+    if (error instanceof QuestionAccessError) {
+      return NextResponse.json({ error: 'Some of these questions belong to another user', ids: error.ids }, { status: 403 })
+    }
+    console.error('Error saving questions:', error)
+    return NextResponse.json(
+      { error: 'Failed to save questions', details: error.message },
+      { status: 500 }
+    )
+  }
+}
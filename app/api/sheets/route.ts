@@ -1,35 +1,68 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { google } from 'googleapis'
-
-interface Question {
-  id: string
-  title: string
-  problemStatement: string
-  inputFormat: string
-  outputFormat: string
-  constraints: string
-  sampleInput: string
-  sampleOutput: string
-  language?: string
-  implementation?: string
-  hint?: string
-}
+import type { Question } from '@/lib/types'
+import {
+  SheetColumnKey,
+  SheetInputParameters,
+  SheetMappingError,
+  SheetStorage,
+  SheetTabNotFoundError,
+  SheetTarget,
+  getSheetStorage,
+  readQuestionRows,
+  requiredSheetParameters,
+  resolveColumns,
+  resolveTabName,
+  upsertQuestionRows
+} from '@/lib/sheets'
+import { sheetInputParametersSchema, validateRequest } from '@/lib/requestSchema'
+import { UNAUTHENTICATED, sessionUser } from '@/lib/auth'
+import { recordHistory } from '@/lib/store/history'
+
+const describeStorage = (storage: SheetStorage) =>
+  storage.name === 'google' ? 'Google Sheets' : `the local workbook in ${storage.location}`
+
+// Reads a tab back into questions. `?tab=` names the tab; without it the
+// default tab is read. Sending the returned rows back with the returned
+// `columns` and tab writes the same cells.
+export async function GET(request: NextRequest) {
+  if (!await sessionUser(request)) {
+    return NextResponse.json(UNAUTHENTICATED, { status: 401 })
+  }
 
-interface InputParameters {
-  positionName: string
-  languages: string[]
-  problem: string
-  hint: string
-  type: 'complete_code' | 'write_code'
-  difficultyLevel: 'easy' | 'medium' | 'hard'
-  topic: string
+  const tab = resolveTabName({ name: request.nextUrl.searchParams.get('tab') || undefined })
+  try {
+    const storage = getSheetStorage()
+    const result = await readQuestionRows(storage, tab)
+    return NextResponse.json({
+      success: true,
+      message: `${result.rows.length} question entries read from "${result.tab}"`,
+      storage: storage.name,
+      ...result
+    })
+  } catch (error: any) {
+    if (error instanceof SheetTabNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    console.error('Error reading from sheets:', error)
+    return NextResponse.json(
+      { error: 'Failed to read from the sheet', details: error.message },
+      { status: 500 }
+    )
+  }
 }
 
 export async function POST(request: NextRequest) {
+  const user = await sessionUser(request)
+  if (!user) {
+    return NextResponse.json(UNAUTHENTICATED, { status: 401 })
+  }
+
   try {
-    const { questions, inputParameters }: { 
+    const { questions, inputParameters: rawInputParameters, columns: mapping, tab: target }: { 
       questions: Question[]
-      inputParameters: InputParameters 
+      inputParameters: unknown
+      columns?: string | string[]
+      tab?: SheetTarget
     } = await request.json()
 
     if (!questions || questions.length === 0) {
@@ -39,108 +72,43 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Check if Google Sheets credentials are configured
-    if (!process.env.GOOGLE_SHEETS_CLIENT_EMAIL || !process.env.GOOGLE_SHEETS_PRIVATE_KEY) {
-      // Fallback: Just log the questions and return success
-      console.log('Google Sheets credentials not configured. Questions to be sent:', questions.map(q => ({
-        title: q.title,
-        language: q.language,
-        type: inputParameters.type
-      })))
-      console.log('Input Parameters:', inputParameters)
-      
-      return NextResponse.json({ 
-        success: true, 
-        message: `${questions.length} questions would be sent to Google Sheets`,
-        note: 'Google Sheets credentials not configured. Questions logged to console.',
-        questions: questions.map(q => `${q.title} (${q.language?.toUpperCase() || 'N/A'})`)
-      })
-    }
-
+    let columns: SheetColumnKey[]
     try {
-      // Set up Google Sheets API authentication
-      const auth = new google.auth.GoogleAuth({
-        credentials: {
-          client_email: process.env.GOOGLE_SHEETS_CLIENT_EMAIL,
-          private_key: process.env.GOOGLE_SHEETS_PRIVATE_KEY.replace(/\\n/g, '\n'),
-        },
-        scopes: ['https://www.googleapis.com/auth/spreadsheets'],
-      })
-
-      const sheets = google.sheets({ version: 'v4', auth })
-
-      // Prepare data for the sheet - each question-language combination gets its own row
-      // Group questions by their base question (same problem, different languages)
-      const questionGroups = new Map()
-      questions.forEach(question => {
-        // Extract base question ID (remove language suffix)
-        const baseId = question.id.replace(/-[^-]+$/, '')
-        if (!questionGroups.has(baseId)) {
-          questionGroups.set(baseId, [])
-        }
-        questionGroups.get(baseId).push(question)
-      })
+      columns = resolveColumns(mapping)
+    } catch (error) {
+      if (error instanceof SheetMappingError) {
+        return NextResponse.json({ error: error.message }, { status: 400 })
+      }
+      throw error
+    }
 
-      // Assign numbers to question groups
-      const questionNumbers = new Map()
-      let questionNumber = 1
-      questionGroups.forEach((group, baseId) => {
-        questionNumbers.set(baseId, questionNumber++)
-      })
+    // Only the values the layout writes are required, so rows imported from
+    // a tab without a Topic column can be sent back to it
+    const required: Partial<Record<keyof SheetInputParameters, true>> =
+      Object.fromEntries(requiredSheetParameters(columns, target).map(key => [key, true]))
+    const validation = validateRequest(sheetInputParametersSchema.required(required), rawInputParameters, 'inputParameters')
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Invalid sheet request', fieldErrors: validation.fieldErrors }, { status: 400 })
+    }
+    const inputParameters = validation.data
 
-      const values = questions.map((question) => {
-        // Get question number from base ID
-        const baseId = question.id.replace(/-[^-]+$/, '')
-        const questionNum = questionNumbers.get(baseId) || 1
-
-        return [
-          inputParameters.positionName, // Position Name
-          question.language?.toUpperCase() || 'N/A', // Language
-          // Format problem field - include function template ONLY for complete_code type
-          `${question.problemStatement}\n\nExample:\nInput: ${question.sampleInput}\nOutput: ${question.sampleOutput}\n\nConstraints:\n${question.constraints}${inputParameters.type === 'complete_code' && question.implementation ? `\n\n${question.implementation}` : ''}`,
-          inputParameters.hint || question.hint || '', // Hint
-          inputParameters.type, // Type
-          inputParameters.difficultyLevel // Difficulty level
-        ]
-      })
+    const tab = resolveTabName(target, inputParameters, questions[0].id)
 
-      // Simple header row with only the requested columns
-      const headerRow = [
-        'Position Name',
-        'Language',
-        'Problem',
-        'Hint',
-        'Type',
-        'Difficulty level'
-      ]
-
-      // First, try to add headers (this will fail if headers already exist, which is fine)
-      try {
-        await sheets.spreadsheets.values.update({
-          spreadsheetId: process.env.GOOGLE_SHEETS_ID,
-          range: 'Sheet1!A1:F1',
-          valueInputOption: 'RAW',
-          requestBody: {
-            values: [headerRow],
-          },
-        })
-      } catch (headerError) {
-        // Headers might already exist, continue
-        console.log('Headers might already exist, continuing...')
-      }
+    try {
+      // Google Sheets when credentials are configured, the local workbook otherwise
+      const storage = getSheetStorage()
 
-      // Append the question data
-      const result = await sheets.spreadsheets.values.append({
-        spreadsheetId: process.env.GOOGLE_SHEETS_ID,
-        range: 'Sheet1!A:F',
-        valueInputOption: 'RAW',
-        insertDataOption: 'INSERT_ROWS',
-        requestBody: {
-          values,
-        },
-      })
+      // Each question-language combination gets its own row, keyed by question ID
+      const result = await upsertQuestionRows(storage, questions, inputParameters, { columns, tab })
 
-      console.log(`Successfully added ${questions.length} question entries to Google Sheets`)
+      console.log(`Sheet tab "${result.tab}" (${storage.name}): ${result.created.length} question entries added, ${result.updated.length} updated`)
+      await recordHistory({
+        userId: user.id,
+        kind: 'sheet',
+        status: 'succeeded',
+        questions,
+        detail: `Tab "${result.tab}" (${describeStorage(storage)})`
+      }).catch(error => console.error('Failed to record history:', error))
 
       // Group questions by their base title for response
       const questionSummary = questions.reduce((acc, q) => {
@@ -154,26 +122,30 @@ export async function POST(request: NextRequest) {
 
       return NextResponse.json({ 
         success: true, 
-        message: `${questions.length} question entries successfully sent to Google Sheets`,
+        message: `${result.created.length} question entries added and ${result.updated.length} updated in "${result.tab}" (${describeStorage(storage)})`,
         details: `Each language creates a separate row in the sheet`,
-        updatedRows: result.data.updates?.updatedRows || 0,
+        storage: storage.name,
+        location: storage.location,
+        tab: result.tab,
+        created: result.created,
+        updated: result.updated,
         questionSummary,
         inputParameters: {
           ...inputParameters,
-          totalLanguages: inputParameters.languages.length,
+          totalLanguages: new Set(questions.map(q => q.language)).size,
           totalEntries: questions.length
         }
       })
 
     } catch (sheetsError: any) {
-      console.error('Google Sheets API error:', sheetsError)
+      console.error('Sheet storage error:', sheetsError)
+      await recordHistory({ userId: user.id, kind: 'sheet', status: 'failed', questions, detail: sheetsError.message })
+        .catch(error => console.error('Failed to record history:', error))
       
-      // Fallback response
       return NextResponse.json({ 
         success: false, 
-        error: 'Failed to connect to Google Sheets',
+        error: 'Failed to write to the sheet',
         details: sheetsError.message,
-        fallback: `${questions.length} questions logged to console`,
         questions: questions.map(q => `${q.title} (${q.language?.toUpperCase() || 'N/A'})`)
       }, { status: 500 })
     }
@@ -207,4 +179,7 @@ Setup Instructions for Google Sheets Integration:
    - GOOGLE_SHEETS_CLIENT_EMAIL=your-service-account-email
    - GOOGLE_SHEETS_PRIVATE_KEY=your-private-key-from-json-file
    - GOOGLE_SHEETS_ID=your-google-sheet-id (from the URL)
+
+Without these credentials rows are written to a local workbook instead: one
+CSV file per tab in data/sheets (LOCAL_SHEETS_DIR), with the same columns.
 */ 
\ No newline at end of file
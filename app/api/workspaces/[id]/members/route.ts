@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { UNAUTHENTICATED, sessionUser } from '@/lib/auth'
+import { findUserByEmail } from '@/lib/store/users'
+import { WorkspaceAccessError, WorkspaceValidationError, changeMembership, withMembers } from '@/lib/store/workspaces'
+
+interface RouteContext {
+  params: { id: string }
+}
+
+// Adds the user with { email } to the workspace; owner only
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const user = await sessionUser(request)
+  if (!user) {
+    return NextResponse.json(UNAUTHENTICATED, { status: 401 })
+  }
+
+  const { email } = await request.json().catch(() => ({}))
+  if (typeof email !== 'string' || !email.trim()) {
+    return NextResponse.json({ error: 'email is required' }, { status: 400 })
+  }
+  const member = await findUserByEmail(email)
+  if (!member) {
+    return NextResponse.json({ error: `No account uses ${email.trim()}` }, { status: 404 })
+  }
+
+  return respond(() => changeMembership(params.id, user.id, { add: member.id }))
+}
+
+// Removes { userId }; members may remove themselves, the owner anyone else
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const user = await sessionUser(request)
+  if (!user) {
+    return NextResponse.json(UNAUTHENTICATED, { status: 401 })
+  }
+
+  const { userId } = await request.json().catch(() => ({}))
+  if (typeof userId !== 'string') {
+    return NextResponse.json({ error: 'userId is required' }, { status: 400 })
+  }
+
+  return respond(() => changeMembership(params.id, user.id, { remove: userId }))
+}
+
+async function respond(change: () => ReturnType<typeof changeMembership>) {
+  try {
+    const workspace = await change()
+    if (!workspace) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 })
+    }
+    return NextResponse.json({ workspace: await withMembers(workspace) })
+  } catch (error: any) {
+    if (error instanceof WorkspaceAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    if (error instanceof WorkspaceValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('Error changing workspace members:', error)
+    return NextResponse.json(
+      { error: 'Failed to change workspace members', details: error.message },
+      { status: 500 }
+    )
+  }
+}
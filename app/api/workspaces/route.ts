@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { UNAUTHENTICATED, sessionUser } from '@/lib/auth'
+import { WorkspaceValidationError, createWorkspace, listWorkspacesFor, withMembers } from '@/lib/store/workspaces'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+  const user = await sessionUser(request)
+  if (!user) {
+    return NextResponse.json(UNAUTHENTICATED, { status: 401 })
+  }
+
+  const workspaces = await listWorkspacesFor(user.id)
+  return NextResponse.json({ workspaces: await Promise.all(workspaces.map(withMembers)) })
+}
+
+// Creates a workspace from { name }, owned by the signed-in user
+export async function POST(request: NextRequest) {
+  const user = await sessionUser(request)
+  if (!user) {
+    return NextResponse.json(UNAUTHENTICATED, { status: 401 })
+  }
+
+  try {
+    const { name } = await request.json()
+    const workspace = await createWorkspace(name, user.id)
+    return NextResponse.json({ workspace: await withMembers(workspace) }, { status: 201 })
+  } catch (error: any) {
+    if (error instanceof WorkspaceValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('Error creating workspace:', error)
+    return NextResponse.json(
+      { error: 'Failed to create workspace', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,403 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { toast } from 'react-hot-toast'
+import { CheckCircle2, Clock, Play, RefreshCw, Send, XCircle } from 'lucide-react'
+import CodeEditor from '@/app/components/CodeEditor'
+import type { AssessmentSummary, CandidateQuestion, CandidateSessionView, CandidateSubmission } from '@/lib/assessment'
+import { OUTCOME_NAMES } from '@/lib/assessment/outcomes'
+import { LANGUAGES, assessmentStartSchema, messagesByField, validateRequest } from '@/lib/requestSchema'
+
+interface AssessmentPageProps {
+  params: { token: string }
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+const languageName = (id: string) => LANGUAGES.find(language => language.id === id)?.name ?? id
+
+// The session id is kept in the browser so a reload resumes the timer
+// instead of starting a new attempt
+const sessionKey = (token: string) => `assessment-session:${token}`
+const draftsKey = (sessionId: string) => `assessment-drafts:${sessionId}`
+
+function formatRemaining(ms: number): string {
+  const seconds = Math.max(0, Math.floor(ms / 1000))
+  const hours = Math.floor(seconds / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `${hours > 0 ? `${hours}:` : ''}${pad(minutes)}:${pad(seconds % 60)}`
+}
+
+export default function AssessmentPage({ params }: AssessmentPageProps) {
+  const { token } = params
+  const [summary, setSummary] = useState<AssessmentSummary | null>(null)
+  const [loadError, setLoadError] = useState('')
+  const [candidateName, setCandidateName] = useState('')
+  const [language, setLanguage] = useState('')
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({})
+  const [session, setSession] = useState<CandidateSessionView | null>(null)
+  const [questions, setQuestions] = useState<CandidateQuestion[]>([])
+  const [drafts, setDrafts] = useState<Record<string, string>>({})
+  const [currentIndex, setCurrentIndex] = useState(0)
+  const [now, setNow] = useState(Date.now())
+  const [isStarting, setIsStarting] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [isFinishing, setIsFinishing] = useState(false)
+
+  const openSession = useCallback((data: { assessment: AssessmentSummary; session: CandidateSessionView; questions: CandidateQuestion[] }) => {
+    setSummary(data.assessment)
+    setSession(data.session)
+    setQuestions(data.questions)
+
+    // Saved drafts first, then the last submission, then the starter code
+    const saved = JSON.parse(localStorage.getItem(draftsKey(data.session.id)) || '{}')
+    setDrafts(Object.fromEntries(data.questions.map(question => [
+      question.id,
+      saved[question.id]
+        ?? data.session.submissions.find(submission => submission.questionId === question.id)?.code
+        ?? question.starterCode
+    ])))
+  }, [])
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const sessionId = localStorage.getItem(sessionKey(token))
+        if (sessionId) {
+          const response = await fetch(`/api/assess/${encodeURIComponent(token)}/sessions/${encodeURIComponent(sessionId)}`)
+          if (response.ok) {
+            openSession(await response.json())
+            return
+          }
+          localStorage.removeItem(sessionKey(token))
+        }
+
+        const response = await fetch(`/api/assess/${encodeURIComponent(token)}`)
+        const data = await response.json()
+        if (!response.ok) {
+          setLoadError(data.error || 'Failed to load the assessment')
+          return
+        }
+        setSummary(data.assessment)
+        setLanguage(data.assessment.languages[0] ?? '')
+      } catch (error) {
+        setLoadError('Failed to load the assessment')
+        console.error('Error:', error)
+      }
+    }
+    load()
+  }, [token, openSession])
+
+  useEffect(() => {
+    if (!session || session.finishedAt) return
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [session])
+
+  useEffect(() => {
+    if (session) localStorage.setItem(draftsKey(session.id), JSON.stringify(drafts))
+  }, [session, drafts])
+
+  const remainingMs = session ? Date.parse(session.deadline) - now : 0
+  const isOver = !!session && (!!session.finishedAt || remainingMs <= 0)
+
+  const start = async () => {
+    const validation = validateRequest(assessmentStartSchema, { candidateName, language })
+    if (!validation.success) {
+      setFieldErrors(messagesByField(validation.fieldErrors))
+      return
+    }
+    setFieldErrors({})
+
+    setIsStarting(true)
+    try {
+      const response = await fetch(`/api/assess/${encodeURIComponent(token)}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(validation.data),
+      })
+      const data = await response.json()
+      if (response.status === 400 && data.fieldErrors) {
+        setFieldErrors(messagesByField(data.fieldErrors))
+        return
+      }
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to start the assessment')
+      }
+
+      localStorage.setItem(sessionKey(token), data.session.id)
+      setNow(Date.now())
+      openSession(data)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error starting the assessment. Please try again.')
+      console.error('Error:', error)
+    } finally {
+      setIsStarting(false)
+    }
+  }
+
+  const submit = async () => {
+    if (!session) return
+    const question = questions[currentIndex]
+    setIsSubmitting(true)
+    try {
+      const response = await fetch(`/api/assess/${encodeURIComponent(token)}/sessions/${encodeURIComponent(session.id)}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ questionId: question.id, code: drafts[question.id] }),
+      })
+      const data = await response.json()
+      if (response.status === 409) {
+        setSession(prev => prev && { ...prev, finishedAt: prev.finishedAt ?? prev.deadline })
+        toast.error(data.error)
+        return
+      }
+      if (!response.ok) {
+        throw new Error(data.fieldErrors?.[0]?.message || data.error || 'Failed to submit')
+      }
+
+      const submission: CandidateSubmission = data.submission
+      setSession(prev => prev && {
+        ...prev,
+        score: data.score,
+        submissions: [...prev.submissions.filter(existing => existing.questionId !== submission.questionId), submission]
+      })
+      toast.success(`${submission.passed} of ${submission.total} tests passed`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error submitting. Please try again.')
+      console.error('Error:', error)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const finish = async () => {
+    if (!session || !window.confirm('Hand in the assessment? You will not be able to submit again.')) return
+    setIsFinishing(true)
+    try {
+      const response = await fetch(`/api/assess/${encodeURIComponent(token)}/sessions/${encodeURIComponent(session.id)}/finish`, { method: 'POST' })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to hand in')
+      }
+      setSession(data.session)
+      toast.success('Assessment handed in')
+    } catch (error) {
+      toast.error('Error handing in. Please try again.')
+      console.error('Error:', error)
+    } finally {
+      setIsFinishing(false)
+    }
+  }
+
+  if (loadError) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-16 px-4">
+        <div className="max-w-md mx-auto bg-white rounded-lg shadow-lg p-6 text-center">
+          <XCircle className="mx-auto h-10 w-10 text-red-500 mb-3" />
+          <p className="text-gray-700">{loadError}</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!summary) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-16 text-center text-gray-600">
+        Loading assessment...
+      </div>
+    )
+  }
+
+  if (!session) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-16 px-4">
+        <div className="max-w-md mx-auto bg-white rounded-lg shadow-lg p-6">
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">{summary.title}</h1>
+          <p className="text-sm text-gray-600 mb-6 inline-flex items-center">
+            <Clock className="mr-1 h-4 w-4" />
+            {summary.questionCount} question{summary.questionCount === 1 ? '' : 's'} · {summary.durationMinutes} minutes
+          </p>
+          <p className="text-sm text-gray-600 mb-6">
+            The timer starts when you press Start and keeps running if you close the page. Each question is graded
+            against hidden tests when you submit it; you can submit as often as you like until the time is up.
+          </p>
+          <div className="space-y-4">
+            <div>
+              <label htmlFor="candidateName" className="block text-sm font-medium text-gray-700 mb-2">Your Name</label>
+              <input
+                id="candidateName"
+                type="text"
+                value={candidateName}
+                onChange={(e) => setCandidateName(e.target.value)}
+                className={inputClassName}
+              />
+              {fieldErrors.candidateName && <p className="text-xs text-red-600 mt-1">{fieldErrors.candidateName}</p>}
+            </div>
+            <div>
+              <label htmlFor="candidateLanguage" className="block text-sm font-medium text-gray-700 mb-2">Language</label>
+              <select
+                id="candidateLanguage"
+                value={language}
+                onChange={(e) => setLanguage(e.target.value)}
+                className={inputClassName}
+              >
+                {summary.languages.map(id => <option key={id} value={id}>{languageName(id)}</option>)}
+              </select>
+              {fieldErrors.language && <p className="text-xs text-red-600 mt-1">{fieldErrors.language}</p>}
+            </div>
+            <button
+              onClick={start}
+              disabled={isStarting}
+              className="w-full inline-flex justify-center items-center px-6 py-3 border border-transparent text-base font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isStarting ? <RefreshCw className="animate-spin -ml-1 mr-3 h-5 w-5" /> : <Play className="-ml-1 mr-3 h-5 w-5" />}
+              Start
+            </button>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  const question = questions[currentIndex]
+  const submissionFor = (questionId: string) => session.submissions.find(submission => submission.questionId === questionId)
+  const submission = question && submissionFor(question.id)
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="bg-white rounded-lg shadow-lg p-4 mb-6 flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h1 className="text-xl font-bold text-gray-900">{summary.title}</h1>
+            <p className="text-sm text-gray-600">{session.candidateName} · {languageName(session.language)}</p>
+          </div>
+          <div className="flex items-center space-x-4">
+            <span className={`inline-flex items-center font-mono text-lg ${!isOver && remainingMs < 5 * 60 * 1000 ? 'text-red-600' : 'text-gray-800'}`}>
+              <Clock className="mr-2 h-5 w-5" />
+              {isOver ? 'Time is up' : formatRemaining(remainingMs)}
+            </span>
+            <span className="text-sm text-gray-600">Score: {session.score}%</span>
+            <button
+              onClick={finish}
+              disabled={isOver || isFinishing}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              Hand In
+            </button>
+          </div>
+        </div>
+
+        {isOver && (
+          <p className="text-sm text-blue-800 bg-blue-50 p-3 rounded border-l-4 border-blue-400 mb-6">
+            This assessment has ended. Your submitted answers have been saved for the interviewer.
+          </p>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
+          <nav className="lg:col-span-2 space-y-2">
+            {questions.map((candidate, index) => {
+              const answered = submissionFor(candidate.id)
+              return (
+                <button
+                  key={candidate.id}
+                  onClick={() => setCurrentIndex(index)}
+                  className={`w-full text-left px-3 py-2 rounded-md text-sm ${index === currentIndex ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                >
+                  <span className="font-bold mr-1">{index + 1}.</span>
+                  {candidate.title}
+                  {answered && <span className="block text-xs opacity-80">{answered.passed}/{answered.total} tests</span>}
+                </button>
+              )
+            })}
+          </nav>
+
+          {question && (
+            <div className="lg:col-span-5 bg-white rounded-lg shadow-lg p-6 space-y-4 text-sm">
+              <h2 className="text-xl font-semibold text-gray-800">{question.title}</h2>
+              <p className="text-gray-700 whitespace-pre-wrap">{question.problemStatement}</p>
+              <div>
+                <h3 className="font-semibold text-gray-800 mb-1">Input Format</h3>
+                <p className="text-gray-700 whitespace-pre-wrap">{question.inputFormat}</p>
+              </div>
+              <div>
+                <h3 className="font-semibold text-gray-800 mb-1">Output Format</h3>
+                <p className="text-gray-700 whitespace-pre-wrap">{question.outputFormat}</p>
+              </div>
+              <div>
+                <h3 className="font-semibold text-gray-800 mb-1">Constraints</h3>
+                <p className="text-gray-700 whitespace-pre-wrap">{question.constraints}</p>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div>
+                  <h3 className="font-semibold text-gray-800 mb-1">Sample Input</h3>
+                  <pre className="bg-gray-50 p-2 rounded text-xs overflow-x-auto">{question.sampleInput}</pre>
+                </div>
+                <div>
+                  <h3 className="font-semibold text-gray-800 mb-1">Sample Output</h3>
+                  <pre className="bg-gray-50 p-2 rounded text-xs overflow-x-auto">{question.sampleOutput}</pre>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {question && (
+            <div className="lg:col-span-5 space-y-4">
+              <CodeEditor
+                value={drafts[question.id] ?? ''}
+                onChange={(code) => setDrafts(prev => ({ ...prev, [question.id]: code }))}
+                readOnly={isOver}
+                label={`Your ${languageName(session.language)} solution`}
+              />
+              <div className="flex items-center justify-between">
+                <button
+                  onClick={() => setDrafts(prev => ({ ...prev, [question.id]: question.starterCode }))}
+                  disabled={isOver}
+                  className="text-sm text-gray-600 hover:text-gray-800 disabled:opacity-50"
+                >
+                  Reset to starter code
+                </button>
+                <button
+                  onClick={submit}
+                  disabled={isOver || isSubmitting}
+                  className="inline-flex items-center px-6 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700 disabled:opacity-50"
+                >
+                  {isSubmitting ? <RefreshCw className="animate-spin -ml-1 mr-2 h-4 w-4" /> : <Send className="-ml-1 mr-2 h-4 w-4" />}
+                  {isSubmitting ? 'Running tests...' : `Submit (${question.testCount} tests)`}
+                </button>
+              </div>
+
+              {submission && (
+                <div className="bg-white rounded-lg shadow p-4">
+                  <h3 className="font-semibold text-gray-800 mb-2">
+                    {submission.passed} of {submission.total} tests passed · attempt {submission.attempts}
+                  </h3>
+                  <ul className="space-y-1 text-sm">
+                    {submission.results.map((result, index) => (
+                      <li key={index}>
+                        <span className="inline-flex items-center">
+                          {result.outcome === 'passed'
+                            ? <CheckCircle2 className="mr-2 h-4 w-4 text-green-600" />
+                            : <XCircle className="mr-2 h-4 w-4 text-red-600" />}
+                          Test {index + 1} ({result.kind}): {OUTCOME_NAMES[result.outcome]} · {result.durationMs} ms
+                        </span>
+                        {result.kind === 'sample' && result.outcome !== 'passed' && (result.error || result.actualOutput) && (
+                          <pre className="bg-gray-50 p-2 rounded text-xs mt-1 overflow-x-auto">{result.error || result.actualOutput}</pre>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,357 @@
+'use client'
+
+import { Fragment, useCallback, useEffect, useState } from 'react'
+import { toast } from 'react-hot-toast'
+import { AlertTriangle, CheckCircle2, ChevronDown, ChevronUp, Clock, Copy, Plus, RefreshCw, Trash2, XCircle } from 'lucide-react'
+import type { Assessment, CandidateSession } from '@/lib/assessment'
+import { OUTCOME_NAMES } from '@/lib/assessment/outcomes'
+import type { Paper } from '@/lib/paper'
+import { MAX_TIME_BUDGET_MINUTES } from '@/lib/requestSchema'
+
+interface AssessmentsPanelProps {
+  onUnauthorized: () => void
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+const candidateLink = (assessment: Assessment) => `${window.location.origin}/assess/${assessment.token}`
+
+function sessionStatus(session: CandidateSession): string {
+  if (session.finishedAt) return session.finishedAt >= session.deadline ? 'Time ran out' : 'Handed in'
+  return Date.now() > Date.parse(session.deadline) ? 'Time ran out' : 'In progress'
+}
+
+export default function AssessmentsPanel({ onUnauthorized }: AssessmentsPanelProps) {
+  const [assessments, setAssessments] = useState<Assessment[]>([])
+  const [papers, setPapers] = useState<Paper[]>([])
+  const [gradingAvailable, setGradingAvailable] = useState(true)
+  const [paperId, setPaperId] = useState('')
+  const [title, setTitle] = useState('')
+  const [durationMinutes, setDurationMinutes] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [isCreating, setIsCreating] = useState(false)
+  const [openId, setOpenId] = useState<string | null>(null)
+  const [sessions, setSessions] = useState<CandidateSession[]>([])
+  const [openSessionId, setOpenSessionId] = useState<string | null>(null)
+
+  const loadAssessments = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const [assessmentsResponse, papersResponse] = await Promise.all([fetch('/api/assessments'), fetch('/api/papers')])
+      if (assessmentsResponse.status === 401 || papersResponse.status === 401) {
+        onUnauthorized()
+        return
+      }
+      if (!assessmentsResponse.ok || !papersResponse.ok) {
+        throw new Error('Failed to load assessments')
+      }
+      const data = await assessmentsResponse.json()
+      setAssessments(data.assessments)
+      setGradingAvailable(data.gradingAvailable)
+      setPapers((await papersResponse.json()).papers)
+    } catch (error) {
+      toast.error('Error loading assessments.')
+      console.error('Error:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [onUnauthorized])
+
+  useEffect(() => {
+    loadAssessments()
+  }, [loadAssessments])
+
+  const loadResults = async (id: string) => {
+    try {
+      const response = await fetch(`/api/assessments/${encodeURIComponent(id)}`)
+      if (response.status === 401) {
+        onUnauthorized()
+        return
+      }
+      if (!response.ok) {
+        throw new Error('Failed to load results')
+      }
+      setSessions((await response.json()).sessions)
+      setOpenId(id)
+      setOpenSessionId(null)
+    } catch (error) {
+      toast.error('Error loading results.')
+      console.error('Error:', error)
+    }
+  }
+
+  const createAssessment = async () => {
+    if (!paperId) {
+      toast.error('Choose a paper first')
+      return
+    }
+
+    setIsCreating(true)
+    try {
+      const response = await fetch('/api/assessments', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          paperId,
+          title: title || undefined,
+          durationMinutes: durationMinutes ? Number(durationMinutes) : undefined
+        }),
+      })
+
+      if (response.status === 401) {
+        onUnauthorized()
+        return
+      }
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.fieldErrors?.[0]?.message || data.details || data.error || 'Failed to create assessment')
+      }
+
+      setAssessments(prev => [data.assessment, ...prev])
+      setTitle('')
+      setDurationMinutes('')
+      toast.success(`Created "${data.assessment.title}"`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error creating assessment. Please try again.')
+      console.error('Error:', error)
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const removeAssessment = async (id: string) => {
+    if (!window.confirm('Delete this assessment and all candidate results?')) return
+    try {
+      const response = await fetch(`/api/assessments/${encodeURIComponent(id)}`, { method: 'DELETE' })
+      if (response.status === 401) {
+        onUnauthorized()
+        return
+      }
+      if (!response.ok) {
+        throw new Error('Failed to delete assessment')
+      }
+      setAssessments(prev => prev.filter(assessment => assessment.id !== id))
+      if (openId === id) setOpenId(null)
+      toast.success('Assessment deleted')
+    } catch (error) {
+      toast.error('Error deleting assessment. Please try again.')
+      console.error('Error:', error)
+    }
+  }
+
+  const copyLink = async (assessment: Assessment) => {
+    try {
+      await navigator.clipboard.writeText(candidateLink(assessment))
+      toast.success('Candidate link copied')
+    } catch {
+      toast.error('Could not copy the link')
+    }
+  }
+
+  const selectedPaper = papers.find(paper => paper.id === paperId)
+
+  return (
+    <div className="space-y-8">
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <h2 className="text-2xl font-semibold text-gray-800 mb-2">New Assessment</h2>
+        <p className="text-sm text-gray-600 mb-6">
+          Candidates open the link, pick a language and solve the paper&apos;s questions against the clock. Each submission is run against the question&apos;s hidden tests.
+        </p>
+        {!gradingAvailable && (
+          <p className="text-sm text-amber-800 bg-amber-50 p-3 rounded border-l-4 border-amber-400 mb-6 inline-flex items-center">
+            <AlertTriangle className="mr-2 h-4 w-4" />
+            Candidate grading is turned off until an isolated sandbox is configured with SANDBOX_ISOLATION_COMMAND.
+          </p>
+        )}
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6 items-end">
+          <div>
+            <label htmlFor="assessmentPaper" className="block text-sm font-medium text-gray-700 mb-2">Paper</label>
+            <select id="assessmentPaper" value={paperId} onChange={(e) => setPaperId(e.target.value)} className={inputClassName}>
+              <option value="">Choose a paper...</option>
+              {papers.map(paper => (
+                <option key={paper.id} value={paper.id}>{paper.title} · {paper.questions.length} questions</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="assessmentTitle" className="block text-sm font-medium text-gray-700 mb-2">Title (Optional)</label>
+            <input
+              id="assessmentTitle"
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder={selectedPaper?.title}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="assessmentDuration" className="block text-sm font-medium text-gray-700 mb-2">Duration (minutes)</label>
+            <input
+              id="assessmentDuration"
+              type="number"
+              min={5}
+              max={MAX_TIME_BUDGET_MINUTES}
+              value={durationMinutes}
+              onChange={(e) => setDurationMinutes(e.target.value)}
+              placeholder={selectedPaper ? String(selectedPaper.timeBudgetMinutes) : 'Paper time budget'}
+              className={inputClassName}
+            />
+          </div>
+          <button
+            onClick={createAssessment}
+            disabled={isCreating || !paperId || !gradingAvailable}
+            className="inline-flex justify-center items-center px-6 py-2 border border-transparent text-base font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isCreating ? <RefreshCw className="animate-spin -ml-1 mr-2 h-5 w-5" /> : <Plus className="-ml-1 mr-2 h-5 w-5" />}
+            Create Assessment
+          </button>
+        </div>
+        {papers.length === 0 && !isLoading && (
+          <p className="text-sm text-gray-500 mt-4">Build a paper in the Paper tab first.</p>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-2xl font-semibold text-gray-800">Assessments</h2>
+          <button
+            onClick={loadAssessments}
+            disabled={isLoading}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            <RefreshCw className={`-ml-1 mr-2 h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
+
+        {assessments.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">
+            {isLoading ? 'Loading assessments...' : 'No assessments yet.'}
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {assessments.map(assessment => (
+              <div key={assessment.id} className="border border-gray-200 rounded-lg p-4">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <h3 className="font-semibold text-gray-800">{assessment.title}</h3>
+                    <p className="text-xs text-gray-500 mt-1 inline-flex items-center">
+                      <Clock className="mr-1 h-3 w-3" />
+                      {assessment.questions.length} question{assessment.questions.length === 1 ? '' : 's'} · {assessment.durationMinutes} min
+                      · {assessment.languages.join(', ')} · {new Date(assessment.createdAt).toLocaleString()}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2 ml-4">
+                    <button
+                      onClick={() => copyLink(assessment)}
+                      title="Copy the candidate link"
+                      className="p-2 rounded-full bg-blue-50 text-blue-600 hover:bg-blue-100"
+                    >
+                      <Copy className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => openId === assessment.id ? setOpenId(null) : loadResults(assessment.id)}
+                      title="Show candidate results"
+                      className="p-2 rounded-full bg-gray-100 text-gray-600 hover:bg-gray-200"
+                    >
+                      {openId === assessment.id ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                    </button>
+                    <button
+                      onClick={() => removeAssessment(assessment.id)}
+                      title="Delete this assessment"
+                      className="p-2 rounded-full bg-red-50 text-red-600 hover:bg-red-100"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+
+                {openId === assessment.id && (
+                  <div className="mt-4 border-t border-gray-200 pt-4">
+                    {sessions.length === 0 ? (
+                      <p className="text-sm text-gray-500">No candidate has started yet.</p>
+                    ) : (
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-gray-500">
+                            <th className="py-1">Candidate</th>
+                            <th className="py-1">Language</th>
+                            <th className="py-1">Started</th>
+                            <th className="py-1">Status</th>
+                            <th className="py-1">Score</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {sessions.map(session => (
+                            <Fragment key={session.id}>
+                              <tr
+                                onClick={() => setOpenSessionId(openSessionId === session.id ? null : session.id)}
+                                className="border-t border-gray-100 cursor-pointer hover:bg-gray-50"
+                              >
+                                <td className="py-2 font-medium text-gray-800">{session.candidateName}</td>
+                                <td className="py-2">{session.language}</td>
+                                <td className="py-2">{new Date(session.startedAt).toLocaleString()}</td>
+                                <td className="py-2">{sessionStatus(session)}</td>
+                                <td className="py-2 font-semibold">{session.score}%</td>
+                              </tr>
+                              {openSessionId === session.id && (
+                                <tr>
+                                  <td colSpan={5} className="pb-4">
+                                    <div className="space-y-3">
+                                      {assessment.questions.map((question, index) => {
+                                        const submission = session.submissions.find(candidate => candidate.questionId === question.id)
+                                        return (
+                                          <details key={question.id} className="border border-gray-200 rounded p-3">
+                                            <summary className="cursor-pointer">
+                                              <span className="font-bold text-blue-600 mr-2">{index + 1}.</span>
+                                              {question.title}
+                                              <span className="text-xs text-gray-500 ml-2">
+                                                {submission
+                                                  ? `${submission.passed}/${submission.total} tests · ${submission.score}% · ${submission.attempts} attempt${submission.attempts === 1 ? '' : 's'}`
+                                                  : 'Not submitted'}
+                                              </span>
+                                            </summary>
+                                            {submission && (
+                                              <div className="mt-3 space-y-2">
+                                                <pre className="bg-gray-900 text-gray-100 p-3 rounded text-xs overflow-x-auto">{submission.code}</pre>
+                                                <ul className="space-y-1">
+                                                  {submission.results.map((result, resultIndex) => (
+                                                    <li key={resultIndex}>
+                                                      <span className="inline-flex items-center">
+                                                        {result.outcome === 'passed'
+                                                          ? <CheckCircle2 className="mr-2 h-4 w-4 text-green-600" />
+                                                          : <XCircle className="mr-2 h-4 w-4 text-red-600" />}
+                                                        {result.description} ({result.kind}): {OUTCOME_NAMES[result.outcome]} · {result.durationMs} ms
+                                                      </span>
+                                                      {result.outcome !== 'passed' && (result.error || result.actualOutput) && (
+                                                        <pre className="bg-gray-50 p-2 rounded text-xs mt-1 overflow-x-auto">{result.error || result.actualOutput}</pre>
+                                                      )}
+                                                    </li>
+                                                  ))}
+                                                </ul>
+                                              </div>
+                                            )}
+                                          </details>
+                                        )
+                                      })}
+                                    </div>
+                                  </td>
+                                </tr>
+                              )}
+                            </Fragment>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
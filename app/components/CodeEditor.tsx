@@ -0,0 +1,69 @@
+'use client'
+
+import { KeyboardEvent, useRef } from 'react'
+
+interface CodeEditorProps {
+  value: string
+  onChange: (value: string) => void
+  readOnly?: boolean
+  label?: string
+}
+
+const INDENT = '    '
+
+// A plain textarea with line numbers that indents with Tab instead of
+// moving focus, and keeps the current line's indentation on Enter
+export default function CodeEditor({ value, onChange, readOnly = false, label = 'Code editor' }: CodeEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const gutterRef = useRef<HTMLDivElement>(null)
+  const lineCount = value.split('\n').length
+
+  const replaceSelection = (text: string, start: number, end: number) => {
+    onChange(value.slice(0, start) + text + value.slice(end))
+    // Restore the caret once React has rendered the new value
+    requestAnimationFrame(() => {
+      textareaRef.current?.setSelectionRange(start + text.length, start + text.length)
+    })
+  }
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (readOnly) return
+    const { selectionStart, selectionEnd } = e.currentTarget
+
+    if (e.key === 'Tab' && !e.shiftKey) {
+      e.preventDefault()
+      replaceSelection(INDENT, selectionStart, selectionEnd)
+    } else if (e.key === 'Enter') {
+      e.preventDefault()
+      const lineStart = value.lastIndexOf('\n', selectionStart - 1) + 1
+      const indentation = value.slice(lineStart).match(/^[ \t]*/)?.[0] ?? ''
+      replaceSelection(`\n${indentation}`, selectionStart, selectionEnd)
+    }
+  }
+
+  return (
+    <div className="flex border border-gray-300 rounded-md overflow-hidden bg-gray-900 font-mono text-sm">
+      <div
+        ref={gutterRef}
+        aria-hidden="true"
+        className="select-none text-right text-gray-500 bg-gray-800 px-2 py-3 overflow-hidden leading-6"
+      >
+        {Array.from({ length: lineCount }, (_, i) => <div key={i}>{i + 1}</div>)}
+      </div>
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onScroll={(e) => {
+          if (gutterRef.current) gutterRef.current.scrollTop = e.currentTarget.scrollTop
+        }}
+        readOnly={readOnly}
+        spellCheck={false}
+        aria-label={label}
+        rows={22}
+        className="flex-1 resize-y bg-gray-900 text-gray-100 px-3 py-3 leading-6 border-0 focus:outline-none focus:ring-0 whitespace-pre"
+      />
+    </div>
+  )
+}
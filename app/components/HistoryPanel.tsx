@@ -0,0 +1,139 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { toast } from 'react-hot-toast'
+import { CornerUpLeft, FolderOpen, RefreshCw } from 'lucide-react'
+import type { HistoryEntry, HistoryKind } from '@/lib/store/history'
+
+interface HistoryPanelProps {
+  onOpen: (entry: HistoryEntry) => void
+  onReuseParameters: (entry: HistoryEntry) => void
+  onUnauthorized: () => void
+}
+
+const kindNames: Record<HistoryKind, string> = {
+  generation: 'Generated',
+  paper: 'Built paper',
+  sheet: 'Sent to sheet',
+  export: 'Exported',
+  save: 'Saved to library'
+}
+
+const statusClassNames = {
+  succeeded: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+  cancelled: 'bg-gray-100 text-gray-600'
+}
+
+export default function HistoryPanel({ onOpen, onReuseParameters, onUnauthorized }: HistoryPanelProps) {
+  const [kind, setKind] = useState<HistoryKind | ''>('')
+  const [entries, setEntries] = useState<HistoryEntry[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+
+  const loadHistory = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch(`/api/history${kind ? `?kind=${kind}` : ''}`)
+      if (response.status === 401) {
+        onUnauthorized()
+        return
+      }
+      if (!response.ok) {
+        throw new Error('Failed to load history')
+      }
+      const data = await response.json()
+      setEntries(data.entries)
+    } catch (error) {
+      toast.error('Error loading history.')
+      console.error('Error:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [kind, onUnauthorized])
+
+  useEffect(() => {
+    loadHistory()
+  }, [loadHistory])
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-2xl font-semibold text-gray-800">History</h2>
+        <div className="flex items-center space-x-3">
+          <select
+            value={kind}
+            onChange={(e) => setKind(e.target.value as HistoryKind | '')}
+            aria-label="Show history of"
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">Everything</option>
+            {(Object.keys(kindNames) as HistoryKind[]).map(value => (
+              <option key={value} value={value}>{kindNames[value]}</option>
+            ))}
+          </select>
+          <button
+            onClick={loadHistory}
+            disabled={isLoading}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            <RefreshCw className={`-ml-1 mr-2 h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-center text-gray-500 py-8">
+          {isLoading ? 'Loading history...' : 'Nothing here yet.'}
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {entries.map(entry => (
+            <div key={entry.id} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex items-start justify-between">
+                <div>
+                  <h3 className="font-semibold text-gray-800">
+                    {kindNames[entry.kind]} · {entry.questions.length} question{entry.questions.length === 1 ? '' : 's'}
+                    <span className={`ml-2 px-2 py-1 text-xs font-medium rounded-full ${statusClassNames[entry.status]}`}>
+                      {entry.status}
+                    </span>
+                  </h3>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {new Date(entry.createdAt).toLocaleString()}
+                    {entry.request && ` · ${entry.request.positionName} · ${entry.request.topic} · ${entry.request.difficultyLevel}`}
+                    {entry.detail && ` · ${entry.detail}`}
+                  </p>
+                  {entry.questions.length > 0 && (
+                    <p className="text-sm text-gray-600 mt-2">
+                      {entry.questions.map(question => question.language ? `${question.title} (${question.language.toUpperCase()})` : question.title).join(', ')}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center space-x-2 ml-4">
+                  {entry.results && entry.results.length > 0 && (
+                    <button
+                      onClick={() => onOpen(entry)}
+                      title="Open these questions"
+                      className="p-2 rounded-full bg-blue-50 text-blue-600 hover:bg-blue-100"
+                    >
+                      <FolderOpen className="h-4 w-4" />
+                    </button>
+                  )}
+                  {entry.request && (
+                    <button
+                      onClick={() => onReuseParameters(entry)}
+                      title="Fill the form with these parameters"
+                      className="p-2 rounded-full bg-gray-100 text-gray-600 hover:bg-gray-200"
+                    >
+                      <CornerUpLeft className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
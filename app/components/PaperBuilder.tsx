@@ -0,0 +1,506 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { toast } from 'react-hot-toast'
+import { AlertTriangle, Clock, Download, FileSpreadsheet, FolderOpen, Plus, RefreshCw, Trash2, Wand2 } from 'lucide-react'
+import type { Paper, PaperSlot, PaperSource } from '@/lib/paper'
+import {
+  MAX_PAPER_QUESTIONS,
+  MAX_PAPER_SLOTS,
+  MAX_TIME_BUDGET_MINUTES,
+  messagesByField,
+  paperRequestSchema,
+  validateRequest
+} from '@/lib/requestSchema'
+
+interface PaperBuilderProps {
+  positions: string[]
+  topics: readonly string[]
+  languages: readonly { id: string; name: string }[]
+  exportFormats: { id: string; name: string }[]
+  onOpen: (paper: Paper) => void
+  onUnauthorized: () => void
+}
+
+interface Blueprint {
+  title: string
+  positionName: string
+  languages: string[]
+  type: 'complete_code' | 'write_code'
+  timeBudgetMinutes: number
+  source: PaperSource
+  slots: PaperSlot[]
+}
+
+const sourceNames: Record<PaperSource, string> = {
+  'bank-first': 'Question bank, then generate the rest',
+  bank: 'Question bank only',
+  generate: 'Generate new questions'
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+export default function PaperBuilder({ positions, topics, languages, exportFormats, onOpen, onUnauthorized }: PaperBuilderProps) {
+  const [blueprint, setBlueprint] = useState<Blueprint>({
+    title: '',
+    positionName: 'Software Engineer',
+    languages: ['javascript'],
+    type: 'complete_code',
+    timeBudgetMinutes: 90,
+    source: 'bank-first',
+    slots: [
+      { topic: 'Arrays', difficultyLevel: 'easy', count: 2 },
+      { topic: 'Graphs', difficultyLevel: 'medium', count: 2 },
+      { topic: 'Dynamic Programming', difficultyLevel: 'hard', count: 1 }
+    ]
+  })
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({})
+  const [paper, setPaper] = useState<Paper | null>(null)
+  const [papers, setPapers] = useState<Paper[]>([])
+  const [isBuilding, setIsBuilding] = useState(false)
+  const [isExporting, setIsExporting] = useState(false)
+  const [isSendingToSheet, setIsSendingToSheet] = useState(false)
+  const [exportFormat, setExportFormat] = useState('markdown')
+
+  const totalQuestions = blueprint.slots.reduce((sum, slot) => sum + (Number(slot.count) || 0), 0)
+
+  const loadPapers = useCallback(async () => {
+    try {
+      const response = await fetch('/api/papers')
+      if (response.status === 401) {
+        onUnauthorized()
+        return
+      }
+      if (!response.ok) {
+        throw new Error('Failed to load papers')
+      }
+      const data = await response.json()
+      setPapers(data.papers)
+    } catch (error) {
+      toast.error('Error loading saved papers.')
+      console.error('Error:', error)
+    }
+  }, [onUnauthorized])
+
+  useEffect(() => {
+    loadPapers()
+  }, [loadPapers])
+
+  const updateSlot = (index: number, changes: Partial<PaperSlot>) => {
+    setFieldErrors({})
+    setBlueprint(prev => ({
+      ...prev,
+      slots: prev.slots.map((slot, i) => i === index ? { ...slot, ...changes } : slot)
+    }))
+  }
+
+  const buildPaper = async () => {
+    const validation = validateRequest(paperRequestSchema, { ...blueprint, title: blueprint.title || undefined })
+    if (!validation.success) {
+      setFieldErrors(messagesByField(validation.fieldErrors))
+      toast.error('Please fix the highlighted fields')
+      return
+    }
+    setFieldErrors({})
+
+    setIsBuilding(true)
+    try {
+      const response = await fetch('/api/papers', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(validation.data),
+      })
+
+      if (response.status === 401) {
+        onUnauthorized()
+        return
+      }
+      const data = await response.json()
+      if (response.status === 400 && data.fieldErrors) {
+        setFieldErrors(messagesByField(data.fieldErrors))
+        toast.error('Please fix the highlighted fields')
+        return
+      }
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to build paper')
+      }
+
+      setPaper(data.paper)
+      setPapers(prev => [data.paper, ...prev])
+      toast.success(`Built "${data.paper.title}"`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error building paper. Please try again.')
+      console.error('Error:', error)
+    } finally {
+      setIsBuilding(false)
+    }
+  }
+
+  const exportPaper = async () => {
+    if (!paper) return
+    setIsExporting(true)
+    try {
+      const response = await fetch(`/api/papers/${encodeURIComponent(paper.id)}/export`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ format: exportFormat }),
+      })
+
+      if (response.status === 401) {
+        onUnauthorized()
+        return
+      }
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to export paper')
+      }
+
+      // Save the file through a temporary link
+      const filename = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] ?? 'paper'
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement('a')
+      link.href = url
+      link.download = filename
+      link.click()
+      URL.revokeObjectURL(url)
+
+      toast.success(`Exported "${paper.title}"`)
+    } catch (error) {
+      toast.error('Error exporting paper. Please try again.')
+      console.error('Error:', error)
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  const sendToSheet = async () => {
+    if (!paper) return
+    setIsSendingToSheet(true)
+    try {
+      const response = await fetch(`/api/papers/${encodeURIComponent(paper.id)}/sheets`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ columns: 'detailed' }),
+      })
+
+      if (response.status === 401) {
+        onUnauthorized()
+        return
+      }
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to send paper to sheet')
+      }
+      toast.success(data.message)
+    } catch (error) {
+      toast.error('Error sending paper to sheet. Please try again.')
+      console.error('Error:', error)
+    } finally {
+      setIsSendingToSheet(false)
+    }
+  }
+
+  const removePaper = async (id: string) => {
+    try {
+      const response = await fetch(`/api/papers/${encodeURIComponent(id)}`, { method: 'DELETE' })
+      if (response.status === 401) {
+        onUnauthorized()
+        return
+      }
+      if (!response.ok) {
+        throw new Error('Failed to delete paper')
+      }
+      setPapers(prev => prev.filter(saved => saved.id !== id))
+      if (paper?.id === id) setPaper(null)
+      toast.success('Paper deleted')
+    } catch (error) {
+      toast.error('Error deleting paper. Please try again.')
+      console.error('Error:', error)
+    }
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <h2 className="text-2xl font-semibold text-gray-800 mb-6">Paper Blueprint</h2>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+          <div>
+            <label htmlFor="paperTitle" className="block text-sm font-medium text-gray-700 mb-2">Title (Optional)</label>
+            <input
+              id="paperTitle"
+              type="text"
+              value={blueprint.title}
+              onChange={(e) => setBlueprint(prev => ({ ...prev, title: e.target.value }))}
+              placeholder={`${blueprint.positionName} paper (${blueprint.timeBudgetMinutes} min)`}
+              className={inputClassName}
+            />
+            {fieldErrors.title && <p className="text-xs text-red-600 mt-1">{fieldErrors.title}</p>}
+          </div>
+          <div>
+            <label htmlFor="paperPosition" className="block text-sm font-medium text-gray-700 mb-2">Position</label>
+            <select
+              id="paperPosition"
+              value={blueprint.positionName}
+              onChange={(e) => setBlueprint(prev => ({ ...prev, positionName: e.target.value }))}
+              className={inputClassName}
+            >
+              {positions.map(position => <option key={position} value={position}>{position}</option>)}
+            </select>
+            {fieldErrors.positionName && <p className="text-xs text-red-600 mt-1">{fieldErrors.positionName}</p>}
+          </div>
+          <div>
+            <label htmlFor="paperType" className="block text-sm font-medium text-gray-700 mb-2">Type</label>
+            <select
+              id="paperType"
+              value={blueprint.type}
+              onChange={(e) => setBlueprint(prev => ({ ...prev, type: e.target.value as Blueprint['type'] }))}
+              className={inputClassName}
+            >
+              <option value="complete_code">🔧 Complete the Code</option>
+              <option value="write_code">📝 Write Code</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="timeBudgetMinutes" className="block text-sm font-medium text-gray-700 mb-2">Time Budget (minutes)</label>
+            <input
+              id="timeBudgetMinutes"
+              type="number"
+              min={5}
+              max={MAX_TIME_BUDGET_MINUTES}
+              value={blueprint.timeBudgetMinutes}
+              onChange={(e) => setBlueprint(prev => ({ ...prev, timeBudgetMinutes: Number(e.target.value) }))}
+              className={inputClassName}
+            />
+            {fieldErrors.timeBudgetMinutes && <p className="text-xs text-red-600 mt-1">{fieldErrors.timeBudgetMinutes}</p>}
+          </div>
+        </div>
+
+        <div className="mt-6">
+          <label className="block text-sm font-medium text-gray-700 mb-2">Languages</label>
+          <div className="grid grid-cols-2 md:grid-cols-8 gap-3">
+            {languages.map(language => (
+              <label key={language.id} className="flex items-center cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={blueprint.languages.includes(language.id)}
+                  onChange={() => setBlueprint(prev => ({
+                    ...prev,
+                    languages: prev.languages.includes(language.id)
+                      ? prev.languages.filter(id => id !== language.id)
+                      : [...prev.languages, language.id]
+                  }))}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                <span className="ml-2 text-sm text-gray-700">{language.name}</span>
+              </label>
+            ))}
+          </div>
+          {fieldErrors.languages && <p className="text-xs text-red-600 mt-1">{fieldErrors.languages}</p>}
+        </div>
+
+        <div className="mt-6">
+          <div className="flex items-center justify-between mb-2">
+            <label className="block text-sm font-medium text-gray-700">
+              Slots ({totalQuestions} of at most {MAX_PAPER_QUESTIONS} questions)
+            </label>
+            <button
+              type="button"
+              onClick={() => setBlueprint(prev => ({ ...prev, slots: [...prev.slots, { topic: topics[0] as PaperSlot['topic'], difficultyLevel: 'medium', count: 1 }] }))}
+              disabled={blueprint.slots.length >= MAX_PAPER_SLOTS}
+              className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800 font-medium disabled:opacity-50"
+            >
+              <Plus className="mr-1 h-4 w-4" />
+              Add slot
+            </button>
+          </div>
+          <div className="space-y-2">
+            {blueprint.slots.map((slot, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_PAPER_QUESTIONS}
+                  value={slot.count}
+                  onChange={(e) => updateSlot(index, { count: Number(e.target.value) })}
+                  aria-label="Number of questions"
+                  className={`${inputClassName} col-span-2`}
+                />
+                <select
+                  value={slot.difficultyLevel}
+                  onChange={(e) => updateSlot(index, { difficultyLevel: e.target.value as PaperSlot['difficultyLevel'] })}
+                  aria-label="Difficulty"
+                  className={`${inputClassName} col-span-3`}
+                >
+                  <option value="easy">Easy</option>
+                  <option value="medium">Medium</option>
+                  <option value="hard">Hard</option>
+                </select>
+                <select
+                  value={slot.topic}
+                  onChange={(e) => updateSlot(index, { topic: e.target.value as PaperSlot['topic'] })}
+                  aria-label="Topic"
+                  className={`${inputClassName} col-span-6`}
+                >
+                  {topics.map(topic => <option key={topic} value={topic}>{topic}</option>)}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => setBlueprint(prev => ({ ...prev, slots: prev.slots.filter((_, i) => i !== index) }))}
+                  disabled={blueprint.slots.length === 1}
+                  title="Remove this slot"
+                  className="col-span-1 p-2 rounded-full text-gray-400 hover:text-red-600 disabled:opacity-50"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+          {fieldErrors.slots && <p className="text-xs text-red-600 mt-1">{fieldErrors.slots}</p>}
+        </div>
+
+        <div className="mt-6 flex flex-wrap items-center gap-3">
+          <select
+            value={blueprint.source}
+            onChange={(e) => setBlueprint(prev => ({ ...prev, source: e.target.value as PaperSource }))}
+            aria-label="Where questions come from"
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {(Object.keys(sourceNames) as PaperSource[]).map(source => (
+              <option key={source} value={source}>{sourceNames[source]}</option>
+            ))}
+          </select>
+          <button
+            onClick={buildPaper}
+            disabled={isBuilding}
+            className="inline-flex items-center px-6 py-3 border border-transparent text-base font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isBuilding ? (
+              <>
+                <RefreshCw className="animate-spin -ml-1 mr-3 h-5 w-5" />
+                Building...
+              </>
+            ) : (
+              <>
+                <Wand2 className="-ml-1 mr-3 h-5 w-5" />
+                Build Paper
+              </>
+            )}
+          </button>
+          {papers.length > 0 && (
+            <select
+              value={paper?.id ?? ''}
+              onChange={(e) => setPaper(papers.find(saved => saved.id === e.target.value) ?? null)}
+              aria-label="Saved papers"
+              className="ml-auto px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Saved papers...</option>
+              {papers.map(saved => (
+                <option key={saved.id} value={saved.id}>
+                  {saved.title} · {new Date(saved.createdAt).toLocaleDateString()}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+      </div>
+
+      {paper && (
+        <div className="bg-white rounded-lg shadow-lg p-6">
+          <div className="flex flex-wrap justify-between items-start gap-3 mb-4">
+            <div>
+              <h2 className="text-2xl font-semibold text-gray-800">{paper.title}</h2>
+              <p className={`text-sm mt-1 inline-flex items-center ${paper.estimatedMinutes > paper.timeBudgetMinutes ? 'text-red-600' : 'text-gray-600'}`}>
+                <Clock className="mr-1 h-4 w-4" />
+                {paper.questions.length} question{paper.questions.length === 1 ? '' : 's'} · about {paper.estimatedMinutes} of {paper.timeBudgetMinutes} minutes
+                {paper.estimatedMinutes > paper.timeBudgetMinutes && ' (over budget)'}
+              </p>
+            </div>
+            <div className="flex items-center space-x-3">
+              <select
+                value={exportFormat}
+                onChange={(e) => setExportFormat(e.target.value)}
+                aria-label="Export format"
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {exportFormats.map(format => <option key={format.id} value={format.id}>{format.name}</option>)}
+              </select>
+              <button
+                onClick={exportPaper}
+                disabled={isExporting || paper.questions.length === 0}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+              >
+                {isExporting ? <RefreshCw className="animate-spin -ml-1 mr-2 h-4 w-4" /> : <Download className="-ml-1 mr-2 h-4 w-4" />}
+                Export
+              </button>
+              <button
+                onClick={sendToSheet}
+                disabled={isSendingToSheet || paper.questions.length === 0}
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700 disabled:opacity-50"
+              >
+                {isSendingToSheet ? <RefreshCw className="animate-spin -ml-1 mr-2 h-4 w-4" /> : <FileSpreadsheet className="-ml-1 mr-2 h-4 w-4" />}
+                Send to Sheet
+              </button>
+              <button
+                onClick={() => onOpen(paper)}
+                disabled={paper.questions.length === 0}
+                title="Open the questions for regeneration or editing"
+                className="p-2 rounded-full bg-blue-50 text-blue-600 hover:bg-blue-100 disabled:opacity-50"
+              >
+                <FolderOpen className="h-5 w-5" />
+              </button>
+              <button
+                onClick={() => removePaper(paper.id)}
+                title="Delete this paper"
+                className="p-2 rounded-full bg-red-50 text-red-600 hover:bg-red-100"
+              >
+                <Trash2 className="h-5 w-5" />
+              </button>
+            </div>
+          </div>
+
+          {paper.shortfalls.length > 0 && (
+            <p className="text-sm text-amber-800 bg-amber-50 p-3 rounded border-l-4 border-amber-400 mb-4 inline-flex items-center">
+              <AlertTriangle className="mr-2 h-4 w-4" />
+              Not enough questions for:{' '}
+              {paper.shortfalls.map(({ slot, missing }) => {
+                const { topic, difficultyLevel } = paper.slots[slot]
+                return `${missing} ${difficultyLevel} ${topic}`
+              }).join(', ')}
+            </p>
+          )}
+
+          <ol className="space-y-3">
+            {paper.questions.map((question, index) => (
+              <li key={question.variants[0].id} className="border border-gray-200 rounded-lg p-4">
+                <details>
+                  <summary className="cursor-pointer">
+                    <span className="font-bold text-blue-600 mr-2">{index + 1}.</span>
+                    <span className="font-semibold text-gray-800">{question.variants[0].title}</span>
+                    <span className="text-xs text-gray-500 ml-2">
+                      {question.difficultyLevel} · {question.topic} · ~{question.estimatedMinutes} min · {question.source === 'bank' ? 'from the bank' : 'generated'}
+                      {question.variants.length > 1 && ` · ${question.variants.map(variant => variant.language?.toUpperCase()).join(', ')}`}
+                    </span>
+                  </summary>
+                  <div className="mt-3 space-y-2 text-sm">
+                    <p className="text-gray-600 whitespace-pre-wrap">{question.variants[0].problemStatement}</p>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                      <pre className="bg-gray-50 p-2 rounded text-xs">{question.variants[0].sampleInput}</pre>
+                      <pre className="bg-gray-50 p-2 rounded text-xs">{question.variants[0].sampleOutput}</pre>
+                    </div>
+                  </div>
+                </details>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,208 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { toast } from 'react-hot-toast'
+import { RefreshCw, Trash2, CornerUpLeft, Users } from 'lucide-react'
+import type { SavedQuestion } from '@/lib/store/questionBank'
+
+interface LibraryFilters {
+  position: string
+  topic: string
+  difficulty: string
+  language: string
+  type: string
+  search: string
+}
+
+interface QuestionLibraryProps {
+  positions: string[]
+  topics: readonly string[]
+  languages: readonly { id: string; name: string }[]
+  // Workspaces the user belongs to, for naming shared questions
+  workspaces: { id: string; name: string }[]
+  currentUserId: string
+  onReuse: (question: SavedQuestion) => void
+  onUnauthorized: () => void
+}
+
+const emptyFilters: LibraryFilters = {
+  position: '',
+  topic: '',
+  difficulty: '',
+  language: '',
+  type: '',
+  search: ''
+}
+
+const selectClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+export default function QuestionLibrary({ positions, topics, languages, workspaces, currentUserId, onReuse, onUnauthorized }: QuestionLibraryProps) {
+  const [filters, setFilters] = useState<LibraryFilters>(emptyFilters)
+  const [questions, setQuestions] = useState<SavedQuestion[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  const loadQuestions = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const params = new URLSearchParams(
+        Object.entries(filters).filter(([, value]) => value !== '')
+      )
+      const response = await fetch(`/api/questions?${params}`)
+      if (response.status === 401) {
+        onUnauthorized()
+        return
+      }
+      if (!response.ok) {
+        throw new Error('Failed to load library')
+      }
+      const data = await response.json()
+      setQuestions(data.questions)
+    } catch (error) {
+      toast.error('Error loading saved questions.')
+      console.error('Error:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [filters, onUnauthorized])
+
+  useEffect(() => {
+    loadQuestions()
+  }, [loadQuestions])
+
+  const handleFilterChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target
+    setFilters(prev => ({ ...prev, [name]: value }))
+  }
+
+  const removeQuestion = async (id: string) => {
+    try {
+      const response = await fetch(`/api/questions/${encodeURIComponent(id)}`, { method: 'DELETE' })
+      if (response.status === 401) {
+        onUnauthorized()
+        return
+      }
+      if (!response.ok) {
+        throw new Error('Failed to delete question')
+      }
+      setQuestions(prev => prev.filter(question => question.id !== id))
+      toast.success('Question deleted from library')
+    } catch (error) {
+      toast.error('Error deleting question. Please try again.')
+      console.error('Error:', error)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-2xl font-semibold text-gray-800">Question Library</h2>
+        <button
+          onClick={loadQuestions}
+          disabled={isLoading}
+          className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+        >
+          <RefreshCw className={`-ml-1 mr-2 h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4 mb-6">
+        <input
+          type="text"
+          name="search"
+          value={filters.search}
+          onChange={handleFilterChange}
+          placeholder="Search title or statement..."
+          className={selectClassName}
+        />
+        <select name="position" value={filters.position} onChange={handleFilterChange} className={selectClassName}>
+          <option value="">All positions</option>
+          {positions.map(position => <option key={position} value={position}>{position}</option>)}
+        </select>
+        <select name="topic" value={filters.topic} onChange={handleFilterChange} className={selectClassName}>
+          <option value="">All topics</option>
+          {topics.map(topic => <option key={topic} value={topic}>{topic}</option>)}
+        </select>
+        <select name="difficulty" value={filters.difficulty} onChange={handleFilterChange} className={selectClassName}>
+          <option value="">All difficulties</option>
+          <option value="easy">Easy</option>
+          <option value="medium">Medium</option>
+          <option value="hard">Hard</option>
+        </select>
+        <select name="language" value={filters.language} onChange={handleFilterChange} className={selectClassName}>
+          <option value="">All languages</option>
+          {languages.map(language => <option key={language.id} value={language.id}>{language.name}</option>)}
+        </select>
+        <select name="type" value={filters.type} onChange={handleFilterChange} className={selectClassName}>
+          <option value="">All types</option>
+          <option value="complete_code">Complete the Code</option>
+          <option value="write_code">Write Code</option>
+        </select>
+      </div>
+
+      {questions.length === 0 ? (
+        <p className="text-center text-gray-500 py-8">
+          {isLoading ? 'Loading saved questions...' : 'No saved questions match these filters.'}
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {questions.map((question) => (
+            <div key={question.id} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex items-start justify-between">
+                <button
+                  type="button"
+                  onClick={() => setExpandedId(expandedId === question.id ? null : question.id)}
+                  className="text-left"
+                >
+                  <h3 className="font-semibold text-gray-800">
+                    {question.title}
+                    {question.workspaceId && (
+                      <span className="ml-2 inline-flex items-center px-2 py-0.5 text-xs font-medium rounded-full bg-indigo-100 text-indigo-700">
+                        <Users className="h-3 w-3 mr-1" />
+                        {workspaces.find(workspace => workspace.id === question.workspaceId)?.name ?? 'Shared'}
+                      </span>
+                    )}
+                  </h3>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {question.positionName} · {question.topic} · {question.difficultyLevel} · {question.type === 'complete_code' ? 'Complete the Code' : 'Write Code'}
+                    {question.language && ` · ${question.language.toUpperCase()}`}
+                    {' · saved '}{new Date(question.createdAt).toLocaleDateString()}
+                  </p>
+                </button>
+                <div className="flex items-center space-x-2 ml-4">
+                  <button
+                    onClick={() => onReuse(question)}
+                    title="Reuse this question"
+                    className="p-2 rounded-full bg-blue-50 text-blue-600 hover:bg-blue-100"
+                  >
+                    <CornerUpLeft className="h-4 w-4" />
+                  </button>
+                  {(!question.ownerId || question.ownerId === currentUserId) && (
+                    <button
+                      onClick={() => removeQuestion(question.id)}
+                      title="Delete from library"
+                      className="p-2 rounded-full bg-red-50 text-red-600 hover:bg-red-100"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {expandedId === question.id && (
+                <div className="mt-3 space-y-2 text-sm">
+                  <p className="text-gray-600 whitespace-pre-wrap">{question.problemStatement}</p>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                    <pre className="bg-gray-50 p-2 rounded text-xs">{question.sampleInput}</pre>
+                    <pre className="bg-gray-50 p-2 rounded text-xs">{question.sampleOutput}</pre>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,123 @@
+'use client'
+
+import { useState } from 'react'
+import { toast } from 'react-hot-toast'
+import { LogIn, RefreshCw, UserPlus } from 'lucide-react'
+import type { FieldError } from '@/lib/questionSchema'
+import type { User } from '@/lib/store/users'
+import type { Workspace } from '@/lib/store/workspaces'
+
+interface SignInProps {
+  onSignedIn: (user: User, workspaces: Workspace[]) => void
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+export default function SignIn({ onSignedIn }: SignInProps) {
+  const [mode, setMode] = useState<'login' | 'register'>('login')
+  const [name, setName] = useState('')
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [problems, setProblems] = useState<string[]>([])
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setProblems([])
+    try {
+      const response = await fetch(`/api/auth/${mode}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(mode === 'register' ? { name, email, password } : { email, password }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        setProblems(
+          Array.isArray(data.fieldErrors) ? data.fieldErrors.map((error: FieldError) => error.message)
+            : Array.isArray(data.details) ? data.details
+            : [data.error || 'Failed to sign in']
+        )
+        return
+      }
+
+      toast.success(mode === 'register' ? `Welcome, ${data.user.name}!` : `Signed in as ${data.user.name}`)
+      onSignedIn(data.user, data.workspaces)
+    } catch (error) {
+      toast.error('Error signing in. Please try again.')
+      console.error('Error:', error)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="max-w-md mx-auto bg-white rounded-lg shadow-lg p-6">
+      <h2 className="text-2xl font-semibold text-gray-800 mb-6">
+        {mode === 'login' ? 'Sign in' : 'Create an account'}
+      </h2>
+
+      <form onSubmit={submit} className="space-y-4">
+        {mode === 'register' && (
+          <div>
+            <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+            <input id="name" type="text" value={name} onChange={(e) => setName(e.target.value)} className={inputClassName} />
+          </div>
+        )}
+        <div>
+          <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">Email</label>
+          <input id="email" type="email" value={email} onChange={(e) => setEmail(e.target.value)} autoComplete="email" className={inputClassName} />
+        </div>
+        <div>
+          <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">Password</label>
+          <input
+            id="password"
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+            className={inputClassName}
+          />
+        </div>
+
+        {problems.length > 0 && (
+          <ul className="text-xs text-red-600 space-y-1">
+            {problems.map(problem => <li key={problem}>{problem}</li>)}
+          </ul>
+        )}
+
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full inline-flex justify-center items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSubmitting ? (
+            <RefreshCw className="animate-spin -ml-1 mr-2 h-4 w-4" />
+          ) : mode === 'login' ? (
+            <LogIn className="-ml-1 mr-2 h-4 w-4" />
+          ) : (
+            <UserPlus className="-ml-1 mr-2 h-4 w-4" />
+          )}
+          {mode === 'login' ? 'Sign in' : 'Create account'}
+        </button>
+      </form>
+
+      <p className="text-sm text-gray-600 mt-4 text-center">
+        {mode === 'login' ? 'No account yet? ' : 'Already have an account? '}
+        <button
+          type="button"
+          onClick={() => {
+            setMode(mode === 'login' ? 'register' : 'login')
+            setProblems([])
+          }}
+          className="text-blue-600 hover:text-blue-800 font-medium"
+        >
+          {mode === 'login' ? 'Create one' : 'Sign in'}
+        </button>
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,181 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { toast } from 'react-hot-toast'
+import { Plus, UserPlus, Users } from 'lucide-react'
+import type { User } from '@/lib/store/users'
+import type { Workspace } from '@/lib/store/workspaces'
+
+// A workspace as GET /api/workspaces returns it
+export interface WorkspaceWithMembers extends Workspace {
+  members: Pick<User, 'id' | 'name' | 'email'>[]
+}
+
+interface WorkspaceBarProps {
+  user: User
+  // '' saves questions privately
+  activeId: string
+  onSelect: (workspaceId: string) => void
+  onWorkspacesChange: (workspaces: WorkspaceWithMembers[]) => void
+  onUnauthorized: () => void
+}
+
+const inputClassName = 'px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+export default function WorkspaceBar({ user, activeId, onSelect, onWorkspacesChange, onUnauthorized }: WorkspaceBarProps) {
+  const [workspaces, setWorkspaces] = useState<WorkspaceWithMembers[]>([])
+  const [newName, setNewName] = useState('')
+  const [inviteEmail, setInviteEmail] = useState('')
+
+  const active = workspaces.find(workspace => workspace.id === activeId)
+
+  const applyWorkspaces = useCallback((next: WorkspaceWithMembers[]) => {
+    setWorkspaces(next)
+    onWorkspacesChange(next)
+  }, [onWorkspacesChange])
+
+  useEffect(() => {
+    fetch('/api/workspaces')
+      .then(response => {
+        if (response.status === 401) {
+          onUnauthorized()
+          return undefined
+        }
+        return response.ok ? response.json() : Promise.reject(new Error('Failed to load workspaces'))
+      })
+      .then(data => data && applyWorkspaces(data.workspaces))
+      .catch(error => {
+        toast.error('Error loading workspaces.')
+        console.error('Error:', error)
+      })
+  }, [applyWorkspaces, onUnauthorized])
+
+  // Sends a workspace change and swaps in the workspace it returns
+  const change = async (url: string, init: RequestInit, success: (workspace: WorkspaceWithMembers) => string) => {
+    try {
+      const response = await fetch(url, { ...init, headers: { 'Content-Type': 'application/json' } })
+      if (response.status === 401) {
+        onUnauthorized()
+        return
+      }
+      const data = await response.json()
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to update workspace')
+        return
+      }
+
+      const workspace: WorkspaceWithMembers = data.workspace
+      const stillMember = workspace.memberIds.includes(user.id)
+      applyWorkspaces(stillMember
+        ? [...workspaces.filter(existing => existing.id !== workspace.id), workspace]
+        : workspaces.filter(existing => existing.id !== workspace.id))
+      toast.success(success(workspace))
+      return workspace
+    } catch (error) {
+      toast.error('Error updating workspace. Please try again.')
+      console.error('Error:', error)
+    }
+  }
+
+  const createWorkspace = async () => {
+    const workspace = await change('/api/workspaces', { method: 'POST', body: JSON.stringify({ name: newName }) }, created => `Created "${created.name}"`)
+    if (workspace) {
+      setNewName('')
+      onSelect(workspace.id)
+    }
+  }
+
+  const invite = async () => {
+    if (!active) return
+    const workspace = await change(
+      `/api/workspaces/${encodeURIComponent(active.id)}/members`,
+      { method: 'POST', body: JSON.stringify({ email: inviteEmail }) },
+      updated => `${inviteEmail.trim()} can now see questions shared in "${updated.name}"`
+    )
+    if (workspace) setInviteEmail('')
+  }
+
+  const removeMember = async (memberId: string) => {
+    if (!active) return
+    const leaving = memberId === user.id
+    await change(
+      `/api/workspaces/${encodeURIComponent(active.id)}/members`,
+      { method: 'DELETE', body: JSON.stringify({ userId: memberId }) },
+      updated => leaving ? `You left "${updated.name}"` : `Removed from "${updated.name}"`
+    )
+    if (leaving) onSelect('')
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4 mb-8 space-y-3">
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <Users className="h-4 w-4 text-gray-500" />
+        <label htmlFor="workspace" className="text-gray-700 font-medium">Save questions to</label>
+        <select id="workspace" value={activeId} onChange={(e) => onSelect(e.target.value)} className={inputClassName}>
+          <option value="">My questions (private)</option>
+          {workspaces.map(workspace => (
+            <option key={workspace.id} value={workspace.id}>{workspace.name} (shared)</option>
+          ))}
+        </select>
+        <div className="flex items-center gap-2 ml-auto">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="New workspace name"
+            aria-label="New workspace name"
+            className={inputClassName}
+          />
+          <button
+            onClick={createWorkspace}
+            disabled={!newName.trim()}
+            className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Plus className="-ml-1 mr-1 h-4 w-4" />
+            Create
+          </button>
+        </div>
+      </div>
+
+      {active && (
+        <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600">
+          <span>Members:</span>
+          {active.members.map(member => (
+            <span key={member.id} className="inline-flex items-center px-2 py-1 bg-gray-100 rounded-full" title={member.email}>
+              {member.name}{member.id === active.ownerId && ' (owner)'}
+              {member.id !== active.ownerId && (active.ownerId === user.id || member.id === user.id) && (
+                <button
+                  onClick={() => removeMember(member.id)}
+                  title={member.id === user.id ? 'Leave this workspace' : `Remove ${member.name}`}
+                  className="ml-1 text-gray-400 hover:text-red-600"
+                >
+                  ×
+                </button>
+              )}
+            </span>
+          ))}
+          {active.ownerId === user.id && (
+            <div className="flex items-center gap-2 ml-auto">
+              <input
+                type="email"
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+                placeholder="teammate@example.com"
+                aria-label="Email of the member to add"
+                className={inputClassName}
+              />
+              <button
+                onClick={invite}
+                disabled={!inviteEmail.trim()}
+                className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+              >
+                <UserPlus className="-ml-1 mr-1 h-4 w-4" />
+                Add member
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
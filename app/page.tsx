@@ -1,104 +1,254 @@
 'use client'
 
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect, useRef, useCallback } from 'react'
 import { toast } from 'react-hot-toast'
-import { Send, RefreshCw, CheckCircle2, FileSpreadsheet } from 'lucide-react'
+import { Send, RefreshCw, CheckCircle2, FileSpreadsheet, ShieldCheck, AlertTriangle, XCircle, Library, Sparkles, Save, Code2, Download, History, LogOut, ClipboardList, Timer } from 'lucide-react'
+import QuestionLibrary from './components/QuestionLibrary'
+import HistoryPanel from './components/HistoryPanel'
+import PaperBuilder from './components/PaperBuilder'
+import AssessmentsPanel from './components/AssessmentsPanel'
+import SignIn from './components/SignIn'
+import WorkspaceBar, { WorkspaceWithMembers } from './components/WorkspaceBar'
+import { FormData, Question, baseIdOf } from '@/lib/types'
+import type { ProviderName } from '@/lib/llm/types'
+import type { SavedQuestion } from '@/lib/store/questionBank'
+import type { HistoryEntry } from '@/lib/store/history'
+import type { Paper } from '@/lib/paper'
+import type { User } from '@/lib/store/users'
+import {
+  LANGUAGES,
+  MAX_HINT_LENGTH,
+  MAX_PROBLEM_LENGTH,
+  MAX_QUESTION_COUNT,
+  TOPICS,
+  generationRequestSchema,
+  messagesByField,
+  validateRequest
+} from '@/lib/requestSchema'
 
-interface Question {
+const exportFormats = [
+  { id: 'markdown', name: 'Markdown' },
+  { id: 'html', name: 'HTML' },
+  { id: 'json', name: 'JSON bundle' },
+  { id: 'csv', name: 'CSV' },
+  { id: 'hackerrank', name: 'HackerRank package' },
+  { id: 'domjudge', name: 'DOMjudge package' }
+]
+
+const hintLevelNames = {
+  nudge: 'Nudge',
+  approach: 'Approach',
+  nearSolution: 'Near solution'
+}
+
+const verificationBadges = {
+  verified: { label: 'Sample verified', className: 'bg-green-100 text-green-700', Icon: ShieldCheck },
+  mismatch: { label: 'Output mismatch', className: 'bg-red-100 text-red-700', Icon: XCircle },
+  failed: { label: 'Failed to run', className: 'bg-amber-100 text-amber-700', Icon: AlertTriangle }
+}
+
+// The form's own values; the selects hold '' for the default provider and
+// the newest prompt version
+interface FormValues extends Omit<FormData, 'count' | 'provider' | 'promptVersion'> {
+  count: number
+  provider: ProviderName | ''
+  promptVersion: string
+}
+
+interface PromptVersion {
+  version: number
+  description: string
+}
+
+// A position from the catalog (GET /api/catalog)
+interface CatalogPosition {
   id: string
-  title: string
-  problemStatement: string
-  inputFormat: string
-  outputFormat: string
-  constraints: string
-  sampleInput: string
-  sampleOutput: string
-  language?: string
-  implementation?: string
-  hint?: string
+  name: string
+  companies: string[]
+  seniority: 'entry' | 'mid' | 'senior'
+}
+
+interface SheetSource {
+  tab: string
+  columns: string[]
+}
+
+// A row returned by GET /api/sheets
+interface ImportedSheetRow {
+  row: number
+  question: Question
+  // Only the values the row's columns hold
+  inputParameters: Partial<Pick<FormData, 'positionName' | 'type' | 'difficultyLevel' | 'topic'>>
+  columns: string[]
+  readOnlyColumns: string[]
+}
+
+// Reads a server-sent event stream, calling onEvent with each parsed event
+async function readEventStream(body: ReadableStream<Uint8Array>, onEvent: (event: string, data: any) => void) {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    buffer += decoder.decode(value, { stream: true })
+
+    let boundary
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const frame = buffer.slice(0, boundary)
+      buffer = buffer.slice(boundary + 2)
+
+      let event = 'message'
+      let data = ''
+      for (const line of frame.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim()
+        else if (line.startsWith('data:')) data += line.slice(5).trim()
+      }
+      if (data) onEvent(event, JSON.parse(data))
+    }
+  }
 }
 
-interface FormData {
-  positionName: string
-  languages: string[]
-  problem: string
-  hint: string
-  type: 'complete_code' | 'write_code'
-  difficultyLevel: 'easy' | 'medium' | 'hard'
-  topic: string
+// Swaps in updated language variants, keeping their position in the list
+function replaceVariants(current: Question[], updated: Question[]): Question[] {
+  const byId = new Map(updated.map(question => [question.id, question]))
+  const replaced = current.map(question => byId.get(question.id) ?? question)
+  const added = updated.filter(question => !current.some(existing => existing.id === question.id))
+  return [...replaced, ...added]
+}
+
+// The request body /api/generate and /api/generate/regenerate expect for a
+// set of form values; blank selects mean "use the server default"
+function toGenerationRequest(params: FormValues) {
+  return {
+    ...params,
+    provider: params.provider || undefined,
+    model: params.model || undefined,
+    promptVersion: params.promptVersion ? Number(params.promptVersion) : undefined
+  }
+}
+
+// One line for a toast, for requests whose fields aren't on the form
+function describeFieldErrors(fieldErrors: { path: string; message: string }[], prefix?: string): string {
+  const messages = messagesByField(fieldErrors, prefix)
+  return Object.keys(messages).map(field => messages[field]).join('; ')
+}
+
+// Shown under a form field the request schema rejected
+function FieldMessage({ message }: { message?: string }) {
+  return message ? <p className="text-xs text-red-600 mt-1">{message}</p> : null
+}
+
+// Puts a regenerated question's variants where the old ones were
+function replaceQuestionGroup(current: Question[], baseId: string, replacements: Question[]): Question[] {
+  const position = current.findIndex(question => baseIdOf(question) === baseId)
+  const remaining = current.filter(question => baseIdOf(question) !== baseId)
+  remaining.splice(position === -1 ? remaining.length : position, 0, ...replacements)
+  return remaining
 }
 
 export default function Home() {
-  const [formData, setFormData] = useState<FormData>({
+  // undefined until the session has been checked, null when signed out
+  const [user, setUser] = useState<User | null | undefined>(undefined)
+  const [workspaces, setWorkspaces] = useState<WorkspaceWithMembers[]>([])
+  // Workspace questions are shared into when saved; '' keeps them private
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState('')
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({})
+  const [formData, setFormData] = useState<FormValues>({
     positionName: 'Software Engineer',
     languages: ['javascript'],
     problem: '',
     hint: '',
     type: 'complete_code',
     difficultyLevel: 'medium',
-    topic: 'Arrays'
+    topic: 'Arrays',
+    count: 5,
+    provider: '',
+    model: '',
+    duplicateHandling: 'flag',
+    difficultyHandling: 'flag',
+    promptVersion: ''
   })
 
   const [questions, setQuestions] = useState<Question[]>([])
   const [selectedQuestions, setSelectedQuestions] = useState<Set<string>>(new Set())
   const [isGenerating, setIsGenerating] = useState(false)
   const [isSendingToSheet, setIsSendingToSheet] = useState(false)
+  const [isSavingToLibrary, setIsSavingToLibrary] = useState(false)
+  const [isExporting, setIsExporting] = useState(false)
+  const [exportFormat, setExportFormat] = useState('markdown')
+  const [sheetTabMode, setSheetTabMode] = useState<'default' | 'position' | 'batch'>('default')
+  const [sheetColumns, setSheetColumns] = useState<'compact' | 'detailed'>('compact')
+  const [sheetImportTab, setSheetImportTab] = useState('')
+  const [isImportingFromSheet, setIsImportingFromSheet] = useState(false)
+  const [view, setView] = useState<'generate' | 'library' | 'paper' | 'assessments' | 'history'>('generate')
   const [positionSearch, setPositionSearch] = useState('')
   const [showPositionDropdown, setShowPositionDropdown] = useState(false)
   const positionDropdownRef = useRef<HTMLDivElement>(null)
+  const generationRef = useRef<AbortController | null>(null)
+  // Form values each question was generated with, by base id, so a
+  // regenerated question keeps its original context
+  const contextsRef = useRef(new Map<string, FormValues>())
+  // Tab and writable columns of questions imported from a sheet, by id, so
+  // sending them back updates the rows they came from
+  const sheetSourcesRef = useRef(new Map<string, SheetSource>())
+  const [regenerating, setRegenerating] = useState<Set<string>>(new Set())
+  // How many hint tiers each question card has revealed
+  const [revealedHints, setRevealedHints] = useState<Record<string, number>>({})
+  const [promptVersions, setPromptVersions] = useState<PromptVersion[]>([])
+  const [catalogPositions, setCatalogPositions] = useState<CatalogPosition[]>([])
 
-  const availablePositions = [
-    // Senior Positions
-    'Software Engineer',
-    'Full Stack Developer',
-    'Backend Python Developer',
-    'Python Developer',
-    'React.js Developer',
-    'Node.js Developer',
-    'DevOps Engineer',
-    'AWS DevOps Engineer',
-    'Cloud Developer',
-    'MERN Stack Developer',
-    'Java Developer',
-    'Front-end Developer',
-    'Back-end Developer',
-    'Blockchain Developer',
-    'Salesforce Developer',
-    'Software Developer',
-    
-    // Junior/Entry Level Positions
-    'Associate Software Engineer',
-    'Junior Front-End Developer',
-    'Junior Back-End Developer',
-    'Full-Stack Developer Intern',
-    'Software Developer Trainee',
-    'Mobile App Developer (Trainee)',
-    'Cloud Support Associate',
-    'IT Support Engineer',
-    'QA/Test Engineer',
-    'Technical Support Executive',
-    'Web Developer Intern',
-    'Application Support Engineer',
-    'Graduate Engineer Trainee'
-  ]
+  const availablePositions = catalogPositions.map(position => position.name)
 
-  const availableLanguages = [
-    { id: 'javascript', name: 'JavaScript' },
-    { id: 'python', name: 'Python' },
-    { id: 'java', name: 'Java' },
-    { id: 'cpp', name: 'C++' },
-    { id: 'csharp', name: 'C#' },
-    { id: 'go', name: 'Go' },
-    { id: 'rust', name: 'Rust' },
-    { id: 'typescript', name: 'TypeScript' }
+  const availableProviders = [
+    { id: '', name: 'Default (server configuration)' },
+    { id: 'gemini', name: 'Google Gemini' },
+    { id: 'openai', name: 'OpenAI-compatible API' },
+    { id: 'local', name: 'Local model server' },
+    { id: 'mock', name: 'Mock (offline fixtures)' }
   ]
 
-  const filteredPositions = availablePositions.filter(position =>
-    position.toLowerCase().includes(positionSearch.toLowerCase())
+  const filteredPositions = catalogPositions.filter(position =>
+    position.name.toLowerCase().includes(positionSearch.toLowerCase())
   )
 
+  // Any API call can find the session gone; back to the sign-in form
+  const handleUnauthorized = useCallback(() => {
+    setUser(null)
+    toast.error('Your session has ended. Please sign in again.')
+  }, [])
+
+  const handleSignedIn = (signedIn: User) => {
+    setUser(signedIn)
+    setActiveWorkspaceId('')
+  }
+
+  const signOut = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' })
+    } catch (error) {
+      console.error('Error:', error)
+    }
+    setUser(null)
+    setQuestions([])
+    setSelectedQuestions(new Set())
+    setWorkspaces([])
+    setActiveWorkspaceId('')
+    setView('generate')
+  }
+
+  const clearFieldError = (field: string) => {
+    setFieldErrors(prev => {
+      if (!(field in prev)) return prev
+      const { [field]: _, ...rest } = prev
+      return rest
+    })
+  }
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target
+    clearFieldError(name)
     setFormData(prev => ({
       ...prev,
       [name]: value
@@ -106,6 +256,7 @@ export default function Home() {
   }
 
   const handleLanguageChange = (languageId: string) => {
+    clearFieldError('languages')
     setFormData(prev => ({
       ...prev,
       languages: prev.languages.includes(languageId)
@@ -115,7 +266,8 @@ export default function Home() {
   }
 
   const handleSelectAllLanguages = () => {
-    const allLanguageIds = availableLanguages.map(lang => lang.id)
+    const allLanguageIds: string[] = LANGUAGES.map(lang => lang.id)
+    clearFieldError('languages')
     setFormData(prev => ({
       ...prev,
       languages: prev.languages.length === allLanguageIds.length ? [] : allLanguageIds
@@ -123,6 +275,7 @@ export default function Home() {
   }
 
   const handlePositionSelect = (position: string) => {
+    clearFieldError('positionName')
     setFormData(prev => ({
       ...prev,
       positionName: position
@@ -131,6 +284,35 @@ export default function Home() {
     setShowPositionDropdown(false)
   }
 
+  useEffect(() => {
+    fetch('/api/auth/me')
+      .then(response => response.ok ? response.json() : undefined)
+      .then(data => setUser(data ? data.user : null))
+      .catch(error => {
+        setUser(null)
+        console.error('Error:', error)
+      })
+  }, [])
+
+  // Positions, with their target companies, come from the managed catalog
+  useEffect(() => {
+    fetch('/api/catalog')
+      .then(response => response.ok ? response.json() : Promise.reject(new Error('Failed to load positions')))
+      .then(data => setCatalogPositions(data.positions))
+      .catch(error => {
+        toast.error('Error loading positions.')
+        console.error('Error:', error)
+      })
+  }, [])
+
+  // Versions of the question prompt the form can pin
+  useEffect(() => {
+    fetch('/api/prompts?name=questions')
+      .then(response => response.ok ? response.json() : Promise.reject(new Error('Failed to load prompt versions')))
+      .then(data => setPromptVersions(data.templates))
+      .catch(error => console.error('Error:', error))
+  }, [])
+
   // Close dropdown when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -146,37 +328,170 @@ export default function Home() {
   }, [])
 
   const generateQuestions = async () => {
-    if (formData.languages.length === 0) {
-      toast.error('Please select at least one language')
+    const validation = validateRequest(generationRequestSchema, toGenerationRequest(formData))
+    if (!validation.success) {
+      setFieldErrors(messagesByField(validation.fieldErrors))
+      toast.error('Please fix the highlighted fields')
       return
     }
+    setFieldErrors({})
 
+    const controller = new AbortController()
+    const context = { ...formData }
+    generationRef.current = controller
     setIsGenerating(true)
+    setQuestions([])
+    setSelectedQuestions(new Set())
     try {
       const response = await fetch('/api/generate', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          Accept: 'text/event-stream',
         },
-        body: JSON.stringify(formData),
+        body: JSON.stringify(validation.data),
+        signal: controller.signal,
       })
 
-      if (!response.ok) {
-        throw new Error('Failed to generate questions')
+      if (response.status === 401) {
+        handleUnauthorized()
+        return
       }
 
-      const data = await response.json()
-      setQuestions(data.questions)
-      setSelectedQuestions(new Set())
-      toast.success('Questions generated successfully!')
+      if (response.status === 429) {
+        const data = await response.json().catch(() => ({}))
+        toast.error(data.error || 'Too many generation requests. Please wait a moment and try again.')
+        return
+      }
+
+      if (response.status === 400) {
+        const data = await response.json().catch(() => ({}))
+        if (data.fieldErrors) {
+          setFieldErrors(messagesByField(data.fieldErrors))
+          toast.error('Please fix the highlighted fields')
+          return
+        }
+        throw new Error(data.error || 'Failed to generate questions')
+      }
+
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to generate questions')
+      }
+
+      let failed = false
+      let cached = false
+      await readEventStream(response.body, (event, data) => {
+        switch (event) {
+          case 'question':
+            data.questions.forEach((question: Question) => contextsRef.current.set(baseIdOf(question), context))
+            setQuestions(prev => [...prev, ...data.questions])
+            break
+          case 'update':
+            setQuestions(prev => replaceVariants(prev, data.questions))
+            break
+          case 'invalid':
+            console.error(`Question ${data.index + 1} failed validation:`, data.fieldErrors)
+            break
+          case 'done':
+            cached = data.cached === true
+            break
+          case 'error':
+            failed = true
+            if (data.fieldErrors) {
+              console.error('Invalid fields in generated questions:', data.fieldErrors)
+              toast.error(`The AI returned malformed questions (${data.fieldErrors.length} invalid field${data.fieldErrors.length === 1 ? '' : 's'}). Please try again.`)
+            } else {
+              toast.error(data.details || data.error || 'Error generating questions. Please try again.')
+            }
+            break
+        }
+      })
+
+      if (!failed) {
+        toast.success(cached ? 'Loaded the same questions from cache. Tick "Skip cache" for a new batch.' : 'Questions generated successfully!')
+      }
     } catch (error) {
+      if (controller.signal.aborted) {
+        toast('Generation cancelled')
+        return
+      }
       toast.error('Error generating questions. Please try again.')
       console.error('Error:', error)
     } finally {
+      generationRef.current = null
       setIsGenerating(false)
     }
   }
 
+  // Replaces one question, or only one language's template when `language`
+  // is given, leaving the rest of the batch alone
+  const regenerateQuestion = async (question: Question, language?: string) => {
+    const baseId = baseIdOf(question)
+    const inputParameters = contextsRef.current.get(baseId) ?? formData
+    const siblings = questions
+      .filter((other, i) => baseIdOf(other) !== baseId && questions.findIndex(q => baseIdOf(q) === baseIdOf(other)) === i)
+      .map(({ id, title, problemStatement, sampleInput, sampleOutput }) => ({ id, title, problemStatement, sampleInput, sampleOutput }))
+
+    setRegenerating(prev => new Set(prev).add(question.id))
+    try {
+      const response = await fetch('/api/generate/regenerate', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          inputParameters: toGenerationRequest(inputParameters),
+          question,
+          siblings,
+          language
+        }),
+      })
+
+      if (response.status === 401) {
+        handleUnauthorized()
+        return
+      }
+      const data = await response.json()
+      if (response.status === 429) {
+        toast.error(data.error)
+        return
+      }
+      if (response.status === 400 && data.fieldErrors) {
+        toast.error(`Can't regenerate: ${describeFieldErrors(data.fieldErrors, 'inputParameters')}`)
+        return
+      }
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to regenerate question')
+      }
+
+      if (language) {
+        setQuestions(prev => prev.map(q => q.id === question.id ? data.question : q))
+        toast.success(`${language.toUpperCase()} template regenerated`)
+      } else {
+        contextsRef.current.set(baseIdOf(data.questions[0]), inputParameters)
+        setQuestions(prev => replaceQuestionGroup(prev, baseId, data.questions))
+        const replacedIds = new Set(questions.filter(q => baseIdOf(q) === baseId).map(q => q.id))
+        setSelectedQuestions(prev => new Set(Array.from(prev).filter(id => !replacedIds.has(id))))
+        toast.success(`Replaced "${question.title}" with "${data.questions[0].title}"`)
+      }
+    } catch (error) {
+      toast.error('Error regenerating question. Please try again.')
+      console.error('Error:', error)
+    } finally {
+      setRegenerating(prev => {
+        const next = new Set(prev)
+        next.delete(question.id)
+        return next
+      })
+    }
+  }
+
+  // Questions that already arrived are kept
+  const cancelGeneration = () => {
+    generationRef.current?.abort()
+  }
+
   const toggleQuestionSelection = (questionId: string) => {
     setSelectedQuestions(prev => {
       const newSet = new Set(prev)
@@ -198,39 +513,288 @@ export default function Home() {
     setIsSendingToSheet(true)
     try {
       const selectedQuestionsData = questions.filter(q => selectedQuestions.has(q.id))
-      
-      const response = await fetch('/api/sheets', {
+
+      // One request per context and destination, so every row is written
+      // with its own parameters and imported rows go back where they came from
+      const groups: { context: FormValues; source?: SheetSource; questions: Question[] }[] = []
+      selectedQuestionsData.forEach(question => {
+        const context = contextsRef.current.get(baseIdOf(question)) ?? formData
+        const source = sheetSourcesRef.current.get(question.id)
+        const group = groups.find(g => g.context === context && JSON.stringify(g.source) === JSON.stringify(source))
+        if (group) {
+          group.questions.push(question)
+        } else {
+          groups.push({ context, source, questions: [question] })
+        }
+      })
+
+      const messages: string[] = []
+      for (const group of groups) {
+        const response = await fetch('/api/sheets', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ 
+            questions: group.questions,
+            inputParameters: group.context,
+            columns: group.source?.columns ?? sheetColumns,
+            tab: group.source ? { name: group.source.tab } : { mode: sheetTabMode }
+          }),
+        })
+
+        if (response.status === 401) {
+          handleUnauthorized()
+          return
+        }
+        const data = await response.json()
+        if (response.status === 400 && data.fieldErrors) {
+          toast.error(`Can't send to sheet: ${describeFieldErrors(data.fieldErrors, 'inputParameters')}`)
+          return
+        }
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to send to sheet')
+        }
+        if (data.message) messages.push(data.message)
+      }
+
+      toast.success(messages.join('; ') || 'Questions sent to Google Sheet successfully!')
+      setSelectedQuestions(new Set())
+    } catch (error) {
+      toast.error('Error sending to sheet. Please try again.')
+      console.error('Error:', error)
+    } finally {
+      setIsSendingToSheet(false)
+    }
+  }
+
+  // Loads a tab's rows back as questions for editing, regeneration or export
+  const importFromSheet = async () => {
+    setIsImportingFromSheet(true)
+    try {
+      const params = new URLSearchParams(sheetImportTab.trim() ? { tab: sheetImportTab.trim() } : {})
+      const response = await fetch(`/api/sheets?${params}`)
+      if (response.status === 401) {
+        handleUnauthorized()
+        return
+      }
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to import from sheet')
+      }
+
+      const rows: ImportedSheetRow[] = data.rows
+      if (rows.length === 0) {
+        toast.error(`No questions found in "${data.tab}"`)
+        return
+      }
+
+      const languagesByBaseId = new Map<string, string[]>()
+      rows.forEach(({ question }) => {
+        const baseId = baseIdOf(question)
+        languagesByBaseId.set(baseId, [...(languagesByBaseId.get(baseId) ?? []), ...(question.language ? [question.language] : [])])
+      })
+      rows.forEach(({ question, inputParameters, columns }) => {
+        const baseId = baseIdOf(question)
+        if (!contextsRef.current.has(baseId)) {
+          const languages = languagesByBaseId.get(baseId) ?? []
+          // The form's values stand in for any the sheet doesn't hold
+          const stored = Object.fromEntries(Object.entries(inputParameters).filter(([, value]) => value))
+          contextsRef.current.set(baseId, {
+            ...formData,
+            ...stored,
+            hint: '',
+            problem: '',
+            languages: languages.length > 0 ? languages : formData.languages
+          })
+        }
+        sheetSourcesRef.current.set(question.id, { tab: data.tab, columns })
+      })
+
+      const imported = rows.map(row => row.question)
+      const importedIds = new Set(imported.map(question => question.id))
+      setQuestions(prev => [...prev.filter(question => !importedIds.has(question.id)), ...imported])
+
+      const readOnly = rows.filter(row => row.readOnlyColumns.length > 0).length
+      toast.success(`${data.message}${readOnly > 0 ? ` (${readOnly} with hand-edited cells that won't be overwritten)` : ''}`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error importing from sheet. Please try again.')
+      console.error('Error:', error)
+    } finally {
+      setIsImportingFromSheet(false)
+    }
+  }
+
+  const exportSelected = async () => {
+    if (selectedQuestions.size === 0) {
+      toast.error('Please select at least one question')
+      return
+    }
+
+    setIsExporting(true)
+    try {
+      const selectedQuestionsData = questions.filter(q => selectedQuestions.has(q.id))
+      const firstBaseId = baseIdOf(selectedQuestionsData[0])
+
+      const response = await fetch('/api/export', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ 
+        body: JSON.stringify({
           questions: selectedQuestionsData,
-          inputParameters: formData
+          format: exportFormat,
+          inputParameters: contextsRef.current.get(firstBaseId) ?? formData
         }),
       })
 
+      if (response.status === 401) {
+        handleUnauthorized()
+        return
+      }
       if (!response.ok) {
-        throw new Error('Failed to send to sheet')
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to export questions')
       }
 
-      toast.success('Questions sent to Google Sheet successfully!')
-      setSelectedQuestions(new Set())
+      // Save the file through a temporary link
+      const filename = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] ?? 'questions'
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement('a')
+      link.href = url
+      link.download = filename
+      link.click()
+      URL.revokeObjectURL(url)
+
+      toast.success(`Exported ${selectedQuestionsData.length} question${selectedQuestionsData.length === 1 ? '' : 's'}`)
     } catch (error) {
-      toast.error('Error sending to sheet. Please try again.')
+      toast.error('Error exporting questions. Please try again.')
       console.error('Error:', error)
     } finally {
-      setIsSendingToSheet(false)
+      setIsExporting(false)
+    }
+  }
+
+  const saveToLibrary = async () => {
+    if (selectedQuestions.size === 0) {
+      toast.error('Please select at least one question')
+      return
+    }
+
+    setIsSavingToLibrary(true)
+    try {
+      const selectedQuestionsData = questions.filter(q => selectedQuestions.has(q.id))
+
+      const response = await fetch('/api/questions', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          questions: selectedQuestionsData,
+          inputParameters: formData,
+          workspaceId: activeWorkspaceId || undefined
+        }),
+      })
+
+      if (response.status === 401) {
+        handleUnauthorized()
+        return
+      }
+      if (response.status === 403) {
+        const data = await response.json().catch(() => ({}))
+        toast.error(data.error || 'Some of these questions belong to someone else')
+        return
+      }
+      const data = await response.json()
+      if (response.status === 400 && data.fieldErrors) {
+        toast.error(`Can't save: ${describeFieldErrors(data.fieldErrors)}`)
+        return
+      }
+      if (!response.ok) {
+        throw new Error('Failed to save to library')
+      }
+
+      toast.success(data.message)
+    } catch (error) {
+      toast.error('Error saving to library. Please try again.')
+      console.error('Error:', error)
+    } finally {
+      setIsSavingToLibrary(false)
+    }
+  }
+
+  // Brings a saved question back into the workspace with the parameters it was generated for
+  const reuseQuestion = (saved: SavedQuestion) => {
+    const { positionName, topic, difficultyLevel, type, createdAt, updatedAt, ownerId, workspaceId, ...question } = saved
+    setQuestions(prev => [...prev.filter(q => q.id !== question.id), question])
+    setFormData(prev => ({ ...prev, positionName, topic, difficultyLevel, type }))
+    contextsRef.current.set(baseIdOf(question), {
+      ...formData,
+      positionName,
+      topic,
+      difficultyLevel,
+      type,
+      languages: question.language ? [question.language] : formData.languages
+    })
+    setPositionSearch('')
+    setView('generate')
+    toast.success(`"${question.title}" added to your questions`)
+  }
+
+  // Brings a paper's questions into the workspace, in paper order, each with
+  // its own slot's topic and difficulty
+  const openPaper = (paper: Paper) => {
+    paper.questions.forEach(question => contextsRef.current.set(baseIdOf(question.variants[0]), {
+      ...formData,
+      positionName: paper.positionName,
+      languages: paper.languages,
+      type: paper.type,
+      topic: question.topic,
+      difficultyLevel: question.difficultyLevel
+    }))
+    setQuestions(paper.questions.flatMap(question => question.variants))
+    setSelectedQuestions(new Set())
+    setView('generate')
+    toast.success(`Opened "${paper.title}"`)
+  }
+
+  // Reopens a past batch with the parameters it was generated for
+  const openHistoryEntry = (entry: HistoryEntry) => {
+    const results = entry.results ?? []
+    const context = entry.request ? historyFormData(entry) : formData
+    results.forEach(question => contextsRef.current.set(baseIdOf(question), context))
+    setQuestions(results)
+    setSelectedQuestions(new Set())
+    setView('generate')
+    toast.success(`Opened ${results.length} question${results.length === 1 ? '' : 's'} from ${new Date(entry.createdAt).toLocaleString()}`)
+  }
+
+  const reuseHistoryParameters = (entry: HistoryEntry) => {
+    setFormData(historyFormData(entry))
+    setFieldErrors({})
+    setPositionSearch('')
+    setView('generate')
+  }
+
+  // The form values a history entry was requested with, over the current ones
+  const historyFormData = (entry: HistoryEntry): FormValues => {
+    const { promptVersion, ...request } = entry.request ?? {}
+    return {
+      ...formData,
+      ...request,
+      provider: request.provider ?? '',
+      model: request.model ?? '',
+      promptVersion: promptVersion ? String(promptVersion) : ''
     }
   }
 
   // Function to get question number for display
-  const getQuestionNumber = (questionId: string) => {
+  const getQuestionNumber = (target: Question) => {
     // Group questions by their base question (same problem, different languages)
     const questionGroups = new Map()
     questions.forEach(question => {
-      // Extract base question ID (remove language suffix)
-      const baseId = question.id.replace(/-[^-]+$/, '')
+      const baseId = baseIdOf(question)
       if (!questionGroups.has(baseId)) {
         questionGroups.set(baseId, [])
       }
@@ -245,8 +809,7 @@ export default function Home() {
     })
 
     // Get question number from base ID
-    const baseId = questionId.replace(/-[^-]+$/, '')
-    return questionNumbers.get(baseId) || 1
+    return questionNumbers.get(baseIdOf(target)) || 1
   }
 
   return (
@@ -255,352 +818,800 @@ export default function Home() {
         <div className="text-center mb-8">
           <h1 className="text-4xl font-bold text-gray-900 mb-2">DSA Question Generator</h1>
           <p className="text-lg text-gray-600">Generate Data Structures and Algorithms questions using AI</p>
+          {user && (
+            <p className="text-sm text-gray-600 mt-2">
+              Signed in as <span className="font-medium">{user.name}</span> ({user.email})
+              <button onClick={signOut} className="inline-flex items-center ml-3 text-blue-600 hover:text-blue-800 font-medium">
+                <LogOut className="mr-1 h-4 w-4" />
+                Sign out
+              </button>
+            </p>
+          )}
+        </div>
+
+        {user === null && <SignIn onSignedIn={handleSignedIn} />}
+
+        {user && (
+          <>
+        <WorkspaceBar
+          key={user.id}
+          user={user}
+          activeId={activeWorkspaceId}
+          onSelect={setActiveWorkspaceId}
+          onWorkspacesChange={setWorkspaces}
+          onUnauthorized={handleUnauthorized}
+        />
+
+        <div className="flex justify-center mb-8">
+          <div className="inline-flex rounded-lg bg-white shadow p-1">
+            <button
+              onClick={() => setView('generate')}
+              className={`inline-flex items-center px-4 py-2 text-sm font-medium rounded-md ${view === 'generate' ? 'bg-blue-600 text-white' : 'text-gray-600 hover:bg-gray-100'}`}
+            >
+              <Sparkles className="mr-2 h-4 w-4" />
+              Generate
+            </button>
+            <button
+              onClick={() => setView('library')}
+              className={`inline-flex items-center px-4 py-2 text-sm font-medium rounded-md ${view === 'library' ? 'bg-blue-600 text-white' : 'text-gray-600 hover:bg-gray-100'}`}
+            >
+              <Library className="mr-2 h-4 w-4" />
+              Library
+            </button>
+            <button
+              onClick={() => setView('paper')}
+              className={`inline-flex items-center px-4 py-2 text-sm font-medium rounded-md ${view === 'paper' ? 'bg-blue-600 text-white' : 'text-gray-600 hover:bg-gray-100'}`}
+            >
+              <ClipboardList className="mr-2 h-4 w-4" />
+              Paper
+            </button>
+            <button
+              onClick={() => setView('assessments')}
+              className={`inline-flex items-center px-4 py-2 text-sm font-medium rounded-md ${view === 'assessments' ? 'bg-blue-600 text-white' : 'text-gray-600 hover:bg-gray-100'}`}
+            >
+              <Timer className="mr-2 h-4 w-4" />
+              Assessments
+            </button>
+            <button
+              onClick={() => setView('history')}
+              className={`inline-flex items-center px-4 py-2 text-sm font-medium rounded-md ${view === 'history' ? 'bg-blue-600 text-white' : 'text-gray-600 hover:bg-gray-100'}`}
+            >
+              <History className="mr-2 h-4 w-4" />
+              History
+            </button>
+          </div>
         </div>
 
-        {/* Form */}
-        <div className="bg-white rounded-lg shadow-lg p-6 mb-8">
-          <h2 className="text-2xl font-semibold text-gray-800 mb-6">Question Parameters</h2>
+        {view === 'library' && (
+          <QuestionLibrary
+            positions={availablePositions}
+            topics={TOPICS}
+            languages={LANGUAGES}
+            workspaces={workspaces}
+            currentUserId={user.id}
+            onReuse={reuseQuestion}
+            onUnauthorized={handleUnauthorized}
+          />
+        )}
+
+        {view === 'paper' && (
+          <PaperBuilder
+            positions={availablePositions}
+            topics={TOPICS}
+            languages={LANGUAGES}
+            exportFormats={exportFormats}
+            onOpen={openPaper}
+            onUnauthorized={handleUnauthorized}
+          />
+        )}
+
+        {view === 'assessments' && (
+          <AssessmentsPanel onUnauthorized={handleUnauthorized} />
+        )}
+
+        {view === 'history' && (
+          <HistoryPanel
+            onOpen={openHistoryEntry}
+            onReuseParameters={reuseHistoryParameters}
+            onUnauthorized={handleUnauthorized}
+          />
+        )}
+
+        {view === 'generate' && (
+          <>
+          {/* Form */}
+          <div className="bg-white rounded-lg shadow-lg p-6 mb-8">
+            <h2 className="text-2xl font-semibold text-gray-800 mb-6">Question Parameters</h2>
           
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            <div className="relative" ref={positionDropdownRef}>
-              <label htmlFor="positionName" className="block text-sm font-medium text-gray-700 mb-2">
-                Position Name
-              </label>
-              <div className="relative">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              <div className="relative" ref={positionDropdownRef}>
+                <label htmlFor="positionName" className="block text-sm font-medium text-gray-700 mb-2">
+                  Position Name
+                </label>
+                <div className="relative">
+                  <input
+                    type="text"
+                    id="positionName"
+                    value={positionSearch || formData.positionName}
+                    onChange={(e) => {
+                      setPositionSearch(e.target.value)
+                      setShowPositionDropdown(true)
+                    }}
+                    onFocus={() => setShowPositionDropdown(true)}
+                    placeholder="Search positions..."
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <div className="absolute inset-y-0 right-0 flex items-center pr-3 pointer-events-none">
+                    <svg className="h-4 w-4 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+                    </svg>
+                  </div>
+                </div>
+              
+                {showPositionDropdown && (
+                  <div className="absolute z-10 w-full mt-1 bg-white border border-gray-300 rounded-md shadow-lg max-h-60 overflow-y-auto">
+                    {filteredPositions.length > 0 ? (
+                      filteredPositions.map((position) => (
+                        <button
+                          key={position.id}
+                          type="button"
+                          onClick={() => handlePositionSelect(position.name)}
+                          className="w-full px-3 py-2 text-left hover:bg-gray-100 focus:bg-gray-100 focus:outline-none border-b border-gray-100 last:border-b-0"
+                        >
+                          {position.name}
+                          <span className="block text-xs text-gray-500">
+                            {position.seniority} · {position.companies.join(', ')}
+                          </span>
+                        </button>
+                      ))
+                    ) : (
+                      <div className="px-3 py-2 text-gray-500 text-sm">No positions found</div>
+                    )}
+                  </div>
+                )}
+                <FieldMessage message={fieldErrors.positionName} />
+              </div>
+
+              <div>
+                <label htmlFor="type" className="block text-sm font-medium text-gray-700 mb-2">
+                  Type
+                </label>
+                <select
+                  id="type"
+                  name="type"
+                  value={formData.type}
+                  onChange={handleInputChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="complete_code">🔧 Complete the Code (Function Templates)</option>
+                  <option value="write_code">📝 Write Code (From Scratch)</option>
+                </select>
+                <FieldMessage message={fieldErrors.type} />
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="block text-sm font-medium text-gray-700">
+                    Languages {formData.type === 'complete_code' ? '(Select multiple for code templates)' : '(Select languages for problem labels)'}
+                  </label>
+                  <button
+                    type="button"
+                    onClick={handleSelectAllLanguages}
+                    className="text-sm text-blue-600 hover:text-blue-800 font-medium"
+                  >
+                    {formData.languages.length === LANGUAGES.length ? 'Deselect All' : 'Select All'}
+                  </button>
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  {LANGUAGES.map((language) => (
+                    <label key={language.id} className="flex items-center cursor-pointer">
+                      <input
+                        type="checkbox"
+                        id={`languages-${language.id}`}
+                        name="languages"
+                        value={language.id}
+                        checked={formData.languages.includes(language.id)}
+                        onChange={(e) => handleLanguageChange(e.target.value)}
+                        className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                      />
+                      <span className="ml-2 text-sm text-gray-700">{language.name}</span>
+                    </label>
+                  ))}
+                </div>
+                <FieldMessage message={fieldErrors.languages} />
+                <p className="text-xs text-gray-500 mt-2">
+                  {formData.type === 'complete_code' 
+                    ? '🔧 Function templates with language labels will be generated' 
+                    : '📝 Problem statements with language labels will be generated (no code templates)'
+                  }
+                </p>
+              </div>
+
+              <div>
+                <label htmlFor="difficultyLevel" className="block text-sm font-medium text-gray-700 mb-2">
+                  Difficulty Level
+                </label>
+                <select
+                  id="difficultyLevel"
+                  name="difficultyLevel"
+                  value={formData.difficultyLevel}
+                  onChange={handleInputChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="easy">Easy</option>
+                  <option value="medium">Medium</option>
+                  <option value="hard">Hard</option>
+                </select>
+                <FieldMessage message={fieldErrors.difficultyLevel} />
+              </div>
+
+              <div>
+                <label htmlFor="topic" className="block text-sm font-medium text-gray-700 mb-2">
+                  Topic
+                </label>
+                <select
+                  id="topic"
+                  name="topic"
+                  value={formData.topic}
+                  onChange={handleInputChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {TOPICS.map((topic) => (
+                    <option key={topic} value={topic}>{topic}</option>
+                  ))}
+                </select>
+                <FieldMessage message={fieldErrors.topic} />
+              </div>
+
+              <div>
+                <label htmlFor="count" className="block text-sm font-medium text-gray-700 mb-2">
+                  Number of Questions
+                </label>
                 <input
-                  type="text"
-                  id="positionName"
-                  value={positionSearch || formData.positionName}
+                  type="number"
+                  id="count"
+                  name="count"
+                  min={1}
+                  max={MAX_QUESTION_COUNT}
+                  value={formData.count}
                   onChange={(e) => {
-                    setPositionSearch(e.target.value)
-                    setShowPositionDropdown(true)
+                    clearFieldError('count')
+                    setFormData(prev => ({ ...prev, count: Number(e.target.value) }))
                   }}
-                  onFocus={() => setShowPositionDropdown(true)}
-                  placeholder="Search positions..."
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                 />
-                <div className="absolute inset-y-0 right-0 flex items-center pr-3 pointer-events-none">
-                  <svg className="h-4 w-4 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
-                  </svg>
-                </div>
+                <FieldMessage message={fieldErrors.count} />
               </div>
-              
-              {showPositionDropdown && (
-                <div className="absolute z-10 w-full mt-1 bg-white border border-gray-300 rounded-md shadow-lg max-h-60 overflow-y-auto">
-                  {filteredPositions.length > 0 ? (
-                    filteredPositions.map((position) => (
-                      <button
-                        key={position}
-                        type="button"
-                        onClick={() => handlePositionSelect(position)}
-                        className="w-full px-3 py-2 text-left hover:bg-gray-100 focus:bg-gray-100 focus:outline-none border-b border-gray-100 last:border-b-0"
-                      >
-                        {position}
-                      </button>
-                    ))
-                  ) : (
-                    <div className="px-3 py-2 text-gray-500 text-sm">No positions found</div>
-                  )}
-                </div>
-              )}
-            </div>
-
-            <div>
-              <label htmlFor="type" className="block text-sm font-medium text-gray-700 mb-2">
-                Type
-              </label>
-              <select
-                id="type"
-                name="type"
-                value={formData.type}
-                onChange={handleInputChange}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-              >
-                <option value="complete_code">🔧 Complete the Code (Function Templates)</option>
-                <option value="write_code">📝 Write Code (From Scratch)</option>
-              </select>
-            </div>
 
-            <div>
-              <div className="flex items-center justify-between mb-2">
-                <label className="block text-sm font-medium text-gray-700">
-                  Languages {formData.type === 'complete_code' ? '(Select multiple for code templates)' : '(Select languages for problem labels)'}
+              <div>
+                <label htmlFor="provider" className="block text-sm font-medium text-gray-700 mb-2">
+                  AI Provider
                 </label>
-                <button
-                  type="button"
-                  onClick={handleSelectAllLanguages}
-                  className="text-sm text-blue-600 hover:text-blue-800 font-medium"
+                <select
+                  id="provider"
+                  name="provider"
+                  value={formData.provider}
+                  onChange={handleInputChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                 >
-                  {formData.languages.length === availableLanguages.length ? 'Deselect All' : 'Select All'}
-                </button>
+                  {availableProviders.map((provider) => (
+                    <option key={provider.id} value={provider.id}>{provider.name}</option>
+                  ))}
+                </select>
+                <FieldMessage message={fieldErrors.provider} />
               </div>
-              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
-                {availableLanguages.map((language) => (
-                  <label key={language.id} className="flex items-center cursor-pointer">
-                    <input
-                      type="checkbox"
-                      id={`languages-${language.id}`}
-                      name="languages"
-                      value={language.id}
-                      checked={formData.languages.includes(language.id)}
-                      onChange={(e) => handleLanguageChange(e.target.value)}
-                      className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
-                    />
-                    <span className="ml-2 text-sm text-gray-700">{language.name}</span>
-                  </label>
-                ))}
+
+              <div>
+                <label htmlFor="model" className="block text-sm font-medium text-gray-700 mb-2">
+                  Model (Optional)
+                </label>
+                <input
+                  type="text"
+                  id="model"
+                  name="model"
+                  value={formData.model}
+                  onChange={handleInputChange}
+                  placeholder="Provider default"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <FieldMessage message={fieldErrors.model} />
+              </div>
+
+              <div>
+                <label htmlFor="promptVersion" className="block text-sm font-medium text-gray-700 mb-2">
+                  Prompt Version
+                </label>
+                <select
+                  id="promptVersion"
+                  name="promptVersion"
+                  value={formData.promptVersion}
+                  onChange={handleInputChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">Latest</option>
+                  {promptVersions.map((prompt) => (
+                    <option key={prompt.version} value={String(prompt.version)}>
+                      v{prompt.version}{prompt.description ? ` - ${prompt.description}` : ''}
+                    </option>
+                  ))}
+                </select>
+                <FieldMessage message={fieldErrors.promptVersion} />
               </div>
-              <p className="text-xs text-gray-500 mt-2">
-                {formData.type === 'complete_code' 
-                  ? '🔧 Function templates with language labels will be generated' 
-                  : '📝 Problem statements with language labels will be generated (no code templates)'
-                }
-              </p>
             </div>
 
-            <div>
-              <label htmlFor="difficultyLevel" className="block text-sm font-medium text-gray-700 mb-2">
-                Difficulty Level
+            <div className="mt-6">
+              <div className="bg-gradient-to-r from-blue-50 to-indigo-50 p-4 rounded-lg mb-4 border border-blue-200">
+                <div className="flex items-start space-x-3">
+                  <div className="flex-shrink-0">
+                    <svg className="h-5 w-5 text-blue-600 mt-0.5" fill="currentColor" viewBox="0 0 20 20">
+                      <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7-4a1 1 0 11-2 0 1 1 0 012 0zM9 9a1 1 0 000 2v3a1 1 0 001 1h1a1 1 0 100-2v-3a1 1 0 00-1-1H9z" clipRule="evenodd" />
+                    </svg>
+                  </div>
+                  <div>
+                    <p className="text-sm text-blue-800 font-medium">🇮🇳 Indian IT Company Focus</p>
+                    <p className="text-sm text-blue-700 mt-1">
+                      Questions are specifically designed based on real interviews from top Indian IT companies like TCS, Infosys, Wipro, Amazon India, Microsoft India, Google India, Flipkart, and more.
+                    </p>
+                    <p className="text-xs text-blue-600 mt-2">
+                      <strong>✨ Features:</strong> AI-generated titles • Accurate sample outputs • Real interview questions
+                    </p>
+                  </div>
+                </div>
+              </div>
+
+              <label htmlFor="problem" className="block text-sm font-medium text-gray-700 mb-2">
+                Problem Description (Optional)
               </label>
-              <select
-                id="difficultyLevel"
-                name="difficultyLevel"
-                value={formData.difficultyLevel}
+              <textarea
+                id="problem"
+                name="problem"
+                value={formData.problem}
                 onChange={handleInputChange}
+                maxLength={MAX_PROBLEM_LENGTH}
+                rows={3}
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-              >
-                <option value="easy">Easy</option>
-                <option value="medium">Medium</option>
-                <option value="hard">Hard</option>
-              </select>
+                placeholder="Specific problem requirements or context"
+              />
+              <FieldMessage message={fieldErrors.problem} />
             </div>
 
-            <div>
-              <label htmlFor="topic" className="block text-sm font-medium text-gray-700 mb-2">
-                Topic
+            <div className="mt-6">
+              <label htmlFor="hint" className="block text-sm font-medium text-gray-700 mb-2">
+                Hint (Optional)
               </label>
-              <select
-                id="topic"
-                name="topic"
-                value={formData.topic}
+              <textarea
+                id="hint"
+                name="hint"
+                value={formData.hint}
                 onChange={handleInputChange}
+                maxLength={MAX_HINT_LENGTH}
+                rows={2}
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-              >
-                <option value="Arrays">Arrays</option>
-                <option value="Strings">Strings</option>
-                <option value="Linked Lists">Linked Lists</option>
-                <option value="Stacks">Stacks</option>
-                <option value="Queues">Queues</option>
-                <option value="Trees">Trees</option>
-                <option value="Binary Trees">Binary Trees</option>
-                <option value="Binary Search Trees">Binary Search Trees</option>
-                <option value="Heaps">Heaps</option>
-                <option value="Graphs">Graphs</option>
-                <option value="Hash Tables">Hash Tables</option>
-                <option value="Dynamic Programming">Dynamic Programming</option>
-                <option value="Recursion">Recursion</option>
-                <option value="Backtracking">Backtracking</option>
-                <option value="Greedy Algorithms">Greedy Algorithms</option>
-                <option value="Sorting Algorithms">Sorting Algorithms</option>
-                <option value="Searching Algorithms">Searching Algorithms</option>
-                <option value="Two Pointers">Two Pointers</option>
-                <option value="Sliding Window">Sliding Window</option>
-                <option value="Binary Search">Binary Search</option>
-                <option value="Depth First Search">Depth First Search</option>
-                <option value="Breadth First Search">Breadth First Search</option>
-                <option value="Trie">Trie</option>
-                <option value="Union Find">Union Find</option>
-                <option value="Segment Trees">Segment Trees</option>
-                <option value="Fenwick Tree">Fenwick Tree</option>
-              </select>
+                placeholder="Any hints or additional context"
+              />
+              <FieldMessage message={fieldErrors.hint} />
             </div>
-          </div>
 
-          <div className="mt-6">
-            <div className="bg-gradient-to-r from-blue-50 to-indigo-50 p-4 rounded-lg mb-4 border border-blue-200">
-              <div className="flex items-start space-x-3">
-                <div className="flex-shrink-0">
-                  <svg className="h-5 w-5 text-blue-600 mt-0.5" fill="currentColor" viewBox="0 0 20 20">
-                    <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7-4a1 1 0 11-2 0 1 1 0 012 0zM9 9a1 1 0 000 2v3a1 1 0 001 1h1a1 1 0 100-2v-3a1 1 0 00-1-1H9z" clipRule="evenodd" />
-                  </svg>
-                </div>
-                <div>
-                  <p className="text-sm text-blue-800 font-medium">🇮🇳 Indian IT Company Focus</p>
-                  <p className="text-sm text-blue-700 mt-1">
-                    Questions are specifically designed based on real interviews from top Indian IT companies like TCS, Infosys, Wipro, Amazon India, Microsoft India, Google India, Flipkart, and more.
-                  </p>
-                  <p className="text-xs text-blue-600 mt-2">
-                    <strong>✨ Features:</strong> AI-generated titles • Accurate sample outputs • Real interview questions
-                  </p>
-                </div>
-              </div>
+            <div className="mt-6">
+              <label className="inline-flex items-center cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={formData.duplicateHandling === 'regenerate'}
+                  onChange={(e) => setFormData(prev => ({ ...prev, duplicateHandling: e.target.checked ? 'regenerate' : 'flag' }))}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                <span className="ml-2 text-sm text-gray-700">Automatically regenerate questions that look like duplicates of saved or sibling questions</span>
+              </label>
+              <label className="flex items-center cursor-pointer mt-2">
+                <input
+                  type="checkbox"
+                  checked={formData.difficultyHandling === 'regenerate'}
+                  onChange={(e) => setFormData(prev => ({ ...prev, difficultyHandling: e.target.checked ? 'regenerate' : 'flag' }))}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                <span className="ml-2 text-sm text-gray-700">Automatically regenerate questions whose estimated difficulty doesn&apos;t match the selected level</span>
+              </label>
+              <label className="flex items-center cursor-pointer mt-2">
+                <input
+                  type="checkbox"
+                  checked={formData.forceFresh === true}
+                  onChange={(e) => setFormData(prev => ({ ...prev, forceFresh: e.target.checked }))}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                <span className="ml-2 text-sm text-gray-700">Skip cache: generate a new batch even if this exact request was answered recently</span>
+              </label>
             </div>
 
-            <label htmlFor="problem" className="block text-sm font-medium text-gray-700 mb-2">
-              Problem Description (Optional)
-            </label>
-            <textarea
-              id="problem"
-              name="problem"
-              value={formData.problem}
-              onChange={handleInputChange}
-              rows={3}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-              placeholder="Specific problem requirements or context"
-            />
-          </div>
-
-          <div className="mt-6">
-            <label htmlFor="hint" className="block text-sm font-medium text-gray-700 mb-2">
-              Hint (Optional)
-            </label>
-            <textarea
-              id="hint"
-              name="hint"
-              value={formData.hint}
-              onChange={handleInputChange}
-              rows={2}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-              placeholder="Any hints or additional context"
-            />
-          </div>
-
-          <div className="mt-6">
-            <button
-              onClick={generateQuestions}
-              disabled={isGenerating}
-              className="inline-flex items-center px-6 py-3 border border-transparent text-base font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              {isGenerating ? (
-                <>
-                  <RefreshCw className="animate-spin -ml-1 mr-3 h-5 w-5" />
-                  Generating...
-                </>
-              ) : (
-                <>
-                  <Send className="-ml-1 mr-3 h-5 w-5" />
-                  Generate 5 Questions
-                </>
-              )}
-            </button>
-          </div>
-        </div>
-
-        {/* Generated Questions */}
-        {questions.length > 0 && (
-          <div className="bg-white rounded-lg shadow-lg p-6">
-            <div className="flex justify-between items-center mb-6">
-              <h2 className="text-2xl font-semibold text-gray-800">Generated Questions</h2>
+            <div className="mt-6 flex items-center space-x-3">
               <button
-                onClick={sendToSheet}
-                disabled={isSendingToSheet || selectedQuestions.size === 0}
-                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                onClick={generateQuestions}
+                disabled={isGenerating}
+                className="inline-flex items-center px-6 py-3 border border-transparent text-base font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                {isSendingToSheet ? (
+                {isGenerating ? (
                   <>
-                    <RefreshCw className="animate-spin -ml-1 mr-2 h-4 w-4" />
-                    Sending...
+                    <RefreshCw className="animate-spin -ml-1 mr-3 h-5 w-5" />
+                    {questions.length > 0 ? `Generating... (${questions.length} received)` : 'Generating...'}
                   </>
                 ) : (
                   <>
-                    <FileSpreadsheet className="-ml-1 mr-2 h-4 w-4" />
-                    Send to Sheet ({selectedQuestions.size})
+                    <Send className="-ml-1 mr-3 h-5 w-5" />
+                    Generate {formData.count} Question{formData.count === 1 ? '' : 's'}
                   </>
                 )}
               </button>
+              {isGenerating && (
+                <button
+                  onClick={cancelGeneration}
+                  className="inline-flex items-center px-6 py-3 border border-gray-300 text-base font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                >
+                  <XCircle className="-ml-1 mr-3 h-5 w-5" />
+                  Cancel
+                </button>
+              )}
+              <div className="flex items-center space-x-2 ml-auto">
+                <input
+                  type="text"
+                  value={sheetImportTab}
+                  onChange={(e) => setSheetImportTab(e.target.value)}
+                  placeholder="Sheet tab (default)"
+                  aria-label="Sheet tab to import"
+                  className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <button
+                  onClick={importFromSheet}
+                  disabled={isImportingFromSheet || isGenerating}
+                  className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isImportingFromSheet ? (
+                    <RefreshCw className="animate-spin -ml-1 mr-2 h-4 w-4" />
+                  ) : (
+                    <FileSpreadsheet className="-ml-1 mr-2 h-4 w-4" />
+                  )}
+                  Import from Sheet
+                </button>
+              </div>
             </div>
+          </div>
 
-            <div className="space-y-6">
-              {questions.map((question) => (
-                <div key={question.id} className="border border-gray-200 rounded-lg p-4">
-                  <div className="flex items-start justify-between mb-4">
-                    <div className="flex items-center space-x-3">
-                      <span className="text-lg font-bold text-blue-600 bg-blue-50 px-3 py-1 rounded-full">
-                        {getQuestionNumber(question.id)}
-                      </span>
-                      <h3 className="text-lg font-semibold text-gray-800">{question.title}</h3>
-                      {question.language && (
-                        <span className="px-3 py-1 bg-gradient-to-r from-blue-500 to-purple-600 text-white text-sm font-bold rounded-full">
-                          {question.language.toUpperCase()}
-                        </span>
-                      )}
-                    </div>
-                    <button
-                      onClick={() => toggleQuestionSelection(question.id)}
-                      className={`ml-4 p-2 rounded-full ${
-                        selectedQuestions.has(question.id)
-                          ? 'bg-green-100 text-green-600'
-                          : 'bg-gray-100 text-gray-400 hover:bg-gray-200'
-                      }`}
-                    >
-                      <CheckCircle2 className="h-5 w-5" />
-                    </button>
-                  </div>
+          {/* Generated Questions */}
+          {questions.length > 0 && (
+            <div className="bg-white rounded-lg shadow-lg p-6">
+              <div className="flex justify-between items-center mb-6">
+                <h2 className="text-2xl font-semibold text-gray-800">Generated Questions</h2>
+                <div className="flex items-center space-x-3">
+                  <select
+                    value={exportFormat}
+                    onChange={(e) => setExportFormat(e.target.value)}
+                    aria-label="Export format"
+                    className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {exportFormats.map((format) => (
+                      <option key={format.id} value={format.id}>{format.name}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={exportSelected}
+                    disabled={isExporting || selectedQuestions.size === 0}
+                    className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isExporting ? (
+                      <>
+                        <RefreshCw className="animate-spin -ml-1 mr-2 h-4 w-4" />
+                        Exporting...
+                      </>
+                    ) : (
+                      <>
+                        <Download className="-ml-1 mr-2 h-4 w-4" />
+                        Export ({selectedQuestions.size})
+                      </>
+                    )}
+                  </button>
+                  <button
+                    onClick={saveToLibrary}
+                    disabled={isSavingToLibrary || selectedQuestions.size === 0}
+                    className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isSavingToLibrary ? (
+                      <>
+                        <RefreshCw className="animate-spin -ml-1 mr-2 h-4 w-4" />
+                        Saving...
+                      </>
+                    ) : (
+                      <>
+                        <Save className="-ml-1 mr-2 h-4 w-4" />
+                        Save to Library ({selectedQuestions.size})
+                      </>
+                    )}
+                  </button>
+                  <button
+                    onClick={sendToSheet}
+                    disabled={isSendingToSheet || selectedQuestions.size === 0}
+                    className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isSendingToSheet ? (
+                      <>
+                        <RefreshCw className="animate-spin -ml-1 mr-2 h-4 w-4" />
+                        Sending...
+                      </>
+                    ) : (
+                      <>
+                        <FileSpreadsheet className="-ml-1 mr-2 h-4 w-4" />
+                        Send to Sheet ({selectedQuestions.size})
+                      </>
+                    )}
+                  </button>
+                </div>
+              </div>
 
-                  <div className="space-y-4 text-sm">
-                    <div>
-                      <h4 className="font-medium text-gray-700">Problem Statement:</h4>
-                      <p className="text-gray-600 mt-1">{question.problemStatement}</p>
-                    </div>
+              <div className="flex flex-wrap items-center gap-4 mb-6 text-sm text-gray-600">
+                <label className="inline-flex items-center space-x-2">
+                  <span>Sheet tab</span>
+                  <select
+                    value={sheetTabMode}
+                    onChange={(e) => setSheetTabMode(e.target.value as typeof sheetTabMode)}
+                    className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="default">Default tab</option>
+                    <option value="position">One tab per position</option>
+                    <option value="batch">One tab per batch</option>
+                  </select>
+                </label>
+                <label className="inline-flex items-center space-x-2">
+                  <span>Sheet columns</span>
+                  <select
+                    value={sheetColumns}
+                    onChange={(e) => setSheetColumns(e.target.value as typeof sheetColumns)}
+                    className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="compact">Compact (problem in one cell)</option>
+                    <option value="detailed">One column per field</option>
+                  </select>
+                </label>
+              </div>
 
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                      <div>
-                        <h4 className="font-medium text-gray-700">Input Format:</h4>
-                        <p className="text-gray-600 mt-1">{question.inputFormat}</p>
+              <div className="space-y-6">
+                {questions.map((question) => (
+                  <div key={question.id} className="border border-gray-200 rounded-lg p-4">
+                    <div className="flex items-start justify-between mb-4">
+                      <div className="flex items-center space-x-3">
+                        <span className="text-lg font-bold text-blue-600 bg-blue-50 px-3 py-1 rounded-full">
+                          {getQuestionNumber(question)}
+                        </span>
+                        <h3 className="text-lg font-semibold text-gray-800">{question.title}</h3>
+                        {question.language && (
+                          <span className="px-3 py-1 bg-gradient-to-r from-blue-500 to-purple-600 text-white text-sm font-bold rounded-full">
+                            {question.language.toUpperCase()}
+                          </span>
+                        )}
+                        {question.verification && (() => {
+                          const { label, className, Icon } = verificationBadges[question.verification.status]
+                          return (
+                            <span
+                              title={question.verification.error || (question.verification.durationMs !== undefined ? `Reference solution ran in ${question.verification.durationMs}ms` : undefined)}
+                              className={`inline-flex items-center px-2 py-1 text-xs font-medium rounded-full ${className}`}
+                            >
+                              <Icon className="h-3 w-3 mr-1" />
+                              {label}
+                            </span>
+                          )
+                        })()}
+                        {question.difficultyEstimate && (
+                          <span
+                            title={`Estimated difficulty: ${question.difficultyEstimate.reasons.join(', ')}`}
+                            className={`px-2 py-1 text-xs font-medium rounded-full ${question.difficultyEstimate.mismatch ? 'bg-purple-100 text-purple-700' : 'bg-gray-100 text-gray-600'}`}
+                          >
+                            ~{question.difficultyEstimate.level} · {question.difficultyEstimate.score}
+                          </span>
+                        )}
+                        {question.promptVersion && (
+                          <span title="Prompt template that produced this question" className="text-xs text-gray-400">
+                            {question.promptVersion}
+                          </span>
+                        )}
                       </div>
-                      <div>
-                        <h4 className="font-medium text-gray-700">Output Format:</h4>
-                        <p className="text-gray-600 mt-1">{question.outputFormat}</p>
+                      <div className="flex items-center space-x-2 ml-4">
+                        {question.language && question.implementation !== undefined && !question.signature && (
+                          <button
+                            onClick={() => regenerateQuestion(question, question.language)}
+                            disabled={isGenerating || regenerating.has(question.id)}
+                            title={`Regenerate the ${question.language.toUpperCase()} template only`}
+                            className="p-2 rounded-full bg-gray-100 text-gray-500 hover:bg-gray-200 disabled:opacity-50"
+                          >
+                            <Code2 className="h-5 w-5" />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => regenerateQuestion(question)}
+                          disabled={isGenerating || regenerating.has(question.id)}
+                          title="Regenerate this question"
+                          className="p-2 rounded-full bg-gray-100 text-gray-500 hover:bg-gray-200 disabled:opacity-50"
+                        >
+                          <RefreshCw className={`h-5 w-5 ${regenerating.has(question.id) ? 'animate-spin' : ''}`} />
+                        </button>
+                        <button
+                          onClick={() => toggleQuestionSelection(question.id)}
+                          className={`p-2 rounded-full ${
+                            selectedQuestions.has(question.id)
+                              ? 'bg-green-100 text-green-600'
+                              : 'bg-gray-100 text-gray-400 hover:bg-gray-200'
+                          }`}
+                        >
+                          <CheckCircle2 className="h-5 w-5" />
+                        </button>
                       </div>
                     </div>
 
-                    <div>
-                      <h4 className="font-medium text-gray-700">Constraints:</h4>
-                      <p className="text-gray-600 mt-1">{question.constraints}</p>
-                    </div>
-
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-4 text-sm">
                       <div>
-                        <h4 className="font-medium text-gray-700">Sample Input:</h4>
-                        <pre className="bg-gray-50 p-2 rounded mt-1 text-xs">{question.sampleInput}</pre>
+                        <h4 className="font-medium text-gray-700">Problem Statement:</h4>
+                        <p className="text-gray-600 mt-1">{question.problemStatement}</p>
                       </div>
-                      <div>
-                        <h4 className="font-medium text-gray-700">Sample Output:</h4>
-                        <pre className="bg-gray-50 p-2 rounded mt-1 text-xs">{question.sampleOutput}</pre>
+
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                          <h4 className="font-medium text-gray-700">Input Format:</h4>
+                          <p className="text-gray-600 mt-1">{question.inputFormat}</p>
+                        </div>
+                        <div>
+                          <h4 className="font-medium text-gray-700">Output Format:</h4>
+                          <p className="text-gray-600 mt-1">{question.outputFormat}</p>
+                        </div>
                       </div>
-                    </div>
 
-                    {question.hint && (
                       <div>
-                        <h4 className="font-medium text-gray-700">Hint:</h4>
-                        <p className="text-gray-600 mt-1 italic bg-yellow-50 p-3 rounded border-l-4 border-yellow-400">💡 {question.hint}</p>
+                        <h4 className="font-medium text-gray-700">Constraints:</h4>
+                        <p className="text-gray-600 mt-1">{question.constraints}</p>
                       </div>
-                    )}
 
-                    {question.implementation && (
-                      <div className="mt-4">
-                        <div className="flex items-center justify-between mb-2">
-                          <h4 className="font-medium text-gray-700">
-                            Function Template
-                          </h4>
-                          {question.language && (
-                            <span className="px-3 py-1 bg-gradient-to-r from-blue-500 to-purple-600 text-white text-sm font-bold rounded-full">
-                              {question.language.toUpperCase()}
-                            </span>
-                          )}
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                          <h4 className="font-medium text-gray-700">Sample Input:</h4>
+                          <pre className="bg-gray-50 p-2 rounded mt-1 text-xs">{question.sampleInput}</pre>
+                        </div>
+                        <div>
+                          <h4 className="font-medium text-gray-700">Sample Output:</h4>
+                          <pre className="bg-gray-50 p-2 rounded mt-1 text-xs">{question.sampleOutput}</pre>
                         </div>
-                        <pre className="bg-gray-50 p-4 rounded-lg text-sm border border-gray-300 overflow-x-auto font-mono">{question.implementation}</pre>
-                        <p className="text-xs text-gray-600 mt-2 italic">
-                          🔧 Fill in the function body to complete the solution
-                        </p>
                       </div>
+
+                      {question.difficultyEstimate?.mismatch && (
+                      <p className="text-xs text-purple-800 bg-purple-50 p-2 rounded border-l-4 border-purple-400">
+                        📏 Reads as {question.difficultyEstimate.level} ({question.difficultyEstimate.score}/100), not {question.difficultyEstimate.requested}: {question.difficultyEstimate.reasons.join(', ')}
+                      </p>
+                    )}
+
+                      {question.duplicateOf && (
+                      <p className="text-xs text-orange-800 bg-orange-50 p-2 rounded border-l-4 border-orange-400">
+                        🔁 Looks like a near-duplicate ({Math.round(question.duplicateOf.score * 100)}% similar) of {question.duplicateOf.source === 'bank' ? 'saved question' : 'question'} &quot;{question.duplicateOf.title}&quot;
+                        {question.duplicateOf.source === 'batch' && ' in this batch'}
+                      </p>
                     )}
+
+                    {question.verification?.status === 'mismatch' && (
+                        <div>
+                          <h4 className="font-medium text-red-700">Reference Solution Output:</h4>
+                          <pre className="bg-red-50 p-2 rounded mt-1 text-xs border border-red-200">{question.verification.actualOutput}</pre>
+                        </div>
+                      )}
+
+                      {question.verification?.status === 'failed' && question.verification.error && (
+                        <p className="text-xs text-amber-700 bg-amber-50 p-2 rounded">⚠️ {question.verification.error}</p>
+                      )}
+
+                      {question.hints && question.hints.length > 0 ? (
+                        <div>
+                          <h4 className="font-medium text-gray-700">Hints:</h4>
+                          {question.hints.slice(0, revealedHints[question.id] ?? 0).map(hint => (
+                            <div key={hint.level} className="text-gray-600 mt-1 bg-yellow-50 p-3 rounded border-l-4 border-yellow-400">
+                              <p className="text-xs font-semibold uppercase text-yellow-700">
+                                {hintLevelNames[hint.level]}
+                                {hint.leak && (
+                                  <span className="ml-2 normal-case font-normal text-red-600" title={hint.leak.reasons.join(', ')}>
+                                    ⚠️ May leak code or the solution
+                                  </span>
+                                )}
+                              </p>
+                              <p className="italic">💡 {hint.text}</p>
+                            </div>
+                          ))}
+                          {(revealedHints[question.id] ?? 0) < question.hints.length && (
+                            <button
+                              type="button"
+                              onClick={() => setRevealedHints(prev => ({ ...prev, [question.id]: (prev[question.id] ?? 0) + 1 }))}
+                              className="mt-2 text-sm text-yellow-700 hover:text-yellow-900 underline"
+                            >
+                              Show {hintLevelNames[question.hints[revealedHints[question.id] ?? 0].level].toLowerCase()} hint
+                            </button>
+                          )}
+                        </div>
+                      ) : question.hint && (
+                        <div>
+                          <h4 className="font-medium text-gray-700">Hint:</h4>
+                          <p className="text-gray-600 mt-1 italic bg-yellow-50 p-3 rounded border-l-4 border-yellow-400">💡 {question.hint}</p>
+                        </div>
+                      )}
+
+                      {question.editorial && (
+                        <details className="border border-gray-200 rounded">
+                          <summary className="cursor-pointer px-3 py-2 font-medium text-gray-700">
+                            📝 Editorial (time {question.editorial.timeComplexity}, space {question.editorial.spaceComplexity})
+                          </summary>
+                          <div className="px-3 pb-3 space-y-3 text-sm text-gray-700">
+                            <p className="whitespace-pre-wrap">{question.editorial.approach}</p>
+                            {question.editorial.alternatives.length > 0 && (
+                              <div>
+                                <h5 className="font-medium">Alternative approaches</h5>
+                                <ul className="list-disc pl-5">
+                                  {question.editorial.alternatives.map((alternative, i) => (
+                                    <li key={i}>
+                                      {alternative.approach}{' '}
+                                      <span className="text-gray-500">(time {alternative.timeComplexity}, space {alternative.spaceComplexity})</span>
+                                    </li>
+                                  ))}
+                                </ul>
+                              </div>
+                            )}
+                            {question.editorial.pitfalls.length > 0 && (
+                              <div>
+                                <h5 className="font-medium">Common pitfalls</h5>
+                                <ul className="list-disc pl-5">
+                                  {question.editorial.pitfalls.map((pitfall, i) => <li key={i}>{pitfall}</li>)}
+                                </ul>
+                              </div>
+                            )}
+                          </div>
+                        </details>
+                      )}
+
+                      {question.tests && question.tests.length > 0 && (
+                        <details className="border border-gray-200 rounded">
+                          <summary className="cursor-pointer px-3 py-2 font-medium text-gray-700">
+                            🧪 Hidden Tests ({question.tests.length}, {question.tests.filter(test => test.kind === 'edge').length} edge cases)
+                          </summary>
+                          <div className="px-3 pb-3 space-y-3">
+                            {question.tests.map((test, i) => (
+                              <div key={i}>
+                                <p className="text-xs text-gray-600">
+                                  <span className="font-semibold uppercase">{test.kind}</span> · {test.description}
+                                </p>
+                                <div className="grid grid-cols-1 md:grid-cols-2 gap-2 mt-1">
+                                  <pre className="bg-gray-50 p-2 rounded text-xs overflow-x-auto">{test.input}</pre>
+                                  <pre className="bg-gray-50 p-2 rounded text-xs overflow-x-auto">{test.expectedOutput}</pre>
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        </details>
+                      )}
+
+                      {question.implementation && (
+                        <div className="mt-4">
+                          <div className="flex items-center justify-between mb-2">
+                            <h4 className="font-medium text-gray-700">
+                              Function Template
+                            </h4>
+                            {question.language && (
+                              <span className="px-3 py-1 bg-gradient-to-r from-blue-500 to-purple-600 text-white text-sm font-bold rounded-full">
+                                {question.language.toUpperCase()}
+                              </span>
+                            )}
+                          </div>
+                          <pre className="bg-gray-50 p-4 rounded-lg text-sm border border-gray-300 overflow-x-auto font-mono">{question.implementation}</pre>
+                          <p className="text-xs text-gray-600 mt-2 italic">
+                            🔧 Fill in the function body to complete the solution
+                          </p>
+                        </div>
+                      )}
+                    </div>
                   </div>
-                </div>
-              ))}
+                ))}
+              </div>
             </div>
-          </div>
+          )}
+          </>
+        )}
+          </>
         )}
       </div>
     </div>
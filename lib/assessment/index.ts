@@ -0,0 +1,242 @@
+import { Question, TestCase, baseIdOf } from '../types'
+import type { DifficultyLevel } from '../difficulty'
+import type { Paper } from '../paper'
+import type { SavedQuestion } from '../store/questionBank'
+import { SANDBOX_LANGUAGES, SandboxLanguage } from '../sandbox/languages'
+import { DEFAULT_LIMITS, RunResult, isolationConfigured, outputsMatch, runProgram } from '../sandbox'
+import { estimateSolveMinutes } from '../paper/timing'
+import { starterCode } from './starter'
+
+export { starterCode }
+
+// Submissions arriving this long after the deadline are still accepted, to
+// allow for the request that was in flight when the timer ran out
+export const DEADLINE_GRACE_MS = 30 * 1000
+
+const MAX_STORED_OUTPUT = 2000
+
+// Candidate code only runs in an isolated sandbox, so without one no
+// assessment can be created, started or graded
+export const gradingAvailable = isolationConfigured
+
+export const GRADING_UNAVAILABLE = {
+  error: 'Candidate grading is turned off until an isolated sandbox is configured (SANDBOX_ISOLATION_COMMAND)'
+}
+
+// A question on an assessment with its language variants, copied when the
+// assessment is created so later edits to the bank don't change it
+export interface AssessmentQuestion {
+  id: string
+  title: string
+  topic?: string
+  difficultyLevel?: DifficultyLevel
+  estimatedMinutes?: number
+  variants: Question[]
+}
+
+export interface Assessment {
+  id: string
+  ownerId: string
+  title: string
+  // The secret in the candidate link
+  token: string
+  durationMinutes: number
+  // Sandbox languages every question has a variant in
+  languages: SandboxLanguage[]
+  questions: AssessmentQuestion[]
+  paperId?: string
+  createdAt: string
+}
+
+export type AssessmentDraft = Omit<Assessment, 'id' | 'ownerId' | 'token' | 'createdAt'>
+
+export type TestOutcome = 'passed' | 'wrong_answer' | Exclude<RunResult['status'], 'ok'>
+
+export interface TestResult {
+  kind: TestCase['kind']
+  description: string
+  outcome: TestOutcome
+  durationMs: number
+  actualOutput?: string
+  error?: string
+}
+
+// The latest submission for one question; earlier ones are only counted
+export interface Submission {
+  questionId: string
+  language: SandboxLanguage
+  code: string
+  results: TestResult[]
+  passed: number
+  total: number
+  // Percentage of tests passed
+  score: number
+  attempts: number
+  submittedAt: string
+}
+
+export interface CandidateSession {
+  id: string
+  assessmentId: string
+  candidateName: string
+  language: SandboxLanguage
+  startedAt: string
+  deadline: string
+  finishedAt?: string
+  submissions: Submission[]
+  // Mean of the question scores, counting unanswered questions as 0
+  score: number
+}
+
+function commonLanguages(questions: AssessmentQuestion[]): SandboxLanguage[] {
+  return SANDBOX_LANGUAGES.filter(language =>
+    questions.every(question => question.variants.some(variant => variant.language === language))
+  )
+}
+
+export function assessmentFromPaper(paper: Paper, title?: string, durationMinutes?: number): AssessmentDraft {
+  const questions = paper.questions.map(question => ({
+    id: baseIdOf(question.variants[0]),
+    title: question.variants[0].title,
+    topic: question.topic,
+    difficultyLevel: question.difficultyLevel,
+    estimatedMinutes: question.estimatedMinutes,
+    variants: question.variants
+  }))
+  return {
+    title: title || paper.title,
+    durationMinutes: durationMinutes ?? paper.timeBudgetMinutes,
+    languages: commonLanguages(questions),
+    questions,
+    paperId: paper.id
+  }
+}
+
+// `groups` holds the saved variants of each selected question, in the
+// order the candidate sees them. Without a duration the assessment lasts
+// as long as the questions' estimated solve times add up to.
+export function assessmentFromQuestions(groups: SavedQuestion[][], title?: string, durationMinutes?: number): AssessmentDraft {
+  const questions = groups.map(variants => {
+    const { positionName, topic, difficultyLevel, type, ownerId, workspaceId, createdAt, updatedAt, ...question } = variants[0]
+    return {
+      id: baseIdOf(question),
+      title: question.title,
+      topic,
+      difficultyLevel,
+      estimatedMinutes: estimateSolveMinutes(question, difficultyLevel, type),
+      variants: variants.map(({ positionName, topic, difficultyLevel, type, ownerId, workspaceId, createdAt, updatedAt, ...variant }) => variant)
+    }
+  })
+  return {
+    title: title || `${groups[0][0].positionName} assessment`,
+    durationMinutes: durationMinutes ?? questions.reduce((sum, question) => sum + question.estimatedMinutes, 0),
+    languages: commonLanguages(questions),
+    questions
+  }
+}
+
+export const variantFor = (question: AssessmentQuestion, language: SandboxLanguage) =>
+  question.variants.find(variant => variant.language === language)
+
+// The hidden tests, or the sample alone for questions generated without them
+export function testsFor(question: Question): TestCase[] {
+  return question.tests && question.tests.length > 0
+    ? question.tests
+    : [{ input: question.sampleInput, expectedOutput: question.sampleOutput, kind: 'sample', description: 'Sample from the problem statement' }]
+}
+
+// Runs the candidate's program on each test in turn, isolated but with the
+// same limits as the reference solutions
+export async function gradeSubmission(
+  question: Question,
+  language: SandboxLanguage,
+  code: string
+): Promise<Pick<Submission, 'results' | 'passed' | 'total' | 'score'>> {
+  const tests = testsFor(question)
+  const results: TestResult[] = []
+  for (const test of tests) {
+    const run = await runProgram(language, code, test.input, DEFAULT_LIMITS, { isolated: true })
+    const outcome: TestOutcome = run.status !== 'ok'
+      ? run.status
+      : outputsMatch(test.expectedOutput, run.stdout) ? 'passed' : 'wrong_answer'
+    results.push({
+      kind: test.kind,
+      description: test.description,
+      outcome,
+      durationMs: run.durationMs,
+      actualOutput: run.stdout.trimEnd().slice(0, MAX_STORED_OUTPUT),
+      ...(run.stderr.trim() ? { error: run.stderr.trim().split('\n').slice(-5).join('\n').slice(0, MAX_STORED_OUTPUT) } : {})
+    })
+  }
+
+  const passed = results.filter(result => result.outcome === 'passed').length
+  return { results, passed, total: tests.length, score: Math.round(passed / tests.length * 100) }
+}
+
+export function sessionScore(submissions: Submission[], questionCount: number): number {
+  if (questionCount === 0) return 0
+  return Math.round(submissions.reduce((sum, submission) => sum + submission.score, 0) / questionCount)
+}
+
+export function sessionEnded(session: CandidateSession, now = Date.now()): boolean {
+  return !!session.finishedAt || now > Date.parse(session.deadline) + DEADLINE_GRACE_MS
+}
+
+// What the candidate sees before starting: nothing about the questions
+// beyond how many there are
+export function assessmentSummary(assessment: Assessment) {
+  return {
+    title: assessment.title,
+    durationMinutes: assessment.durationMinutes,
+    questionCount: assessment.questions.length,
+    languages: assessment.languages
+  }
+}
+
+export type AssessmentSummary = ReturnType<typeof assessmentSummary>
+
+// The statement, sample and starter code in the session's language; hidden
+// tests, reference solutions, editorials and hints stay on the server
+export function candidateQuestions(assessment: Assessment, language: SandboxLanguage) {
+  return assessment.questions.map(question => {
+    const variant = variantFor(question, language) ?? question.variants[0]
+    return {
+      id: question.id,
+      title: variant.title,
+      problemStatement: variant.problemStatement,
+      inputFormat: variant.inputFormat,
+      outputFormat: variant.outputFormat,
+      constraints: variant.constraints,
+      sampleInput: variant.sampleInput,
+      sampleOutput: variant.sampleOutput,
+      estimatedMinutes: question.estimatedMinutes,
+      testCount: testsFor(variant).length,
+      starterCode: starterCode(language, variant.implementation)
+    }
+  })
+}
+
+export type CandidateQuestion = ReturnType<typeof candidateQuestions>[number]
+
+// Candidates see how each test went, but the output and errors only for
+// the sample, whose input they already know
+export function candidateSubmission(submission: Submission) {
+  return {
+    ...submission,
+    results: submission.results.map(({ kind, outcome, durationMs, actualOutput, error }) => ({
+      kind,
+      outcome,
+      durationMs,
+      ...(kind === 'sample' ? { actualOutput, error } : {})
+    }))
+  }
+}
+
+export type CandidateSubmission = ReturnType<typeof candidateSubmission>
+
+export function candidateSession(session: CandidateSession) {
+  const { assessmentId, ...rest } = session
+  return { ...rest, submissions: session.submissions.map(candidateSubmission) }
+}
+
+export type CandidateSessionView = ReturnType<typeof candidateSession>
@@ -0,0 +1,10 @@
+import type { TestOutcome } from './index'
+
+// Kept apart from the grader so client components can import it
+export const OUTCOME_NAMES: Record<TestOutcome, string> = {
+  passed: 'Passed',
+  wrong_answer: 'Wrong answer',
+  timeout: 'Time limit exceeded',
+  runtime_error: 'Runtime error',
+  output_limit: 'Output limit exceeded'
+}
@@ -0,0 +1,116 @@
+import type { SandboxLanguage } from '../sandbox/languages'
+import { NODE_TYPES, NodeType } from '../signature/types'
+
+// Definitions of the node types function templates refer to. Templates only
+// describe them in a comment, but a submission has to build them itself.
+const NODE_CLASSES: Record<SandboxLanguage, Record<NodeType, string>> = {
+  python: {
+    ListNode: [
+      'class ListNode:',
+      '    def __init__(self, val=0, next=None):',
+      '        self.val = val',
+      '        self.next = next'
+    ].join('\n'),
+    TreeNode: [
+      'class TreeNode:',
+      '    def __init__(self, val=0, left=None, right=None):',
+      '        self.val = val',
+      '        self.left = left',
+      '        self.right = right'
+    ].join('\n'),
+    GraphNode: [
+      'class GraphNode:',
+      '    def __init__(self, val=0, neighbors=None):',
+      '        self.val = val',
+      '        self.neighbors = neighbors if neighbors is not None else []'
+    ].join('\n')
+  },
+  javascript: {
+    ListNode: [
+      'class ListNode {',
+      '    constructor(val = 0, next = null) {',
+      '        this.val = val',
+      '        this.next = next',
+      '    }',
+      '}'
+    ].join('\n'),
+    TreeNode: [
+      'class TreeNode {',
+      '    constructor(val = 0, left = null, right = null) {',
+      '        this.val = val',
+      '        this.left = left',
+      '        this.right = right',
+      '    }',
+      '}'
+    ].join('\n'),
+    GraphNode: [
+      'class GraphNode {',
+      '    constructor(val = 0, neighbors = []) {',
+      '        this.val = val',
+      '        this.neighbors = neighbors',
+      '    }',
+      '}'
+    ].join('\n')
+  },
+  typescript: {
+    ListNode: [
+      'class ListNode {',
+      '    constructor(public val: number = 0, public next: ListNode | null = null) {}',
+      '}'
+    ].join('\n'),
+    TreeNode: [
+      'class TreeNode {',
+      '    constructor(public val: number = 0, public left: TreeNode | null = null, public right: TreeNode | null = null) {}',
+      '}'
+    ].join('\n'),
+    GraphNode: [
+      'class GraphNode {',
+      '    constructor(public val: number = 0, public neighbors: GraphNode[] = []) {}',
+      '}'
+    ].join('\n')
+  }
+}
+
+const nodesIn = (template: string) => NODE_TYPES.filter(node => new RegExp(`\\b${node}\\b`).test(template))
+
+// Submissions run as stdin -> stdout programs against the hidden tests, so
+// the editor starts from the question's function template (if it has one)
+// followed by the code that reads the input and prints the answer.
+export function starterCode(language: SandboxLanguage, implementation?: string): string {
+  const template = implementation?.trim()
+  const task = template
+    ? 'Read the input as described above, call your function and print the answer'
+    : 'Read the input as described above and print the answer'
+  const nodeClasses = template ? nodesIn(template).map(node => NODE_CLASSES[language][node]) : []
+
+  switch (language) {
+    case 'python':
+      // Python evaluates annotations when the function is defined, so the
+      // names in the template's signature must exist before it
+      return [
+        'import sys',
+        ...(template ? ['from typing import List, Optional'] : []),
+        '',
+        ...nodeClasses.flatMap(definition => ['', definition, '']),
+        ...(template ? ['', template, ''] : []),
+        '',
+        'def main():',
+        '    data = sys.stdin.read().split()',
+        `    # ${task}`,
+        '',
+        '',
+        "if __name__ == '__main__':",
+        '    main()',
+        ''
+      ].join('\n')
+    case 'javascript':
+    case 'typescript':
+      return [
+        ...nodeClasses.flatMap(definition => [definition, '']),
+        ...(template ? [template, ''] : []),
+        "const data = require('fs').readFileSync(0, 'utf8').trim().split(/\\s+/)",
+        `// ${task} with console.log`,
+        ''
+      ].join('\n')
+  }
+}
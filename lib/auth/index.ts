@@ -0,0 +1,52 @@
+import type { QuestionAccess } from '../store/questionBank'
+import { User, findSessionUser } from '../store/users'
+import { listWorkspacesFor } from '../store/workspaces'
+
+export { hashPassword, verifyPassword } from './password'
+
+export const SESSION_COOKIE = 'qg_session'
+
+export const UNAUTHENTICATED = { error: 'Sign in to continue' }
+
+export const FORBIDDEN = { error: 'Only admins can change this' }
+
+// Comma-separated emails of the accounts that may change the position
+// catalog and prompt templates; when unset, nobody may
+const adminEmails = () => (process.env.ADMIN_EMAILS ?? '')
+  .split(',')
+  .map(email => email.trim().toLowerCase())
+  .filter(Boolean)
+
+// Anything with Next's request cookie accessor
+interface CookieSource {
+  cookies: { get(name: string): { value: string } | undefined }
+}
+
+export const sessionToken = (request: CookieSource) => request.cookies.get(SESSION_COOKIE)?.value
+
+// The signed-in user, or undefined without a valid session cookie
+export async function sessionUser(request: CookieSource): Promise<User | undefined> {
+  const token = sessionToken(request)
+  return token ? findSessionUser(token) : undefined
+}
+
+export function isAdmin(user: User): boolean {
+  const admins = adminEmails()
+  return admins.includes(user.email.toLowerCase())
+}
+
+export async function questionAccess(user: User): Promise<QuestionAccess> {
+  const workspaces = await listWorkspacesFor(user.id)
+  return { userId: user.id, workspaceIds: workspaces.map(workspace => workspace.id) }
+}
+
+// Options for the session cookie; it is readable by the server only
+export function sessionCookieOptions(expiresAt: string) {
+  return {
+    httpOnly: true,
+    sameSite: 'lax' as const,
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    expires: new Date(expiresAt)
+  }
+}
@@ -0,0 +1,25 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto'
+
+const KEY_LENGTH = 64
+
+function derive(password: string, salt: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, (error, key) => error ? reject(error) : resolve(key))
+  })
+}
+
+// Stored as "scrypt$<salt>$<hash>", both hex
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString('hex')
+  const key = await derive(password, salt)
+  return `scrypt$${salt}$${key.toString('hex')}`
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split('$')
+  if (scheme !== 'scrypt' || !salt || !hash) return false
+
+  const expected = Buffer.from(hash, 'hex')
+  const actual = await derive(password, salt)
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
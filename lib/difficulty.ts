@@ -0,0 +1,147 @@
+import type { DifficultyEstimate, Editorial, FormData, ReferenceSolution } from './types'
+import { parseConstraintBounds } from './testSuite/constraints'
+
+export type DifficultyLevel = FormData['difficultyLevel']
+
+export interface DifficultySource {
+  title: string
+  problemStatement: string
+  constraints: string
+  referenceSolution?: ReferenceSolution
+  editorial?: Editorial
+}
+
+// Scores from 0 to 100 that each level is expected to land in. The bands
+// overlap so borderline questions aren't flagged either way.
+export const DIFFICULTY_BANDS: Record<DifficultyLevel, [number, number]> = {
+  easy: [0, 45],
+  medium: [25, 70],
+  hard: [50, 100]
+}
+
+// The level a score reads as, with no overlap
+const levelFor = (score: number): DifficultyLevel => score < 35 ? 'easy' : score < 55 ? 'medium' : 'hard'
+
+// Each signal is a 0-1 reading; the score is their weighted sum
+const WEIGHTS = { patterns: 0.45, complexity: 0.2, constraints: 0.2, statement: 0.15 }
+
+interface Pattern {
+  pattern: RegExp
+  weight: number
+  name: string
+}
+
+// Techniques named in the reference solution or the editorial's approach,
+// roughly ordered by how much they ask of a candidate
+const PATTERNS: Pattern[] = [
+  { pattern: /max(?:imum)?[ -]flow|bipartite matching|strongly connected|articulation|tarjan|kosaraju/, weight: 0.95, name: 'advanced graph algorithm' },
+  { pattern: /segment tree|fenwick|binary indexed|sparse table|lazy propagation/, weight: 0.9, name: 'range-query structure' },
+  { pattern: /suffix (?:array|automaton)|\bkmp\b|knuth|z-function|rabin|manacher|aho/, weight: 0.85, name: 'advanced string algorithm' },
+  { pattern: /bitmask|bit mask|1 ?<< ?n/, weight: 0.75, name: 'bitmask search' },
+  { pattern: /dijkstra|bellman|floyd|shortest path|topological/, weight: 0.7, name: 'shortest paths or topological order' },
+  { pattern: /union[ -]find|disjoint set|\bdsu\b/, weight: 0.7, name: 'union-find' },
+  { pattern: /\btrie\b/, weight: 0.65, name: 'trie' },
+  { pattern: /dynamic programming|memoi[sz]|lru_cache|\bdp\s*[[=(]/, weight: 0.6, name: 'dynamic programming' },
+  { pattern: /backtrack/, weight: 0.6, name: 'backtracking' },
+  { pattern: /monotonic/, weight: 0.55, name: 'monotonic stack or queue' },
+  { pattern: /\bbfs\b|\bdfs\b|breadth[ -]first|depth[ -]first|adjacency/, weight: 0.5, name: 'graph traversal' },
+  { pattern: /\bheap|priority queue|heapq/, weight: 0.5, name: 'heap' },
+  { pattern: /binary search|bisect/, weight: 0.45, name: 'binary search' },
+  { pattern: /prefix sum|running total|cumulative/, weight: 0.4, name: 'prefix sums' },
+  { pattern: /greedy/, weight: 0.4, name: 'greedy choice' },
+  { pattern: /sliding window|two pointers?|two-pointer/, weight: 0.35, name: 'two pointers or sliding window' },
+  { pattern: /kadane/, weight: 0.35, name: "Kadane's algorithm" },
+  { pattern: /hash (?:map|set)|dictionary|\bseen\b/, weight: 0.25, name: 'hash lookups' },
+  { pattern: /\bsort/, weight: 0.2, name: 'sorting' }
+]
+
+// Reading for a solution that uses none of the patterns: plain iteration
+const NO_PATTERN = 0.2
+
+// Complexity classes in the order they are tested. Not monotonic in the
+// class itself: an O(log n) answer usually means a binary search insight.
+const COMPLEXITIES: { pattern: RegExp; reading: number }[] = [
+  { pattern: /!|\^n|2\^|\*\*n|exponential/, reading: 0.8 },
+  { pattern: /sqrt|√/, reading: 0.6 },
+  { pattern: /n\^3|n³/, reading: 0.6 },
+  { pattern: /n\^2|n²|[nmk]\*[nmkw]/, reading: 0.5 },
+  { pattern: /[nm]\*?log|\)log/, reading: 0.5 },
+  { pattern: /log/, reading: 0.4 },
+  { pattern: /o\((?:n|m|n\+m|v\+e|k)\)/, reading: 0.3 },
+  { pattern: /o\(1\)/, reading: 0.1 }
+]
+
+function complexityReading(timeComplexity: string | undefined): number | undefined {
+  if (!timeComplexity) return undefined
+  const normalized = timeComplexity.toLowerCase().replace(/\s+/g, '').replace(/[·×]/g, '*')
+  return COMPLEXITIES.find(({ pattern }) => pattern.test(normalized))?.reading
+}
+
+// Variables that name an input size rather than a value
+const SIZE_VARIABLE = /^(?:[nmq]|len|length|size|\w+\.length|\|\w+\|)$/i
+
+// The largest bound on a size-like variable: N, M, Q, s.length and so on.
+// Value bounds such as A[i] or K say little about the algorithm needed.
+function largestSize(constraints: string): number | undefined {
+  const sizes = parseConstraintBounds(constraints)
+    .filter(bound => SIZE_VARIABLE.test(bound.variable))
+    .map(bound => bound.max)
+  return sizes.length > 0 ? Math.max(...sizes) : undefined
+}
+
+function constraintReading(size: number): number {
+  if (size <= 1000) return 0.2
+  if (size <= 100000) return 0.5
+  if (size <= 1000000) return 0.6
+  return 0.8
+}
+
+const wordCount = (text: string) => text.trim().split(/\s+/).filter(Boolean).length
+
+// Estimates how hard a question really is from the patterns its reference
+// solution and editorial use, the expected time complexity, the largest
+// input size in the constraints and the length of the statement. Signals
+// that can't be read (no editorial, no parseable bounds) are left out and
+// the rest reweighted.
+export function estimateDifficulty(source: DifficultySource, requested: DifficultyLevel): DifficultyEstimate {
+  const reasons: string[] = []
+  const readings: { weight: number; reading: number }[] = []
+
+  const text = [source.referenceSolution?.code, source.editorial?.approach].filter(Boolean).join('\n').toLowerCase()
+  const found = PATTERNS.filter(({ pattern }) => pattern.test(text))
+  readings.push({ weight: WEIGHTS.patterns, reading: found.length > 0 ? found[0].weight : NO_PATTERN })
+  if (found.length > 0) reasons.push(`uses ${found[0].name}`)
+
+  const complexity = complexityReading(source.editorial?.timeComplexity)
+  if (complexity !== undefined) {
+    readings.push({ weight: WEIGHTS.complexity, reading: complexity })
+    reasons.push(`expects ${source.editorial!.timeComplexity} time`)
+  }
+
+  const size = largestSize(source.constraints)
+  if (size !== undefined) {
+    readings.push({ weight: WEIGHTS.constraints, reading: constraintReading(size) })
+    reasons.push(`inputs up to ${size.toLocaleString('en-US')}`)
+  }
+
+  const words = wordCount(source.problemStatement)
+  readings.push({ weight: WEIGHTS.statement, reading: Math.min(1, Math.max(0, (words - 40) / 200)) })
+  reasons.push(`${words}-word statement`)
+
+  const totalWeight = readings.reduce((sum, { weight }) => sum + weight, 0)
+  const score = Math.round(100 * readings.reduce((sum, { weight, reading }) => sum + weight * reading, 0) / totalWeight)
+  const [min, max] = DIFFICULTY_BANDS[requested]
+
+  return {
+    score,
+    level: levelFor(score),
+    requested,
+    reasons,
+    ...(score < min || score > max ? { mismatch: true } : {})
+  }
+}
+
+// One line per missed question, for steering the replacement
+export function describeMiss(title: string, estimate: DifficultyEstimate): string {
+  return `"${title}" read as ${estimate.level} (${estimate.score}/100: ${estimate.reasons.join(', ')})`
+}
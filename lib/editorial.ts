@@ -0,0 +1,84 @@
+import type { AlternativeApproach, Editorial } from './types'
+
+// Plain-text layout shared by the Sheets editorial cells and the CSV export.
+// Every part has a parser so edited cells can be read back.
+
+export const emptyEditorial = (): Editorial => ({
+  approach: '',
+  timeComplexity: '',
+  spaceComplexity: '',
+  alternatives: [],
+  pitfalls: []
+})
+
+// List items are one per line
+const oneLine = (text: string) => text.replace(/\s*\n\s*/g, ' ')
+
+export const formatAlternative = (alternative: AlternativeApproach) =>
+  `- ${oneLine(alternative.approach)} (time ${alternative.timeComplexity}, space ${alternative.spaceComplexity})`
+
+export function formatAlternatives(alternatives: AlternativeApproach[]): string {
+  return alternatives.map(formatAlternative).join('\n')
+}
+
+const ALTERNATIVE_LINE = /^- (.+) \(time (.+), space (.+)\)$/
+
+// Lines not in the "- approach (time ..., space ...)" layout are kept as an
+// approach with unknown complexities rather than dropped
+export function parseAlternatives(cell: string): AlternativeApproach[] {
+  return cell.split('\n').map(line => line.trim()).filter(Boolean).map(line => {
+    const match = line.match(ALTERNATIVE_LINE)
+    return match
+      ? { approach: match[1], timeComplexity: match[2], spaceComplexity: match[3] }
+      : { approach: line.replace(/^- /, ''), timeComplexity: '', spaceComplexity: '' }
+  })
+}
+
+export function formatPitfalls(pitfalls: string[]): string {
+  return pitfalls.map(pitfall => `- ${oneLine(pitfall)}`).join('\n')
+}
+
+export function parsePitfalls(cell: string): string[] {
+  return cell.split('\n').map(line => line.trim().replace(/^- /, '')).filter(Boolean)
+}
+
+export function formatEditorial(editorial: Editorial | undefined): string {
+  if (!editorial) return ''
+
+  return [
+    `Approach:\n${editorial.approach}`,
+    `Complexity:\nTime: ${editorial.timeComplexity}\nSpace: ${editorial.spaceComplexity}`,
+    editorial.alternatives.length > 0 && `Alternatives:\n${formatAlternatives(editorial.alternatives)}`,
+    editorial.pitfalls.length > 0 && `Pitfalls:\n${formatPitfalls(editorial.pitfalls)}`
+  ].filter(Boolean).join('\n\n')
+}
+
+const SECTION = /^(Approach|Complexity|Alternatives|Pitfalls):$/
+
+// Reads back a cell written by formatEditorial. Text before the first
+// section heading is taken as the approach.
+export function parseEditorial(cell: string): Editorial | undefined {
+  if (!cell.trim()) return undefined
+
+  const sections: Record<string, string[]> = { Approach: [] }
+  let current = 'Approach'
+  for (const line of cell.split('\n')) {
+    const heading = line.trim().match(SECTION)
+    if (heading) {
+      current = heading[1]
+      sections[current] = []
+    } else {
+      sections[current].push(line)
+    }
+  }
+
+  const text = (name: string) => (sections[name] ?? []).join('\n').trim()
+  const complexity = text('Complexity')
+  return {
+    approach: text('Approach'),
+    timeComplexity: complexity.match(/^Time: (.*)$/m)?.[1].trim() ?? '',
+    spaceComplexity: complexity.match(/^Space: (.*)$/m)?.[1].trim() ?? '',
+    alternatives: parseAlternatives(text('Alternatives')),
+    pitfalls: parsePitfalls(text('Pitfalls'))
+  }
+}
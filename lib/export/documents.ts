@@ -0,0 +1,226 @@
+import type { Editorial, HintLevel, Question } from '../types'
+import { formatCsv } from '../csv'
+import { formatAlternative, formatEditorial, formatPitfalls } from '../editorial'
+import { ExportContext, ExportOptions, Problem, languageName, problemContext } from './problems'
+
+function fence(content: string, info = ''): string {
+  const ticks = content.includes('```') ? '````' : '```'
+  return `${ticks}${info}\n${content}\n${ticks}`
+}
+
+function contextLine(context: ExportContext): string {
+  return [
+    context.difficultyLevel && context.difficultyLevel.charAt(0).toUpperCase() + context.difficultyLevel.slice(1),
+    context.topic,
+    context.positionName,
+    context.estimatedMinutes !== undefined && `~${context.estimatedMinutes} min`
+  ].filter(Boolean).join(' · ')
+}
+
+const HINT_LEVEL_NAMES: Record<HintLevel, string> = {
+  nudge: 'Nudge',
+  approach: 'Approach',
+  nearSolution: 'Near solution'
+}
+
+// Tiered hints, or the single hint of questions saved before tiers
+function hintSections(question: Question): { name: string; text: string }[] {
+  if (question.hints && question.hints.length > 0) {
+    return question.hints.map(hint => ({ name: HINT_LEVEL_NAMES[hint.level], text: hint.text }))
+  }
+  return question.hint ? [{ name: 'Hint', text: question.hint }] : []
+}
+
+// The interviewer notes for one problem, without a title
+export function editorialMarkdown(editorial: Editorial, heading = '##'): string {
+  return [
+    `${heading} Intended Approach\n\n${editorial.approach}`,
+    `${heading} Complexity\n\n- Time: ${editorial.timeComplexity}\n- Space: ${editorial.spaceComplexity}`,
+    editorial.alternatives.length > 0 && `${heading} Alternative Approaches\n\n${editorial.alternatives.map(formatAlternative).join('\n')}`,
+    editorial.pitfalls.length > 0 && `${heading} Common Pitfalls\n\n${formatPitfalls(editorial.pitfalls)}`
+  ].filter(Boolean).join('\n\n')
+}
+
+// A standalone problem page. Templates are left out for judges that take
+// whole programs; the editorial is only added to interviewer documents.
+export function problemMarkdown(
+  problem: Problem,
+  context: ExportContext,
+  { templates = true, editorial = false } = {}
+): string {
+  const { question } = problem
+  const meta = contextLine(problemContext(problem, context))
+
+  return [
+    `# ${question.title}`,
+    meta && `*${meta}*`,
+    question.problemStatement,
+    `## Input Format\n\n${question.inputFormat}`,
+    `## Output Format\n\n${question.outputFormat}`,
+    `## Constraints\n\n${question.constraints}`,
+    `## Sample Input\n\n${fence(question.sampleInput)}`,
+    `## Sample Output\n\n${fence(question.sampleOutput)}`,
+    hintSections(question).length > 0 && `## Hints\n\n${hintSections(question)
+      .map(hint => `**${hint.name}:** ${hint.text}`)
+      .join('\n\n')}`,
+    templates && problem.templates.length > 0 && `## Function Templates\n\n${problem.templates
+      .map(template => `### ${languageName(template.language)}\n\n${fence(template.code, template.language)}`)
+      .join('\n\n')}`,
+    editorial && question.editorial && `## Editorial\n\n${editorialMarkdown(question.editorial, '###')}`
+  ].filter(Boolean).join('\n\n') + '\n'
+}
+
+// A title page listing the problems in order, for documents with a title
+function coverMarkdown(problems: Problem[], context: ExportContext, { title, summary }: ExportOptions): string {
+  const contents = problems.map((problem, i) => {
+    const meta = contextLine(problemContext(problem, context))
+    return `${i + 1}. ${problem.question.title}${meta ? ` (${meta})` : ''}`
+  })
+  return [`# ${title}`, summary && `*${summary}*`, contents.join('\n')].filter(Boolean).join('\n\n') + '\n'
+}
+
+export function toMarkdown(problems: Problem[], context: ExportContext, options: ExportOptions = {}): string {
+  return [
+    ...(options.title ? [coverMarkdown(problems, context, options)] : []),
+    ...problems.map(problem => problemMarkdown(problem, context, { editorial: true }))
+  ].join('\n---\n\n')
+}
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+
+const paragraphs = (text: string) => text
+  .split(/\n{2,}/)
+  .map(paragraph => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`)
+  .join('\n')
+
+const pre = (text: string) => `<pre><code>${escapeHtml(text)}</code></pre>`
+
+const list = (items: string[]) => `<ul>\n${items.map(item => `<li>${escapeHtml(item)}</li>`).join('\n')}\n</ul>`
+
+// Collapsed so the page can be shared with the interviewer notes out of sight
+function editorialHtml(editorial: Editorial): string {
+  return `<details class="editorial">
+<summary>Editorial</summary>
+<h3>Intended Approach</h3>
+${paragraphs(editorial.approach)}
+<h3>Complexity</h3>
+${list([`Time: ${editorial.timeComplexity}`, `Space: ${editorial.spaceComplexity}`])}
+${editorial.alternatives.length > 0 ? `<h3>Alternative Approaches</h3>\n${list(editorial.alternatives
+    .map(alternative => `${alternative.approach} (time ${alternative.timeComplexity}, space ${alternative.spaceComplexity})`))}` : ''}
+${editorial.pitfalls.length > 0 ? `<h3>Common Pitfalls</h3>\n${list(editorial.pitfalls)}` : ''}
+</details>`
+}
+
+function problemHtml(problem: Problem, context: ExportContext): string {
+  const { question } = problem
+  const meta = contextLine(problemContext(problem, context))
+
+  return `<article id="${problem.slug}">
+<h1>${escapeHtml(question.title)}</h1>
+${meta ? `<p class="meta">${escapeHtml(meta)}</p>` : ''}
+${paragraphs(question.problemStatement)}
+<h2>Input Format</h2>
+${paragraphs(question.inputFormat)}
+<h2>Output Format</h2>
+${paragraphs(question.outputFormat)}
+<h2>Constraints</h2>
+${paragraphs(question.constraints)}
+<h2>Sample Input</h2>
+${pre(question.sampleInput)}
+<h2>Sample Output</h2>
+${pre(question.sampleOutput)}
+${hintSections(question).length > 0 ? `<h2>Hints</h2>\n${hintSections(question)
+    .map(hint => `<details><summary>${escapeHtml(hint.name)}</summary>\n${paragraphs(hint.text)}</details>`)
+    .join('\n')}` : ''}
+${problem.templates.length > 0 ? `<h2>Function Templates</h2>\n${problem.templates
+    .map(template => `<h3>${escapeHtml(languageName(template.language))}</h3>\n${pre(template.code)}`)
+    .join('\n')}` : ''}
+${question.editorial ? editorialHtml(question.editorial) : ''}
+</article>`
+}
+
+function coverHtml(problems: Problem[], context: ExportContext, { title, summary }: ExportOptions): string {
+  const contents = problems.map(problem => {
+    const meta = contextLine(problemContext(problem, context))
+    return `<li><a href="#${problem.slug}">${escapeHtml(problem.question.title)}</a>${meta ? ` <span class="meta">${escapeHtml(meta)}</span>` : ''}</li>`
+  })
+  return `<header>
+<h1>${escapeHtml(title ?? '')}</h1>
+${summary ? `<p class="meta">${escapeHtml(summary)}</p>` : ''}
+<ol>
+${contents.join('\n')}
+</ol>
+</header>`
+}
+
+export function toHtml(problems: Problem[], context: ExportContext, options: ExportOptions = {}): string {
+  const title = options.title ?? (problems.length === 1 ? problems[0].question.title : `${problems.length} problems`)
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font-family: system-ui, sans-serif; max-width: 52rem; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; color: #1f2937; }
+header + article, article + article { border-top: 1px solid #e5e7eb; margin-top: 3rem; padding-top: 1rem; }
+.meta { color: #6b7280; font-style: italic; }
+.editorial { margin-top: 2rem; border: 1px solid #e5e7eb; border-radius: 0.375rem; padding: 0.5rem 1rem; }
+.editorial summary { cursor: pointer; font-weight: 600; }
+pre { background: #f3f4f6; padding: 0.75rem; border-radius: 0.375rem; overflow-x: auto; }
+</style>
+</head>
+<body>
+${options.title ? coverHtml(problems, context, options) : ''}
+${problems.map(problem => problemHtml(problem, context)).join('\n')}
+</body>
+</html>
+`
+}
+
+const CSV_COLUMNS = [
+  'id', 'title', 'language', 'position', 'topic', 'difficulty', 'type', 'problemStatement', 'inputFormat',
+  'outputFormat', 'constraints', 'sampleInput', 'sampleOutput', 'hint', 'template', 'hiddenTests', 'promptVersion',
+  'timeComplexity', 'spaceComplexity', 'editorial', 'estimatedDifficulty', 'difficultyScore', 'estimatedMinutes'
+]
+
+// One row per language variant
+export function toCsv(questions: Question[], sharedContext: ExportContext, contextOf?: ExportOptions['contextOf']): string {
+  const rows = questions.map(question => {
+    const context = { ...sharedContext, ...contextOf?.(question) }
+    return [
+      question.id,
+      question.title,
+      question.language ?? '',
+      context.positionName ?? '',
+      context.topic ?? '',
+      context.difficultyLevel ?? '',
+      context.type ?? '',
+      question.problemStatement,
+      question.inputFormat,
+      question.outputFormat,
+      question.constraints,
+      question.sampleInput,
+      question.sampleOutput,
+      question.hint ?? '',
+      question.implementation ?? '',
+      String(question.tests?.length ?? 0),
+      question.promptVersion ?? '',
+      question.editorial?.timeComplexity ?? '',
+      question.editorial?.spaceComplexity ?? '',
+      formatEditorial(question.editorial),
+      question.difficultyEstimate?.level ?? '',
+      question.difficultyEstimate ? String(question.difficultyEstimate.score) : '',
+      context.estimatedMinutes !== undefined ? String(context.estimatedMinutes) : ''
+    ]
+  })
+
+  return formatCsv([CSV_COLUMNS, ...rows])
+}
+
+export function toJsonBundle(questions: Question[], context: ExportContext): string {
+  return JSON.stringify({ exportedAt: new Date().toISOString(), inputParameters: context, questions }, null, 2)
+}
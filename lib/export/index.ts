@@ -0,0 +1,48 @@
+import type { Question } from '../types'
+import { toCsv, toHtml, toJsonBundle, toMarkdown } from './documents'
+import { domjudgePackage, hackerRankPackage } from './packages'
+import { ExportContext, ExportOptions, groupProblems } from './problems'
+
+export type { ExportContext, ExportOptions } from './problems'
+export { slugify } from './problems'
+
+export const EXPORT_FORMATS = ['markdown', 'html', 'json', 'csv', 'hackerrank', 'domjudge'] as const
+export type ExportFormat = typeof EXPORT_FORMATS[number]
+
+export function isExportFormat(format: unknown): format is ExportFormat {
+  return typeof format === 'string' && (EXPORT_FORMATS as readonly string[]).includes(format)
+}
+
+export interface ExportFile {
+  filename: string
+  contentType: string
+  body: string | Buffer
+}
+
+// Turns questions (one entry per language variant, as generated) into a
+// downloadable file. Problem pages and packages fold the variants of a
+// question together; JSON and CSV keep one entry per variant.
+export function exportQuestions(
+  questions: Question[],
+  format: ExportFormat,
+  context: ExportContext = {},
+  options: ExportOptions = {}
+): ExportFile {
+  const problems = groupProblems(questions, options.contextOf)
+  const name = options.name ?? 'questions'
+
+  switch (format) {
+    case 'markdown':
+      return { filename: `${name}.md`, contentType: 'text/markdown; charset=utf-8', body: toMarkdown(problems, context, options) }
+    case 'html':
+      return { filename: `${name}.html`, contentType: 'text/html; charset=utf-8', body: toHtml(problems, context, options) }
+    case 'json':
+      return { filename: `${name}.json`, contentType: 'application/json', body: toJsonBundle(questions, context) }
+    case 'csv':
+      return { filename: `${name}.csv`, contentType: 'text/csv; charset=utf-8', body: toCsv(questions, context, options.contextOf) }
+    case 'hackerrank':
+      return { filename: `${name}-hackerrank.zip`, contentType: 'application/zip', body: hackerRankPackage(problems, context) }
+    case 'domjudge':
+      return { filename: `${name}-domjudge.zip`, contentType: 'application/zip', body: domjudgePackage(problems, context) }
+  }
+}
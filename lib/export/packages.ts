@@ -0,0 +1,91 @@
+import { DEFAULT_LIMITS } from '../sandbox'
+import { editorialMarkdown, problemMarkdown } from './documents'
+import { ExportContext, Problem, allTestCases, extensionFor, problemContext, withTrailingNewline } from './problems'
+import { ZipEntry, createZip } from './zip'
+
+const TIME_LIMIT_SECONDS = Math.max(1, Math.ceil(DEFAULT_LIMITS.timeoutMs / 1000))
+
+const pad = (n: number) => String(n).padStart(2, '0')
+
+// Interviewer notes sit next to the statement, never inside it
+function editorialEntries(problem: Problem): ZipEntry[] {
+  const { question } = problem
+  return question.editorial
+    ? [{ path: `${problem.slug}/editorial.md`, content: `# ${question.title}\n\n${editorialMarkdown(question.editorial)}\n` }]
+    : []
+}
+
+function templateEntries(problem: Problem): ZipEntry[] {
+  return problem.templates.map(template => ({
+    path: `${problem.slug}/templates/${template.language}.${extensionFor(template.language)}`,
+    content: withTrailingNewline(template.code)
+  }))
+}
+
+// HackerRank-style folder per problem: the statement, a testcases.zip with
+// input/inputNN.txt and output/outputNN.txt (sample first, ready for the
+// test case upload), the templates per language and the editorial.
+export function hackerRankPackage(problems: Problem[], context: ExportContext): Buffer {
+  const entries: ZipEntry[] = problems.flatMap(problem => {
+    const cases = allTestCases(problem.question)
+    const testcases = createZip(cases.flatMap((test, i) => [
+      { path: `input/input${pad(i)}.txt`, content: withTrailingNewline(test.input) },
+      { path: `output/output${pad(i)}.txt`, content: withTrailingNewline(test.expectedOutput) }
+    ]))
+
+    return [
+      { path: `${problem.slug}/statement.md`, content: problemMarkdown(problem, context) },
+      { path: `${problem.slug}/testcases.zip`, content: testcases },
+      {
+        path: `${problem.slug}/metadata.json`,
+        content: JSON.stringify({
+          name: problem.question.title,
+          difficulty: problemContext(problem, context).difficultyLevel,
+          topic: problemContext(problem, context).topic,
+          sampleTestCases: 1,
+          testCases: cases.length
+        }, null, 2)
+      },
+      ...templateEntries(problem),
+      ...editorialEntries(problem)
+    ]
+  })
+
+  return createZip(entries)
+}
+
+// DOMjudge / Kattis problem package per folder: problem.yaml,
+// domjudge-problem.ini, the statement, data/sample and data/secret, the
+// reference solution under submissions/accepted, plus the templates and
+// the editorial.
+export function domjudgePackage(problems: Problem[], context: ExportContext): Buffer {
+  const entries: ZipEntry[] = problems.flatMap(problem => {
+    const { question } = problem
+    const [sample, ...secret] = allTestCases(question)
+    const reference = question.referenceSolution
+
+    return [
+      // JSON strings are valid YAML scalars, which saves escaping rules
+      { path: `${problem.slug}/problem.yaml`, content: `name: ${JSON.stringify(question.title)}\n` },
+      {
+        path: `${problem.slug}/domjudge-problem.ini`,
+        content: `name = ${JSON.stringify(question.title)}\ntimelimit = ${TIME_LIMIT_SECONDS}\n`
+      },
+      { path: `${problem.slug}/problem_statement/problem.md`, content: problemMarkdown(problem, context, { templates: false }) },
+      { path: `${problem.slug}/data/sample/1.in`, content: withTrailingNewline(sample.input) },
+      { path: `${problem.slug}/data/sample/1.ans`, content: withTrailingNewline(sample.expectedOutput) },
+      ...secret.flatMap((test, i) => [
+        { path: `${problem.slug}/data/secret/${pad(i + 1)}.in`, content: withTrailingNewline(test.input) },
+        { path: `${problem.slug}/data/secret/${pad(i + 1)}.ans`, content: withTrailingNewline(test.expectedOutput) }
+      ]),
+      ...(reference ? [{
+        path: `${problem.slug}/submissions/accepted/reference.${extensionFor(reference.language)}`,
+        content: withTrailingNewline(reference.code)
+      }] : []),
+      ...templateEntries(problem),
+      ...editorialEntries(problem)
+    ]
+  })
+
+  return createZip(entries)
+}
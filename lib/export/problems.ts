@@ -0,0 +1,101 @@
+import { FormData, Question, TestCase, baseIdOf } from '../types'
+
+// The generation parameters an export can show alongside each problem,
+// and for papers the time a problem is expected to take
+export type ExportContext = Partial<Pick<FormData, 'positionName' | 'topic' | 'difficultyLevel' | 'type'>> & {
+  estimatedMinutes?: number
+}
+
+// A document title and a line under it, plus per-question parameters for
+// questions that weren't all generated with the same ones (a paper)
+export interface ExportOptions {
+  title?: string
+  summary?: string
+  // Replaces "questions" in the file name
+  name?: string
+  contextOf?: (question: Question) => ExportContext
+}
+
+export interface Template {
+  language: string
+  code: string
+}
+
+// One problem with its language variants folded together
+export interface Problem {
+  slug: string
+  question: Question
+  templates: Template[]
+  // Overrides the export's context for this problem
+  context?: ExportContext
+}
+
+export const LANGUAGE_NAMES: Record<string, string> = {
+  javascript: 'JavaScript',
+  typescript: 'TypeScript',
+  python: 'Python',
+  java: 'Java',
+  cpp: 'C++',
+  csharp: 'C#',
+  go: 'Go',
+  rust: 'Rust'
+}
+
+export const LANGUAGE_EXTENSIONS: Record<string, string> = {
+  javascript: 'js',
+  typescript: 'ts',
+  python: 'py',
+  java: 'java',
+  cpp: 'cpp',
+  csharp: 'cs',
+  go: 'go',
+  rust: 'rs'
+}
+
+export const languageName = (language: string) => LANGUAGE_NAMES[language] ?? language
+export const extensionFor = (language: string) => LANGUAGE_EXTENSIONS[language] ?? 'txt'
+
+export function slugify(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'problem'
+}
+
+// Groups language variants (ids ending in "-<language>") into problems, in
+// the order they were given, with unique folder-safe slugs
+export function groupProblems(questions: Question[], contextOf?: ExportOptions['contextOf']): Problem[] {
+  const groups = new Map<string, Question[]>()
+  for (const question of questions) {
+    groups.set(baseIdOf(question), [...(groups.get(baseIdOf(question)) ?? []), question])
+  }
+
+  const used = new Set<string>()
+  return Array.from(groups.values()).map(variants => {
+    const base = slugify(variants[0].title)
+    let slug = base
+    for (let n = 2; used.has(slug); n++) slug = `${base}-${n}`
+    used.add(slug)
+
+    return {
+      slug,
+      question: variants[0],
+      ...(contextOf ? { context: contextOf(variants[0]) } : {}),
+      templates: variants
+        .filter(variant => variant.language && variant.implementation)
+        .map(variant => ({ language: variant.language!, code: variant.implementation! }))
+    }
+  })
+}
+
+export const problemContext = (problem: Problem, context: ExportContext): ExportContext => ({ ...context, ...problem.context })
+
+// The sample first, then the hidden tests that aren't a copy of it
+export function allTestCases(question: Question): TestCase[] {
+  const sample: TestCase = {
+    input: question.sampleInput,
+    expectedOutput: question.sampleOutput,
+    kind: 'sample',
+    description: 'Sample from the problem statement'
+  }
+  return [sample, ...(question.tests ?? []).filter(test => test.kind !== 'sample')]
+}
+
+export const withTrailingNewline = (text: string) => text.endsWith('\n') ? text : `${text}\n`
@@ -0,0 +1,158 @@
+import { createHash } from 'crypto'
+import type { FormData, Question } from '../types'
+import type { QuestionAccess } from '../store/questionBank'
+import { getProvider } from '../llm'
+import { getPromptTemplate, promptVersionId } from '../prompts'
+import { findPositionByName } from '../store/catalog'
+import { questionCount } from '../questionSchema'
+import { EventLog } from './concurrency'
+import { GenerationEvent, generateQuestionEvents } from './pipeline'
+
+// Finished batches are kept in memory for this long; 0 turns the cache off
+const CACHE_TTL_MS = Number(process.env.GENERATION_CACHE_TTL_SECONDS ?? 3600) * 1000
+const CACHE_MAX_ENTRIES = Number(process.env.GENERATION_CACHE_MAX_ENTRIES) || 100
+
+interface CachedBatch {
+  expiresAt: number
+  // The final questions of each index, in index order
+  batches: { index: number; questions: Question[] }[]
+}
+
+// One generation shared by every identical request that arrives while it
+// runs. It is cancelled once the last of them goes away.
+interface SharedRun {
+  log: EventLog<GenerationEvent>
+  subscribers: number
+  abort: AbortController
+}
+
+// Map order doubles as recency: reads move an entry to the end
+const cache = new Map<string, CachedBatch>()
+const inFlight = new Map<string, SharedRun>()
+
+const normalizeText = (text: string | undefined) => (text ?? '').trim().replace(/\s+/g, ' ')
+
+// Identical requests produce the same key. Defaults are filled in and the
+// prompt version and catalog position are resolved, so saving a new prompt
+// version, editing the position or changing LLM_PROVIDER starts a fresh
+// cache entry. Each user gets their own entries, since duplicates are
+// checked against the questions they can see.
+export async function generationCacheKey(formData: FormData, access?: QuestionAccess): Promise<string> {
+  const provider = getProvider(formData.provider)
+  const template = await getPromptTemplate('questions', formData.promptVersion)
+  const position = await findPositionByName(formData.positionName)
+  const normalized = {
+    positionName: normalizeText(formData.positionName),
+    languages: formData.languages,
+    problem: normalizeText(formData.problem),
+    hint: normalizeText(formData.hint),
+    type: formData.type,
+    difficultyLevel: formData.difficultyLevel,
+    topic: normalizeText(formData.topic),
+    count: questionCount(formData),
+    provider: provider.name,
+    model: formData.model || provider.defaultModel,
+    duplicateHandling: formData.duplicateHandling ?? 'flag',
+    difficultyHandling: formData.difficultyHandling ?? 'flag',
+    prompt: promptVersionId(template),
+    position: position && {
+      companies: position.companies,
+      seniority: position.seniority,
+      interviewStyle: position.interviewStyle
+    },
+    user: access?.userId ?? ''
+  }
+  return createHash('sha256').update(JSON.stringify(normalized)).digest('hex')
+}
+
+function readCache(key: string): CachedBatch | undefined {
+  const entry = cache.get(key)
+  if (!entry) return undefined
+  cache.delete(key)
+  if (entry.expiresAt <= Date.now()) return undefined
+  cache.set(key, entry)
+  return entry
+}
+
+// Folds `update` events into the question they replace
+function writeCache(key: string, events: readonly GenerationEvent[]) {
+  if (CACHE_TTL_MS <= 0) return
+
+  const byIndex = new Map<number, Question[]>()
+  for (const event of events) {
+    if (event.type === 'question' || event.type === 'update') {
+      byIndex.set(event.index, event.questions)
+    }
+  }
+
+  cache.delete(key)
+  cache.set(key, {
+    expiresAt: Date.now() + CACHE_TTL_MS,
+    batches: Array.from(byIndex.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([index, questions]) => ({ index, questions }))
+  })
+  while (cache.size > CACHE_MAX_ENTRIES) {
+    cache.delete(cache.keys().next().value!)
+  }
+}
+
+// Only batches that finish without errors or cancellation are cached
+function startRun(key: string, formData: FormData, access?: QuestionAccess): SharedRun {
+  const run: SharedRun = { log: new EventLog(), subscribers: 0, abort: new AbortController() }
+  inFlight.set(key, run)
+
+  const consume = async () => {
+    for await (const event of generateQuestionEvents(formData, { signal: run.abort.signal, access })) {
+      run.log.push(event)
+    }
+    if (!run.abort.signal.aborted) writeCache(key, run.log.events)
+  }
+  consume().then(
+    () => run.log.close(),
+    error => run.log.close(error)
+  ).finally(() => {
+    if (inFlight.get(key) === run) inFlight.delete(key)
+  })
+
+  return run
+}
+
+export interface CachedGenerationOptions {
+  signal?: AbortSignal
+  access?: QuestionAccess
+  // Skip the cache and generate a new batch. Identical requests already
+  // running are still shared, since their results are fresh too.
+  forceFresh?: boolean
+}
+
+// generateQuestionEvents behind a cache of finished batches and a table of
+// running ones. A cached batch is replayed as one `question` event per
+// question followed by `done` with `cached: true`.
+export async function* cachedGenerationEvents(
+  formData: FormData,
+  { signal, access, forceFresh }: CachedGenerationOptions = {}
+): AsyncGenerator<GenerationEvent> {
+  const key = await generationCacheKey(formData, access)
+
+  const cached = forceFresh ? undefined : readCache(key)
+  if (cached) {
+    for (const { index, questions } of cached.batches) {
+      yield { type: 'question', index, questions }
+    }
+    yield { type: 'done', total: cached.batches.length, cached: true }
+    return
+  }
+
+  const run = inFlight.get(key) ?? startRun(key, formData, access)
+  run.subscribers++
+  try {
+    yield* run.log.follow(signal)
+  } finally {
+    run.subscribers--
+    if (run.subscribers === 0 && !run.log.finished && inFlight.get(key) === run) {
+      inFlight.delete(key)
+      run.abort.abort()
+    }
+  }
+}
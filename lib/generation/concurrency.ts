@@ -0,0 +1,130 @@
+// A queue that several producers push into and a single consumer drains with
+// `for await`. Closing with an error makes the consumer throw it once the
+// queued items have been read.
+export class EventChannel<T> implements AsyncIterable<T> {
+  private items: T[] = []
+  private closed = false
+  private failure: unknown
+  private wake?: () => void
+
+  push(item: T) {
+    if (this.closed) return
+    this.items.push(item)
+    this.notify()
+  }
+
+  close(error?: unknown) {
+    if (this.closed) return
+    this.closed = true
+    this.failure = error
+    this.notify()
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    while (true) {
+      if (this.items.length > 0) {
+        yield this.items.shift()!
+        continue
+      }
+      if (this.closed) {
+        if (this.failure) throw this.failure
+        return
+      }
+      await new Promise<void>(resolve => { this.wake = resolve })
+    }
+  }
+
+  private notify() {
+    const wake = this.wake
+    this.wake = undefined
+    wake?.()
+  }
+}
+
+// An append-only list of events that any number of consumers follow from the
+// start, each at its own pace. Closing with an error makes every consumer
+// throw it after the events recorded before it.
+export class EventLog<T> {
+  private items: T[] = []
+  private closed = false
+  private failure: unknown
+  private waiters: (() => void)[] = []
+
+  get events(): readonly T[] {
+    return this.items
+  }
+
+  get finished(): boolean {
+    return this.closed
+  }
+
+  push(item: T) {
+    if (this.closed) return
+    this.items.push(item)
+    this.notify()
+  }
+
+  close(error?: unknown) {
+    if (this.closed) return
+    this.closed = true
+    this.failure = error
+    this.notify()
+  }
+
+  // Stops quietly, without waiting for the next event, once `signal` aborts
+  async *follow(signal?: AbortSignal): AsyncGenerator<T> {
+    let next = 0
+    while (!signal?.aborted) {
+      if (next < this.items.length) {
+        yield this.items[next++]
+        continue
+      }
+      if (this.closed) {
+        if (this.failure) throw this.failure
+        return
+      }
+      await new Promise<void>(resolve => {
+        const wake = () => {
+          signal?.removeEventListener('abort', wake)
+          resolve()
+        }
+        this.waiters.push(wake)
+        signal?.addEventListener('abort', wake)
+      })
+    }
+  }
+
+  private notify() {
+    const waiters = this.waiters
+    this.waiters = []
+    waiters.forEach(wake => wake())
+  }
+}
+
+// Works through a queue with at most `limit` tasks in flight. Tasks may push
+// more work onto the queue while they run.
+export async function drainQueue<T>(queue: T[], limit: number, run: (task: T) => Promise<void>): Promise<void> {
+  const worker = async () => {
+    while (queue.length > 0) {
+      await run(queue.shift()!)
+    }
+  }
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, queue.length)) }, worker))
+}
+
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  const queue = items.map((item, i) => ({ item, i }))
+  await drainQueue(queue, limit, async ({ item, i }) => {
+    results[i] = await fn(item)
+  })
+  return results
+}
+
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size))
+  }
+  return chunks
+}
@@ -0,0 +1,39 @@
+import { LLMProviderError, UnknownProviderError } from '../llm'
+import { UnknownPromptError } from '../prompts'
+import { GenerationValidationError } from '../questionSchema'
+import { UnknownPositionError } from '../store/catalog'
+
+// Maps a generation failure to the JSON body and status the API returns
+export function describeGenerationError(error: unknown): { body: Record<string, unknown>; status: number } {
+  if (error instanceof GenerationValidationError) {
+    console.error('Generated questions failed validation:', error.fieldErrors)
+    return {
+      body: { error: 'Model returned questions that failed validation', fieldErrors: error.fieldErrors },
+      status: 502
+    }
+  }
+
+  if (error instanceof UnknownProviderError || error instanceof UnknownPromptError || error instanceof UnknownPositionError) {
+    return { body: { error: error.message }, status: 400 }
+  }
+
+  // Still failing after the provider's retries
+  if (error instanceof LLMProviderError && error.transient) {
+    console.error('LLM provider unavailable:', error)
+    return {
+      body: { error: 'The AI provider is temporarily unavailable. Please try again in a minute.', details: error.message },
+      status: 503
+    }
+  }
+
+  if (error instanceof LLMProviderError) {
+    console.error('LLM provider error:', error)
+    return {
+      body: { error: 'The AI provider could not generate questions', details: error.message },
+      status: 502
+    }
+  }
+
+  console.error('Error generating questions:', error)
+  return { body: { error: 'Failed to generate questions' }, status: 500 }
+}
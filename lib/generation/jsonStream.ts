@@ -0,0 +1,54 @@
+// Incrementally scans a streamed `{ "questions": [ {...}, {...} ] }` payload
+// and hands back each question object as soon as its closing brace arrives.
+// Text before the first `{` (prose, code fences) is skipped.
+export class QuestionStreamParser {
+  private buffer = ''
+  private position = 0
+  private depth = 0
+  private inString = false
+  private escaped = false
+  private objectStart = -1
+
+  push(chunk: string): unknown[] {
+    this.buffer += chunk
+    const completed: unknown[] = []
+
+    for (; this.position < this.buffer.length; this.position++) {
+      const char = this.buffer[this.position]
+
+      if (this.inString) {
+        if (this.escaped) this.escaped = false
+        else if (char === '\\') this.escaped = true
+        else if (char === '"') this.inString = false
+        continue
+      }
+
+      if (this.depth === 0 && char !== '{') continue
+
+      if (char === '"') {
+        this.inString = true
+      } else if (char === '{' || char === '[') {
+        this.depth++
+        // depth 1 is the root object, 2 the questions array, 3 a question
+        if (char === '{' && this.depth === 3) this.objectStart = this.position
+      } else if (char === '}' || char === ']') {
+        if (char === '}' && this.depth === 3 && this.objectStart !== -1) {
+          completed.push(this.parseObject(this.buffer.slice(this.objectStart, this.position + 1)))
+          this.objectStart = -1
+        }
+        this.depth--
+      }
+    }
+
+    return completed
+  }
+
+  private parseObject(text: string): unknown {
+    try {
+      return JSON.parse(text)
+    } catch {
+      // Surfaces as a validation error for this question
+      return text
+    }
+  }
+}
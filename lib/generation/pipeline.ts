@@ -0,0 +1,526 @@
+import { randomUUID } from 'crypto'
+import type { DifficultyEstimate, DuplicateMatch, FormData, HintLeak, HintLevel, Question, TestCase, Verification } from '../types'
+import { LLMProvider, getProvider, isTransientError } from '../llm'
+import {
+  FieldError,
+  GeneratedQuestion,
+  GenerationValidationError,
+  atQuestionIndex,
+  parseImplementationPayload,
+  parseQuestionBlocks,
+  questionCount
+} from '../questionSchema'
+import { verifySample } from '../sandbox/verify'
+import { HINT_LEVELS, checkHints } from '../hints'
+import { buildTestSuites } from '../testSuite'
+import { ComparableQuestion, findNearDuplicates } from '../similarity'
+import { describeMiss, estimateDifficulty } from '../difficulty'
+import { QuestionAccess, listQuestions } from '../store/questionBank'
+import { requirePosition } from '../store/catalog'
+import { isTemplateLanguage, renderTemplate, renderTemplates } from '../signature'
+import { getPromptTemplate, promptVersionId, renderPrompt } from '../prompts'
+import { EventChannel, chunk, drainQueue, mapWithConcurrency } from './concurrency'
+import { QuestionStreamParser } from './jsonStream'
+import { validateWithRepair } from './repair'
+import { PromptOptions, implementationPromptVariables, questionPromptVariables } from './prompts'
+
+// Progress events emitted while a batch is generated. `question` delivers a
+// new question (one entry per language), `update` replaces a delivered one
+// after a later step (duplicate regeneration, hidden tests), `invalid`
+// reports a question block that failed validation. `done` is marked
+// `cached` when the batch was replayed from the generation cache.
+export type GenerationEvent =
+  | { type: 'question'; index: number; questions: Question[] }
+  | { type: 'update'; index: number; questions: Question[] }
+  | { type: 'invalid'; index: number; fieldErrors: FieldError[] }
+  | { type: 'done'; total: number; cached?: boolean }
+
+interface Entry {
+  index: number
+  item: GeneratedQuestion
+  promptVersion: string
+  verification?: Verification
+  duplicateOf?: DuplicateMatch
+  tests?: TestCase[]
+  hintLeaks?: Partial<Record<HintLevel, HintLeak>>
+  difficulty?: DifficultyEstimate
+}
+
+export interface GenerateOptions {
+  signal?: AbortSignal
+  // Whose bank questions count as duplicates; all of them when omitted
+  access?: QuestionAccess
+}
+
+// One model call covering `size` questions of the batch from `start`.
+// `round` counts how many times these slots have been refilled (after
+// duplicates, unrepairable questions or a response that stopped short).
+interface ModelCall {
+  start: number
+  size: number
+  round: number
+}
+
+const GENERATION_CONCURRENCY = Number(process.env.GENERATION_CONCURRENCY) || 5
+const QUESTIONS_PER_CALL = Number(process.env.GENERATION_QUESTIONS_PER_CALL) || 1
+const TEST_SUITES_PER_CALL = 5
+// After this many refills a batch duplicate is kept and flagged instead, and
+// a missing or invalid question is reported as a validation error
+const MAX_REFILL_ROUNDS = 2
+
+// Batch ids lead with the time for sheet tab names (see lib/sheets) and carry
+// a UUID, so concurrent batches never share question ids
+const newBatchId = () => `${Date.now()}-${randomUUID()}`
+
+const baseQuestionId = (batchId: string, index: number) => `question-${batchId}-${index}`
+
+// The "questions" template a request uses, resolved once per request so
+// every call in a batch uses the same version
+interface QuestionPrompt {
+  version: string
+  build: (options: PromptOptions) => string
+}
+
+async function loadQuestionPrompt(formData: FormData): Promise<QuestionPrompt> {
+  const template = await getPromptTemplate('questions', formData.promptVersion)
+  const position = await requirePosition(formData.positionName)
+  return {
+    version: promptVersionId(template),
+    build: options => renderPrompt(template.body, questionPromptVariables(formData, position, options))
+  }
+}
+
+// Requests `options.count` complete questions. Invalid questions are
+// repaired, and questions the response left out or that couldn't be
+// repaired are asked for again, up to MAX_REFILL_ROUNDS times.
+async function requestQuestions(
+  provider: LLMProvider,
+  formData: FormData,
+  prompt: QuestionPrompt,
+  options: PromptOptions
+): Promise<GeneratedQuestion[]> {
+  const questions: GeneratedQuestion[] = []
+  let fieldErrors: FieldError[] = []
+
+  for (let round = 0; round <= MAX_REFILL_ROUNDS && questions.length < options.count; round++) {
+    const wanted = options.count - questions.length
+    const text = await provider.complete(prompt.build({
+      ...options,
+      count: wanted,
+      avoidTitles: [...options.avoidTitles ?? [], ...questions.map(question => question.title)]
+    }), { model: formData.model })
+
+    try {
+      const blocks = parseQuestionBlocks(text).slice(0, wanted)
+      for (let i = 0; i < blocks.length; i++) {
+        try {
+          questions.push(await validateWithRepair(provider, formData, blocks[i]))
+        } catch (error) {
+          if (!(error instanceof GenerationValidationError)) throw error
+          fieldErrors = atQuestionIndex(error.fieldErrors, questions.length)
+        }
+      }
+    } catch (error) {
+      if (!(error instanceof GenerationValidationError)) throw error
+      fieldErrors = error.fieldErrors
+    }
+  }
+
+  if (questions.length < options.count) {
+    throw new GenerationValidationError([
+      ...fieldErrors,
+      { path: 'questions', message: `Expected exactly ${options.count} questions, received ${questions.length} valid` }
+    ])
+  }
+  return questions
+}
+
+// Checks that don't depend on the rest of the batch, run before a question
+// is delivered: leaking hints are rewritten, the difficulty is estimated
+// and the sample is verified
+async function checkEntry(provider: LLMProvider, formData: FormData, entry: Entry) {
+  const { hints, leaks } = await checkHints(provider, entry.item, formData.model)
+  entry.item = { ...entry.item, hints }
+  entry.hintLeaks = leaks
+  entry.difficulty = estimateDifficulty(entry.item, formData.difficultyLevel)
+  entry.verification = await verifySample(entry.item.referenceSolution, entry.item.sampleInput, entry.item.sampleOutput)
+}
+
+function closestDuplicate(item: GeneratedQuestion, id: string, others: ComparableQuestion[], bank: ComparableQuestion[]) {
+  return findNearDuplicates([...others, { ...item, id }], bank)[others.length]
+}
+
+// Streams one batch of questions. The batch is split into small model calls
+// that run concurrently; each question is validated, checked for
+// near-duplicates and sample-verified as soon as its call finishes writing
+// it. Invalid questions are repaired field by field. Questions that repeat
+// one already in the batch (parallel calls can't see each other), that
+// couldn't be repaired, or that a response left out are requested again.
+// Model calls that fail with a transient error are retried with backoff by
+// the provider. Regeneration of bank duplicates and miscalibrated
+// questions, and hidden tests, need the whole batch and run afterwards,
+// arriving as `update` events. Validation failures are reported per
+// question and then raised together once the valid questions are out.
+export async function* generateQuestionEvents(
+  formData: FormData,
+  { signal, access }: GenerateOptions = {}
+): AsyncGenerator<GenerationEvent> {
+  const provider = getProvider(formData.provider)
+  const prompt = await loadQuestionPrompt(formData)
+  const count = questionCount(formData)
+  const batchId = newBatchId()
+  const bank = await listQuestions({}, access)
+  const entries: Entry[] = []
+  const fieldErrors: FieldError[] = []
+  const events = new EventChannel<GenerationEvent>()
+  const abort = new AbortController()
+  const comparable = () => entries.map(entry => ({ ...entry.item, id: baseQuestionId(batchId, entry.index) }))
+  let nextIndex = 0
+  let missing = 0
+
+  const runCall = async (call: ModelCall) => {
+    if (abort.signal.aborted) return
+    const text = prompt.build({
+      count: call.size,
+      avoidTitles: entries.map(entry => entry.item.title),
+      slot: count > call.size ? { start: call.start, total: count } : undefined
+    })
+    const parser = new QuestionStreamParser()
+    const canRefill = call.round < MAX_REFILL_ROUNDS
+    let received = 0
+    let dropped = 0
+
+    const handle = async (raw: unknown) => {
+      let item: GeneratedQuestion
+      try {
+        item = await validateWithRepair(provider, formData, raw, abort.signal)
+      } catch (error) {
+        if (!(error instanceof GenerationValidationError)) throw error
+        if (abort.signal.aborted) return
+        if (canRefill) {
+          dropped++
+          return
+        }
+        const index = nextIndex++
+        const errors = atQuestionIndex(error.fieldErrors, index)
+        fieldErrors.push(...errors)
+        events.push({ type: 'invalid', index, fieldErrors: errors })
+        return
+      }
+
+      // Read after the repair: concurrent calls may have claimed indexes
+      const index = nextIndex
+      const id = baseQuestionId(batchId, index)
+      if (canRefill && closestDuplicate(item, id, comparable(), [])) {
+        dropped++
+        return
+      }
+
+      // Claimed before verification so concurrent calls compare against it
+      nextIndex++
+      const entry: Entry = { index, item, promptVersion: prompt.version, duplicateOf: closestDuplicate(item, id, comparable(), bank) }
+      entries.push(entry)
+      await checkEntry(provider, formData, entry)
+      events.push({ type: 'question', index, questions: expandByLanguage(entry, batchId, formData) })
+    }
+
+    try {
+      for await (const chunk of provider.stream(text, { model: formData.model, signal: abort.signal })) {
+        for (const raw of parser.push(chunk)) {
+          // Anything beyond what this call asked for is ignored
+          if (received === call.size) break
+          received++
+          await handle(raw)
+        }
+      }
+    } catch (error) {
+      // A stream that broke off after its first chunk can't be retried as
+      // a whole; the questions it didn't finish are requested again
+      if (!canRefill || !isTransientError(error)) throw error
+      console.error('Model stream broke off, requesting the rest again:', error)
+    }
+
+    if (abort.signal.aborted) return
+    const unanswered = call.size - received
+    if (canRefill && unanswered + dropped > 0) {
+      queue.push({ start: call.start + received - dropped, size: unanswered + dropped, round: call.round + 1 })
+    } else {
+      missing += unanswered
+    }
+  }
+
+  const queue: ModelCall[] = []
+  for (let start = 0; start < count; start += QUESTIONS_PER_CALL) {
+    queue.push({ start, size: Math.min(QUESTIONS_PER_CALL, count - start), round: 0 })
+  }
+
+  const stopCalls = () => abort.abort()
+  signal?.addEventListener('abort', stopCalls)
+  // The listener doesn't fire for a request cancelled before this point
+  if (signal?.aborted) stopCalls()
+  drainQueue(queue, GENERATION_CONCURRENCY, runCall).then(
+    () => events.close(),
+    error => {
+      // One failed call fails the batch; the rest are cancelled
+      const cancelled = abort.signal.aborted
+      abort.abort()
+      events.close(cancelled ? undefined : error)
+    }
+  )
+
+  try {
+    yield* events
+  } finally {
+    signal?.removeEventListener('abort', stopCalls)
+    abort.abort()
+  }
+
+  if (signal?.aborted) return
+
+  if (missing > 0) {
+    fieldErrors.push({ path: 'questions', message: `Expected exactly ${count} questions, received ${count - missing}` })
+  }
+
+  if (formData.duplicateHandling === 'regenerate') {
+    yield* regenerateDuplicates(provider, formData, prompt, entries, bank, batchId)
+  }
+
+  if (formData.difficultyHandling === 'regenerate') {
+    yield* regenerateMiscalibrated(provider, formData, prompt, entries, bank, batchId)
+  }
+
+  yield* attachTestSuites(provider, formData, entries, batchId)
+
+  if (fieldErrors.length > 0) {
+    throw new GenerationValidationError(fieldErrors)
+  }
+
+  yield { type: 'done', total: entries.length }
+}
+
+// Keeps the latest version of each question as events arrive
+export class BatchCollector {
+  private byIndex = new Map<number, Question[]>()
+  cached = false
+
+  add(event: GenerationEvent) {
+    if (event.type === 'question' || event.type === 'update') {
+      this.byIndex.set(event.index, event.questions)
+    } else if (event.type === 'done') {
+      this.cached = event.cached === true
+    }
+  }
+
+  // Each question's language variants, in batch order
+  groups(): Question[][] {
+    return Array.from(this.byIndex.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([, variants]) => variants)
+  }
+
+  questions(): Question[] {
+    return this.groups().flatMap(variants => variants)
+  }
+}
+
+// Replaces flagged duplicates once, with fresh questions that are also told
+// to avoid the questions they duplicated
+async function* regenerateDuplicates(
+  provider: LLMProvider,
+  formData: FormData,
+  prompt: QuestionPrompt,
+  entries: Entry[],
+  bank: ComparableQuestion[],
+  batchId: string
+): AsyncGenerator<GenerationEvent> {
+  const flagged = entries.filter(entry => entry.duplicateOf)
+  if (flagged.length === 0) return
+
+  yield* replaceEntries(provider, formData, prompt, entries, flagged, bank, batchId, {
+    avoidTitles: Array.from(new Set([
+      ...entries.map(entry => entry.item.title),
+      ...flagged.map(entry => entry.duplicateOf!.title)
+    ]))
+  })
+}
+
+// Replaces questions whose estimated difficulty misses the requested level
+// once, telling the model how each of them read
+async function* regenerateMiscalibrated(
+  provider: LLMProvider,
+  formData: FormData,
+  prompt: QuestionPrompt,
+  entries: Entry[],
+  bank: ComparableQuestion[],
+  batchId: string
+): AsyncGenerator<GenerationEvent> {
+  const flagged = entries.filter(entry => entry.difficulty?.mismatch)
+  if (flagged.length === 0) return
+
+  yield* replaceEntries(provider, formData, prompt, entries, flagged, bank, batchId, {
+    avoidTitles: entries.map(entry => entry.item.title),
+    misses: flagged.map(entry => describeMiss(entry.item.title, entry.difficulty!))
+  })
+}
+
+// Replaces the flagged entries in place with fresh questions requested with
+// the given options. Replacements get the same duplicate check and
+// per-question checks as the originals; anything that still fails stays
+// flagged.
+async function* replaceEntries(
+  provider: LLMProvider,
+  formData: FormData,
+  prompt: QuestionPrompt,
+  entries: Entry[],
+  flagged: Entry[],
+  bank: ComparableQuestion[],
+  batchId: string,
+  options: Omit<PromptOptions, 'count'>
+): AsyncGenerator<GenerationEvent> {
+  const groups = chunk(flagged, QUESTIONS_PER_CALL)
+  const replacements = await mapWithConcurrency(groups, GENERATION_CONCURRENCY, async group => {
+    try {
+      return await requestQuestions(provider, formData, prompt, { ...options, count: group.length })
+    } catch (error) {
+      console.error('Failed to regenerate flagged questions:', error)
+      return []
+    }
+  })
+
+  for (let g = 0; g < groups.length; g++) {
+    for (let j = 0; j < replacements[g].length; j++) {
+      const entry = groups[g][j]
+      const item = replacements[g][j]
+      const others = entries
+        .filter(other => other !== entry)
+        .map(other => ({ ...other.item, id: baseQuestionId(batchId, other.index) }))
+
+      entry.item = item
+      entry.duplicateOf = closestDuplicate(item, baseQuestionId(batchId, entry.index), others, bank)
+      await checkEntry(provider, formData, entry)
+      yield { type: 'update', index: entry.index, questions: expandByLanguage(entry, batchId, formData) }
+    }
+  }
+}
+
+// Hidden tests are built only from reference solutions that reproduced the
+// sample. A failed test-input call leaves its questions without tests rather
+// than failing the whole generation.
+async function* attachTestSuites(
+  provider: LLMProvider,
+  formData: FormData,
+  entries: Entry[],
+  batchId: string
+): AsyncGenerator<GenerationEvent> {
+  const groups = chunk(entries, TEST_SUITES_PER_CALL)
+  const suites = await mapWithConcurrency(groups, GENERATION_CONCURRENCY, async group => {
+    try {
+      return await buildTestSuites(
+        provider,
+        group.map(entry => entry.item),
+        group.map(entry => entry.verification?.status === 'verified'),
+        formData.model
+      )
+    } catch (error) {
+      console.error('Failed to build hidden test suites:', error)
+      return group.map(() => [])
+    }
+  })
+
+  for (let g = 0; g < groups.length; g++) {
+    for (let j = 0; j < groups[g].length; j++) {
+      if (suites[g][j].length === 0) continue
+      const entry = groups[g][j]
+      entry.tests = suites[g][j]
+      yield { type: 'update', index: entry.index, questions: expandByLanguage(entry, batchId, formData) }
+    }
+  }
+}
+
+export interface ReplacementOptions {
+  // The rejected question and the others still on screen; the replacement
+  // must not repeat any of them
+  replacing: ComparableQuestion
+  siblings: ComparableQuestion[]
+  access?: QuestionAccess
+}
+
+// Generates a single question to take the place of a rejected one, with the
+// same duplicate check, sample verification and hidden tests as a batch
+// question. Returns a Question per requested language under a new id.
+export async function regenerateQuestion(
+  formData: FormData,
+  { replacing, siblings, access }: ReplacementOptions
+): Promise<Question[]> {
+  const provider = getProvider(formData.provider)
+  const prompt = await loadQuestionPrompt(formData)
+  const bank = await listQuestions({}, access)
+  const batchId = newBatchId()
+  const id = baseQuestionId(batchId, 0)
+  const avoidTitles = [replacing.title, ...siblings.map(sibling => sibling.title)]
+  const requestOne = async (avoid: string[], misses?: string[]) =>
+    (await requestQuestions(provider, formData, prompt, { count: 1, avoidTitles: avoid, misses }))[0]
+
+  let item = await requestOne(avoidTitles)
+  let duplicateOf = closestDuplicate(item, id, siblings, bank)
+  if (duplicateOf && formData.duplicateHandling === 'regenerate') {
+    item = await requestOne([...avoidTitles, item.title, duplicateOf.title])
+    duplicateOf = closestDuplicate(item, id, siblings, bank)
+  }
+
+  const entry: Entry = { index: 0, item, promptVersion: prompt.version, duplicateOf }
+  await checkEntry(provider, formData, entry)
+  if (entry.difficulty?.mismatch && formData.difficultyHandling === 'regenerate') {
+    entry.item = await requestOne([...avoidTitles, item.title], [describeMiss(item.title, entry.difficulty)])
+    entry.duplicateOf = closestDuplicate(entry.item, id, siblings, bank)
+    await checkEntry(provider, formData, entry)
+  }
+
+  const trusted = entry.verification?.status === 'verified'
+  const [tests] = await buildTestSuites(provider, [entry.item], [trusted], formData.model)
+    .catch(error => {
+      console.error('Failed to build hidden test suite:', error)
+      return [[]]
+    })
+
+  entry.tests = tests.length > 0 ? tests : undefined
+  return expandByLanguage(entry, batchId, formData)
+}
+
+// Replaces the template of one language variant, keeping everything else.
+// Questions with a signature are simply re-rendered; older ones without one
+// ask the model for a new template.
+export async function regenerateImplementation(formData: FormData, question: Question, language: string): Promise<Question> {
+  if (question.signature && isTemplateLanguage(language)) {
+    return { ...question, implementation: renderTemplate(question.signature, language) }
+  }
+
+  const provider = getProvider(formData.provider)
+  const template = await getPromptTemplate('implementation')
+  const text = await provider.complete(renderPrompt(template.body, implementationPromptVariables(question, language)), { model: formData.model })
+  return { ...question, implementation: parseImplementationPayload(text) }
+}
+
+// Turns one validated question into a Question per requested language
+function expandByLanguage(entry: Entry, batchId: string, formData: FormData): Question[] {
+  const { hints, ...fields } = entry.item
+  const templates = fields.signature ? renderTemplates(fields.signature, formData.languages) : {}
+  const baseQuestion = {
+    ...fields,
+    id: baseQuestionId(batchId, entry.index),
+    hint: hints.nudge,
+    hints: HINT_LEVELS.map(level => ({ level, text: hints[level], leak: entry.hintLeaks?.[level] })),
+    verification: entry.verification,
+    tests: entry.tests,
+    duplicateOf: entry.duplicateOf,
+    difficultyEstimate: entry.difficulty,
+    promptVersion: entry.promptVersion
+  }
+
+  return formData.languages.map(language => ({
+    ...baseQuestion,
+    id: `${baseQuestion.id}-${language}`,
+    language,
+    ...(formData.type === 'complete_code' ? { implementation: templates[language] ?? '' } : {})
+  }))
+}
@@ -0,0 +1,85 @@
+import type { FormData, Question } from '../types'
+import type { PromptVariables } from '../prompts'
+import type { CatalogPosition } from '../store/catalog'
+import { describeGenerationPayload } from '../questionSchema'
+import { describeSignatureTypes } from '../signature'
+
+export interface PromptOptions {
+  count: number
+  avoidTitles: string[]
+  // Set when the batch is split across several model calls
+  slot?: { start: number; total: number }
+  // Earlier questions whose estimated difficulty missed the requested level
+  misses?: string[]
+}
+
+const DIFFICULTY_GUIDELINES: Record<FormData['difficultyLevel'], string> = {
+  'easy': 'Basic implementation problems, simple algorithms, straightforward logic. Suitable for 0-2 years experience.',
+  'medium': 'Moderate complexity, requires good understanding of data structures and algorithms. Suitable for 2-5 years experience.',
+  'hard': 'Complex problems requiring advanced algorithmic thinking and optimization. Suitable for 5+ years experience.'
+}
+
+// Existing questions the model must not reword, capped to keep prompts short
+function describeAvoidList(titles: string[]): string {
+  if (titles.length === 0) return ''
+  return `- AVOID: Do not repeat or lightly reword any of these existing questions; each new question must test a genuinely different problem:
+${titles.slice(0, 30).map(title => `  * ${title}`).join('\n')}`
+}
+
+// Parallel calls can't see each other's output, so each one is told which
+// part of the batch it covers and steered toward a different angle
+function describeSlot(options: PromptOptions): string {
+  if (!options.slot) return ''
+  const { start, total } = options.slot
+  return `- BATCH SLOT: You are writing questions ${start + 1}-${start + options.count} of ${total}. The other questions are written separately, so favour a less common sub-pattern of the topic for this slot.`
+}
+
+// Replacements for miscalibrated questions are told how the earlier ones
+// read, so they aim at the requested level instead of repeating the miss
+function describeCalibration(formData: FormData, options: PromptOptions): string {
+  if (!options.misses || options.misses.length === 0) return ''
+  return `- DIFFICULTY CALIBRATION: These earlier questions missed the requested ${formData.difficultyLevel} level. Choose techniques, input sizes and statement length that fit ${formData.difficultyLevel}:
+${options.misses.map(miss => `  * ${miss}`).join('\n')}`
+}
+
+// Variables for the "questions" template, shared by both question types.
+// Company and interview details come from the position's catalog entry.
+export function questionPromptVariables(formData: FormData, position: CatalogPosition, options: PromptOptions): PromptVariables {
+  return {
+    count: options.count,
+    companies: position.companies.join(', ') || 'top Indian IT companies',
+    position: position.name,
+    seniority: position.seniority,
+    interviewStyle: position.interviewStyle,
+    topic: formData.topic,
+    difficulty: formData.difficultyLevel,
+    difficultyGuideline: DIFFICULTY_GUIDELINES[formData.difficultyLevel],
+    languages: formData.languages.join(', '),
+    completeCode: formData.type === 'complete_code',
+    writeCode: formData.type === 'write_code',
+    problem: formData.problem,
+    hint: formData.hint,
+    avoidList: describeAvoidList(options.avoidTitles),
+    slot: describeSlot(options),
+    calibration: describeCalibration(formData, options),
+    outputFormat: describeGenerationPayload(formData, options.count),
+    signatureTypes: describeSignatureTypes()
+  }
+}
+
+// Variables for the "implementation" template, which asks for a fresh
+// function template in one language for an existing question
+export function implementationPromptVariables(
+  question: Pick<Question, 'title' | 'problemStatement' | 'inputFormat' | 'outputFormat' | 'constraints' | 'implementation'>,
+  language: string
+): PromptVariables {
+  return {
+    language,
+    title: question.title,
+    problemStatement: question.problemStatement,
+    inputFormat: question.inputFormat,
+    outputFormat: question.outputFormat,
+    constraints: question.constraints,
+    rejected: question.implementation
+  }
+}
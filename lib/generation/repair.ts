@@ -0,0 +1,103 @@
+import type { FormData } from '../types'
+import type { LLMProvider } from '../llm'
+import {
+  FieldError,
+  GeneratedQuestion,
+  GenerationValidationError,
+  describeQuestionFields,
+  extractJson,
+  formatFieldDescriptions,
+  parseQuestion
+} from '../questionSchema'
+
+export const QUESTION_REPAIR_MARKER = 'QUESTION REPAIR'
+// Repair requests per question before it is given up on
+const MAX_REPAIR_ATTEMPTS = 2
+
+// The top-level fields a set of question-relative errors points at. An
+// error on the question itself (not an object at all) can't be repaired.
+function fieldsToRepair(fieldErrors: FieldError[]): string[] | undefined {
+  const fields = fieldErrors.map(error => error.path.split('.')[0])
+  return fields.includes('$') ? undefined : Array.from(new Set(fields))
+}
+
+export function buildRepairPrompt(
+  formData: FormData,
+  question: Record<string, unknown>,
+  fields: string[],
+  fieldErrors: FieldError[]
+): string {
+  const descriptions = describeQuestionFields(formData)
+  const requested: Record<string, string> = {}
+  fields.forEach(field => {
+    requested[field] = descriptions[field] ?? 'remove this field'
+  })
+
+  const kept: Record<string, unknown> = {}
+  Object.keys(question).filter(field => !fields.includes(field)).forEach(field => {
+    kept[field] = question[field]
+  })
+
+  return `
+${QUESTION_REPAIR_MARKER}
+
+An interview question you wrote is missing fields or has invalid ones. Write ONLY the fields listed below, consistent with the rest of the question, which stays as it is.
+
+The question so far:
+${JSON.stringify(kept, null, 2)}
+
+Problems found:
+${fieldErrors.map(error => `- ${error.path}: ${error.message}`).join('\n')}
+
+Respond with ONLY a JSON object, no markdown fences and no commentary, containing exactly these fields:
+${formatFieldDescriptions(requested)}
+
+Use \\n inside strings for line breaks. Every field is required and must not be empty.
+`
+}
+
+// Validates one question block and, when some of its fields are missing or
+// invalid, asks the model for just those fields and merges them in. Throws
+// the last validation error, with question-relative paths, if the block is
+// unusable, still invalid after the repairs, or a repair call fails.
+export async function validateWithRepair(
+  provider: LLMProvider,
+  formData: FormData,
+  raw: unknown,
+  signal?: AbortSignal
+): Promise<GeneratedQuestion> {
+  let question = raw
+  for (let attempt = 0; ; attempt++) {
+    let fieldErrors: FieldError[]
+    try {
+      return parseQuestion(question, formData)
+    } catch (error) {
+      if (!(error instanceof GenerationValidationError)) throw error
+      fieldErrors = error.fieldErrors
+    }
+
+    const fields = fieldsToRepair(fieldErrors)
+    if (!fields || attempt === MAX_REPAIR_ATTEMPTS || signal?.aborted) {
+      throw new GenerationValidationError(fieldErrors)
+    }
+
+    const current = question as Record<string, unknown>
+    try {
+      const text = await provider.complete(buildRepairPrompt(formData, current, fields, fieldErrors), { model: formData.model, signal })
+      const patch = extractJson(text) as Record<string, unknown>
+      const repaired = { ...current }
+      // Only the requested fields are taken, so a repair can't undo fields
+      // that were already valid
+      fields.forEach(field => {
+        if (field in patch) repaired[field] = patch[field]
+      })
+      question = repaired
+    } catch (error) {
+      if (!(error instanceof GenerationValidationError)) {
+        console.error('Failed to repair a question:', error)
+        throw new GenerationValidationError(fieldErrors)
+      }
+      console.error('Failed to parse a question repair:', error.fieldErrors)
+    }
+  }
+}
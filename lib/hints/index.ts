@@ -0,0 +1,99 @@
+import { z } from 'zod'
+import type { LLMProvider } from '../llm'
+import type { HintLeak, HintLevel } from '../types'
+import { GenerationValidationError, extractJson, toFieldErrors } from '../questionSchema'
+import { HINT_LEVELS, HINT_WORD_LIMITS, HintLeakContext, isLeaking, scoreHintLeak } from './leak'
+
+export * from './leak'
+
+export const HINT_REWRITE_MARKER = 'HINT REWRITE'
+// Rewrites requested per failing hint before it is kept and flagged
+const MAX_HINT_REWRITES = 2
+
+export type HintSet = Record<HintLevel, string>
+
+export interface HintSource extends HintLeakContext {
+  title: string
+  problemStatement: string
+  hints: HintSet
+}
+
+export interface CheckedHints {
+  hints: HintSet
+  // Levels that still leak after every rewrite
+  leaks: Partial<Record<HintLevel, HintLeak>>
+}
+
+const LEVEL_GUIDANCE: Record<HintLevel, string> = {
+  nudge: 'A nudge: point at the key observation without naming the technique.',
+  approach: 'An approach: name the technique or data structure and why it fits, without walking through the algorithm.',
+  nearSolution: 'A near-solution: describe the algorithm in words, step by step if needed, stopping short of code.'
+}
+
+export function buildHintRewritePrompt(source: HintSource, level: HintLevel, leak: HintLeak): string {
+  return `
+${HINT_REWRITE_MARKER}
+
+Rewrite one hint for the interview question below. The current ${level} hint was rejected because it ${leak.reasons.join(', ')}.
+
+Title: ${source.title}
+Problem Statement: ${source.problemStatement}
+
+Hints, revealed one at a time:
+${HINT_LEVELS.map(other => `- ${other}${other === level ? ' (rejected)' : ''}: ${source.hints[other]}`).join('\n')}
+
+REQUIREMENTS:
+- ${LEVEL_GUIDANCE[level]}
+- Plain English only: no code, no function or variable names, no operators, no pseudo-code
+- At most ${HINT_WORD_LIMITS[level]} words
+- Stay between the hints before and after it in how much it gives away
+
+Respond with ONLY a JSON object, no markdown fences and no commentary, of the form:
+{ "hint": string }
+`
+}
+
+const hintRewriteSchema = z.object({
+  hint: z.string().trim().min(1, 'hint must not be empty')
+})
+
+function parseHintRewrite(text: string): string {
+  const result = hintRewriteSchema.safeParse(extractJson(text))
+  if (!result.success) {
+    throw new GenerationValidationError(toFieldErrors(result.error))
+  }
+  return result.data.hint
+}
+
+// Scores every hint level and asks the model to rewrite only the ones that
+// leak code or too much of the solution. A level that still leaks after the
+// rewrites keeps its least leaky text and is reported in `leaks`.
+export async function checkHints(provider: LLMProvider, source: HintSource, model?: string): Promise<CheckedHints> {
+  const hints = { ...source.hints }
+  const leaks: CheckedHints['leaks'] = {}
+
+  await Promise.all(HINT_LEVELS.map(async level => {
+    let leak = scoreHintLeak(hints[level], level, source)
+
+    for (let attempt = 0; attempt < MAX_HINT_REWRITES && isLeaking(leak); attempt++) {
+      let rewritten: string
+      try {
+        const text = await provider.complete(buildHintRewritePrompt({ ...source, hints }, level, leak), { model })
+        rewritten = parseHintRewrite(text)
+      } catch (error) {
+        console.error(`Failed to rewrite the ${level} hint for "${source.title}":`, error)
+        break
+      }
+
+      const rewrittenLeak = scoreHintLeak(rewritten, level, source)
+      if (rewrittenLeak.score < leak.score) {
+        hints[level] = rewritten
+        leak = rewrittenLeak
+      }
+    }
+
+    if (isLeaking(leak)) leaks[level] = leak
+  }))
+
+  return { hints, leaks }
+}
@@ -0,0 +1,107 @@
+import type { FunctionSignature, HintLeak, HintLevel, ReferenceSolution } from '../types'
+
+export const HINT_LEVELS: HintLevel[] = ['nudge', 'approach', 'nearSolution']
+
+// Word budget the prompt gives each level. A hint well past its budget is
+// giving away more than its level should.
+export const HINT_WORD_LIMITS: Record<HintLevel, number> = {
+  nudge: 25,
+  approach: 50,
+  nearSolution: 80
+}
+
+// A hint scoring at or above this is re-requested
+export const HINT_LEAK_THRESHOLD = 0.5
+
+export interface HintLeakContext {
+  referenceSolution?: ReferenceSolution
+  signature?: FunctionSignature
+}
+
+interface Signal {
+  pattern: RegExp
+  weight: number
+  reason: string
+}
+
+// Code that shows up in prose. Weights add up, so one stray identifier is
+// tolerated but an identifier next to an operator is not.
+const CODE_SIGNALS: Signal[] = [
+  { pattern: /```|`[^`\n]+`/, weight: 1, reason: 'contains a code span' },
+  { pattern: /\b(?:def|function|func|fn|const|var|public|private|static|void)\s+[A-Za-z_]\w*\s*[(=:<]/, weight: 1, reason: 'contains a declaration' },
+  { pattern: /\b(?:for|while|if|switch)\s*\([^)]*\)/, weight: 0.8, reason: 'contains a control statement' },
+  // A semicolon followed by a space is punctuation, not a statement end
+  { pattern: /[{}]|;(?![ \t])|=>|[!=<>]==?|[+\-*/%]=|&&|\|\||\+\+|--(?=\w)/, weight: 0.6, reason: 'contains code operators' },
+  // Two-plus character names only, so complexities like O(n) pass
+  { pattern: /\b[A-Za-z_]\w+\([^()\n]*\)/, weight: 0.6, reason: 'contains a function call' },
+  { pattern: /\b[A-Za-z_]\w*\[[^\]\n]*\]/, weight: 0.4, reason: 'contains array indexing' },
+  { pattern: /\b[a-z]+[A-Z]\w*|\b[a-z]+_[a-z_]+\b/, weight: 0.3, reason: 'contains a code identifier' }
+]
+
+// Spelling out numbered steps is the near-solution's job
+const STEP_LIST = /(?:^|\n)\s*(?:\d+[.)]|step\s+\d+)/i
+
+const SHINGLE_SIZE = 6
+
+const codeTokens = (text: string) => text.match(/[A-Za-z_]\w*|\d+|[^\s\w]/g) ?? []
+
+// Runs of tokens from the reference solution that carry at least two
+// punctuation tokens, i.e. actual code rather than shared English words
+function codeShingles(code: string): Set<string> {
+  const tokens = codeTokens(code)
+  const shingles = new Set<string>()
+  for (let i = 0; i + SHINGLE_SIZE <= tokens.length; i++) {
+    const run = tokens.slice(i, i + SHINGLE_SIZE)
+    if (run.filter(token => /^[^\w]$/.test(token)).length >= 2) {
+      shingles.add(run.join(' '))
+    }
+  }
+  return shingles
+}
+
+function copiesReference(text: string, code: string): boolean {
+  const shingles = codeShingles(code)
+  const tokens = codeTokens(text)
+  for (let i = 0; i + SHINGLE_SIZE <= tokens.length; i++) {
+    if (shingles.has(tokens.slice(i, i + SHINGLE_SIZE).join(' '))) return true
+  }
+  return false
+}
+
+const wordCount = (text: string) => text.trim().split(/\s+/).filter(Boolean).length
+
+// Scores one hint from 0 (plain prose) to 1 for leaked code or solution
+// detail, with the reasons that contributed
+export function scoreHintLeak(text: string, level: HintLevel, context: HintLeakContext = {}): HintLeak {
+  const reasons: string[] = []
+  let score = 0
+  const add = (weight: number, reason: string) => {
+    score += weight
+    reasons.push(reason)
+  }
+
+  for (const signal of CODE_SIGNALS) {
+    if (signal.pattern.test(text)) add(signal.weight, signal.reason)
+  }
+
+  const functionName = context.signature?.functionName
+  if (functionName && new RegExp(`\\b${functionName}\\b`).test(text)) {
+    add(0.6, 'names the function candidates implement')
+  }
+
+  if (context.referenceSolution && copiesReference(text, context.referenceSolution.code)) {
+    add(1, 'repeats code from the reference solution')
+  }
+
+  if (level !== 'nearSolution' && STEP_LIST.test(text)) {
+    add(0.5, 'spells out the solution step by step')
+  }
+
+  if (wordCount(text) > HINT_WORD_LIMITS[level] * 1.5) {
+    add(0.5, `runs well past the ${HINT_WORD_LIMITS[level]}-word budget for a ${level} hint`)
+  }
+
+  return { score: Math.min(1, Math.round(score * 100) / 100), reasons }
+}
+
+export const isLeaking = (leak: HintLeak) => leak.score >= HINT_LEAK_THRESHOLD
@@ -0,0 +1,23 @@
+import hintRewrite from './hint-rewrite.json'
+import implementation from './implementation.json'
+import questionRepair from './question-repair.json'
+import questions from './questions.json'
+import testInputs from './test-inputs.json'
+
+export interface Fixture {
+  name: string
+  description: string
+  // Substring of the prompt this fixture answers. Fixtures without one are
+  // used as the fallback when nothing else matches.
+  match?: string
+  response: unknown
+}
+
+// Ordered: the first fixture whose `match` appears in the prompt wins.
+export const fixtures: Fixture[] = [
+  testInputs,
+  hintRewrite,
+  questionRepair,
+  implementation,
+  questions
+]
@@ -0,0 +1,65 @@
+import { GoogleGenerativeAI } from '@google/generative-ai'
+import { CompletionOptions, LLMProvider, LLMProviderError } from './types'
+
+// The SDK's errors carry no status field: an HTTP failure reads
+// "Error fetching from <url>: [429 Too Many Requests] ...", while a failed
+// fetch or a garbled stream has no status at all and is worth retrying
+function providerError(error: any): LLMProviderError {
+  const message: string = error?.message || 'Request failed'
+  const status = message.match(/\[(\d{3})\b[^\]]*\]/)?.[1]
+  if (status) {
+    return new LLMProviderError('gemini', message, Number(status))
+  }
+  const transient = error instanceof TypeError ||
+    /Error fetching from|Failed to parse stream|Error parsing JSON response/.test(message)
+  return new LLMProviderError('gemini', message, undefined, transient)
+}
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini' as const
+  readonly defaultModel: string
+  private client: GoogleGenerativeAI
+
+  constructor(apiKey: string | undefined, defaultModel = 'gemini-1.5-flash') {
+    if (!apiKey) {
+      throw new LLMProviderError('gemini', 'GEMINI_API_KEY is not configured')
+    }
+    this.client = new GoogleGenerativeAI(apiKey)
+    this.defaultModel = defaultModel
+  }
+
+  private getModel(options: CompletionOptions) {
+    return this.client.getGenerativeModel({
+      model: options.model || this.defaultModel,
+      generationConfig: options.temperature !== undefined ? { temperature: options.temperature } : undefined
+    })
+  }
+
+  async complete(prompt: string, options: CompletionOptions = {}): Promise<string> {
+    const model = this.getModel(options)
+
+    try {
+      const result = await model.generateContent(prompt)
+      const response = await result.response
+      return response.text()
+    } catch (error: any) {
+      throw providerError(error)
+    }
+  }
+
+  // The SDK cannot cancel an in-flight request, so an abort stops reading
+  // between chunks instead
+  async *stream(prompt: string, options: CompletionOptions = {}): AsyncGenerator<string> {
+    const model = this.getModel(options)
+
+    try {
+      const result = await model.generateContentStream(prompt)
+      for await (const chunk of result.stream) {
+        if (options.signal?.aborted) return
+        yield chunk.text()
+      }
+    } catch (error: any) {
+      throw providerError(error)
+    }
+  }
+}
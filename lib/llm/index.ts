@@ -0,0 +1,57 @@
+import { GeminiProvider } from './gemini'
+import { MockProvider } from './mock'
+import { OpenAICompatibleProvider } from './openai'
+import { RetryingProvider } from './retry'
+import { LLMProvider, LLMProviderError, PROVIDER_NAMES, ProviderName, UnknownProviderError } from './types'
+
+export * from './types'
+export { isTransientError } from './retry'
+
+const providers = new Map<ProviderName, LLMProvider>()
+
+function createProvider(name: ProviderName): LLMProvider {
+  switch (name) {
+    case 'gemini':
+      return new GeminiProvider(process.env.GEMINI_API_KEY, process.env.GEMINI_MODEL)
+    case 'openai':
+      if (!process.env.OPENAI_API_KEY) {
+        throw new LLMProviderError('openai', 'OPENAI_API_KEY is not configured')
+      }
+      return new OpenAICompatibleProvider({
+        name: 'openai',
+        baseUrl: process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+        apiKey: process.env.OPENAI_API_KEY,
+        defaultModel: process.env.OPENAI_MODEL || 'gpt-4o-mini'
+      })
+    case 'local':
+      return new OpenAICompatibleProvider({
+        name: 'local',
+        baseUrl: process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+        apiKey: process.env.LOCAL_LLM_API_KEY,
+        defaultModel: process.env.LOCAL_LLM_MODEL || 'llama3'
+      })
+    case 'mock':
+      return new MockProvider()
+  }
+}
+
+export function isProviderName(value: unknown): value is ProviderName {
+  return typeof value === 'string' && (PROVIDER_NAMES as string[]).includes(value)
+}
+
+// Resolves the provider for a request: an explicit name wins, then the
+// LLM_PROVIDER environment variable, then Gemini. Transient failures are
+// retried with backoff.
+export function getProvider(name?: string): LLMProvider {
+  const resolved = name || process.env.LLM_PROVIDER || 'gemini'
+  if (!isProviderName(resolved)) {
+    throw new UnknownProviderError(resolved, PROVIDER_NAMES)
+  }
+
+  let provider = providers.get(resolved)
+  if (!provider) {
+    provider = new RetryingProvider(createProvider(resolved))
+    providers.set(resolved, provider)
+  }
+  return provider
+}
@@ -0,0 +1,85 @@
+import { Fixture, fixtures as defaultFixtures } from './fixtures'
+import { CompletionOptions, LLMProvider, LLMProviderError } from './types'
+
+const MOCK_CHUNK_SIZE = 256
+
+interface QuestionsPayload {
+  questions: { title?: unknown }[]
+}
+
+function isQuestionsPayload(response: unknown): response is QuestionsPayload {
+  return Array.isArray((response as QuestionsPayload | null)?.questions)
+}
+
+// Trims a `{ questions: [...] }` fixture to the count the prompt asks for,
+// starting at its batch slot and skipping titles the prompt mentions (the
+// avoid list), so chunked and regenerated calls get distinct questions.
+// Other responses are returned unchanged.
+function fitQuestionRequest(response: unknown, prompt: string): unknown {
+  const requested = prompt.match(/must contain exactly (\d+) object|exactly (\d+) entries in "questions"/)
+  if (!requested || !isQuestionsPayload(response) || response.questions.length === 0) {
+    return response
+  }
+
+  const slot = prompt.match(/writing questions (\d+)-\d+ of \d+/)
+  const start = slot ? Number(slot[1]) - 1 : 0
+  const unused = response.questions.filter(question => typeof question.title !== 'string' || !prompt.includes(question.title))
+  const pool = unused.length > 0 ? unused : response.questions
+
+  return {
+    ...response,
+    questions: Array.from({ length: Number(requested[1] ?? requested[2]) }, (_, i) => pool[(start + i) % pool.length])
+  }
+}
+
+// Replays canned responses so generation can be developed and tested offline.
+// Passing a fixture name as the model forces that fixture; otherwise the first
+// fixture whose `match` appears in the prompt is used.
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock' as const
+  readonly defaultModel = 'fixture'
+  private fixtures: Fixture[]
+
+  constructor(fixtures: Fixture[] = defaultFixtures) {
+    this.fixtures = fixtures
+  }
+
+  async complete(prompt: string, options: CompletionOptions = {}): Promise<string> {
+    const fixture = this.select(prompt, options.model)
+    return typeof fixture.response === 'string'
+      ? fixture.response
+      : JSON.stringify(fitQuestionRequest(fixture.response, prompt), null, 2)
+  }
+
+  // Replays the fixture in small chunks so streaming code paths can be
+  // exercised offline
+  async *stream(prompt: string, options: CompletionOptions = {}): AsyncGenerator<string> {
+    const text = await this.complete(prompt, options)
+    const delayMs = Number(process.env.MOCK_LLM_CHUNK_DELAY_MS ?? 20)
+
+    for (let i = 0; i < text.length; i += MOCK_CHUNK_SIZE) {
+      if (options.signal?.aborted) return
+      if (delayMs > 0) {
+        await new Promise(resolve => setTimeout(resolve, delayMs))
+      }
+      yield text.slice(i, i + MOCK_CHUNK_SIZE)
+    }
+  }
+
+  private select(prompt: string, model?: string): Fixture {
+    if (model && model !== this.defaultModel) {
+      const named = this.fixtures.find(fixture => fixture.name === model)
+      if (!named) {
+        throw new LLMProviderError('mock', `Unknown fixture "${model}"`)
+      }
+      return named
+    }
+
+    const fixture = this.fixtures.find(f => f.match && prompt.includes(f.match))
+      || this.fixtures.find(f => !f.match)
+    if (!fixture) {
+      throw new LLMProviderError('mock', 'No fixture matches the prompt')
+    }
+    return fixture
+  }
+}
@@ -0,0 +1,111 @@
+import { CompletionOptions, LLMProvider, LLMProviderError } from './types'
+
+interface OpenAICompatibleConfig {
+  name: 'openai' | 'local'
+  baseUrl: string
+  apiKey?: string
+  defaultModel: string
+}
+
+// Talks to any server implementing the OpenAI chat completions API: OpenAI
+// itself, Azure-style gateways, or local servers such as Ollama, vLLM and
+// llama.cpp.
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: 'openai' | 'local'
+  readonly defaultModel: string
+  private baseUrl: string
+  private apiKey?: string
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.name = config.name
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '')
+    this.apiKey = config.apiKey
+    this.defaultModel = config.defaultModel
+  }
+
+  private async request(prompt: string, options: CompletionOptions, stream: boolean): Promise<Response> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`
+    }
+
+    let response: Response
+    try {
+      response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers,
+        signal: options.signal,
+        body: JSON.stringify({
+          model: options.model || this.defaultModel,
+          messages: [{ role: 'user', content: prompt }],
+          stream,
+          ...(options.temperature !== undefined ? { temperature: options.temperature } : {})
+        })
+      })
+    } catch (error: any) {
+      throw new LLMProviderError(this.name, `Could not reach ${this.baseUrl}: ${error.message}`, undefined, true)
+    }
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '')
+      throw new LLMProviderError(this.name, `Request failed with ${response.status}: ${body.slice(0, 200)}`, response.status)
+    }
+    return response
+  }
+
+  async complete(prompt: string, options: CompletionOptions = {}): Promise<string> {
+    const response = await this.request(prompt, options, false)
+    const data = await response.json()
+    const content = data.choices?.[0]?.message?.content
+    if (typeof content !== 'string') {
+      throw new LLMProviderError(this.name, 'Response did not include message content')
+    }
+    return content
+  }
+
+  // Reads the server-sent `data:` lines of a streamed chat completion. A
+  // dropped connection or a garbled chunk is a transient failure, so the
+  // caller can ask for the rest again.
+  async *stream(prompt: string, options: CompletionOptions = {}): AsyncGenerator<string> {
+    const response = await this.request(prompt, options, true)
+    if (!response.body) {
+      throw new LLMProviderError(this.name, 'Streaming response had no body')
+    }
+
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+
+    while (true) {
+      let chunk: ReadableStreamReadResult<Uint8Array>
+      try {
+        chunk = await reader.read()
+      } catch (error: any) {
+        if (options.signal?.aborted) throw error
+        throw new LLMProviderError(this.name, `Stream broke off: ${error.message}`, undefined, true)
+      }
+      const { done, value } = chunk
+      if (done) break
+      buffer += decoder.decode(value, { stream: true })
+
+      const lines = buffer.split('\n')
+      buffer = lines.pop() || ''
+      for (const line of lines) {
+        const data = line.replace(/^data:\s*/, '').trim()
+        if (!line.startsWith('data:') || !data) continue
+        if (data === '[DONE]') return
+
+        let parsed: any
+        try {
+          parsed = JSON.parse(data)
+        } catch {
+          throw new LLMProviderError(this.name, `Malformed stream chunk: ${data.slice(0, 200)}`, undefined, true)
+        }
+        const content = parsed.choices?.[0]?.delta?.content
+        if (typeof content === 'string' && content) {
+          yield content
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,78 @@
+import { CompletionOptions, LLMProvider, LLMProviderError } from './types'
+
+// Retries after the first attempt, and the delay before the first retry.
+// Each retry waits twice as long as the one before, up to the cap.
+const RETRY_ATTEMPTS = Number(process.env.LLM_RETRY_ATTEMPTS ?? 3)
+const RETRY_BASE_DELAY_MS = Number(process.env.LLM_RETRY_BASE_DELAY_MS ?? 500)
+const RETRY_MAX_DELAY_MS = 8000
+
+export const isTransientError = (error: unknown) => error instanceof LLMProviderError && error.transient
+
+// Exponential backoff with jitter, so calls that failed together don't all
+// retry at the same moment
+export function retryDelay(attempt: number, baseDelayMs = RETRY_BASE_DELAY_MS): number {
+  const delay = Math.min(RETRY_MAX_DELAY_MS, baseDelayMs * 2 ** attempt)
+  return Math.round(delay / 2 + Math.random() * delay / 2)
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, ms)
+    function done() {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', done)
+      resolve()
+    }
+    signal?.addEventListener('abort', done)
+  })
+}
+
+// Wraps a provider so that transient failures (rate limits, timeouts,
+// server errors, dropped connections) are retried with backoff. A stream is
+// only retried if it fails before its first chunk: after that the caller
+// has already consumed part of the response.
+export class RetryingProvider implements LLMProvider {
+  readonly name: LLMProvider['name']
+  readonly defaultModel: string
+
+  constructor(private inner: LLMProvider, private attempts = RETRY_ATTEMPTS, private baseDelayMs = RETRY_BASE_DELAY_MS) {
+    this.name = inner.name
+    this.defaultModel = inner.defaultModel
+  }
+
+  async complete(prompt: string, options: CompletionOptions = {}): Promise<string> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.inner.complete(prompt, options)
+      } catch (error) {
+        await this.backOff(error, attempt, options.signal)
+      }
+    }
+  }
+
+  async *stream(prompt: string, options: CompletionOptions = {}): AsyncGenerator<string> {
+    for (let attempt = 0; ; attempt++) {
+      let started = false
+      try {
+        for await (const chunk of this.inner.stream(prompt, options)) {
+          started = true
+          yield chunk
+        }
+        return
+      } catch (error) {
+        if (started) throw error
+        await this.backOff(error, attempt, options.signal)
+      }
+    }
+  }
+
+  // Rethrows errors that shouldn't be retried, otherwise waits out the delay
+  private async backOff(error: unknown, attempt: number, signal?: AbortSignal) {
+    if (!isTransientError(error) || attempt >= this.attempts || signal?.aborted) throw error
+
+    const delay = retryDelay(attempt, this.baseDelayMs)
+    console.warn(`${(error as Error).message}; retrying in ${delay}ms (retry ${attempt + 1} of ${this.attempts})`)
+    await sleep(delay, signal)
+    if (signal?.aborted) throw error
+  }
+}
@@ -0,0 +1,42 @@
+export type ProviderName = 'gemini' | 'openai' | 'local' | 'mock'
+
+export const PROVIDER_NAMES: ProviderName[] = ['gemini', 'openai', 'local', 'mock']
+
+export interface CompletionOptions {
+  model?: string
+  temperature?: number
+  signal?: AbortSignal
+}
+
+export interface LLMProvider {
+  readonly name: ProviderName
+  readonly defaultModel: string
+  complete(prompt: string, options?: CompletionOptions): Promise<string>
+  // Yields the response text in chunks as the model produces it
+  stream(prompt: string, options?: CompletionOptions): AsyncIterable<string>
+}
+
+// Rate limits, timeouts and server errors are worth retrying
+const TRANSIENT_STATUSES = [408, 409, 429, 500, 502, 503, 504]
+
+export class LLMProviderError extends Error {
+  provider: ProviderName
+  status?: number
+  // Whether the same request may succeed if sent again
+  transient: boolean
+
+  constructor(provider: ProviderName, message: string, status?: number, transient?: boolean) {
+    super(`[${provider}] ${message}`)
+    this.name = 'LLMProviderError'
+    this.provider = provider
+    this.status = status
+    this.transient = transient ?? (status !== undefined && TRANSIENT_STATUSES.includes(status))
+  }
+}
+
+export class UnknownProviderError extends Error {
+  constructor(name: string, known: string[]) {
+    super(`Unknown LLM provider "${name}". Expected one of: ${known.join(', ')}`)
+    this.name = 'UnknownProviderError'
+  }
+}
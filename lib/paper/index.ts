@@ -0,0 +1,236 @@
+import { FormData, Question, baseIdOf } from '../types'
+import type { DifficultyLevel } from '../difficulty'
+import type { PaperRequest } from '../requestSchema'
+import { QuestionAccess, SavedQuestion, listQuestions } from '../store/questionBank'
+import { BatchCollector, generateQuestionEvents, regenerateQuestion } from '../generation/pipeline'
+import { GenerationValidationError } from '../questionSchema'
+import { DUPLICATE_THRESHOLD, similarity } from '../similarity'
+import { ExportContext, ExportFile, ExportFormat, exportQuestions, slugify } from '../export'
+import { estimateSolveMinutes } from './timing'
+
+export * from './timing'
+
+export type PaperBlueprint = PaperRequest
+export type PaperSlot = PaperBlueprint['slots'][number]
+export type PaperSource = NonNullable<PaperBlueprint['source']>
+
+// A question placed on a paper with all its language variants
+export interface PaperQuestion {
+  // Index of the blueprint slot it fills
+  slot: number
+  topic: string
+  difficultyLevel: DifficultyLevel
+  source: 'bank' | 'generated'
+  estimatedMinutes: number
+  variants: Question[]
+}
+
+// Questions a slot still lacks after the bank and the generator
+export interface PaperShortfall {
+  slot: number
+  missing: number
+}
+
+export interface Paper {
+  id: string
+  ownerId: string
+  title: string
+  positionName: string
+  languages: string[]
+  type: FormData['type']
+  timeBudgetMinutes: number
+  slots: PaperSlot[]
+  source: PaperSource
+  // In the order the candidate sees them
+  questions: PaperQuestion[]
+  estimatedMinutes: number
+  shortfalls: PaperShortfall[]
+  createdAt: string
+}
+
+export type PaperDraft = Omit<Paper, 'id' | 'ownerId' | 'createdAt'>
+
+export interface BuildPaperOptions {
+  // Whose bank questions may be used; all of them when omitted
+  access?: QuestionAccess
+  signal?: AbortSignal
+}
+
+const LEVEL_ORDER: Record<DifficultyLevel, number> = { easy: 0, medium: 1, hard: 2 }
+
+const toQuestion = ({ positionName, topic, difficultyLevel, type, ownerId, workspaceId, createdAt, updatedAt, ...question }: SavedQuestion): Question => question
+
+// Saved questions for the slot that have a variant in every paper language,
+// unused so far, closest to `targetMinutes` first
+async function fromBank(
+  blueprint: PaperBlueprint,
+  slot: PaperSlot,
+  count: number,
+  used: Set<string>,
+  targetMinutes: number,
+  access?: QuestionAccess
+): Promise<Question[][]> {
+  const saved = await listQuestions({ topic: slot.topic, difficultyLevel: slot.difficultyLevel, type: blueprint.type }, access)
+  const groups = new Map<string, SavedQuestion[]>()
+  saved.forEach(question => groups.set(baseIdOf(question), [...(groups.get(baseIdOf(question)) ?? []), question]))
+
+  const candidates = Array.from(groups.entries())
+    .filter(([baseId]) => !used.has(baseId))
+    .flatMap(([baseId, variants]) => {
+      const chosen = blueprint.languages.map(language => variants.find(variant => variant.language === language))
+      if (chosen.some(variant => !variant)) return []
+      const questions = chosen.map(variant => toQuestion(variant!))
+      return [{ baseId, questions, minutes: estimateSolveMinutes(questions[0], slot.difficultyLevel, blueprint.type) }]
+    })
+    .sort((a, b) => Math.abs(a.minutes - targetMinutes) - Math.abs(b.minutes - targetMinutes))
+    .slice(0, count)
+
+  candidates.forEach(candidate => used.add(candidate.baseId))
+  return candidates.map(candidate => candidate.questions)
+}
+
+// New questions for the slot. Duplicates of the bank and questions that miss
+// the slot's difficulty are regenerated, as are repeats of questions already
+// on the paper; questions that still fail validation leave the slot short
+// instead of failing the paper.
+async function generateForSlot(
+  blueprint: PaperBlueprint,
+  slot: PaperSlot,
+  count: number,
+  placed: Question[],
+  { access, signal }: BuildPaperOptions
+): Promise<Question[][]> {
+  const formData: FormData = {
+    positionName: blueprint.positionName,
+    languages: blueprint.languages,
+    type: blueprint.type,
+    difficultyLevel: slot.difficultyLevel,
+    topic: slot.topic,
+    count,
+    problem: '',
+    hint: '',
+    provider: blueprint.provider,
+    model: blueprint.model,
+    duplicateHandling: 'regenerate',
+    difficultyHandling: 'regenerate'
+  }
+
+  const batch = new BatchCollector()
+  try {
+    for await (const event of generateQuestionEvents(formData, { access, signal })) {
+      batch.add(event)
+    }
+  } catch (error) {
+    if (!(error instanceof GenerationValidationError)) throw error
+  }
+
+  const groups: Question[][] = []
+  for (const group of batch.groups().slice(0, count)) {
+    const seen = [...placed, ...groups.map(variants => variants[0])]
+    const repeats = seen.find(other => similarity(group[0], other) >= DUPLICATE_THRESHOLD)
+    if (!repeats) {
+      groups.push(group)
+      continue
+    }
+    if (signal?.aborted) break
+    try {
+      groups.push(await regenerateQuestion(formData, { replacing: group[0], siblings: seen, access }))
+    } catch (error) {
+      if (!(error instanceof GenerationValidationError)) throw error
+    }
+  }
+  return groups
+}
+
+// Fills each blueprint slot from the question bank, the generator or both
+// (bank first by default), estimates every question's solve time and orders
+// the paper from the easiest and quickest question to the hardest. Bank
+// questions are picked to split the time budget evenly across the paper.
+export async function buildPaper(blueprint: PaperBlueprint, options: BuildPaperOptions = {}): Promise<PaperDraft> {
+  const source = blueprint.source ?? 'bank-first'
+  const total = blueprint.slots.reduce((sum, slot) => sum + slot.count, 0)
+  const targetMinutes = blueprint.timeBudgetMinutes / total
+  const used = new Set<string>()
+  const questions: PaperQuestion[] = []
+  const shortfalls: PaperShortfall[] = []
+
+  for (let index = 0; index < blueprint.slots.length; index++) {
+    const slot = blueprint.slots[index]
+    const place = (origin: PaperQuestion['source']) => (variants: Question[]) => questions.push({
+      slot: index,
+      topic: slot.topic,
+      difficultyLevel: slot.difficultyLevel,
+      source: origin,
+      estimatedMinutes: estimateSolveMinutes(variants[0], slot.difficultyLevel, blueprint.type),
+      variants
+    })
+
+    const banked = source === 'generate' ? [] : await fromBank(blueprint, slot, slot.count, used, targetMinutes, options.access)
+    banked.forEach(place('bank'))
+
+    let missing = slot.count - banked.length
+    if (missing > 0 && source !== 'bank') {
+      const generated = await generateForSlot(blueprint, slot, missing, questions.map(question => question.variants[0]), options)
+      generated.forEach(place('generated'))
+      missing -= generated.length
+    }
+    if (missing > 0) shortfalls.push({ slot: index, missing })
+  }
+
+  // Array sort is stable, so ties keep blueprint order
+  questions.sort((a, b) => LEVEL_ORDER[a.difficultyLevel] - LEVEL_ORDER[b.difficultyLevel] || a.estimatedMinutes - b.estimatedMinutes)
+
+  return {
+    title: blueprint.title || `${blueprint.positionName} paper (${blueprint.timeBudgetMinutes} min)`,
+    positionName: blueprint.positionName,
+    languages: blueprint.languages,
+    type: blueprint.type,
+    timeBudgetMinutes: blueprint.timeBudgetMinutes,
+    slots: blueprint.slots,
+    source,
+    questions,
+    estimatedMinutes: questions.reduce((sum, question) => sum + question.estimatedMinutes, 0),
+    shortfalls
+  }
+}
+
+export const paperVariants = (paper: Paper) => paper.questions.flatMap(question => question.variants)
+
+// The parameters shown and written with one of the paper's questions
+export function paperQuestionContext(paper: Paper, question: PaperQuestion): ExportContext & Pick<FormData, 'positionName' | 'type' | 'topic' | 'difficultyLevel'> {
+  return {
+    positionName: paper.positionName,
+    type: paper.type,
+    topic: question.topic,
+    difficultyLevel: question.difficultyLevel,
+    estimatedMinutes: question.estimatedMinutes
+  }
+}
+
+export function describePaperTime(paper: Paper): string {
+  const count = paper.questions.length
+  return `${count} question${count === 1 ? '' : 's'}, about ${paper.estimatedMinutes} of ${paper.timeBudgetMinutes} minutes`
+}
+
+// The whole paper as one file: a title page listing the questions in order,
+// then each question with its own topic, difficulty and time estimate
+export function exportPaper(paper: Paper, format: ExportFormat): ExportFile {
+  const name = slugify(paper.title)
+  if (format === 'json') {
+    return {
+      filename: `${name}.json`,
+      contentType: 'application/json',
+      body: JSON.stringify({ exportedAt: new Date().toISOString(), paper }, null, 2)
+    }
+  }
+
+  const contextByVariant = new Map(paper.questions.flatMap(question =>
+    question.variants.map(variant => [variant.id, paperQuestionContext(paper, question)] as const)
+  ))
+  return exportQuestions(paperVariants(paper), format, { positionName: paper.positionName, type: paper.type }, {
+    title: paper.title,
+    summary: describePaperTime(paper),
+    name,
+    contextOf: question => contextByVariant.get(question.id) ?? {}
+  })
+}
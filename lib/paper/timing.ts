@@ -0,0 +1,27 @@
+import type { FormData, Question } from '../types'
+import { DifficultyLevel, estimateDifficulty } from '../difficulty'
+
+// Minutes for a difficulty score of 0, and how many each point adds: an
+// easy score of 20 comes to about 16 minutes, a hard 80 to about 40
+const BASE_MINUTES = 8
+const MINUTES_PER_POINT = 0.4
+const READING_WORDS_PER_MINUTE = 150
+// Writing input parsing and output by hand instead of filling in a template
+const FROM_SCRATCH_MINUTES = 5
+const ROUND_TO_MINUTES = 5
+
+// How long a candidate needs to read and solve a question, rounded up to
+// five minutes. Uses the question's difficulty estimate, working it out for
+// questions saved before estimates existed.
+export function estimateSolveMinutes(question: Question, requested: DifficultyLevel, type: FormData['type']): number {
+  const { score } = question.difficultyEstimate ?? estimateDifficulty(question, requested)
+  const words = `${question.problemStatement} ${question.inputFormat} ${question.outputFormat} ${question.constraints}`
+    .split(/\s+/)
+    .filter(Boolean).length
+
+  const minutes = BASE_MINUTES
+    + score * MINUTES_PER_POINT
+    + words / READING_WORDS_PER_MINUTE
+    + (type === 'write_code' ? FROM_SCRATCH_MINUTES : 0)
+  return Math.ceil(minutes / ROUND_TO_MINUTES) * ROUND_TO_MINUTES
+}
@@ -0,0 +1,213 @@
+import type { PromptTemplate } from './types'
+
+// Variables each template name is rendered with. Custom versions may only
+// use these.
+export const PROMPT_VARIABLES: Record<string, Record<string, string>> = {
+  questions: {
+    count: 'Number of questions this call must return',
+    companies: 'Companies known for hiring into the position',
+    position: 'Position name',
+    seniority: 'Seniority band of the position: entry, mid or senior',
+    interviewStyle: 'Catalog notes on how interviews for the position are run',
+    topic: 'Topic focus',
+    difficulty: 'easy, medium or hard',
+    difficultyGuideline: 'What the difficulty means in practice',
+    languages: 'Comma-separated languages',
+    completeCode: 'Set for "Complete the Code" questions',
+    writeCode: 'Set for "Write Code" (from scratch) questions',
+    problem: 'Additional context from the form',
+    hint: 'Hint or focus from the form',
+    avoidList: 'Existing questions not to repeat, as a bullet',
+    slot: 'Which part of a split batch this call covers, as a bullet',
+    calibration: 'Earlier questions whose estimated difficulty missed the level, as a bullet',
+    outputFormat: 'The JSON shape the response must have',
+    signatureTypes: 'Types allowed in function signatures'
+  },
+  implementation: {
+    language: 'Language of the template',
+    title: 'Question title',
+    problemStatement: 'Problem statement',
+    inputFormat: 'Input format',
+    outputFormat: 'Output format',
+    constraints: 'Constraints',
+    rejected: 'The template being replaced, if any'
+  }
+}
+
+const QUESTIONS_V1 = `
+You are an expert interviewer from {{companies}}. Generate exactly {{count}} high-quality Data Structures and Algorithms questions for {{position}} position interviews.
+
+CONTEXT:
+- Target Companies: {{companies}}
+- Position: {{position}}
+- Topic Focus: {{topic}}
+- Difficulty: {{difficulty}} ({{difficultyGuideline}})
+{{#completeCode}}
+- Question Type: Function Templates Only
+- Languages Required: {{languages}}
+{{/completeCode}}
+{{#writeCode}}
+- Question Type: FROM SCRATCH (Problem statements only - NO CODE)
+{{/writeCode}}
+{{#problem}}
+- Additional Context: {{problem}}
+{{/problem}}
+{{#hint}}
+- Hint/Focus: {{hint}}
+{{/hint}}
+{{#avoidList}}
+{{avoidList}}
+{{/avoidList}}
+{{#slot}}
+{{slot}}
+{{/slot}}
+
+OUTPUT FORMAT:
+{{outputFormat}}
+
+{{#completeCode}}
+FUNCTION SIGNATURE:
+Do not write templates yourself. Give one language-neutral "signature" per question; the {{languages}} templates are generated from it so every language agrees on names, parameter order and types.
+Allowed types: {{signatureTypes}}
+
+SAMPLE FORMAT (for all code, input, and output):
+
+/**
+* @param {character[][]} board
+* @return {void} Do not return anything, modify board in-place instead.
+*/
+var solveSudoku = function(board) {
+// Implement your solution here
+};
+
+Input:
+[
+["5","3",".",".","7",".",".",".","."],
+["6",".",".","1","9","5",".",".","."],
+[".","9","8",".",".",".",".","6","."],
+["8",".",".",".","6",".",".",".","3"],
+["4",".",".","8",".","3",".",".","1"],
+["7",".",".",".","2",".",".",".","6"],
+[".","6",".",".",".",".","2","8","."],
+[".",".",".","4","1","9",".",".","5"],
+[".",".",".",".","8",".",".","7","9"]
+]
+Output: Solved Sudoku board
+
+SIGNATURE REQUIREMENTS:
+- functionName and parameter names in camelCase, describing what they hold (e.g. "nums", "target", "root")
+- One parameter per value in the input format, in the same order
+- returnType matches the output format; use void only when the function modifies its input in place
+- Use the most specific allowed type (int[] rather than string for a list of numbers, TreeNode for a binary tree)
+- Use the exact formatting, spacing, and style as in the sample above for the sample input and output. Do not change whitespace or formatting.
+{{/completeCode}}
+{{#writeCode}}
+IMPORTANT: 
+- Generate ONLY problem statements
+- DO NOT include any code, function templates, or implementations in the problem text (the hidden referenceSolution is the only code allowed)
+- Focus on clear problem descriptions that allow candidates to code from scratch
+- Include all necessary details for understanding the problem
+{{/writeCode}}
+
+QUALITY REQUIREMENTS:
+1. 🎯 AUTHENTICITY: Real interview patterns from {{companies}}
+2. 🏢 COMPANY RELEVANCE: Match {{position}} interview style
+3. 📊 DIFFICULTY: Appropriate for {{difficulty}} level
+4. 🔍 TOPIC MASTERY: Focus on {{topic}} concepts and patterns
+5. 💡 CLARITY: Unambiguous problem statements
+6. 🧪 TESTABILITY: Good sample inputs covering typical scenarios
+7. ⚡ OPTIMIZATION: Include complexity discussions
+8. 🎨 VARIETY: Test different aspects of {{topic}}
+9. 💡 HINTS: CRITICAL - Generate ONLY plain English text hints (max 50 words). ABSOLUTELY NO CODE, FUNCTION NAMES, PROGRAMMING SYNTAX, or TEMPLATES. Example: 'Use sliding window technique' NOT 'function twoSum()'
+
+{{#completeCode}}
+Generate {{count}} distinct questions with function templates in all requested languages ({{languages}}).
+{{/completeCode}}
+{{#writeCode}}
+Generate {{count}} distinct, interview-ready questions that a {{position}} candidate would face at {{companies}}.
+{{/writeCode}}
+`
+
+// Adds the position's seniority band and interview-style notes from the catalog
+const QUESTIONS_V2 = QUESTIONS_V1.replace(
+  '- Difficulty: {{difficulty}} ({{difficultyGuideline}})\n',
+  `- Seniority: {{seniority}}
+{{#interviewStyle}}
+- Interview Style: {{interviewStyle}}
+{{/interviewStyle}}
+- Difficulty: {{difficulty}} ({{difficultyGuideline}})
+`
+)
+
+// Adds the calibration notes used when miscalibrated questions are replaced
+const QUESTIONS_V3 = QUESTIONS_V2.replace(
+  '{{#slot}}\n{{slot}}\n{{/slot}}\n',
+  `{{#slot}}
+{{slot}}
+{{/slot}}
+{{#calibration}}
+{{calibration}}
+{{/calibration}}
+`
+)
+
+// The mock provider recognises this prompt by its first line
+const IMPLEMENTATION_V1 = `
+SINGLE LANGUAGE TEMPLATE
+
+Write a new {{language}} function template for the interview question below. Candidates fill in the body, so the template must be a function skeleton only: a signature with meaningful parameter names and appropriate {{language}} types, a "// Your code here" style comment in the body (using {{language}} comment syntax), and a return placeholder if the language needs one. DO NOT include any solution logic.
+
+Title: {{title}}
+Problem Statement: {{problemStatement}}
+Input Format: {{inputFormat}}
+Output Format: {{outputFormat}}
+Constraints: {{constraints}}
+{{#rejected}}
+
+The current template was rejected; produce a different, better one:
+{{rejected}}
+{{/rejected}}
+
+Respond with ONLY a JSON object, no markdown fences and no commentary, of the form:
+{ "implementation": string }
+Use \\n inside strings for line breaks.
+`
+
+// Variables every version of a template must insert: generation parses the
+// response in the shape `outputFormat` describes, and an implementation
+// template has to say which language to write
+export const REQUIRED_VARIABLES: Record<string, string[]> = {
+  questions: ['outputFormat'],
+  implementation: ['language']
+}
+
+export const BUILTIN_TEMPLATES: PromptTemplate[] = [
+  {
+    name: 'questions',
+    version: 1,
+    description: 'Question batch for both "Complete the Code" and "Write Code" modes',
+    body: QUESTIONS_V1,
+    builtin: true
+  },
+  {
+    name: 'questions',
+    version: 2,
+    description: 'Adds the seniority band and interview style from the position catalog',
+    body: QUESTIONS_V2,
+    builtin: true
+  },
+  {
+    name: 'questions',
+    version: 3,
+    description: 'Adds difficulty calibration notes for replacement questions',
+    body: QUESTIONS_V3,
+    builtin: true
+  },
+  {
+    name: 'implementation',
+    version: 1,
+    description: 'A replacement function template in one language',
+    body: IMPLEMENTATION_V1,
+    builtin: true
+  }
+]
@@ -0,0 +1,81 @@
+import { JsonFileStore } from '../store/jsonFile'
+import { BUILTIN_TEMPLATES, PROMPT_VARIABLES, REQUIRED_VARIABLES } from './builtin'
+import { insertsVariable, templateVariables, unbalancedSections } from './render'
+import { PromptTemplate, PromptTemplateError, UnknownPromptError } from './types'
+
+export * from './types'
+export { PROMPT_VARIABLES } from './builtin'
+export { renderPrompt } from './render'
+export type { PromptVariables } from './render'
+
+export type PromptName = keyof typeof PROMPT_VARIABLES
+
+interface PromptDocument {
+  templates: PromptTemplate[]
+}
+
+// Versions added through the API; the built-in ones ship with the code
+const store = new JsonFileStore<PromptDocument>('prompts.json', () => ({ templates: [] }))
+
+// How a question records the prompt that produced it, e.g. "questions@2"
+export const promptVersionId = (template: Pick<PromptTemplate, 'name' | 'version'>) =>
+  `${template.name}@${template.version}`
+
+export function isPromptName(name: string): name is PromptName {
+  return Object.prototype.hasOwnProperty.call(PROMPT_VARIABLES, name)
+}
+
+// Every version of every template, oldest first within a name
+export async function listPromptTemplates(): Promise<PromptTemplate[]> {
+  const { templates } = await store.read()
+  return [...BUILTIN_TEMPLATES, ...templates]
+    .sort((a, b) => a.name.localeCompare(b.name) || a.version - b.version)
+}
+
+// The requested version, or the newest one when none is given
+export async function getPromptTemplate(name: string, version?: number): Promise<PromptTemplate> {
+  const versions = (await listPromptTemplates()).filter(template => template.name === name)
+  const template = version === undefined
+    ? versions[versions.length - 1]
+    : versions.find(candidate => candidate.version === version)
+  if (!template) {
+    throw new UnknownPromptError(name, versions.length > 0 ? version : undefined)
+  }
+  return template
+}
+
+function validateBody(name: PromptName, body: string) {
+  const known = PROMPT_VARIABLES[name]
+  const problems = [
+    ...templateVariables(body)
+      .filter(variable => !Object.prototype.hasOwnProperty.call(known, variable))
+      .map(variable => `unknown variable "${variable}"`),
+    ...unbalancedSections(body),
+    ...REQUIRED_VARIABLES[name]
+      .filter(variable => !insertsVariable(body, variable))
+      .map(variable => `body must contain {{${variable}}}`)
+  ]
+  if (!body.trim()) problems.push('body is empty')
+  if (problems.length > 0) throw new PromptTemplateError(problems)
+}
+
+// Saves a new version of a template, numbered after the newest existing one
+export async function createPromptVersion(name: string, body: string, description = ''): Promise<PromptTemplate> {
+  if (!isPromptName(name)) {
+    throw new UnknownPromptError(name)
+  }
+  validateBody(name, body)
+
+  return store.update(document => {
+    const versions = [...BUILTIN_TEMPLATES, ...document.templates].filter(template => template.name === name)
+    const template: PromptTemplate = {
+      name,
+      version: Math.max(0, ...versions.map(existing => existing.version)) + 1,
+      description,
+      body,
+      createdAt: new Date().toISOString()
+    }
+    document.templates.push(template)
+    return template
+  })
+}
@@ -0,0 +1,57 @@
+export type PromptVariables = Record<string, string | number | boolean | undefined>
+
+// A mustache subset: {{name}} inserts a variable, {{#name}}...{{/name}}
+// keeps its content when the variable is set and non-empty, {{^name}}...{{/name}}
+// when it isn't. A newline right after a section tag is dropped so tags can
+// sit on their own lines.
+const TOKEN = /\{\{([#^])(\w+)\}\}\n?([\s\S]*?)\{\{\/\2\}\}\n?|\{\{(\w+)\}\}/g
+const TAG = /\{\{([#^/]?)(\w+)\}\}/g
+
+const isSet = (value: PromptVariables[string]) => value !== undefined && value !== false && value !== ''
+
+// Sections and variables are replaced in one pass over the template, so
+// tags inside variable values (the form's problem and hint text) stay as
+// they are
+export function renderPrompt(body: string, variables: PromptVariables): string {
+  return body.replace(TOKEN, (_, kind: string | undefined, name: string, content: string, variable: string | undefined) => {
+    if (variable !== undefined) return String(variables[variable] ?? '')
+    return isSet(variables[name]) === (kind === '#') ? renderPrompt(content, variables) : ''
+  })
+}
+
+// Whether the template inserts the variable itself, outside a section test
+export function insertsVariable(body: string, name: string): boolean {
+  return body.includes(`{{${name}}}`)
+}
+
+// Every variable a template refers to, in sections or directly
+export function templateVariables(body: string): string[] {
+  const names = new Set<string>()
+  let match: RegExpExecArray | null
+  const pattern = new RegExp(TAG)
+  while ((match = pattern.exec(body)) !== null) {
+    names.add(match[2])
+  }
+  return Array.from(names)
+}
+
+// Section tags must open and close in order
+export function unbalancedSections(body: string): string[] {
+  const open: string[] = []
+  const problems: string[] = []
+  let match: RegExpExecArray | null
+  const pattern = new RegExp(TAG)
+  while ((match = pattern.exec(body)) !== null) {
+    const [, kind, name] = match
+    if (kind === '#' || kind === '^') {
+      open.push(name)
+    } else if (kind === '/') {
+      if (open[open.length - 1] === name) {
+        open.pop()
+      } else {
+        problems.push(`{{/${name}}} does not close the innermost open section`)
+      }
+    }
+  }
+  return [...problems, ...open.map(name => `{{#${name}}} is never closed`)]
+}
@@ -0,0 +1,27 @@
+// A named prompt at one version. Versions are immutable once saved, so the
+// version recorded on a question always describes the prompt that wrote it.
+export interface PromptTemplate {
+  name: string
+  version: number
+  description: string
+  body: string
+  builtin?: boolean
+  createdAt?: string
+}
+
+export class UnknownPromptError extends Error {
+  constructor(name: string, version?: number) {
+    super(version === undefined ? `Unknown prompt template "${name}"` : `Prompt template "${name}" has no version ${version}`)
+    this.name = 'UnknownPromptError'
+  }
+}
+
+export class PromptTemplateError extends Error {
+  problems: string[]
+
+  constructor(problems: string[]) {
+    super(`Invalid prompt template: ${problems.join('; ')}`)
+    this.name = 'PromptTemplateError'
+    this.problems = problems
+  }
+}
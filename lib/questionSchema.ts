@@ -0,0 +1,200 @@
+import { z } from 'zod'
+import type { FormData, FunctionSignature } from './types'
+import { SANDBOX_LANGUAGES, referenceLanguageFor } from './sandbox/languages'
+import { describeSignatureTypes, isSignatureType } from './signature'
+import { HINT_WORD_LIMITS } from './hints/leak'
+
+export const DEFAULT_QUESTION_COUNT = 5
+export const MAX_QUESTION_COUNT = 50
+
+export function questionCount(formData: FormData): number {
+  return formData.count ?? DEFAULT_QUESTION_COUNT
+}
+
+export function isValidQuestionCount(count: unknown): count is number {
+  return typeof count === 'number' && Number.isInteger(count) && count >= 1 && count <= MAX_QUESTION_COUNT
+}
+
+const requiredText = (field: string) =>
+  z.string({ required_error: `${field} is required`, invalid_type_error: `${field} must be a string` })
+    .trim()
+    .min(1, `${field} must not be empty`)
+
+const baseQuestionSchema = z.object({
+  title: requiredText('title'),
+  problemStatement: requiredText('problemStatement'),
+  inputFormat: requiredText('inputFormat'),
+  outputFormat: requiredText('outputFormat'),
+  constraints: requiredText('constraints'),
+  sampleInput: requiredText('sampleInput'),
+  sampleOutput: requiredText('sampleOutput'),
+  hints: z.object({
+    nudge: requiredText('hints.nudge'),
+    approach: requiredText('hints.approach'),
+    nearSolution: requiredText('hints.nearSolution')
+  }, { required_error: 'hints is required' }),
+  editorial: z.object({
+    approach: requiredText('editorial.approach'),
+    timeComplexity: requiredText('editorial.timeComplexity'),
+    spaceComplexity: requiredText('editorial.spaceComplexity'),
+    alternatives: z.array(z.object({
+      approach: requiredText('editorial.alternatives.approach'),
+      timeComplexity: requiredText('editorial.alternatives.timeComplexity'),
+      spaceComplexity: requiredText('editorial.alternatives.spaceComplexity')
+    }), { required_error: 'editorial.alternatives is required' }),
+    pitfalls: z.array(requiredText('editorial.pitfalls'), { required_error: 'editorial.pitfalls is required' })
+      .min(1, 'editorial.pitfalls must list at least one pitfall')
+  }, { required_error: 'editorial is required' }),
+  referenceSolution: z.object({
+    language: z.enum(SANDBOX_LANGUAGES, {
+      errorMap: () => ({ message: `referenceSolution.language must be one of: ${SANDBOX_LANGUAGES.join(', ')}` })
+    }),
+    code: requiredText('referenceSolution.code')
+  }, { required_error: 'referenceSolution is required' })
+})
+
+const identifier = (field: string) =>
+  requiredText(field).regex(/^[A-Za-z_][A-Za-z0-9_]*$/, `${field} must be a plain identifier`)
+
+const signatureType = (field: string, allowVoid = false) =>
+  requiredText(field).refine(type => isSignatureType(type, allowVoid), {
+    message: `${field} must be one of the signature types: ${describeSignatureTypes()}`
+  })
+
+export const signatureSchema = z.object({
+  functionName: identifier('signature.functionName'),
+  parameters: z.array(z.object({
+    name: identifier('signature.parameters.name'),
+    type: signatureType('signature.parameters.type')
+  }), { required_error: 'signature.parameters is required' }),
+  returnType: signatureType('signature.returnType', true)
+}, { required_error: 'signature is required' })
+
+export type GeneratedQuestion = z.infer<typeof baseQuestionSchema> & {
+  signature?: FunctionSignature
+}
+
+// In complete_code mode every question must come with a signature the
+// language templates are rendered from.
+export function buildQuestionSchema(formData: FormData) {
+  return formData.type === 'complete_code'
+    ? baseQuestionSchema.extend({ signature: signatureSchema })
+    : baseQuestionSchema
+}
+
+// What the model must put in each question field, keyed by field name
+export function describeQuestionFields(formData: FormData): Record<string, string> {
+  const fields: Record<string, string> = {
+    title: 'string - concise, interview-style title',
+    problemStatement: 'string - clear, detailed problem description',
+    inputFormat: 'string - precise input specification',
+    outputFormat: 'string - clear output specification',
+    constraints: 'string - realistic constraints and complexity expectations',
+    sampleInput: 'string - simple test case',
+    sampleOutput: 'string - correct output for sampleInput',
+    hints: `object - { "nudge": string, "approach": string, "nearSolution": string } hints revealed one at a time, each giving away more than the last. nudge points at the key observation (max ${HINT_WORD_LIMITS.nudge} words); approach names the technique and why it fits (max ${HINT_WORD_LIMITS.approach} words); nearSolution describes the algorithm in words (max ${HINT_WORD_LIMITS.nearSolution} words). Plain English only: no code, function or variable names, or syntax.`,
+    editorial: 'object - { "approach": string, "timeComplexity": string, "spaceComplexity": string, "alternatives": [ { "approach": string, "timeComplexity": string, "spaceComplexity": string } ], "pitfalls": [ string ] } for interviewers, never shown to candidates. approach explains the intended solution and why it works; complexities use big-O notation such as "O(n log n)"; alternatives lists other valid approaches (brute force included) with their complexities, or [] if there are none; pitfalls lists mistakes candidates commonly make.',
+    referenceSolution: `object - { "language": "${referenceLanguageFor(formData.languages)}", "code": string } a complete ${referenceLanguageFor(formData.languages)} program that reads the input from stdin exactly as described in inputFormat and prints the answer to stdout. Running it on sampleInput must print exactly sampleOutput. It is never shown to candidates.`
+  }
+
+  if (formData.type === 'complete_code') {
+    fields.signature = `object - { "functionName": string, "parameters": [ { "name": string, "type": string } ], "returnType": string } the function candidates implement. Types: ${describeSignatureTypes()}`
+  }
+
+  return fields
+}
+
+export const formatFieldDescriptions = (fields: Record<string, string>) =>
+  Object.keys(fields).map(name => `- "${name}": ${fields[name]}`).join('\n')
+
+// Describes the JSON payload the model must return, for embedding in prompts.
+export function describeGenerationPayload(formData: FormData, count: number): string {
+  return `Respond with ONLY a JSON object, no markdown fences and no commentary, of the form:
+{ "questions": [ { ...question }, ... ] }
+
+"questions" must contain exactly ${count} object${count === 1 ? '' : 's'}, each with these fields:
+${formatFieldDescriptions(describeQuestionFields(formData))}
+
+Use \\n inside strings for line breaks. Every field is required and must not be empty.`
+}
+
+export interface FieldError {
+  path: string
+  message: string
+}
+
+export class GenerationValidationError extends Error {
+  fieldErrors: FieldError[]
+
+  constructor(fieldErrors: FieldError[]) {
+    super(`Model response failed validation: ${fieldErrors.map(e => `${e.path}: ${e.message}`).join('; ')}`)
+    this.name = 'GenerationValidationError'
+    this.fieldErrors = fieldErrors
+  }
+}
+
+// Pulls the JSON object out of the raw model text, tolerating code fences
+// and leading/trailing prose the model sometimes adds anyway.
+export function extractJson(text: string): unknown {
+  const fenced = text.trim().match(/^```(?:json)?\s*([\s\S]*?)```$/i)
+  const candidate = fenced ? fenced[1] : text
+  const start = candidate.indexOf('{')
+  const end = candidate.lastIndexOf('}')
+
+  if (start === -1 || end <= start) {
+    throw new GenerationValidationError([{ path: '$', message: 'Response did not contain a JSON object' }])
+  }
+
+  try {
+    return JSON.parse(candidate.slice(start, end + 1))
+  } catch (error: any) {
+    throw new GenerationValidationError([{ path: '$', message: `Response was not valid JSON: ${error.message}` }])
+  }
+}
+
+export function toFieldErrors(error: z.ZodError): FieldError[] {
+  return error.issues.map(issue => ({
+    path: issue.path.length ? issue.path.join('.') : '$',
+    message: issue.message
+  }))
+}
+
+// Validates a single question object, with paths relative to the question
+export function parseQuestion(raw: unknown, formData: FormData): GeneratedQuestion {
+  const result = buildQuestionSchema(formData).safeParse(raw)
+  if (!result.success) {
+    throw new GenerationValidationError(toFieldErrors(result.error))
+  }
+  return result.data
+}
+
+// Reports question-relative paths as they would appear in the full payload
+export function atQuestionIndex(fieldErrors: FieldError[], index: number): FieldError[] {
+  return fieldErrors.map(error => ({
+    ...error,
+    path: error.path === '$' ? `questions.${index}` : `questions.${index}.${error.path}`
+  }))
+}
+
+// The question blocks of a complete response, unvalidated, so each can be
+// checked and repaired on its own
+export function parseQuestionBlocks(text: string): unknown[] {
+  const payload = extractJson(text) as { questions?: unknown } | null
+  if (!Array.isArray(payload?.questions)) {
+    throw new GenerationValidationError([{ path: 'questions', message: 'questions is required' }])
+  }
+  return payload!.questions
+}
+
+const implementationSchema = z.object({
+  implementation: requiredText('implementation')
+})
+
+// Parses the response to a single-language template request
+export function parseImplementationPayload(text: string): string {
+  const result = implementationSchema.safeParse(extractJson(text))
+  if (!result.success) {
+    throw new GenerationValidationError(toFieldErrors(result.error))
+  }
+  return result.data.implementation
+}
@@ -0,0 +1,70 @@
+export interface RateLimitResult {
+  allowed: boolean
+  limit: number
+  remaining: number
+  // Seconds until the client's window resets
+  retryAfter: number
+}
+
+// Fixed-window request counter per key, kept in memory. A limit of
+// 0 or less lets every request through.
+export class RateLimiter {
+  private windows = new Map<string, { start: number; count: number }>()
+
+  constructor(readonly limit: number, readonly windowMs: number) {}
+
+  take(key: string, now = Date.now()): RateLimitResult {
+    if (this.limit <= 0) {
+      return { allowed: true, limit: this.limit, remaining: Infinity, retryAfter: 0 }
+    }
+
+    this.evictExpired(now)
+    let window = this.windows.get(key)
+    if (!window) {
+      window = { start: now, count: 0 }
+      this.windows.set(key, window)
+    }
+
+    const retryAfter = Math.max(1, Math.ceil((window.start + this.windowMs - now) / 1000))
+    if (window.count >= this.limit) {
+      return { allowed: false, limit: this.limit, remaining: 0, retryAfter }
+    }
+    window.count++
+    return { allowed: true, limit: this.limit, remaining: this.limit - window.count, retryAfter }
+  }
+
+  private evictExpired(now: number) {
+    this.windows.forEach((window, key) => {
+      if (window.start + this.windowMs <= now) this.windows.delete(key)
+    })
+  }
+}
+
+// Requests that can start model calls: generation and regeneration share
+// one budget per signed-in user
+export const generationLimiter = new RateLimiter(
+  Number(process.env.GENERATION_RATE_LIMIT ?? 10),
+  Number(process.env.GENERATION_RATE_LIMIT_WINDOW_SECONDS ?? 60) * 1000
+)
+
+// Assessment submissions run code in the sandbox; limited per candidate session
+export const submissionLimiter = new RateLimiter(
+  Number(process.env.SUBMISSION_RATE_LIMIT ?? 10),
+  Number(process.env.SUBMISSION_RATE_LIMIT_WINDOW_SECONDS ?? 60) * 1000
+)
+
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  if (result.limit <= 0) return {}
+  return {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    ...(result.allowed ? {} : { 'Retry-After': String(result.retryAfter) })
+  }
+}
+
+export function describeRateLimit(result: RateLimitResult, requests = 'generation requests'): { error: string; retryAfter: number } {
+  return {
+    error: `Too many ${requests}. Try again in ${result.retryAfter} second${result.retryAfter === 1 ? '' : 's'}.`,
+    retryAfter: result.retryAfter
+  }
+}
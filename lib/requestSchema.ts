@@ -0,0 +1,300 @@
+import { z } from 'zod'
+import { PROVIDER_NAMES } from './llm/types'
+import { SANDBOX_LANGUAGES } from './sandbox/languages'
+import { FieldError, MAX_QUESTION_COUNT, signatureSchema, toFieldErrors } from './questionSchema'
+
+// Request checks shared by the API routes and the form, so both reject the
+// same input with the same messages. Nothing here may pull in server-only
+// modules.
+
+export { MAX_QUESTION_COUNT }
+
+export const LANGUAGES = [
+  { id: 'javascript', name: 'JavaScript' },
+  { id: 'python', name: 'Python' },
+  { id: 'java', name: 'Java' },
+  { id: 'cpp', name: 'C++' },
+  { id: 'csharp', name: 'C#' },
+  { id: 'go', name: 'Go' },
+  { id: 'rust', name: 'Rust' },
+  { id: 'typescript', name: 'TypeScript' }
+] as const
+
+export const TOPICS = [
+  'Arrays',
+  'Strings',
+  'Linked Lists',
+  'Stacks',
+  'Queues',
+  'Trees',
+  'Binary Trees',
+  'Binary Search Trees',
+  'Heaps',
+  'Graphs',
+  'Hash Tables',
+  'Dynamic Programming',
+  'Recursion',
+  'Backtracking',
+  'Greedy Algorithms',
+  'Sorting Algorithms',
+  'Searching Algorithms',
+  'Two Pointers',
+  'Sliding Window',
+  'Binary Search',
+  'Depth First Search',
+  'Breadth First Search',
+  'Trie',
+  'Union Find',
+  'Segment Trees',
+  'Fenwick Tree'
+] as const
+
+export const MAX_POSITION_NAME_LENGTH = 100
+export const MAX_PROBLEM_LENGTH = 2000
+export const MAX_HINT_LENGTH = 500
+const MAX_MODEL_LENGTH = 100
+
+const LANGUAGE_IDS = LANGUAGES.map(language => language.id)
+
+const oneOf = <T extends string>(field: string, values: readonly T[], listed = values.join(', ')) =>
+  z.string({ required_error: `${field} is required`, invalid_type_error: `${field} must be a string` })
+    .refine(value => (values as readonly string[]).includes(value), { message: `${field} must be one of: ${listed}` })
+    .transform(value => value as T)
+
+const limitedText = (field: string, max: number) =>
+  z.string({ invalid_type_error: `${field} must be a string` })
+    .max(max, `${field} must be at most ${max} characters`)
+    .default('')
+
+export const generationRequestSchema = z.object({
+  positionName: z.string({ required_error: 'positionName is required', invalid_type_error: 'positionName must be a string' })
+    .trim()
+    .min(1, 'positionName is required')
+    .max(MAX_POSITION_NAME_LENGTH, `positionName must be at most ${MAX_POSITION_NAME_LENGTH} characters`),
+  languages: z.array(oneOf('language', LANGUAGE_IDS), { required_error: 'languages is required', invalid_type_error: 'languages must be a list' })
+    .min(1, 'Select at least one language')
+    .refine(languages => new Set(languages).size === languages.length, { message: 'languages must not repeat' }),
+  problem: limitedText('problem', MAX_PROBLEM_LENGTH),
+  hint: limitedText('hint', MAX_HINT_LENGTH),
+  type: oneOf('type', ['complete_code', 'write_code'] as const),
+  difficultyLevel: oneOf('difficultyLevel', ['easy', 'medium', 'hard'] as const),
+  topic: oneOf('topic', TOPICS, 'the listed topics'),
+  count: z.number({ invalid_type_error: 'count must be a number' })
+    .int(`count must be a whole number from 1 to ${MAX_QUESTION_COUNT}`)
+    .min(1, `count must be a whole number from 1 to ${MAX_QUESTION_COUNT}`)
+    .max(MAX_QUESTION_COUNT, `count must be a whole number from 1 to ${MAX_QUESTION_COUNT}`)
+    .optional(),
+  provider: oneOf('provider', PROVIDER_NAMES).optional(),
+  model: z.string({ invalid_type_error: 'model must be a string' })
+    .max(MAX_MODEL_LENGTH, `model must be at most ${MAX_MODEL_LENGTH} characters`)
+    .optional(),
+  duplicateHandling: oneOf('duplicateHandling', ['flag', 'regenerate'] as const).optional(),
+  difficultyHandling: oneOf('difficultyHandling', ['flag', 'regenerate'] as const).optional(),
+  promptVersion: z.number({ invalid_type_error: 'promptVersion must be a number' })
+    .int('promptVersion must be a positive whole number')
+    .positive('promptVersion must be a positive whole number')
+    .optional(),
+  forceFresh: z.boolean({ invalid_type_error: 'forceFresh must be true or false' }).optional()
+})
+
+// The form values stored alongside rows written to a sheet. Each is optional
+// here; the route requires the ones its column layout writes.
+export const sheetInputParametersSchema = generationRequestSchema.pick({
+  positionName: true,
+  hint: true,
+  type: true,
+  difficultyLevel: true,
+  topic: true
+}).partial()
+
+const MAX_QUESTION_TEXT_LENGTH = 20000
+
+const questionText = (field: string) =>
+  z.string({ required_error: `${field} is required`, invalid_type_error: `${field} must be a string` })
+    .max(MAX_QUESTION_TEXT_LENGTH, `${field} must be at most ${MAX_QUESTION_TEXT_LENGTH} characters`)
+
+// The fields duplicate checks compare; other question fields pass through
+export const comparableQuestionSchema = z.object({
+  id: questionText('id').min(1, 'id is required'),
+  title: questionText('title').trim().min(1, 'title is required'),
+  problemStatement: questionText('problemStatement'),
+  sampleInput: questionText('sampleInput'),
+  sampleOutput: questionText('sampleOutput')
+}).passthrough()
+
+// A whole question as the page holds it
+const fullQuestionSchema = comparableQuestionSchema.extend({
+  inputFormat: questionText('inputFormat'),
+  outputFormat: questionText('outputFormat'),
+  constraints: questionText('constraints'),
+  signature: signatureSchema.optional()
+}).passthrough()
+
+export const regenerationRequestSchema = z.object({
+  inputParameters: generationRequestSchema,
+  question: fullQuestionSchema,
+  siblings: z.array(comparableQuestionSchema, { invalid_type_error: 'siblings must be a list' })
+    .max(MAX_QUESTION_COUNT * LANGUAGES.length, `siblings must have at most ${MAX_QUESTION_COUNT * LANGUAGES.length} questions`)
+    .default([]),
+  language: oneOf('language', LANGUAGE_IDS).optional()
+})
+
+export const MAX_SAVED_QUESTIONS = 200
+
+// Questions saved to the bank with the form values they were generated for
+export const saveQuestionsRequestSchema = z.object({
+  questions: z.array(fullQuestionSchema, { required_error: 'questions is required', invalid_type_error: 'questions must be a list' })
+    .min(1, 'No questions provided')
+    .max(MAX_SAVED_QUESTIONS, `Save at most ${MAX_SAVED_QUESTIONS} questions at a time`),
+  inputParameters: generationRequestSchema.pick({
+    positionName: true,
+    type: true,
+    difficultyLevel: true,
+    topic: true
+  }),
+  workspaceId: z.string({ invalid_type_error: 'workspaceId must be a string' }).min(1, 'workspaceId must not be empty').optional()
+})
+
+export const PAPER_SOURCES = ['bank-first', 'bank', 'generate'] as const
+export const MAX_PAPER_SLOTS = 10
+export const MAX_PAPER_QUESTIONS = 20
+export const MAX_TIME_BUDGET_MINUTES = 600
+const MAX_TITLE_LENGTH = 100
+
+// One line of a paper blueprint: `count` questions on `topic` at `difficultyLevel`
+export const paperSlotSchema = z.object({
+  topic: oneOf('topic', TOPICS, 'the listed topics'),
+  difficultyLevel: oneOf('difficultyLevel', ['easy', 'medium', 'hard'] as const),
+  count: z.number({ required_error: 'count is required', invalid_type_error: 'count must be a number' })
+    .int(`count must be a whole number from 1 to ${MAX_PAPER_QUESTIONS}`)
+    .min(1, `count must be a whole number from 1 to ${MAX_PAPER_QUESTIONS}`)
+    .max(MAX_PAPER_QUESTIONS, `count must be a whole number from 1 to ${MAX_PAPER_QUESTIONS}`)
+})
+
+export const paperRequestSchema = z.object({
+  title: z.string({ invalid_type_error: 'title must be a string' })
+    .trim()
+    .max(MAX_TITLE_LENGTH, `title must be at most ${MAX_TITLE_LENGTH} characters`)
+    .optional(),
+  positionName: generationRequestSchema.shape.positionName,
+  languages: generationRequestSchema.shape.languages,
+  type: generationRequestSchema.shape.type,
+  timeBudgetMinutes: z.number({ required_error: 'timeBudgetMinutes is required', invalid_type_error: 'timeBudgetMinutes must be a number' })
+    .int(`timeBudgetMinutes must be a whole number from 5 to ${MAX_TIME_BUDGET_MINUTES}`)
+    .min(5, `timeBudgetMinutes must be a whole number from 5 to ${MAX_TIME_BUDGET_MINUTES}`)
+    .max(MAX_TIME_BUDGET_MINUTES, `timeBudgetMinutes must be a whole number from 5 to ${MAX_TIME_BUDGET_MINUTES}`),
+  slots: z.array(paperSlotSchema, { required_error: 'slots is required', invalid_type_error: 'slots must be a list' })
+    .min(1, 'Add at least one slot')
+    .max(MAX_PAPER_SLOTS, `A paper has at most ${MAX_PAPER_SLOTS} slots`)
+    .refine(slots => slots.reduce((total, slot) => total + slot.count, 0) <= MAX_PAPER_QUESTIONS, {
+      message: `A paper has at most ${MAX_PAPER_QUESTIONS} questions`
+    }),
+  source: oneOf('source', PAPER_SOURCES).optional(),
+  provider: generationRequestSchema.shape.provider,
+  model: generationRequestSchema.shape.model
+})
+
+export const MAX_CANDIDATE_NAME_LENGTH = 100
+export const MAX_SUBMISSION_LENGTH = 50000
+
+const durationMinutes = z.number({ invalid_type_error: 'durationMinutes must be a number' })
+  .int(`durationMinutes must be a whole number from 5 to ${MAX_TIME_BUDGET_MINUTES}`)
+  .min(5, `durationMinutes must be a whole number from 5 to ${MAX_TIME_BUDGET_MINUTES}`)
+  .max(MAX_TIME_BUDGET_MINUTES, `durationMinutes must be a whole number from 5 to ${MAX_TIME_BUDGET_MINUTES}`)
+
+// An assessment is built from one paper or from saved questions
+export const assessmentRequestSchema = z.object({
+  title: paperRequestSchema.shape.title,
+  durationMinutes: durationMinutes.optional(),
+  paperId: z.string({ invalid_type_error: 'paperId must be a string' }).min(1, 'paperId must not be empty').optional(),
+  questionIds: z.array(z.string({ invalid_type_error: 'questionIds must be strings' }), { invalid_type_error: 'questionIds must be a list' })
+    .min(1, 'Select at least one question')
+    .max(MAX_PAPER_QUESTIONS, `An assessment has at most ${MAX_PAPER_QUESTIONS} questions`)
+    .optional()
+}).refine(body => !body.paperId !== !body.questionIds, {
+  message: 'Send either paperId or questionIds',
+  path: ['paperId']
+})
+
+export const assessmentStartSchema = z.object({
+  candidateName: z.string({ required_error: 'candidateName is required', invalid_type_error: 'candidateName must be a string' })
+    .trim()
+    .min(1, 'Enter your name')
+    .max(MAX_CANDIDATE_NAME_LENGTH, `candidateName must be at most ${MAX_CANDIDATE_NAME_LENGTH} characters`),
+  language: oneOf('language', SANDBOX_LANGUAGES)
+})
+
+export const submissionSchema = z.object({
+  questionId: z.string({ required_error: 'questionId is required', invalid_type_error: 'questionId must be a string' })
+    .min(1, 'questionId is required'),
+  code: z.string({ required_error: 'code is required', invalid_type_error: 'code must be a string' })
+    .refine(code => code.trim().length > 0, { message: 'Write some code before submitting' })
+    .refine(code => code.length <= MAX_SUBMISSION_LENGTH, { message: `code must be at most ${MAX_SUBMISSION_LENGTH} characters` })
+})
+
+export const MIN_PASSWORD_LENGTH = 8
+export const MAX_USER_NAME_LENGTH = 100
+
+export const loginRequestSchema = z.object({
+  email: z.string({ required_error: 'email is required', invalid_type_error: 'email must be a string' })
+    .min(1, 'Enter your email'),
+  password: z.string({ required_error: 'password is required', invalid_type_error: 'password must be a string' })
+    .min(1, 'Enter your password')
+})
+
+export const registerRequestSchema = z.object({
+  name: z.string({ required_error: 'name is required', invalid_type_error: 'name must be a string' })
+    .trim()
+    .min(1, 'Enter your name')
+    .max(MAX_USER_NAME_LENGTH, `name must be at most ${MAX_USER_NAME_LENGTH} characters`),
+  email: z.string({ required_error: 'email is required', invalid_type_error: 'email must be a string' })
+    .trim()
+    .email('email must be a valid email address'),
+  password: z.string({ required_error: 'password is required', invalid_type_error: 'password must be a string' })
+    .min(MIN_PASSWORD_LENGTH, `password must be at least ${MIN_PASSWORD_LENGTH} characters`)
+})
+
+export type GenerationRequest = z.infer<typeof generationRequestSchema>
+export type SheetInputParametersRequest = z.infer<typeof sheetInputParametersSchema>
+export type RegenerationRequest = z.infer<typeof regenerationRequestSchema>
+export type SaveQuestionsRequest = z.infer<typeof saveQuestionsRequestSchema>
+export type PaperRequest = z.infer<typeof paperRequestSchema>
+export type AssessmentRequest = z.infer<typeof assessmentRequestSchema>
+export type AssessmentStart = z.infer<typeof assessmentStartSchema>
+export type LoginRequest = z.infer<typeof loginRequestSchema>
+export type RegisterRequest = z.infer<typeof registerRequestSchema>
+
+export type RequestValidation<T> =
+  | { success: true; data: T }
+  | { success: false; fieldErrors: FieldError[] }
+
+// Runs a request schema, reporting paths under `prefix` when the checked
+// value is nested in the request body
+export function validateRequest<T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  body: unknown,
+  prefix?: string
+): RequestValidation<T> {
+  const result = schema.safeParse(body)
+  if (result.success) return { success: true, data: result.data }
+
+  const fieldErrors = toFieldErrors(result.error)
+  return {
+    success: false,
+    fieldErrors: prefix
+      ? fieldErrors.map(error => ({ ...error, path: error.path === '$' ? prefix : `${prefix}.${error.path}` }))
+      : fieldErrors
+  }
+}
+
+// The first message for each form field, keyed by field name, for showing
+// next to the inputs. `languages.2` is reported under `languages`.
+export function messagesByField(fieldErrors: FieldError[], prefix?: string): Record<string, string> {
+  const messages: Record<string, string> = {}
+  fieldErrors.forEach(({ path, message }) => {
+    const relative = prefix && path.startsWith(`${prefix}.`) ? path.slice(prefix.length + 1) : path
+    const field = relative.split('.')[0]
+    if (!(field in messages)) messages[field] = message
+  })
+  return messages
+}
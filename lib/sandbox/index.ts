@@ -0,0 +1,201 @@
+import { spawn } from 'child_process'
+import { randomUUID } from 'crypto'
+import { mkdir, rm, writeFile } from 'fs/promises'
+import path from 'path'
+import { SandboxLanguage } from './languages'
+
+export * from './languages'
+
+export interface RunLimits {
+  timeoutMs: number
+  memoryMb: number
+}
+
+export interface RunOptions {
+  // Refuse to run unless SANDBOX_ISOLATION_COMMAND is set; for code the app
+  // didn't write itself, such as reference solutions and candidate submissions
+  isolated?: boolean
+}
+
+export interface RunResult {
+  status: 'ok' | 'timeout' | 'runtime_error' | 'output_limit'
+  stdout: string
+  stderr: string
+  exitCode: number | null
+  durationMs: number
+}
+
+export const DEFAULT_LIMITS: RunLimits = {
+  timeoutMs: Number(process.env.SANDBOX_TIMEOUT_MS) || 5000,
+  memoryMb: Number(process.env.SANDBOX_MEMORY_MB) || 256
+}
+
+const MAX_OUTPUT_BYTES = 1024 * 1024
+const workRoot = () => process.env.SANDBOX_WORK_DIR || path.join(process.cwd(), 'temp')
+
+// A command prefix that runs the interpreter under its own uid, without
+// network and without the app's files, e.g. an nsjail or docker invocation.
+// It is split on whitespace and `{workDir}` is replaced with the run's
+// directory, which the program runs in.
+const isolationCommand = () => process.env.SANDBOX_ISOLATION_COMMAND?.trim() || undefined
+
+export const isolationConfigured = () => isolationCommand() !== undefined
+
+export class SandboxIsolationError extends Error {
+  constructor() {
+    super('No isolated sandbox is configured; set SANDBOX_ISOLATION_COMMAND')
+    this.name = 'SandboxIsolationError'
+  }
+}
+
+interface Command {
+  file: string
+  command: string
+  args: string[]
+}
+
+function buildCommand(language: SandboxLanguage, limits: RunLimits): Command {
+  switch (language) {
+    case 'python':
+      // RLIMIT_AS is applied from inside the interpreter before the solution runs
+      return {
+        file: 'main.py',
+        command: process.env.SANDBOX_PYTHON || 'python3',
+        args: [
+          '-I',
+          '-c',
+          `import resource, runpy; limit = ${limits.memoryMb} * 1024 * 1024; resource.setrlimit(resource.RLIMIT_AS, (limit, limit)); runpy.run_path('main.py', run_name='__main__')`
+        ]
+      }
+    case 'javascript':
+    case 'typescript':
+      // --max-old-space-size only caps the V8 heap; Buffers and other native
+      // allocations are not counted, so this is a guard against runaway
+      // object graphs rather than a hard memory limit
+      return {
+        file: 'main.js',
+        command: process.env.SANDBOX_NODE || process.execPath,
+        args: [`--max-old-space-size=${limits.memoryMb}`, 'main.js']
+      }
+  }
+}
+
+async function prepareSource(language: SandboxLanguage, code: string): Promise<string> {
+  if (language !== 'typescript') {
+    return code
+  }
+
+  const ts = await import('typescript')
+  return ts.transpileModule(code, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 }
+  }).outputText
+}
+
+function isolate({ command, args }: Command, workDir: string): Pick<Command, 'command' | 'args'> {
+  const wrapper = isolationCommand()
+  if (!wrapper) return { command, args }
+
+  const [prefix, ...prefixArgs] = wrapper.split(/\s+/).map(part => part.split('{workDir}').join(workDir))
+  return { command: prefix, args: [...prefixArgs, command, ...args] }
+}
+
+// Runs a stdin -> stdout program with a wall-clock timeout, a memory cap and
+// a bounded output buffer. Each run gets a scratch directory under /temp (or
+// SANDBOX_WORK_DIR) and a stripped-down environment. On its own this keeps
+// runaway solutions in check but is not a security boundary; untrusted code
+// must run with `isolated`, under SANDBOX_ISOLATION_COMMAND.
+export async function runProgram(
+  language: SandboxLanguage,
+  code: string,
+  stdin: string,
+  limits: RunLimits = DEFAULT_LIMITS,
+  options: RunOptions = {}
+): Promise<RunResult> {
+  if (options.isolated && !isolationConfigured()) {
+    throw new SandboxIsolationError()
+  }
+
+  const workDir = path.join(workRoot(), randomUUID())
+  await mkdir(workDir, { recursive: true })
+
+  try {
+    const program = buildCommand(language, limits)
+    await writeFile(path.join(workDir, program.file), await prepareSource(language, code))
+    const { command, args } = isolate(program, workDir)
+
+    return await new Promise<RunResult>((resolve) => {
+      const startedAt = Date.now()
+      const child = spawn(command, args, {
+        cwd: workDir,
+        env: { NODE_ENV: process.env.NODE_ENV, PATH: process.env.PATH, HOME: process.env.HOME, LANG: 'C.UTF-8' },
+        stdio: ['pipe', 'pipe', 'pipe']
+      })
+
+      let stdout = ''
+      let stderr = ''
+      let killedFor: RunResult['status'] | null = null
+      let settled = false
+
+      const kill = (reason: RunResult['status']) => {
+        if (!killedFor) {
+          killedFor = reason
+          child.kill('SIGKILL')
+        }
+      }
+
+      const timer = setTimeout(() => kill('timeout'), limits.timeoutMs)
+
+      child.stdout.on('data', (chunk: Buffer) => {
+        stdout += chunk.toString()
+        if (stdout.length > MAX_OUTPUT_BYTES) kill('output_limit')
+      })
+      child.stderr.on('data', (chunk: Buffer) => {
+        if (stderr.length < MAX_OUTPUT_BYTES) stderr += chunk.toString()
+      })
+      child.stdin.on('error', () => {
+        // The program may exit without reading its input
+      })
+
+      const finish = (exitCode: number | null, error?: Error) => {
+        if (settled) return
+        settled = true
+        clearTimeout(timer)
+        resolve({
+          status: killedFor || (error || exitCode !== 0 ? 'runtime_error' : 'ok'),
+          stdout: stdout.slice(0, MAX_OUTPUT_BYTES),
+          stderr: error ? error.message : stderr,
+          exitCode,
+          durationMs: Date.now() - startedAt
+        })
+      }
+
+      child.on('error', (error) => finish(null, error))
+      child.on('close', (exitCode) => finish(exitCode))
+
+      child.stdin.end(stdin.endsWith('\n') ? stdin : `${stdin}\n`)
+    })
+  } finally {
+    await rm(workDir, { recursive: true, force: true })
+  }
+}
+
+// Output comparison ignores trailing whitespace on each line and trailing
+// blank lines, then falls back to comparing whitespace-separated tokens.
+export function outputsMatch(expected: string, actual: string): boolean {
+  const normalize = (text: string) => text
+    .replace(/\r\n/g, '\n')
+    .split('\n')
+    .map(line => line.trimEnd())
+    .join('\n')
+    .trim()
+
+  if (normalize(expected) === normalize(actual)) {
+    return true
+  }
+
+  const tokens = (text: string) => text.trim().split(/\s+/)
+  const expectedTokens = tokens(expected)
+  const actualTokens = tokens(actual)
+  return expectedTokens.length === actualTokens.length
+    && expectedTokens.every((token, i) => token === actualTokens[i])
+}
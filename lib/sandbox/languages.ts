@@ -0,0 +1,12 @@
+export const SANDBOX_LANGUAGES = ['python', 'javascript', 'typescript'] as const
+export type SandboxLanguage = typeof SANDBOX_LANGUAGES[number]
+
+export function isSandboxLanguage(language: string | undefined): language is SandboxLanguage {
+  return !!language && (SANDBOX_LANGUAGES as readonly string[]).includes(language)
+}
+
+// The language the model should write reference solutions in: the first
+// requested language the sandbox can run, otherwise Python.
+export function referenceLanguageFor(languages: string[]): SandboxLanguage {
+  return languages.find(isSandboxLanguage) || 'python'
+}
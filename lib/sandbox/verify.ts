@@ -0,0 +1,45 @@
+import type { ReferenceSolution, Verification } from '../types'
+import { RunLimits, DEFAULT_LIMITS, isSandboxLanguage, outputsMatch, runProgram } from './index'
+
+const statusMessages = {
+  timeout: 'Time limit exceeded',
+  output_limit: 'Output limit exceeded',
+  runtime_error: 'Runtime error'
+}
+
+// Runs the reference solution on the sample input and compares the result
+// with the sample output the model claimed. The solution is model output the
+// user's problem and hint text can steer, so it only runs isolated.
+export async function verifySample(
+  solution: ReferenceSolution | undefined,
+  sampleInput: string,
+  sampleOutput: string,
+  limits: RunLimits = DEFAULT_LIMITS
+): Promise<Verification> {
+  if (!solution) {
+    return { status: 'failed', error: 'No reference solution was generated' }
+  }
+  if (!isSandboxLanguage(solution.language)) {
+    return { status: 'failed', error: `Cannot run ${solution.language} solutions in the sandbox` }
+  }
+
+  try {
+    const result = await runProgram(solution.language, solution.code, sampleInput, limits, { isolated: true })
+
+    if (result.status !== 'ok') {
+      return {
+        status: 'failed',
+        error: `${statusMessages[result.status]}${result.stderr ? `: ${result.stderr.trim().split('\n').slice(-3).join('\n')}` : ''}`,
+        durationMs: result.durationMs
+      }
+    }
+
+    return {
+      status: outputsMatch(sampleOutput, result.stdout) ? 'verified' : 'mismatch',
+      actualOutput: result.stdout.trimEnd(),
+      durationMs: result.durationMs
+    }
+  } catch (error: any) {
+    return { status: 'failed', error: error.message }
+  }
+}
@@ -0,0 +1,306 @@
+import type { DifficultyEstimate, Editorial, FormData, Question, TestCase, VerificationStatus } from '../types'
+import {
+  emptyEditorial,
+  formatAlternatives,
+  formatEditorial,
+  formatPitfalls,
+  parseAlternatives,
+  parseEditorial,
+  parsePitfalls
+} from '../editorial'
+
+// Only the values the chosen columns write need to be present (see
+// requiredSheetParameters)
+export type SheetInputParameters = Partial<Pick<FormData, 'positionName' | 'type' | 'difficultyLevel' | 'topic' | 'hint'>>
+
+// A row being read back: each column fills in the fields it was written from
+export interface ParsedRow {
+  question: Partial<Question>
+  inputParameters: Partial<SheetInputParameters>
+}
+
+export interface SheetColumn {
+  header: string
+  value: (question: Question, inputParameters: SheetInputParameters) => string
+  parse: (cell: string, row: ParsedRow) => void
+  // The form value written to the column
+  stores?: keyof SheetInputParameters
+}
+
+export function formatTests(tests: Question['tests']): string {
+  if (!tests || tests.length === 0) return ''
+
+  return tests.map((test, i) =>
+    `Test ${i + 1} (${test.kind}): ${test.description}\nInput:\n${test.input}\nExpected Output:\n${test.expectedOutput}`
+  ).join('\n\n')
+}
+
+const TEST_BLOCK = /Test \d+ \((sample|edge|typical)\): (.*)\nInput:\n([\s\S]*?)\nExpected Output:\n([\s\S]*?)(?=\n\nTest \d+ \((?:sample|edge|typical)\): |$)/g
+
+export function parseTests(cell: string): TestCase[] | undefined {
+  const tests: TestCase[] = []
+  const pattern = new RegExp(TEST_BLOCK)
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(cell)) !== null) {
+    const [, kind, description, input, expectedOutput] = match
+    tests.push({ kind: kind as TestCase['kind'], description, input, expectedOutput })
+  }
+  return tests.length > 0 ? tests : undefined
+}
+
+const PROBLEM_CELL = /^([\s\S]*?)\n\nExample:\nInput: ([\s\S]*?)\nOutput: ([\s\S]*?)\n\nConstraints:\n([\s\S]*)$/
+// Where a complete_code template starts after the constraints
+const TEMPLATE_START = /\n\n(?:\/\/|\/\*\*|#|function |def |class |public |func |impl )/
+
+// Splits the compact Problem cell back into its fields. Non-empty fields
+// read from their own columns win, and a cell that isn't in the generated
+// layout becomes the problem statement.
+function parseProblemCell(cell: string, { question, inputParameters }: ParsedRow) {
+  const match = cell.match(PROBLEM_CELL)
+  if (!match) {
+    question.problemStatement ||= cell
+    return
+  }
+
+  const [, statement, sampleInput, sampleOutput] = match
+  let constraints = match[4]
+  if (inputParameters.type === 'complete_code') {
+    const template = question.implementation
+    if (template && constraints.endsWith(`\n\n${template}`)) {
+      constraints = constraints.slice(0, -(template.length + 2))
+    } else if (!template) {
+      const start = constraints.search(TEMPLATE_START)
+      if (start > 0) {
+        question.implementation = constraints.slice(start + 2)
+        constraints = constraints.slice(0, start)
+      }
+    }
+  }
+
+  question.problemStatement ||= statement
+  question.sampleInput ||= sampleInput
+  question.sampleOutput ||= sampleOutput
+  question.constraints ||= constraints
+}
+
+// The editorial being rebuilt from a row's editorial columns
+const editorialOf = (question: Partial<Question>) => question.editorial ??= emptyEditorial()
+
+// Reads the whole editorial cell. Like the Problem cell, it only fills what
+// the dedicated editorial columns left empty.
+function parseEditorialCell(cell: string, { question }: ParsedRow) {
+  const parsed = parseEditorial(cell)
+  if (!parsed) return
+
+  const editorial = editorialOf(question)
+  const textFields = ['approach', 'timeComplexity', 'spaceComplexity'] as const
+  for (const field of textFields) {
+    editorial[field] ||= parsed[field]
+  }
+  if (editorial.alternatives.length === 0) editorial.alternatives = parsed.alternatives
+  if (editorial.pitfalls.length === 0) editorial.pitfalls = parsed.pitfalls
+}
+
+// A dedicated editorial column; empty cells leave the editorial alone
+function editorialColumn<K extends keyof Editorial>(
+  header: string,
+  field: K,
+  format: (value: Editorial[K]) => string,
+  parse: (cell: string) => Editorial[K]
+): SheetColumn {
+  return {
+    header,
+    value: question => question.editorial ? format(question.editorial[field]) : '',
+    parse: (cell, { question }) => {
+      if (cell) editorialOf(question)[field] = parse(cell)
+    }
+  }
+}
+
+const text = (value: string) => value
+
+const oneOf = <T extends string>(values: readonly T[], cell: string): T | undefined =>
+  (values as readonly string[]).includes(cell) ? cell as T : undefined
+
+const DIFFICULTY_LEVELS = ['easy', 'medium', 'hard'] as const
+
+// Only the level and score are written, so the estimate read back has no
+// reasons or mismatch flag. The requested level is taken from the
+// Difficulty column when that column has been read already.
+function parseEstimatedDifficulty(cell: string, { inputParameters }: ParsedRow): DifficultyEstimate | undefined {
+  const match = cell.match(/^(easy|medium|hard) \((\d+)\)$/)
+  if (!match) return undefined
+  const level = oneOf(DIFFICULTY_LEVELS, match[1])!
+  return { level, score: Number(match[2]), requested: inputParameters.difficultyLevel ?? level, reasons: [] }
+}
+
+// Every Question field that can be written to a sheet, by mapping key
+export const SHEET_COLUMNS = {
+  id: {
+    header: 'Question ID',
+    value: question => question.id,
+    parse: (cell, { question }) => { question.id = cell }
+  },
+  position: {
+    header: 'Position Name',
+    value: (_, params) => params.positionName ?? '',
+    parse: (cell, { inputParameters }) => { inputParameters.positionName = cell },
+    stores: 'positionName'
+  },
+  language: {
+    header: 'Language',
+    value: question => question.language?.toUpperCase() || 'N/A',
+    parse: (cell, { question }) => { question.language = cell && cell !== 'N/A' ? cell.toLowerCase() : undefined }
+  },
+  title: {
+    header: 'Title',
+    value: question => question.title,
+    parse: (cell, { question }) => { question.title = cell }
+  },
+  // Statement, example and constraints in one cell, plus the template for complete_code
+  problem: {
+    header: 'Problem',
+    value: (question, params) => `${question.problemStatement}\n\nExample:\nInput: ${question.sampleInput}\nOutput: ${question.sampleOutput}\n\nConstraints:\n${question.constraints}${params.type === 'complete_code' && question.implementation ? `\n\n${question.implementation}` : ''}`,
+    parse: parseProblemCell
+  },
+  problemStatement: {
+    header: 'Problem Statement',
+    value: question => question.problemStatement,
+    parse: (cell, { question }) => { question.problemStatement = cell }
+  },
+  inputFormat: {
+    header: 'Input Format',
+    value: question => question.inputFormat,
+    parse: (cell, { question }) => { question.inputFormat = cell }
+  },
+  outputFormat: {
+    header: 'Output Format',
+    value: question => question.outputFormat,
+    parse: (cell, { question }) => { question.outputFormat = cell }
+  },
+  constraints: {
+    header: 'Constraints',
+    value: question => question.constraints,
+    parse: (cell, { question }) => { question.constraints = cell }
+  },
+  sampleInput: {
+    header: 'Sample Input',
+    value: question => question.sampleInput,
+    parse: (cell, { question }) => { question.sampleInput = cell }
+  },
+  sampleOutput: {
+    header: 'Sample Output',
+    value: question => question.sampleOutput,
+    parse: (cell, { question }) => { question.sampleOutput = cell }
+  },
+  template: {
+    header: 'Template',
+    value: question => question.implementation ?? '',
+    parse: (cell, { question }) => { question.implementation = cell || undefined }
+  },
+  hint: {
+    header: 'Hint',
+    value: (question, params) => params.hint || question.hint || '',
+    parse: (cell, { question }) => { question.hint = cell || undefined }
+  },
+  type: {
+    header: 'Type',
+    value: (_, params) => params.type ?? '',
+    parse: (cell, { inputParameters }) => { inputParameters.type = oneOf(['complete_code', 'write_code'] as const, cell) },
+    stores: 'type'
+  },
+  difficulty: {
+    header: 'Difficulty level',
+    value: (_, params) => params.difficultyLevel ?? '',
+    parse: (cell, { inputParameters }) => { inputParameters.difficultyLevel = oneOf(DIFFICULTY_LEVELS, cell) },
+    stores: 'difficultyLevel'
+  },
+  topic: {
+    header: 'Topic',
+    value: (_, params) => params.topic ?? '',
+    parse: (cell, { inputParameters }) => { inputParameters.topic = cell },
+    stores: 'topic'
+  },
+  verification: {
+    header: 'Verification',
+    value: question => question.verification?.status ?? '',
+    parse: (cell, { question }) => {
+      const status = oneOf<VerificationStatus>(['verified', 'mismatch', 'failed'], cell)
+      question.verification = status && { status }
+    }
+  },
+  // "medium (48)"
+  estimatedDifficulty: {
+    header: 'Estimated Difficulty',
+    value: question => question.difficultyEstimate
+      ? `${question.difficultyEstimate.level} (${question.difficultyEstimate.score})`
+      : '',
+    parse: (cell, row) => { row.question.difficultyEstimate = parseEstimatedDifficulty(cell, row) }
+  },
+  promptVersion: {
+    header: 'Prompt Version',
+    value: question => question.promptVersion ?? '',
+    parse: (cell, { question }) => { question.promptVersion = cell || undefined }
+  },
+  hiddenTests: {
+    header: 'Hidden Tests',
+    value: question => formatTests(question.tests),
+    parse: (cell, { question }) => { question.tests = parseTests(cell) }
+  },
+  // Approach, complexity, alternatives and pitfalls in one cell
+  editorial: {
+    header: 'Editorial',
+    value: question => formatEditorial(question.editorial),
+    parse: parseEditorialCell
+  },
+  approach: editorialColumn('Intended Approach', 'approach', text, text),
+  timeComplexity: editorialColumn('Time Complexity', 'timeComplexity', text, text),
+  spaceComplexity: editorialColumn('Space Complexity', 'spaceComplexity', text, text),
+  alternatives: editorialColumn('Alternative Approaches', 'alternatives', formatAlternatives, parseAlternatives),
+  pitfalls: editorialColumn('Common Pitfalls', 'pitfalls', formatPitfalls, parsePitfalls)
+} satisfies Record<string, SheetColumn>
+
+export type SheetColumnKey = keyof typeof SHEET_COLUMNS
+
+// `compact` is the original layout with the question ID and the editorial
+// added at the end so existing sheets keep their columns; `detailed` gives
+// every field its own column.
+export const SHEET_COLUMN_PRESETS: Record<'compact' | 'detailed', SheetColumnKey[]> = {
+  compact: ['position', 'language', 'problem', 'hint', 'type', 'difficulty', 'hiddenTests', 'id', 'editorial'],
+  detailed: [
+    'id', 'position', 'language', 'title', 'problemStatement', 'inputFormat', 'outputFormat', 'constraints',
+    'sampleInput', 'sampleOutput', 'template', 'hint', 'type', 'difficulty', 'topic', 'verification', 'estimatedDifficulty', 'promptVersion',
+    'hiddenTests', 'approach', 'timeComplexity', 'spaceComplexity', 'alternatives', 'pitfalls'
+  ]
+}
+
+export function isSheetColumnKey(key: string): key is SheetColumnKey {
+  return Object.prototype.hasOwnProperty.call(SHEET_COLUMNS, key)
+}
+
+// Resolves a preset name or an explicit list of keys. The ID column is
+// always included because rows are matched on it.
+export function resolveColumns(mapping: string | string[] | undefined): SheetColumnKey[] {
+  const fallback = process.env.GOOGLE_SHEETS_COLUMNS || 'compact'
+  const requested = mapping ?? fallback
+  const keys = Array.isArray(requested)
+    ? requested
+    : Object.prototype.hasOwnProperty.call(SHEET_COLUMN_PRESETS, requested)
+      ? SHEET_COLUMN_PRESETS[requested as keyof typeof SHEET_COLUMN_PRESETS]
+      : requested.split(',').map(key => key.trim())
+
+  const unknown = keys.filter(key => !isSheetColumnKey(key))
+  if (unknown.length > 0) {
+    throw new SheetMappingError(`Unknown sheet column${unknown.length === 1 ? '' : 's'}: ${unknown.join(', ')}`)
+  }
+
+  const columns = Array.from(new Set(keys as SheetColumnKey[]))
+  return columns.includes('id') ? columns : [...columns, 'id']
+}
+
+export class SheetMappingError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SheetMappingError'
+  }
+}
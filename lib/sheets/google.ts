@@ -0,0 +1,66 @@
+import { google, sheets_v4 } from 'googleapis'
+import { RowUpdate, SheetStorage, SheetStorageError } from './storage'
+
+const quoteTab = (tab: string) => `'${tab.replace(/'/g, "''")}'`
+
+// The spreadsheet named by GOOGLE_SHEETS_ID, through a service account
+export class GoogleSheetStorage implements SheetStorage {
+  readonly name = 'google' as const
+  readonly location: string
+  private sheets: sheets_v4.Sheets
+
+  constructor(clientEmail: string, privateKey: string, spreadsheetId: string | undefined) {
+    if (!spreadsheetId) {
+      throw new SheetStorageError('google', 'GOOGLE_SHEETS_ID is not configured')
+    }
+
+    const auth = new google.auth.GoogleAuth({
+      credentials: {
+        client_email: clientEmail,
+        private_key: privateKey.replace(/\\n/g, '\n'),
+      },
+      scopes: ['https://www.googleapis.com/auth/spreadsheets'],
+    })
+    this.sheets = google.sheets({ version: 'v4', auth })
+    this.location = spreadsheetId
+  }
+
+  async listTabs(): Promise<string[]> {
+    const { data } = await this.sheets.spreadsheets.get({ spreadsheetId: this.location, fields: 'sheets.properties.title' })
+    return (data.sheets ?? []).map(sheet => sheet.properties?.title ?? '').filter(Boolean)
+  }
+
+  async addTab(tab: string): Promise<void> {
+    await this.sheets.spreadsheets.batchUpdate({
+      spreadsheetId: this.location,
+      requestBody: { requests: [{ addSheet: { properties: { title: tab } } }] }
+    })
+  }
+
+  async readRows(tab: string): Promise<string[][]> {
+    const { data } = await this.sheets.spreadsheets.values.get({ spreadsheetId: this.location, range: quoteTab(tab) })
+    return (data.values ?? []).map(row => row.map(cell => String(cell ?? '')))
+  }
+
+  async writeRows(tab: string, updates: RowUpdate[]): Promise<void> {
+    if (updates.length === 0) return
+    await this.sheets.spreadsheets.values.batchUpdate({
+      spreadsheetId: this.location,
+      requestBody: {
+        valueInputOption: 'RAW',
+        data: updates.map(({ row, values }) => ({ range: `${quoteTab(tab)}!A${row}`, values: [values] }))
+      }
+    })
+  }
+
+  async appendRows(tab: string, rows: (string | null)[][]): Promise<void> {
+    if (rows.length === 0) return
+    await this.sheets.spreadsheets.values.append({
+      spreadsheetId: this.location,
+      range: `${quoteTab(tab)}!A1`,
+      valueInputOption: 'RAW',
+      insertDataOption: 'INSERT_ROWS',
+      requestBody: { values: rows }
+    })
+  }
+}
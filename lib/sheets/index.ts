@@ -0,0 +1,244 @@
+import type { Question } from '../types'
+import { ParsedRow, SHEET_COLUMNS, SheetColumn, SheetColumnKey, SheetInputParameters, isSheetColumnKey } from './columns'
+import { GoogleSheetStorage } from './google'
+import { LocalSheetStorage } from './local'
+import { SheetStorage, SheetStorageError, SheetStorageName, UnknownSheetStorageError } from './storage'
+
+export * from './columns'
+export * from './storage'
+export { GoogleSheetStorage } from './google'
+export { LocalSheetStorage } from './local'
+
+export type TabMode = 'default' | 'position' | 'batch'
+
+// Where rows go: the configured default tab, one tab per position, or a tab
+// for the batch (named by the caller or after the time it was generated)
+export interface SheetTarget {
+  mode?: TabMode
+  name?: string
+}
+
+export interface UpsertOptions {
+  columns: SheetColumnKey[]
+  tab: string
+}
+
+export interface UpsertResult {
+  tab: string
+  created: string[]
+  updated: string[]
+}
+
+// `columns` are the row's cells that are reproduced exactly when it is
+// written back; sending with that mapping leaves `readOnlyColumns` (cells
+// edited outside the generated layout) untouched, so an unedited row comes
+// back unchanged.
+export interface ImportedRow {
+  row: number
+  question: Question
+  inputParameters: SheetInputParameters
+  columns: SheetColumnKey[]
+  readOnlyColumns: SheetColumnKey[]
+}
+
+export interface ImportResult {
+  tab: string
+  columns: SheetColumnKey[]
+  rows: ImportedRow[]
+}
+
+export class SheetTabNotFoundError extends Error {
+  constructor(tab: string) {
+    super(`Sheet tab "${tab}" does not exist`)
+    this.name = 'SheetTabNotFoundError'
+  }
+}
+
+// Sheet names can't contain []:*?/\ and are limited to 100 characters
+function sanitizeTabName(name: string): string {
+  return name.replace(/[\[\]:*?\/\\]/g, '-').trim().slice(0, 100) || 'Questions'
+}
+
+// Generated ids start with question-<batch timestamp>-, which keeps a
+// batch's tab name the same when it is sent again later
+function batchTime(questionId?: string): Date {
+  const timestamp = Number(questionId?.match(/^question-(\d+)-/)?.[1])
+  return timestamp > 0 ? new Date(timestamp) : new Date()
+}
+
+export function resolveTabName(target: SheetTarget = {}, inputParameters?: SheetInputParameters, questionId?: string): string {
+  switch (target.mode) {
+    case 'position':
+      return sanitizeTabName(inputParameters?.positionName ?? '')
+    case 'batch': {
+      const stamp = batchTime(questionId).toISOString().slice(0, 16).replace('T', ' ').replace(':', '.')
+      return sanitizeTabName(target.name || `Batch ${stamp}`)
+    }
+    default:
+      return sanitizeTabName(target.name || process.env.GOOGLE_SHEETS_TAB || 'Sheet1')
+  }
+}
+
+// The form values rows must be sent with: those the columns write, and the
+// position when it names the tab
+export function requiredSheetParameters(columns: SheetColumnKey[], target: SheetTarget = {}): (keyof SheetInputParameters)[] {
+  const stored = columns.flatMap(key => {
+    const { stores } = SHEET_COLUMNS[key] as SheetColumn
+    return stores ? [stores] : []
+  })
+  return target.mode === 'position' && !stored.includes('positionName') ? [...stored, 'positionName'] : stored
+}
+
+export const SHEET_STORAGE_NAMES: SheetStorageName[] = ['google', 'local']
+
+const googleCredentials = () => ({
+  clientEmail: process.env.GOOGLE_SHEETS_CLIENT_EMAIL,
+  privateKey: process.env.GOOGLE_SHEETS_PRIVATE_KEY
+})
+
+// SHEETS_STORAGE picks the backend; without it Google Sheets is used when
+// its credentials are configured and the local workbook otherwise.
+export function getSheetStorage(name = process.env.SHEETS_STORAGE): SheetStorage {
+  const { clientEmail, privateKey } = googleCredentials()
+  const resolved = name || (clientEmail && privateKey ? 'google' : 'local')
+
+  switch (resolved) {
+    case 'google':
+      if (!clientEmail || !privateKey) {
+        throw new SheetStorageError('google', 'GOOGLE_SHEETS_CLIENT_EMAIL and GOOGLE_SHEETS_PRIVATE_KEY are not configured')
+      }
+      return new GoogleSheetStorage(clientEmail, privateKey, process.env.GOOGLE_SHEETS_ID)
+    case 'local':
+      return new LocalSheetStorage()
+    default:
+      throw new UnknownSheetStorageError(resolved, SHEET_STORAGE_NAMES)
+  }
+}
+
+async function ensureTab(storage: SheetStorage, tab: string) {
+  const tabs = await storage.listTabs()
+  if (!tabs.includes(tab)) await storage.addTab(tab)
+}
+
+// Writes one row per question, keyed by question ID: IDs already in the tab
+// are updated in place, new ones are appended. Columns are matched by header,
+// so a sheet whose columns were rearranged by hand keeps working; headers the
+// mapping needs but the sheet lacks are added at the end. Cells in columns
+// outside the mapping are left untouched.
+export async function upsertQuestionRows(
+  storage: SheetStorage,
+  questions: Question[],
+  inputParameters: SheetInputParameters,
+  { columns, tab }: UpsertOptions
+): Promise<UpsertResult> {
+  await ensureTab(storage, tab)
+
+  const [headerRow = [], ...idCells] = await storage.readRows(tab)
+  const headers = [...headerRow]
+  const missing = columns.filter(key => !headers.includes(SHEET_COLUMNS[key].header))
+  if (missing.length > 0) {
+    headers.push(...missing.map(key => SHEET_COLUMNS[key].header))
+    await storage.writeRows(tab, [{ row: 1, values: headers }])
+  }
+
+  const idColumn = headers.indexOf(SHEET_COLUMNS.id.header)
+  const idOf = (cells: string[] | undefined) => cells?.[idColumn] ?? ''
+  const rowById = new Map<string, number>()
+  idCells.forEach((cells, i) => {
+    if (idOf(cells)) rowById.set(idOf(cells), i + 2)
+  })
+
+  // null leaves a cell as it is
+  const keyByHeader = new Map(columns.map(key => [SHEET_COLUMNS[key].header, key]))
+  const toRow = (question: Question) => headers.map(header => {
+    const key = keyByHeader.get(header)
+    return key ? SHEET_COLUMNS[key].value(question, inputParameters) : null
+  })
+
+  // Rows imported without an ID are addressed by row number and get their
+  // ID when they are written back
+  const rowOf = (id: string) => {
+    if (rowById.has(id)) return rowById.get(id)
+    const row = Number(id.match(/^sheet-row-(\d+)-/)?.[1])
+    return row >= 2 && !idOf(idCells[row - 2]) ? row : undefined
+  }
+
+  // The last copy wins if the same question is sent twice in one request
+  const unique = Array.from(new Map(questions.map(question => [question.id, question])).values())
+  const existing = unique.filter(question => rowOf(question.id) !== undefined)
+  const added = unique.filter(question => rowOf(question.id) === undefined)
+
+  await storage.writeRows(tab, existing.map(question => ({ row: rowOf(question.id)!, values: toRow(question) })))
+  await storage.appendRows(tab, added.map(toRow))
+
+  return {
+    tab,
+    created: added.map(question => question.id),
+    updated: existing.map(question => question.id)
+  }
+}
+
+const firstLine = (text: string) => text.split('\n')[0].trim().slice(0, 80)
+
+// Reads every non-empty row of a tab back into questions. Columns are
+// recognised by header, so any layout written by upsertQuestionRows (or
+// rearranged by hand) can be imported; unknown headers are ignored.
+export async function readQuestionRows(storage: SheetStorage, tab: string): Promise<ImportResult> {
+  if (!(await storage.listTabs()).includes(tab)) {
+    throw new SheetTabNotFoundError(tab)
+  }
+
+  const [headerRow = [], ...cells] = await storage.readRows(tab)
+  const headerKeys = headerRow.map(header => {
+    const key = Object.keys(SHEET_COLUMNS).find(key => SHEET_COLUMNS[key as SheetColumnKey].header === header)
+    return key && isSheetColumnKey(key) ? key : undefined
+  })
+  const recognised = Array.from(new Set(headerKeys.filter((key): key is SheetColumnKey => key !== undefined)))
+
+  const rows: ImportedRow[] = []
+  cells.forEach((values, i) => {
+    const row = i + 2
+    const cellOf = (key: SheetColumnKey) => values[headerKeys.indexOf(key)] ?? ''
+    if (!values.some(value => value.trim())) return
+
+    // The Problem cell is split last so it can defer to fields that have
+    // their own columns
+    const parsed: ParsedRow = { question: {}, inputParameters: {} }
+    recognised
+      .filter(key => key !== 'problem')
+      .forEach(key => SHEET_COLUMNS[key].parse(cellOf(key), parsed))
+    if (recognised.includes('problem')) {
+      SHEET_COLUMNS.problem.parse(cellOf('problem'), parsed)
+    }
+
+    const fields = parsed.question
+    const problemStatement = fields.problemStatement ?? ''
+    const question: Question = {
+      ...fields,
+      id: fields.id || `sheet-row-${row}-${fields.language ?? 'question'}`,
+      title: fields.title || firstLine(problemStatement) || `Row ${row}`,
+      problemStatement,
+      inputFormat: fields.inputFormat ?? '',
+      outputFormat: fields.outputFormat ?? '',
+      constraints: fields.constraints ?? '',
+      sampleInput: fields.sampleInput ?? '',
+      sampleOutput: fields.sampleOutput ?? ''
+    }
+    // Values the row doesn't hold are left out rather than guessed
+    const inputParameters = Object.fromEntries(
+      Object.entries(parsed.inputParameters).filter(([, value]) => value)
+    ) as SheetInputParameters
+
+    const reproduced = (key: SheetColumnKey) =>
+      key === 'id' || SHEET_COLUMNS[key].value(question, inputParameters) === cellOf(key)
+    rows.push({
+      row,
+      question,
+      inputParameters,
+      columns: recognised.filter(reproduced),
+      readOnlyColumns: recognised.filter(key => !reproduced(key))
+    })
+  })
+
+  return { tab, columns: recognised, rows }
+}
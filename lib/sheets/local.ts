@@ -0,0 +1,87 @@
+import { readdir, readFile } from 'fs/promises'
+import path from 'path'
+import { formatCsv, parseCsv } from '../csv'
+import { DATA_DIR, withFileLock, writeFileAtomic } from '../store/jsonFile'
+import { RowUpdate, SheetStorage } from './storage'
+
+const TAB_EXTENSION = '.csv'
+
+// A directory standing in for a spreadsheet, with one CSV file per tab. Used
+// when no Google credentials are configured, so offline runs keep what they
+// would have sent and the files show exactly which cells were written.
+export class LocalSheetStorage implements SheetStorage {
+  readonly name = 'local' as const
+  readonly location: string
+
+  constructor(directory = process.env.LOCAL_SHEETS_DIR || path.join(DATA_DIR, 'sheets')) {
+    this.location = directory
+  }
+
+  async listTabs(): Promise<string[]> {
+    try {
+      const files = await readdir(this.location)
+      return files
+        .filter(file => file.endsWith(TAB_EXTENSION))
+        .map(file => file.slice(0, -TAB_EXTENSION.length))
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return []
+      throw error
+    }
+  }
+
+  async addTab(tab: string): Promise<void> {
+    await this.update(tab, () => undefined)
+  }
+
+  async readRows(tab: string): Promise<string[][]> {
+    try {
+      return parseCsv(await readFile(this.tabPath(tab), 'utf8'))
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return []
+      throw error
+    }
+  }
+
+  async writeRows(tab: string, updates: RowUpdate[]): Promise<void> {
+    await this.update(tab, rows => {
+      updates.forEach(({ row, values }) => {
+        while (rows.length < row) rows.push([])
+        const cells = rows[row - 1]
+        values.forEach((value, i) => {
+          if (value === null) return
+          while (cells.length < i) cells.push('')
+          cells[i] = value
+        })
+      })
+    })
+  }
+
+  async appendRows(tab: string, rows: (string | null)[][]): Promise<void> {
+    await this.update(tab, existing => {
+      // Like Sheets, new rows go after the last row that has content
+      while (existing.length > 0 && existing[existing.length - 1].every(cell => cell === '')) {
+        existing.pop()
+      }
+      existing.push(...rows.map(row => row.map(cell => cell ?? '')))
+    })
+  }
+
+  private tabPath(tab: string): string {
+    return path.join(this.location, `${tab}${TAB_EXTENSION}`)
+  }
+
+  private update(tab: string, mutate: (rows: string[][]) => void): Promise<void> {
+    const filePath = this.tabPath(tab)
+    return withFileLock(filePath, async () => {
+      const rows = await this.readRows(tab)
+      mutate(rows)
+      // Trailing empty cells are dropped, as Sheets does when reading
+      const trimmed = rows.map(row => {
+        let end = row.length
+        while (end > 0 && row[end - 1] === '') end--
+        return row.slice(0, end)
+      })
+      await writeFileAtomic(filePath, trimmed.length > 0 ? formatCsv(trimmed) : '')
+    })
+  }
+}
@@ -0,0 +1,40 @@
+export type SheetStorageName = 'google' | 'local'
+
+// A row to overwrite, by 1-based row number. null leaves a cell as it is.
+export interface RowUpdate {
+  row: number
+  values: (string | null)[]
+}
+
+// A workbook of named tabs, each a grid of text cells whose first row holds
+// the headers. The upsert and import logic only talks to this interface, so
+// Google Sheets and the local workbook write exactly the same cells.
+export interface SheetStorage {
+  readonly name: SheetStorageName
+  // Where rows end up, for messages: the spreadsheet ID or a directory
+  readonly location: string
+  listTabs(): Promise<string[]>
+  addTab(tab: string): Promise<void>
+  // Every row of the tab, header row first
+  readRows(tab: string): Promise<string[][]>
+  writeRows(tab: string, updates: RowUpdate[]): Promise<void>
+  // Adds rows after the last non-empty one
+  appendRows(tab: string, rows: (string | null)[][]): Promise<void>
+}
+
+export class SheetStorageError extends Error {
+  storage: SheetStorageName
+
+  constructor(storage: SheetStorageName, message: string) {
+    super(message)
+    this.name = 'SheetStorageError'
+    this.storage = storage
+  }
+}
+
+export class UnknownSheetStorageError extends Error {
+  constructor(name: string, known: string[]) {
+    super(`Unknown sheet storage "${name}". Expected one of: ${known.join(', ')}`)
+    this.name = 'UnknownSheetStorageError'
+  }
+}
@@ -0,0 +1,206 @@
+import type { FunctionSignature } from '../types'
+import { BaseType, NODE_DESCRIPTIONS, NodeType, ParsedType, isNodeType, parseType } from './types'
+
+export { describeSignatureTypes, parseType } from './types'
+
+export const TEMPLATE_LANGUAGES = ['javascript', 'typescript', 'python', 'java', 'cpp', 'csharp', 'go', 'rust'] as const
+export type TemplateLanguage = typeof TEMPLATE_LANGUAGES[number]
+
+export function isTemplateLanguage(language: string): language is TemplateLanguage {
+  return (TEMPLATE_LANGUAGES as readonly string[]).includes(language)
+}
+
+export function isSignatureType(type: string, allowVoid = false): boolean {
+  return (allowVoid && type.trim() === 'void') || parseType(type) !== undefined
+}
+
+// Splits camelCase, PascalCase and snake_case names into lowercase words
+function nameWords(name: string): string[] {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .split(/[_\s]+/)
+    .filter(Boolean)
+    .map(word => word.toLowerCase())
+}
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1)
+const camelCase = (name: string) => nameWords(name).map((word, i) => i === 0 ? word : capitalize(word)).join('')
+const pascalCase = (name: string) => nameWords(name).map(capitalize).join('')
+const snakeCase = (name: string) => nameWords(name).join('_')
+
+interface LanguageSpec {
+  comment: string
+  scalars: Record<Exclude<BaseType, NodeType>, string>
+  node: (node: NodeType) => string
+  array: (element: string) => string
+  render: (signature: FunctionSignature, typeOf: (type: string) => string) => string
+}
+
+const INDENT = '    '
+
+const LANGUAGES: Record<TemplateLanguage, LanguageSpec> = {
+  javascript: {
+    comment: '//',
+    scalars: { int: 'number', long: 'number', double: 'number', bool: 'boolean', string: 'string', char: 'character' },
+    node: node => node,
+    array: element => `${element}[]`,
+    render: (signature, typeOf) => [
+      '/**',
+      ...signature.parameters.map(param => ` * @param {${typeOf(param.type)}} ${camelCase(param.name)}`),
+      ` * @return {${typeOf(signature.returnType)}}`,
+      ' */',
+      `function ${camelCase(signature.functionName)}(${signature.parameters.map(param => camelCase(param.name)).join(', ')}) {`,
+      `${INDENT}// Your code here`,
+      '}'
+    ].join('\n')
+  },
+  typescript: {
+    comment: '//',
+    scalars: { int: 'number', long: 'number', double: 'number', bool: 'boolean', string: 'string', char: 'string' },
+    node: node => `${node} | null`,
+    array: element => element.includes(' ') ? `(${element})[]` : `${element}[]`,
+    render: (signature, typeOf) => [
+      `function ${camelCase(signature.functionName)}(${signature.parameters.map(param => `${camelCase(param.name)}: ${typeOf(param.type)}`).join(', ')}): ${typeOf(signature.returnType)} {`,
+      `${INDENT}// Your code here`,
+      '}'
+    ].join('\n')
+  },
+  python: {
+    comment: '#',
+    scalars: { int: 'int', long: 'int', double: 'float', bool: 'bool', string: 'str', char: 'str' },
+    node: node => `Optional[${node}]`,
+    array: element => `list[${element}]`,
+    render: (signature, typeOf) => [
+      `def ${snakeCase(signature.functionName)}(${signature.parameters.map(param => `${snakeCase(param.name)}: ${typeOf(param.type)}`).join(', ')}) -> ${typeOf(signature.returnType)}:`,
+      `${INDENT}# Your code here`,
+      `${INDENT}pass`
+    ].join('\n')
+  },
+  java: {
+    comment: '//',
+    scalars: { int: 'int', long: 'long', double: 'double', bool: 'boolean', string: 'String', char: 'char' },
+    node: node => node,
+    array: element => `${element}[]`,
+    render: (signature, typeOf) => [
+      'class Solution {',
+      `${INDENT}public ${typeOf(signature.returnType)} ${camelCase(signature.functionName)}(${signature.parameters.map(param => `${typeOf(param.type)} ${camelCase(param.name)}`).join(', ')}) {`,
+      `${INDENT}${INDENT}// Your code here`,
+      `${INDENT}}`,
+      '}'
+    ].join('\n')
+  },
+  cpp: {
+    comment: '//',
+    scalars: { int: 'int', long: 'long long', double: 'double', bool: 'bool', string: 'string', char: 'char' },
+    node: node => `${node}*`,
+    array: element => `vector<${element}>`,
+    render: (signature, typeOf) => [
+      'class Solution {',
+      'public:',
+      // Containers are passed by reference, as in most judges' stubs
+      `${INDENT}${typeOf(signature.returnType)} ${camelCase(signature.functionName)}(${signature.parameters.map(param => {
+        const type = typeOf(param.type)
+        return `${type}${type.startsWith('vector<') ? '&' : ''} ${camelCase(param.name)}`
+      }).join(', ')}) {`,
+      `${INDENT}${INDENT}// Your code here`,
+      `${INDENT}}`,
+      '};'
+    ].join('\n')
+  },
+  csharp: {
+    comment: '//',
+    scalars: { int: 'int', long: 'long', double: 'double', bool: 'bool', string: 'string', char: 'char' },
+    node: node => node,
+    array: element => `${element}[]`,
+    render: (signature, typeOf) => [
+      'public class Solution {',
+      `${INDENT}public ${typeOf(signature.returnType)} ${pascalCase(signature.functionName)}(${signature.parameters.map(param => `${typeOf(param.type)} ${camelCase(param.name)}`).join(', ')}) {`,
+      `${INDENT}${INDENT}// Your code here`,
+      `${INDENT}}`,
+      '}'
+    ].join('\n')
+  },
+  go: {
+    comment: '//',
+    scalars: { int: 'int', long: 'int64', double: 'float64', bool: 'bool', string: 'string', char: 'byte' },
+    node: node => `*${node}`,
+    array: element => `[]${element}`,
+    render: (signature, typeOf) => {
+      const returnType = signature.returnType.trim() === 'void' ? '' : ` ${typeOf(signature.returnType)}`
+      return [
+        `func ${camelCase(signature.functionName)}(${signature.parameters.map(param => `${camelCase(param.name)} ${typeOf(param.type)}`).join(', ')})${returnType} {`,
+        `${INDENT}// Your code here`,
+        '}'
+      ].join('\n')
+    }
+  },
+  rust: {
+    comment: '//',
+    scalars: { int: 'i32', long: 'i64', double: 'f64', bool: 'bool', string: 'String', char: 'char' },
+    node: node => node === 'ListNode' ? 'Option<Box<ListNode>>' : `Option<Rc<RefCell<${node}>>>`,
+    array: element => `Vec<${element}>`,
+    render: (signature, typeOf) => {
+      const returnType = signature.returnType.trim() === 'void' ? '' : ` -> ${typeOf(signature.returnType)}`
+      return [
+        'impl Solution {',
+        `${INDENT}pub fn ${snakeCase(signature.functionName)}(${signature.parameters.map(param => `${snakeCase(param.name)}: ${typeOf(param.type)}`).join(', ')})${returnType} {`,
+        `${INDENT}${INDENT}// Your code here`,
+        `${INDENT}}`,
+        '}'
+      ].join('\n')
+    }
+  }
+}
+
+const VOID_TYPES: Record<TemplateLanguage, string> = {
+  javascript: 'void',
+  typescript: 'void',
+  python: 'None',
+  java: 'void',
+  cpp: 'void',
+  csharp: 'void',
+  go: '',
+  rust: ''
+}
+
+function typeIn(spec: LanguageSpec, parsed: ParsedType): string {
+  let type = isNodeType(parsed.base) ? spec.node(parsed.base) : spec.scalars[parsed.base]
+  // Array elements are plain node references, not nullable wrappers
+  if (parsed.dimensions > 0 && isNodeType(parsed.base)) {
+    type = spec.node(parsed.base).replace(' | null', '').replace(/^Optional\[(.*)\]$/, '$1')
+  }
+  for (let i = 0; i < parsed.dimensions; i++) {
+    type = spec.array(type)
+  }
+  return type
+}
+
+// Renders the stub candidates start from. The output depends only on the
+// signature, so every language agrees on names, parameter order and types.
+export function renderTemplate(signature: FunctionSignature, language: TemplateLanguage): string {
+  const spec = LANGUAGES[language]
+  const typeOf = (type: string) => {
+    if (type.trim() === 'void') return VOID_TYPES[language]
+    const parsed = parseType(type)
+    if (!parsed) throw new Error(`Unsupported signature type "${type}"`)
+    return typeIn(spec, parsed)
+  }
+
+  const nodes = Array.from(new Set(
+    [...signature.parameters.map(param => param.type), signature.returnType]
+      .map(type => parseType(type)?.base)
+      .filter((base): base is NodeType => base !== undefined && isNodeType(base))
+  ))
+  const definitions = nodes.map(node => `${spec.comment} ${node}: ${NODE_DESCRIPTIONS[node]}`)
+
+  return [...definitions, ...(definitions.length ? [''] : []), spec.render(signature, typeOf)].join('\n')
+}
+
+// Templates for each requested language the renderer knows; others get an
+// empty string
+export function renderTemplates(signature: FunctionSignature, languages: string[]): Record<string, string> {
+  return Object.fromEntries(languages.map(language => [
+    language,
+    isTemplateLanguage(language) ? renderTemplate(signature, language) : ''
+  ]))
+}
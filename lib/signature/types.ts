@@ -0,0 +1,36 @@
+// The type vocabulary signatures are written in: a scalar or node type,
+// optionally followed by up to two `[]` for arrays and grids
+export const SCALAR_TYPES = ['int', 'long', 'double', 'bool', 'string', 'char'] as const
+export const NODE_TYPES = ['TreeNode', 'ListNode', 'GraphNode'] as const
+
+export type ScalarType = typeof SCALAR_TYPES[number]
+export type NodeType = typeof NODE_TYPES[number]
+export type BaseType = ScalarType | NodeType
+
+export interface ParsedType {
+  base: BaseType
+  dimensions: number
+}
+
+const TYPE_PATTERN = new RegExp(`^(${[...SCALAR_TYPES, ...NODE_TYPES].join('|')})((?:\\[\\]){0,2})$`)
+
+export function parseType(type: string): ParsedType | undefined {
+  const match = type.replace(/\s+/g, '').match(TYPE_PATTERN)
+  if (!match) return undefined
+  return { base: match[1] as BaseType, dimensions: match[2].length / 2 }
+}
+
+export function isNodeType(base: BaseType): base is NodeType {
+  return (NODE_TYPES as readonly string[]).includes(base)
+}
+
+export const NODE_DESCRIPTIONS: Record<NodeType, string> = {
+  TreeNode: 'binary tree node with val, left and right',
+  ListNode: 'singly linked list node with val and next',
+  GraphNode: 'graph node with val and neighbors (a list of GraphNode)'
+}
+
+// For prompts: what the model may use in parameter and return types
+export function describeSignatureTypes(): string {
+  return `scalars ${SCALAR_TYPES.join(', ')}; nodes ${NODE_TYPES.map(node => `${node} (${NODE_DESCRIPTIONS[node]})`).join(', ')}; append [] for an array or [][] for a grid (e.g. int[], string[], char[][]); returnType may also be void`
+}
@@ -0,0 +1,91 @@
+import type { DuplicateMatch } from './types'
+
+export interface ComparableQuestion {
+  id: string
+  title: string
+  problemStatement: string
+  sampleInput: string
+  sampleOutput: string
+}
+
+export const DUPLICATE_THRESHOLD = 0.5
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'of', 'to', 'in', 'on', 'and', 'or', 'is', 'are', 'be', 'for', 'with', 'that',
+  'this', 'it', 'its', 'as', 'by', 'at', 'from', 'given', 'you', 'your', 'return', 'find', 'print',
+  'each', 'all', 'any', 'which', 'their', 'there', 'such', 'into', 'if', 'than', 'then'
+])
+
+function words(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word && !STOP_WORDS.has(word))
+}
+
+function shingles(tokens: string[], size: number): Set<string> {
+  const result = new Set<string>()
+  if (tokens.length < size) {
+    if (tokens.length) result.add(tokens.join(' '))
+    return result
+  }
+  for (let i = 0; i <= tokens.length - size; i++) {
+    result.add(tokens.slice(i, i + size).join(' '))
+  }
+  return result
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 0
+  let shared = 0
+  a.forEach(item => {
+    if (b.has(item)) shared++
+  })
+  return shared / (a.size + b.size - shared)
+}
+
+// Sample I/O is compared as a token sequence so spacing, brackets, quotes and
+// commas don't hide an identical example.
+function normalizeSample(text: string): string {
+  return text.toLowerCase().replace(/[\[\](){},"']/g, ' ').trim().split(/\s+/).join(' ')
+}
+
+export function similarity(a: ComparableQuestion, b: ComparableQuestion): number {
+  const title = jaccard(new Set(words(a.title)), new Set(words(b.title)))
+  const statement = jaccard(shingles(words(a.problemStatement), 2), shingles(words(b.problemStatement), 2))
+  const sameInput = normalizeSample(a.sampleInput) === normalizeSample(b.sampleInput)
+  const sameOutput = normalizeSample(a.sampleOutput) === normalizeSample(b.sampleOutput)
+
+  // An identical example is a strong signal by itself, since reworded copies
+  // of the same problem tend to keep the model's favourite sample
+  if (sameInput && sameOutput) {
+    return Math.max(0.9, 0.3 * title + 0.7 * statement)
+  }
+
+  return 0.3 * title + 0.55 * statement + 0.15 * ((sameInput ? 0.5 : 0) + (sameOutput ? 0.5 : 0))
+}
+
+// Compares each candidate against the saved bank and against the candidates
+// before it in the same batch, returning the closest match at or above the
+// threshold (or undefined).
+export function findNearDuplicates(
+  candidates: ComparableQuestion[],
+  bank: ComparableQuestion[],
+  threshold = DUPLICATE_THRESHOLD
+): (DuplicateMatch | undefined)[] {
+  return candidates.map((candidate, i) => {
+    let best: DuplicateMatch | undefined
+
+    const consider = (other: ComparableQuestion, source: DuplicateMatch['source']) => {
+      const score = similarity(candidate, other)
+      if (score >= threshold && (!best || score > best.score)) {
+        best = { id: other.id, title: other.title, score: Math.round(score * 100) / 100, source }
+      }
+    }
+
+    bank.forEach(other => consider(other, 'bank'))
+    candidates.slice(0, i).forEach(other => consider(other, 'batch'))
+    return best
+  })
+}
@@ -0,0 +1,145 @@
+import { randomBytes, randomUUID } from 'crypto'
+import type { SandboxLanguage } from '../sandbox/languages'
+import { Assessment, AssessmentDraft, CandidateSession, Submission, sessionEnded, sessionScore } from '../assessment'
+import { JsonFileStore } from './jsonFile'
+
+interface AssessmentsDocument {
+  assessments: Assessment[]
+  sessions: CandidateSession[]
+}
+
+// Candidate links can be shared, so each one starts a bounded number of
+// sessions and only one per candidate name
+const MAX_SESSIONS_PER_ASSESSMENT = Number(process.env.ASSESSMENT_MAX_SESSIONS ?? 50)
+
+// The link can't start another session
+export class SessionLimitError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SessionLimitError'
+  }
+}
+
+// The session finished or ran out of time while the submission was graded
+export class SessionEndedError extends Error {
+  constructor() {
+    super('This assessment has ended')
+    this.name = 'SessionEndedError'
+  }
+}
+
+const store = new JsonFileStore<AssessmentsDocument>('assessments.json', () => ({ assessments: [], sessions: [] }))
+
+export async function createAssessment(draft: AssessmentDraft, ownerId: string): Promise<Assessment> {
+  return store.update(document => {
+    const assessment: Assessment = {
+      ...draft,
+      id: randomUUID(),
+      ownerId,
+      token: randomBytes(24).toString('hex'),
+      createdAt: new Date().toISOString()
+    }
+    document.assessments.push(assessment)
+    return assessment
+  })
+}
+
+// Newest first
+export async function listAssessments(ownerId: string): Promise<Assessment[]> {
+  const { assessments } = await store.read()
+  return assessments.filter(assessment => assessment.ownerId === ownerId).reverse()
+}
+
+// Assessments and their results are private to the user who created them
+export async function getAssessment(ownerId: string, id: string): Promise<Assessment | undefined> {
+  const { assessments } = await store.read()
+  return assessments.find(assessment => assessment.ownerId === ownerId && assessment.id === id)
+}
+
+export async function findAssessmentByToken(token: string): Promise<Assessment | undefined> {
+  const { assessments } = await store.read()
+  return assessments.find(assessment => assessment.token === token)
+}
+
+// Removes the assessment together with its candidates' results
+export async function deleteAssessment(ownerId: string, id: string): Promise<boolean> {
+  return store.update(document => {
+    const before = document.assessments.length
+    document.assessments = document.assessments.filter(assessment => !(assessment.ownerId === ownerId && assessment.id === id))
+    if (document.assessments.length === before) return false
+    document.sessions = document.sessions.filter(session => session.assessmentId !== id)
+    return true
+  })
+}
+
+// Newest first
+export async function listSessions(assessmentId: string): Promise<CandidateSession[]> {
+  const { sessions } = await store.read()
+  return sessions.filter(session => session.assessmentId === assessmentId).reverse()
+}
+
+export async function getSession(assessmentId: string, id: string): Promise<CandidateSession | undefined> {
+  const { sessions } = await store.read()
+  return sessions.find(session => session.assessmentId === assessmentId && session.id === id)
+}
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase()
+
+// The timer starts now and runs for the assessment's duration
+export async function startSession(assessment: Assessment, candidateName: string, language: SandboxLanguage): Promise<CandidateSession> {
+  return store.update(document => {
+    const existing = document.sessions.filter(session => session.assessmentId === assessment.id)
+    if (existing.some(session => sameName(session.candidateName, candidateName))) {
+      throw new SessionLimitError('A candidate with this name has already started this assessment')
+    }
+    if (existing.length >= MAX_SESSIONS_PER_ASSESSMENT) {
+      throw new SessionLimitError('This assessment link has been used by as many candidates as it allows')
+    }
+
+    const startedAt = new Date()
+    const session: CandidateSession = {
+      id: randomUUID(),
+      assessmentId: assessment.id,
+      candidateName,
+      language,
+      startedAt: startedAt.toISOString(),
+      deadline: new Date(startedAt.getTime() + assessment.durationMinutes * 60 * 1000).toISOString(),
+      submissions: [],
+      score: 0
+    }
+    document.sessions.push(session)
+    return session
+  })
+}
+
+// Keeps the latest submission per question and counts the earlier ones.
+// Grading takes a while, so whether the session is still open is checked
+// again here rather than only before grading.
+export async function recordSubmission(
+  id: string,
+  submission: Omit<Submission, 'attempts'>,
+  questionCount: number
+): Promise<CandidateSession | undefined> {
+  return store.update(document => {
+    const session = document.sessions.find(candidate => candidate.id === id)
+    if (!session) return undefined
+    if (sessionEnded(session)) throw new SessionEndedError()
+
+    const previous = session.submissions.find(existing => existing.questionId === submission.questionId)
+    const recorded: Submission = { ...submission, attempts: (previous?.attempts ?? 0) + 1 }
+    session.submissions = previous
+      ? session.submissions.map(existing => existing === previous ? recorded : existing)
+      : [...session.submissions, recorded]
+    session.score = sessionScore(session.submissions, questionCount)
+    return session
+  })
+}
+
+// Ends the session at `finishedAt` unless it has already ended
+export async function finishSession(id: string, finishedAt = new Date().toISOString()): Promise<CandidateSession | undefined> {
+  return store.update(document => {
+    const session = document.sessions.find(candidate => candidate.id === id)
+    if (session && !session.finishedAt) session.finishedAt = finishedAt
+    return session
+  })
+}
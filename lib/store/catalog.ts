@@ -0,0 +1,193 @@
+import { JsonFileStore } from './jsonFile'
+
+export type SeniorityBand = 'entry' | 'mid' | 'senior'
+
+export const SENIORITY_BANDS: SeniorityBand[] = ['entry', 'mid', 'senior']
+
+// A role questions are generated for, with the companies whose interviews
+// the questions should resemble. Recruiters can add their own through
+// /api/catalog.
+export interface CatalogPosition {
+  id: string
+  name: string
+  companies: string[]
+  seniority: SeniorityBand
+  // Free-form notes on how these interviews are run, passed to the prompt
+  interviewStyle: string
+  createdAt: string
+  updatedAt: string
+}
+
+export type PositionInput = Pick<CatalogPosition, 'name' | 'companies' | 'seniority' | 'interviewStyle'>
+
+interface CatalogDocument {
+  positions: CatalogPosition[]
+}
+
+export class UnknownPositionError extends Error {
+  constructor(name: string) {
+    super(`Position "${name}" is not in the catalog. Add it through /api/catalog first.`)
+    this.name = 'UnknownPositionError'
+  }
+}
+
+export class CatalogValidationError extends Error {
+  problems: string[]
+
+  constructor(problems: string[]) {
+    super(`Invalid catalog entry: ${problems.join('; ')}`)
+    this.name = 'CatalogValidationError'
+    this.problems = problems
+  }
+}
+
+const positionId = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+
+function defaultPosition(name: string, seniority: SeniorityBand, companies: string[]): CatalogPosition {
+  return { id: positionId(name), name, companies, seniority, interviewStyle: '', createdAt: '', updatedAt: '' }
+}
+
+// The catalog a fresh install starts with
+const DEFAULT_POSITIONS: CatalogPosition[] = [
+  defaultPosition('Software Engineer', 'senior', ['Google India', 'Microsoft India', 'Amazon India', 'Adobe India']),
+  defaultPosition('Full Stack Developer', 'senior', ['Flipkart', 'Paytm', 'Zomato', 'Swiggy', 'MakeMyTrip']),
+  defaultPosition('Backend Python Developer', 'senior', ['Amazon India', 'Flipkart', 'Zomato', 'Swiggy', 'Ola']),
+  defaultPosition('Python Developer', 'senior', ['TCS', 'Infosys', 'Wipro', 'HCL', 'Accenture', 'Tech Mahindra']),
+  defaultPosition('React.js Developer', 'senior', ['Flipkart', 'Swiggy', 'Zomato', 'PhonePe', 'Myntra']),
+  defaultPosition('Node.js Developer', 'senior', ['Paytm', 'Flipkart', 'Zomato', 'Swiggy', 'Ola']),
+  defaultPosition('DevOps Engineer', 'senior', ['Amazon India', 'Microsoft India', 'Flipkart', 'Paytm']),
+  defaultPosition('AWS DevOps Engineer', 'senior', ['Amazon India', 'Flipkart', 'Paytm', 'Zomato', 'Swiggy']),
+  defaultPosition('Cloud Developer', 'senior', ['Amazon India', 'Microsoft India', 'Google India', 'IBM India']),
+  defaultPosition('MERN Stack Developer', 'senior', ['Flipkart', 'Paytm', 'Zomato', 'Swiggy', 'MakeMyTrip']),
+  defaultPosition('Java Developer', 'senior', ['TCS', 'Infosys', 'Wipro', 'HCL', 'Tech Mahindra', 'Oracle']),
+  defaultPosition('Front-end Developer', 'senior', ['Flipkart', 'Paytm', 'Myntra', 'Zomato', 'Amazon India']),
+  defaultPosition('Back-end Developer', 'senior', ['Amazon India', 'Flipkart', 'Google India', 'Microsoft India']),
+  defaultPosition('Blockchain Developer', 'senior', ['WazirX', 'CoinDCX', 'Polygon', 'Zebpay', 'BitBNS']),
+  defaultPosition('Salesforce Developer', 'senior', ['TCS', 'Infosys', 'Accenture', 'Wipro', 'Deloitte']),
+  defaultPosition('Software Developer', 'senior', ['TCS', 'Infosys', 'Wipro', 'HCL', 'Tech Mahindra']),
+  defaultPosition('Associate Software Engineer', 'entry', ['TCS', 'Infosys', 'Wipro', 'HCL', 'Tech Mahindra']),
+  defaultPosition('Junior Front-End Developer', 'entry', ['Flipkart', 'Paytm', 'Zomato', 'Swiggy', 'MakeMyTrip']),
+  defaultPosition('Junior Back-End Developer', 'entry', ['Amazon India', 'Flipkart', 'Google India', 'Microsoft India']),
+  defaultPosition('Full-Stack Developer Intern', 'entry', ['Flipkart', 'Paytm', 'Zomato', 'Swiggy', 'Amazon India']),
+  defaultPosition('Software Developer Trainee', 'entry', ['TCS', 'Infosys', 'Wipro', 'HCL', 'Accenture']),
+  defaultPosition('Mobile App Developer (Trainee)', 'entry', ['Flipkart', 'Paytm', 'Ola', 'Uber India', 'MakeMyTrip']),
+  defaultPosition('Cloud Support Associate', 'entry', ['Amazon India', 'Microsoft India', 'Google India', 'IBM India']),
+  defaultPosition('IT Support Engineer', 'entry', ['TCS', 'Infosys', 'Wipro', 'HCL', 'Tech Mahindra']),
+  defaultPosition('QA/Test Engineer', 'entry', ['TCS', 'Infosys', 'Wipro', 'Amazon India', 'Flipkart']),
+  defaultPosition('Technical Support Executive', 'entry', ['Amazon India', 'Flipkart', 'Microsoft India', 'Google India']),
+  defaultPosition('Web Developer Intern', 'entry', ['TCS', 'Infosys', 'Wipro', 'Flipkart', 'Paytm']),
+  defaultPosition('Application Support Engineer', 'entry', ['TCS', 'Infosys', 'Wipro', 'HCL', 'Accenture']),
+  defaultPosition('Graduate Engineer Trainee', 'entry', ['TCS', 'Infosys', 'Wipro', 'HCL', 'Tech Mahindra'])
+]
+
+const store = new JsonFileStore<CatalogDocument>('catalog.json', () => ({
+  positions: DEFAULT_POSITIONS.map(position => ({ ...position, companies: [...position.companies] }))
+}))
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase()
+
+// Checks a full entry, or only the fields present when `partial` is set
+export function validatePositionInput(input: Record<string, unknown>, partial = false): string[] {
+  const problems: string[] = []
+  const present = (field: string) => !partial || input[field] !== undefined
+
+  if (present('name') && (typeof input.name !== 'string' || !input.name.trim())) {
+    problems.push('name must be a non-empty string')
+  }
+  if (present('companies') && (
+    !Array.isArray(input.companies)
+    || input.companies.length === 0
+    || input.companies.some(company => typeof company !== 'string' || !company.trim())
+  )) {
+    problems.push('companies must be a non-empty list of company names')
+  }
+  if (present('seniority') && !SENIORITY_BANDS.includes(input.seniority as SeniorityBand)) {
+    problems.push(`seniority must be one of: ${SENIORITY_BANDS.join(', ')}`)
+  }
+  if (input.interviewStyle !== undefined && typeof input.interviewStyle !== 'string') {
+    problems.push('interviewStyle must be a string')
+  }
+  return problems
+}
+
+// In the order they were added
+export async function listPositions(): Promise<CatalogPosition[]> {
+  const { positions } = await store.read()
+  return positions
+}
+
+export async function getPosition(id: string): Promise<CatalogPosition | undefined> {
+  const { positions } = await store.read()
+  return positions.find(position => position.id === id)
+}
+
+export async function findPositionByName(name: string): Promise<CatalogPosition | undefined> {
+  const { positions } = await store.read()
+  return positions.find(position => sameName(position.name, name))
+}
+
+// Like findPositionByName, but a missing position is an error
+export async function requirePosition(name: string): Promise<CatalogPosition> {
+  const position = await findPositionByName(name)
+  if (!position) throw new UnknownPositionError(name)
+  return position
+}
+
+export async function createPosition(input: PositionInput): Promise<CatalogPosition> {
+  const problems = validatePositionInput({ ...input })
+  if (problems.length > 0) throw new CatalogValidationError(problems)
+
+  return store.update(catalog => {
+    if (catalog.positions.some(position => sameName(position.name, input.name))) {
+      throw new CatalogValidationError([`a position named "${input.name.trim()}" already exists`])
+    }
+
+    const now = new Date().toISOString()
+    const position: CatalogPosition = {
+      id: positionId(input.name) || `position-${Date.now()}`,
+      name: input.name.trim(),
+      companies: input.companies.map(company => company.trim()),
+      seniority: input.seniority,
+      interviewStyle: input.interviewStyle?.trim() ?? '',
+      createdAt: now,
+      updatedAt: now
+    }
+    while (catalog.positions.some(existing => existing.id === position.id)) {
+      position.id = `${position.id}-2`
+    }
+    catalog.positions.push(position)
+    return position
+  })
+}
+
+// The id stays the same when a position is renamed, so links keep working
+export async function updatePosition(id: string, changes: Partial<PositionInput>): Promise<CatalogPosition | undefined> {
+  const problems = validatePositionInput({ ...changes }, true)
+  if (problems.length > 0) throw new CatalogValidationError(problems)
+
+  return store.update(catalog => {
+    const position = catalog.positions.find(existing => existing.id === id)
+    if (!position) return undefined
+
+    const name = changes.name
+    if (name !== undefined && catalog.positions.some(other => other !== position && sameName(other.name, name))) {
+      throw new CatalogValidationError([`a position named "${name.trim()}" already exists`])
+    }
+
+    if (name !== undefined) position.name = name.trim()
+    if (changes.companies !== undefined) position.companies = changes.companies.map(company => company.trim())
+    if (changes.seniority !== undefined) position.seniority = changes.seniority
+    if (changes.interviewStyle !== undefined) position.interviewStyle = changes.interviewStyle.trim()
+    position.updatedAt = new Date().toISOString()
+    return position
+  })
+}
+
+export async function deletePosition(id: string): Promise<boolean> {
+  return store.update(catalog => {
+    const before = catalog.positions.length
+    catalog.positions = catalog.positions.filter(position => position.id !== id)
+    return catalog.positions.length < before
+  })
+}
@@ -0,0 +1,74 @@
+import { randomUUID } from 'crypto'
+import type { FormData, Question } from '../types'
+import { JsonFileStore } from './jsonFile'
+
+// What a user did: generated a batch, built a paper, or sent, exported or
+// saved a selection of questions
+export type HistoryKind = 'generation' | 'paper' | 'sheet' | 'export' | 'save'
+
+export type HistoryStatus = 'succeeded' | 'failed' | 'cancelled'
+
+export interface HistoryQuestion {
+  id: string
+  title: string
+  language?: string
+}
+
+export interface HistoryEntry {
+  id: string
+  userId: string
+  kind: HistoryKind
+  status: HistoryStatus
+  createdAt: string
+  // The form values a generation was requested with
+  request?: Partial<FormData>
+  // The questions generated or acted on
+  questions: HistoryQuestion[]
+  // Full generated questions, so a past batch can be opened again
+  results?: Question[]
+  // Where the questions went (tab, format, workspace) or why it failed
+  detail?: string
+}
+
+export type HistoryInput = Omit<HistoryEntry, 'id' | 'createdAt' | 'questions'> & { questions: Question[] }
+
+interface HistoryDocument {
+  entries: HistoryEntry[]
+}
+
+// Older entries are dropped once a user has this many
+const HISTORY_LIMIT = Number(process.env.HISTORY_LIMIT) || 100
+
+const store = new JsonFileStore<HistoryDocument>('history.json', () => ({ entries: [] }))
+
+export async function recordHistory({ questions, ...input }: HistoryInput): Promise<HistoryEntry> {
+  return store.update(document => {
+    const entry: HistoryEntry = {
+      ...input,
+      id: randomUUID(),
+      createdAt: new Date().toISOString(),
+      questions: questions.map(({ id, title, language }) => ({ id, title, language }))
+    }
+    document.entries.push(entry)
+
+    const own = document.entries.filter(existing => existing.userId === input.userId)
+    if (own.length > HISTORY_LIMIT) {
+      const dropped = new Set(own.slice(0, own.length - HISTORY_LIMIT))
+      document.entries = document.entries.filter(existing => !dropped.has(existing))
+    }
+    return entry
+  })
+}
+
+// Newest first
+export async function listHistory(userId: string, kind?: HistoryKind): Promise<HistoryEntry[]> {
+  const { entries } = await store.read()
+  return entries
+    .filter(entry => entry.userId === userId && (!kind || entry.kind === kind))
+    .reverse()
+}
+
+export async function getHistoryEntry(userId: string, id: string): Promise<HistoryEntry | undefined> {
+  const { entries } = await store.read()
+  return entries.find(entry => entry.userId === userId && entry.id === id)
+}
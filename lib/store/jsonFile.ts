@@ -0,0 +1,57 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises'
+import path from 'path'
+
+export const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), 'data')
+
+// Next.js may load a module once per route bundle, so the write queues live
+// on globalThis to keep every copy of a store behind the same lock.
+const globalForStores = globalThis as unknown as { jsonFileQueues?: Map<string, Promise<unknown>> }
+const queues = globalForStores.jsonFileQueues ?? (globalForStores.jsonFileQueues = new Map())
+
+// Runs `task` after every earlier task queued for the same file
+export function withFileLock<R>(filePath: string, task: () => Promise<R>): Promise<R> {
+  const previous = queues.get(filePath) ?? Promise.resolve()
+  const run = previous.then(task)
+  queues.set(filePath, run.catch(() => undefined))
+  return run
+}
+
+// Writes to a temporary file first and renames it into place, so a crash
+// never leaves a half-written file behind.
+export async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+  await mkdir(path.dirname(filePath), { recursive: true })
+  const tempPath = `${filePath}.${process.pid}.tmp`
+  await writeFile(tempPath, content)
+  await rename(tempPath, filePath)
+}
+
+// A JSON document on disk with serialized read-modify-write updates
+export class JsonFileStore<T> {
+  private filePath: string
+  private initial: () => T
+
+  constructor(fileName: string, initial: () => T) {
+    this.filePath = path.join(DATA_DIR, fileName)
+    this.initial = initial
+  }
+
+  async read(): Promise<T> {
+    try {
+      return JSON.parse(await readFile(this.filePath, 'utf8')) as T
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return this.initial()
+      throw error
+    }
+  }
+
+  // Applies `mutate` to the current document and persists the result.
+  // Updates run one at a time in call order.
+  update<R>(mutate: (data: T) => R | Promise<R>): Promise<R> {
+    return withFileLock(this.filePath, async () => {
+      const data = await this.read()
+      const result = await mutate(data)
+      await writeFileAtomic(this.filePath, JSON.stringify(data, null, 2))
+      return result
+    })
+  }
+}
@@ -0,0 +1,37 @@
+import { randomUUID } from 'crypto'
+import type { Paper, PaperDraft } from '../paper'
+import { JsonFileStore } from './jsonFile'
+
+interface PapersDocument {
+  papers: Paper[]
+}
+
+const store = new JsonFileStore<PapersDocument>('papers.json', () => ({ papers: [] }))
+
+export async function savePaper(draft: PaperDraft, ownerId: string): Promise<Paper> {
+  return store.update(document => {
+    const paper: Paper = { ...draft, id: randomUUID(), ownerId, createdAt: new Date().toISOString() }
+    document.papers.push(paper)
+    return paper
+  })
+}
+
+// Newest first
+export async function listPapers(ownerId: string): Promise<Paper[]> {
+  const { papers } = await store.read()
+  return papers.filter(paper => paper.ownerId === ownerId).reverse()
+}
+
+// Papers are private to the user who built them
+export async function getPaper(ownerId: string, id: string): Promise<Paper | undefined> {
+  const { papers } = await store.read()
+  return papers.find(paper => paper.ownerId === ownerId && paper.id === id)
+}
+
+export async function deletePaper(ownerId: string, id: string): Promise<boolean> {
+  return store.update(document => {
+    const before = document.papers.length
+    document.papers = document.papers.filter(paper => !(paper.ownerId === ownerId && paper.id === id))
+    return document.papers.length < before
+  })
+}
@@ -0,0 +1,166 @@
+import type { FormData, Question } from '../types'
+import { JsonFileStore } from './jsonFile'
+
+// A question as kept in the bank, together with the parameters it was
+// generated for so the library can be filtered the same way as the form.
+export interface SavedQuestion extends Question {
+  positionName: string
+  topic: string
+  difficultyLevel: FormData['difficultyLevel']
+  type: FormData['type']
+  // The user who saved it. Questions saved before accounts have none and
+  // stay open to every signed-in user.
+  ownerId?: string
+  // The team workspace it is shared with; private to the owner without one
+  workspaceId?: string
+  createdAt: string
+  updatedAt: string
+}
+
+// Who is asking: a user and the workspaces they belong to
+export interface QuestionAccess {
+  userId: string
+  workspaceIds: string[]
+}
+
+// The owner and members of its workspace may read a question
+export function canReadQuestion(question: SavedQuestion, access: QuestionAccess): boolean {
+  return !question.ownerId
+    || question.ownerId === access.userId
+    || (!!question.workspaceId && access.workspaceIds.includes(question.workspaceId))
+}
+
+// Only the owner may change or delete a question
+export function canWriteQuestion(question: SavedQuestion, access: QuestionAccess): boolean {
+  return !question.ownerId || question.ownerId === access.userId
+}
+
+export class QuestionAccessError extends Error {
+  ids: string[]
+
+  constructor(ids: string[]) {
+    super(`Not allowed to change question${ids.length === 1 ? '' : 's'} ${ids.join(', ')}`)
+    this.name = 'QuestionAccessError'
+    this.ids = ids
+  }
+}
+
+export interface QuestionFilters {
+  positionName?: string
+  topic?: string
+  difficultyLevel?: string
+  language?: string
+  type?: string
+  search?: string
+}
+
+export type QuestionUpdate = Partial<Omit<SavedQuestion, 'id' | 'ownerId' | 'createdAt' | 'updatedAt'>>
+
+interface BankDocument {
+  questions: SavedQuestion[]
+}
+
+const store = new JsonFileStore<BankDocument>('questions.json', () => ({ questions: [] }))
+
+function matches(question: SavedQuestion, filters: QuestionFilters): boolean {
+  if (filters.positionName && question.positionName !== filters.positionName) return false
+  if (filters.topic && question.topic !== filters.topic) return false
+  if (filters.difficultyLevel && question.difficultyLevel !== filters.difficultyLevel) return false
+  if (filters.language && question.language !== filters.language) return false
+  if (filters.type && question.type !== filters.type) return false
+  if (filters.search) {
+    const needle = filters.search.toLowerCase()
+    return question.title.toLowerCase().includes(needle)
+      || question.problemStatement.toLowerCase().includes(needle)
+  }
+  return true
+}
+
+// Newest first. With `access`, only the questions that user may read.
+export async function listQuestions(filters: QuestionFilters = {}, access?: QuestionAccess): Promise<SavedQuestion[]> {
+  const { questions } = await store.read()
+  return questions
+    .filter(question => matches(question, filters) && (!access || canReadQuestion(question, access)))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+export async function getQuestion(id: string): Promise<SavedQuestion | undefined> {
+  const { questions } = await store.read()
+  return questions.find(question => question.id === id)
+}
+
+// Saves questions under the parameters they were generated with, owned by
+// `access.userId` and shared with `workspaceId` if given. Questions that are
+// already in the bank are updated in place rather than duplicated; if any
+// of them belongs to someone else, nothing is saved.
+export async function saveQuestions(
+  questions: Question[],
+  inputParameters: Pick<FormData, 'positionName' | 'topic' | 'difficultyLevel' | 'type'>,
+  access?: QuestionAccess,
+  workspaceId?: string
+): Promise<{ created: SavedQuestion[]; updated: SavedQuestion[] }> {
+  return store.update(bank => {
+    const now = new Date().toISOString()
+    const created: SavedQuestion[] = []
+    const updated: SavedQuestion[] = []
+
+    if (access) {
+      const denied = questions
+        .map(question => bank.questions.find(existing => existing.id === question.id))
+        .filter((existing): existing is SavedQuestion => !!existing && !canWriteQuestion(existing, access))
+      if (denied.length > 0) throw new QuestionAccessError(denied.map(existing => existing.id))
+    }
+
+    for (const question of questions) {
+      const index = bank.questions.findIndex(existing => existing.id === question.id)
+      const existing = index === -1 ? undefined : bank.questions[index]
+      // Re-saving keeps the question's owner and workspace; ownerless
+      // questions stay ownerless, and PATCH moves questions between workspaces
+      const saved: SavedQuestion = {
+        ...question,
+        positionName: inputParameters.positionName,
+        topic: inputParameters.topic,
+        difficultyLevel: inputParameters.difficultyLevel,
+        type: inputParameters.type,
+        ownerId: existing ? existing.ownerId : access?.userId,
+        workspaceId: existing ? existing.workspaceId : workspaceId,
+        createdAt: existing ? existing.createdAt : now,
+        updatedAt: now
+      }
+
+      if (index === -1) {
+        bank.questions.push(saved)
+        created.push(saved)
+      } else {
+        bank.questions[index] = saved
+        updated.push(saved)
+      }
+    }
+
+    return { created, updated }
+  })
+}
+
+export async function updateQuestion(id: string, changes: QuestionUpdate): Promise<SavedQuestion | undefined> {
+  return store.update(bank => {
+    const index = bank.questions.findIndex(question => question.id === id)
+    if (index === -1) return undefined
+
+    bank.questions[index] = {
+      ...bank.questions[index],
+      ...changes,
+      id,
+      createdAt: bank.questions[index].createdAt,
+      updatedAt: new Date().toISOString()
+    }
+    return bank.questions[index]
+  })
+}
+
+export async function deleteQuestion(id: string): Promise<boolean> {
+  return store.update(bank => {
+    const before = bank.questions.length
+    bank.questions = bank.questions.filter(question => question.id !== id)
+    return bank.questions.length < before
+  })
+}
@@ -0,0 +1,136 @@
+import { randomBytes, randomUUID } from 'crypto'
+import { hashPassword, verifyPassword } from '../auth/password'
+import { MIN_PASSWORD_LENGTH } from '../requestSchema'
+import { JsonFileStore } from './jsonFile'
+
+export interface User {
+  id: string
+  name: string
+  email: string
+  createdAt: string
+}
+
+interface UserRecord extends User {
+  passwordHash: string
+}
+
+interface Session {
+  token: string
+  userId: string
+  expiresAt: string
+}
+
+interface UsersDocument {
+  users: UserRecord[]
+}
+
+interface SessionsDocument {
+  sessions: Session[]
+}
+
+// Sign-ins last this long unless the user signs out
+const SESSION_TTL_MS = Number(process.env.SESSION_TTL_DAYS ?? 14) * 24 * 60 * 60 * 1000
+
+export class UserValidationError extends Error {
+  problems: string[]
+
+  constructor(problems: string[]) {
+    super(`Invalid account: ${problems.join('; ')}`)
+    this.name = 'UserValidationError'
+    this.problems = problems
+  }
+}
+
+const users = new JsonFileStore<UsersDocument>('users.json', () => ({ users: [] }))
+const sessions = new JsonFileStore<SessionsDocument>('sessions.json', () => ({ sessions: [] }))
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase()
+
+const toUser = ({ passwordHash, ...user }: UserRecord): User => user
+
+export function validateUserInput(input: Record<string, unknown>): string[] {
+  const problems: string[] = []
+  if (typeof input.name !== 'string' || !input.name.trim()) {
+    problems.push('name must be a non-empty string')
+  }
+  if (typeof input.email !== 'string' || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(input.email.trim())) {
+    problems.push('email must be a valid email address')
+  }
+  if (typeof input.password !== 'string' || input.password.length < MIN_PASSWORD_LENGTH) {
+    problems.push(`password must be at least ${MIN_PASSWORD_LENGTH} characters`)
+  }
+  return problems
+}
+
+export async function createUser(input: { name: string; email: string; password: string }): Promise<User> {
+  const problems = validateUserInput({ ...input })
+  if (problems.length > 0) throw new UserValidationError(problems)
+
+  // Hashed outside the lock; scrypt is deliberately slow
+  const passwordHash = await hashPassword(input.password)
+  return users.update(document => {
+    const email = normalizeEmail(input.email)
+    if (document.users.some(user => user.email === email)) {
+      throw new UserValidationError([`an account for ${email} already exists`])
+    }
+
+    const user: UserRecord = {
+      id: randomUUID(),
+      name: input.name.trim(),
+      email,
+      passwordHash,
+      createdAt: new Date().toISOString()
+    }
+    document.users.push(user)
+    return toUser(user)
+  })
+}
+
+export async function getUser(id: string): Promise<User | undefined> {
+  const { users: all } = await users.read()
+  const user = all.find(candidate => candidate.id === id)
+  return user && toUser(user)
+}
+
+export async function findUserByEmail(email: string): Promise<User | undefined> {
+  const { users: all } = await users.read()
+  const user = all.find(candidate => candidate.email === normalizeEmail(email))
+  return user && toUser(user)
+}
+
+// The user with these credentials, or undefined for an unknown email or a
+// wrong password alike
+export async function authenticate(email: string, password: string): Promise<User | undefined> {
+  const { users: all } = await users.read()
+  const user = all.find(candidate => candidate.email === normalizeEmail(email))
+  if (!user || !await verifyPassword(password, user.passwordHash)) return undefined
+  return toUser(user)
+}
+
+// Starts a session, dropping expired ones while the file is open anyway
+export async function createSession(userId: string): Promise<Session> {
+  return sessions.update(document => {
+    const now = Date.now()
+    const session: Session = {
+      token: randomBytes(32).toString('hex'),
+      userId,
+      expiresAt: new Date(now + SESSION_TTL_MS).toISOString()
+    }
+    document.sessions = document.sessions.filter(existing => Date.parse(existing.expiresAt) > now)
+    document.sessions.push(session)
+    return session
+  })
+}
+
+export async function findSessionUser(token: string): Promise<User | undefined> {
+  const { sessions: all } = await sessions.read()
+  const session = all.find(candidate => candidate.token === token)
+  if (!session || Date.parse(session.expiresAt) <= Date.now()) return undefined
+  return getUser(session.userId)
+}
+
+export async function deleteSession(token: string): Promise<void> {
+  await sessions.update(document => {
+    document.sessions = document.sessions.filter(session => session.token !== token)
+  })
+}
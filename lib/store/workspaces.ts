@@ -0,0 +1,104 @@
+import { randomUUID } from 'crypto'
+import { JsonFileStore } from './jsonFile'
+import { getUser } from './users'
+
+// A team that shares questions. Every member can read the questions shared
+// into it; only the owner can add or remove members.
+export interface Workspace {
+  id: string
+  name: string
+  ownerId: string
+  memberIds: string[]
+  createdAt: string
+}
+
+interface WorkspacesDocument {
+  workspaces: Workspace[]
+}
+
+export class WorkspaceValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'WorkspaceValidationError'
+  }
+}
+
+// The workspace exists but the user may not change it
+export class WorkspaceAccessError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'WorkspaceAccessError'
+  }
+}
+
+const store = new JsonFileStore<WorkspacesDocument>('workspaces.json', () => ({ workspaces: [] }))
+
+export const isMember = (workspace: Workspace, userId: string) => workspace.memberIds.includes(userId)
+
+// Members by name and email, for managing the workspace
+export async function withMembers(workspace: Workspace) {
+  const members = await Promise.all(workspace.memberIds.map(getUser))
+  return {
+    ...workspace,
+    members: members.flatMap(member => member ? [{ id: member.id, name: member.name, email: member.email }] : [])
+  }
+}
+
+// Oldest first
+export async function listWorkspacesFor(userId: string): Promise<Workspace[]> {
+  const { workspaces } = await store.read()
+  return workspaces.filter(workspace => isMember(workspace, userId))
+}
+
+export async function getWorkspace(id: string): Promise<Workspace | undefined> {
+  const { workspaces } = await store.read()
+  return workspaces.find(workspace => workspace.id === id)
+}
+
+export async function createWorkspace(name: unknown, ownerId: string): Promise<Workspace> {
+  if (typeof name !== 'string' || !name.trim()) {
+    throw new WorkspaceValidationError('name must be a non-empty string')
+  }
+
+  return store.update(document => {
+    const workspace: Workspace = {
+      id: randomUUID(),
+      name: name.trim(),
+      ownerId,
+      memberIds: [ownerId],
+      createdAt: new Date().toISOString()
+    }
+    document.workspaces.push(workspace)
+    return workspace
+  })
+}
+
+// Adds or removes a member. Returns undefined when the workspace doesn't
+// exist or the actor isn't in it, so its existence isn't revealed.
+export async function changeMembership(
+  workspaceId: string,
+  actorId: string,
+  change: { add: string } | { remove: string }
+): Promise<Workspace | undefined> {
+  return store.update(document => {
+    const workspace = document.workspaces.find(candidate => candidate.id === workspaceId)
+    if (!workspace || !isMember(workspace, actorId)) return undefined
+
+    if ('add' in change) {
+      if (workspace.ownerId !== actorId) {
+        throw new WorkspaceAccessError('Only the workspace owner can add members')
+      }
+      if (!isMember(workspace, change.add)) workspace.memberIds.push(change.add)
+    } else {
+      // Members may leave on their own; only the owner removes others
+      if (workspace.ownerId !== actorId && change.remove !== actorId) {
+        throw new WorkspaceAccessError('Only the workspace owner can remove members')
+      }
+      if (change.remove === workspace.ownerId) {
+        throw new WorkspaceValidationError('The owner cannot leave the workspace')
+      }
+      workspace.memberIds = workspace.memberIds.filter(id => id !== change.remove)
+    }
+    return workspace
+  })
+}
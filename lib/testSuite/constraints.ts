@@ -0,0 +1,47 @@
+export interface ConstraintBound {
+  variable: string
+  min: number
+  max: number
+}
+
+// Accepts 10^5, 10**5, 1e5, 2 * 10^5, 100000 and 100,000 style numbers
+const NUMBER = String.raw`-?\s*(?:\d[\d,]*(?:\.\d+)?)(?:\s*[x*×]\s*10\s*(?:\^|\*\*)\s*-?\d+)?(?:\s*(?:\^|\*\*)\s*-?\d+)?(?:e-?\d+)?`
+const VARIABLE = String.raw`[A-Za-z_][\w]*(?:\s*\[[^\]]*\])*(?:\s*,\s*[A-Za-z_][\w]*(?:\s*\[[^\]]*\])*)*`
+const LESS_EQUAL = String.raw`(?:<=|≤|<|=<|\\le(?:q)?)`
+const RANGE = new RegExp(`(${NUMBER})\\s*${LESS_EQUAL}\\s*(${VARIABLE})\\s*${LESS_EQUAL}\\s*(${NUMBER})`, 'g')
+
+export function parseNumber(text: string): number {
+  const cleaned = text.replace(/[\s,]/g, '')
+  const scaled = cleaned.match(/^(-?[\d.]+)[x*×]10(?:\^|\*\*)(-?\d+)$/)
+  if (scaled) {
+    return Number(scaled[1]) * Math.pow(10, Number(scaled[2]))
+  }
+  const power = cleaned.match(/^(-?[\d.]+)(?:\^|\*\*)(-?\d+)$/)
+  if (power) {
+    const base = Number(power[1])
+    return Math.sign(base) * Math.pow(Math.abs(base), Number(power[2]))
+  }
+  return Number(cleaned)
+}
+
+// Extracts "lo <= X <= hi" ranges from free-form constraints text. Lines the
+// pattern doesn't recognise are ignored rather than guessed at.
+export function parseConstraintBounds(constraints: string): ConstraintBound[] {
+  const bounds: ConstraintBound[] = []
+
+  for (const match of Array.from(constraints.matchAll(RANGE))) {
+    const min = parseNumber(match[1])
+    const max = parseNumber(match[3])
+    if (!Number.isFinite(min) || !Number.isFinite(max) || min > max) continue
+
+    for (const variable of match[2].split(',')) {
+      bounds.push({ variable: variable.replace(/\s+/g, ''), min, max })
+    }
+  }
+
+  return bounds
+}
+
+export function formatBound(bound: ConstraintBound): string {
+  return `${bound.variable} in [${bound.min}, ${bound.max}]`
+}
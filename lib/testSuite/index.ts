@@ -0,0 +1,137 @@
+import { z } from 'zod'
+import type { LLMProvider } from '../llm'
+import type { ReferenceSolution, TestCase } from '../types'
+import { GenerationValidationError, extractJson, toFieldErrors } from '../questionSchema'
+import { DEFAULT_LIMITS, isSandboxLanguage, runProgram } from '../sandbox'
+import { ConstraintBound, formatBound, parseConstraintBounds } from './constraints'
+
+export const TEST_INPUTS_MARKER = 'HIDDEN TEST INPUTS'
+export const MIN_TESTS_PER_QUESTION = 6
+
+export interface TestSuiteSource {
+  title: string
+  problemStatement: string
+  inputFormat: string
+  constraints: string
+  sampleInput: string
+  sampleOutput: string
+  referenceSolution?: ReferenceSolution
+}
+
+const testInputsSchema = z.object({
+  questions: z.array(z.object({
+    tests: z.array(z.object({
+      input: z.string().trim().min(1, 'input must not be empty'),
+      kind: z.enum(['edge', 'typical']),
+      description: z.string().trim().min(1, 'description must not be empty')
+    })).min(MIN_TESTS_PER_QUESTION, `Expected at least ${MIN_TESTS_PER_QUESTION} tests`)
+  }))
+})
+
+type TestInput = z.infer<typeof testInputsSchema>['questions'][number]['tests'][number]
+
+function describeBounds(bounds: ConstraintBound[]): string {
+  if (bounds.length === 0) {
+    return 'No numeric ranges detected; infer the edge cases from the statement.'
+  }
+  return bounds.map(bound => `${formatBound(bound)} -> include cases at ${bound.min} and at ${bound.max}`).join('; ')
+}
+
+export function buildTestInputPrompt(sources: TestSuiteSource[]): string {
+  return `
+${TEST_INPUTS_MARKER}
+
+You are writing hidden test inputs for the ${sources.length} interview questions below. Do NOT write expected outputs; they are computed by running a reference solution.
+
+${sources.map((source, i) => `QUESTION ${i + 1}: ${source.title}
+Problem Statement: ${source.problemStatement}
+Input Format: ${source.inputFormat}
+Constraints: ${source.constraints}
+Constraint bounds: ${describeBounds(parseConstraintBounds(source.constraints))}
+Sample Input:
+${source.sampleInput}`).join('\n\n')}
+
+REQUIREMENTS:
+- At least ${MIN_TESTS_PER_QUESTION} tests per question, in the same format as the sample input
+- Mark tests that hit a constraint bound or a degenerate case (minimum size, maximum value, negatives, duplicates, all-equal elements, already-sorted input) as "edge"; mark the rest "typical"
+- Cover every listed constraint bound with at least one edge test
+- Every input must satisfy the constraints. Keep each input under 2000 characters; use small sizes with extreme values instead of huge inputs
+- Describe in one short sentence what each test exercises
+
+Respond with ONLY a JSON object, no markdown fences and no commentary, of the form:
+{ "questions": [ { "tests": [ { "input": string, "kind": "edge" | "typical", "description": string } ] } ] }
+with exactly ${sources.length} entries in "questions", in the same order as above. Use \\n inside strings for line breaks.
+`
+}
+
+function parseTestInputs(text: string, expectedCount: number): TestInput[][] {
+  const result = testInputsSchema.safeParse(extractJson(text))
+  if (!result.success) {
+    throw new GenerationValidationError(toFieldErrors(result.error))
+  }
+  if (result.data.questions.length !== expectedCount) {
+    throw new GenerationValidationError([{ path: 'questions', message: `Expected ${expectedCount} entries, got ${result.data.questions.length}` }])
+  }
+
+  return result.data.questions.map(question => question.tests)
+}
+
+// Runs the reference solution on each input to get the expected output.
+// Inputs the reference cannot handle are dropped: a test whose answer we
+// cannot compute is worse than no test.
+export async function computeExpectedOutputs(
+  solution: ReferenceSolution,
+  inputs: TestInput[]
+): Promise<TestCase[]> {
+  if (!isSandboxLanguage(solution.language)) {
+    return []
+  }
+
+  const cases: TestCase[] = []
+  for (const test of inputs) {
+    const result = await runProgram(solution.language, solution.code, test.input, DEFAULT_LIMITS, { isolated: true })
+    if (result.status !== 'ok') {
+      console.warn(`Dropping hidden test "${test.description}": reference solution ${result.status}`)
+      continue
+    }
+    cases.push({
+      input: test.input,
+      expectedOutput: result.stdout.trimEnd(),
+      kind: test.kind,
+      description: test.description
+    })
+  }
+  return cases
+}
+
+// Builds a hidden test suite for each question: the model proposes inputs
+// (including edge cases at the bounds parsed from the constraints) and the
+// reference solution supplies the expected outputs. Questions whose
+// reference solution is missing or unverified get an empty suite.
+export async function buildTestSuites(
+  provider: LLMProvider,
+  sources: TestSuiteSource[],
+  trusted: boolean[],
+  model?: string
+): Promise<TestCase[][]> {
+  const text = await provider.complete(buildTestInputPrompt(sources), { model })
+  const inputs = parseTestInputs(text, sources.length)
+
+  const suites: TestCase[][] = []
+  for (let i = 0; i < sources.length; i++) {
+    const source = sources[i]
+    if (!trusted[i] || !source.referenceSolution) {
+      suites.push([])
+      continue
+    }
+
+    const sample: TestCase = {
+      input: source.sampleInput,
+      expectedOutput: source.sampleOutput,
+      kind: 'sample',
+      description: 'Sample from the problem statement'
+    }
+    suites.push([sample, ...await computeExpectedOutputs(source.referenceSolution, inputs[i])])
+  }
+  return suites
+}
@@ -0,0 +1,133 @@
+import type { ProviderName } from './llm/types'
+
+export interface FormData {
+  positionName: string
+  languages: string[]
+  problem: string
+  hint: string
+  type: 'complete_code' | 'write_code'
+  difficultyLevel: 'easy' | 'medium' | 'hard'
+  topic: string
+  count?: number
+  provider?: ProviderName
+  model?: string
+  duplicateHandling?: 'flag' | 'regenerate'
+  // What to do with questions whose estimated difficulty misses difficultyLevel
+  difficultyHandling?: 'flag' | 'regenerate'
+  // Version of the "questions" prompt template; the newest when omitted
+  promptVersion?: number
+  // Bypass the generation cache for this request
+  forceFresh?: boolean
+}
+
+export interface Question {
+  id: string
+  title: string
+  problemStatement: string
+  inputFormat: string
+  outputFormat: string
+  constraints: string
+  sampleInput: string
+  sampleOutput: string
+  language?: string
+  implementation?: string
+  // The nudge-level hint, kept for sheets and questions saved before tiers
+  hint?: string
+  hints?: Hint[]
+  editorial?: Editorial
+  referenceSolution?: ReferenceSolution
+  signature?: FunctionSignature
+  verification?: Verification
+  tests?: TestCase[]
+  duplicateOf?: DuplicateMatch
+  difficultyEstimate?: DifficultyEstimate
+  // The prompt template that produced the question, e.g. "questions@1"
+  promptVersion?: string
+}
+
+// Language variants share their question's id with "-<language>" appended;
+// a question without a language keeps its id
+export function baseIdOf(question: Pick<Question, 'id' | 'language'>): string {
+  return question.language ? question.id.replace(/-[^-]+$/, '') : question.id
+}
+
+export type HintLevel = 'nudge' | 'approach' | 'nearSolution'
+
+// One tier of a question's hints; tiers are revealed in order
+export interface Hint {
+  level: HintLevel
+  text: string
+  // Present when the hint still scored as leaking after being rewritten
+  leak?: HintLeak
+}
+
+// How strongly a hint gives away code or the solution, from 0 to 1
+export interface HintLeak {
+  score: number
+  reasons: string[]
+}
+
+// Interviewer-facing explanation of the intended solution
+export interface Editorial {
+  approach: string
+  timeComplexity: string
+  spaceComplexity: string
+  alternatives: AlternativeApproach[]
+  pitfalls: string[]
+}
+
+export interface AlternativeApproach {
+  approach: string
+  timeComplexity: string
+  spaceComplexity: string
+}
+
+// A complete stdin -> stdout program used to check the sample output
+export interface ReferenceSolution {
+  language: string
+  code: string
+}
+
+// Language-neutral description of the function candidates implement in
+// complete_code mode. Types use the vocabulary in lib/signature/types.ts.
+export interface FunctionSignature {
+  functionName: string
+  parameters: { name: string; type: string }[]
+  returnType: string
+}
+
+export type VerificationStatus = 'verified' | 'mismatch' | 'failed'
+
+export interface Verification {
+  status: VerificationStatus
+  actualOutput?: string
+  error?: string
+  durationMs?: number
+}
+
+// A hidden test whose expected output came from running the reference solution
+export interface TestCase {
+  input: string
+  expectedOutput: string
+  kind: 'sample' | 'edge' | 'typical'
+  description: string
+}
+
+// The closest existing question a new one resembles
+export interface DuplicateMatch {
+  id: string
+  title: string
+  score: number
+  source: 'bank' | 'batch'
+}
+
+// Difficulty read from the question itself, next to the level that was asked for
+export interface DifficultyEstimate {
+  // 0 (trivial) to 100 (hardest)
+  score: number
+  level: FormData['difficultyLevel']
+  requested: FormData['difficultyLevel']
+  reasons: string[]
+  // Set when the score falls outside the requested level's band
+  mismatch?: boolean
+}
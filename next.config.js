@@ -4,6 +4,10 @@ const nextConfig = {
     GEMINI_API_KEY: process.env.GEMINI_API_KEY,
     GOOGLE_SHEETS_ID: process.env.GOOGLE_SHEETS_ID,
   },
+  experimental: {
+    // The sandbox loads the TypeScript compiler at runtime to run TS solutions
+    serverComponentsExternalPackages: ['typescript'],
+  },
 }
 
 module.exports = nextConfig 
\ No newline at end of file
@@ -0,0 +1,114 @@
+import assert from 'node:assert/strict'
+import { after, before, describe, it } from 'node:test'
+import { mkdtemp, rm } from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import type { Question } from '../lib/types'
+import { hashPassword, verifyPassword } from '../lib/auth/password'
+
+type Users = typeof import('../lib/store/users')
+type Workspaces = typeof import('../lib/store/workspaces')
+type History = typeof import('../lib/store/history')
+type Auth = typeof import('../lib/auth')
+
+describe('passwords', () => {
+  it('verifies only the password that was hashed', async () => {
+    const stored = await hashPassword('correct horse')
+    assert.match(stored, /^scrypt\$[0-9a-f]{32}\$[0-9a-f]{128}$/)
+    assert.notEqual(await hashPassword('correct horse'), stored)
+    assert.ok(await verifyPassword('correct horse', stored))
+    assert.ok(!(await verifyPassword('wrong horse', stored)))
+    assert.ok(!(await verifyPassword('correct horse', 'plain$text')))
+  })
+})
+
+describe('accounts, workspaces and history', () => {
+  let base: string
+  let users: Users
+  let workspaces: Workspaces
+  let history: History
+  let auth: Auth
+
+  before(async () => {
+    base = await mkdtemp(path.join(os.tmpdir(), 'accounts-test-'))
+    process.env.DATA_DIR = base
+    process.env.HISTORY_LIMIT = '2'
+    users = await import('../lib/store/users')
+    workspaces = await import('../lib/store/workspaces')
+    history = await import('../lib/store/history')
+    auth = await import('../lib/auth')
+  })
+
+  after(async () => {
+    for (const name of ['DATA_DIR', 'HISTORY_LIMIT', 'ADMIN_EMAILS']) {
+      delete process.env[name]
+    }
+    await rm(base, { recursive: true, force: true })
+  })
+
+  const register = (name: string) =>
+    users.createUser({ name, email: ` ${name}@Example.com `, password: 'long enough' })
+
+  it('registers accounts with unique emails', async () => {
+    const ada = await register('Ada')
+    assert.equal(ada.email, 'ada@example.com')
+    assert.ok(!('passwordHash' in ada))
+    await assert.rejects(register('ADA'), /already exists/)
+    await assert.rejects(users.createUser({ name: ' ', email: 'nobody', password: 'short' }), (error: unknown) => {
+      assert.ok(error instanceof users.UserValidationError)
+      assert.equal(error.problems.length, 3)
+      return true
+    })
+  })
+
+  it('signs in with the right password and keeps sessions until sign-out', async () => {
+    const ada = await users.findUserByEmail('ADA@example.com')
+    assert.deepEqual(await users.authenticate('ada@example.com', 'long enough'), ada)
+    assert.equal(await users.authenticate('ada@example.com', 'wrong password'), undefined)
+    assert.equal(await users.authenticate('nobody@example.com', 'long enough'), undefined)
+
+    const session = await users.createSession(ada!.id)
+    const cookies = { get: (name: string) => name === auth.SESSION_COOKIE ? { value: session.token } : undefined }
+    assert.deepEqual(await auth.sessionUser({ cookies }), ada)
+    await users.deleteSession(session.token)
+    assert.equal(await auth.sessionUser({ cookies }), undefined)
+  })
+
+  it('makes nobody an admin unless ADMIN_EMAILS names them', async () => {
+    const ada = (await users.findUserByEmail('ada@example.com'))!
+    delete process.env.ADMIN_EMAILS
+    assert.ok(!auth.isAdmin(ada))
+    process.env.ADMIN_EMAILS = 'ops@example.com, ADA@example.com'
+    assert.ok(auth.isAdmin(ada))
+  })
+
+  it('shares workspaces with members only', async () => {
+    const ada = (await users.findUserByEmail('ada@example.com'))!
+    const grace = await register('Grace')
+    const team = await workspaces.createWorkspace(' Hiring ', ada.id)
+    assert.equal(team.name, 'Hiring')
+
+    assert.equal(await workspaces.changeMembership(team.id, grace.id, { add: grace.id }), undefined)
+    await workspaces.changeMembership(team.id, ada.id, { add: grace.id })
+    assert.deepEqual(await auth.questionAccess(grace), { userId: grace.id, workspaceIds: [team.id] })
+
+    await assert.rejects(workspaces.changeMembership(team.id, grace.id, { remove: ada.id }), workspaces.WorkspaceAccessError)
+    await assert.rejects(workspaces.changeMembership(team.id, ada.id, { remove: ada.id }), workspaces.WorkspaceValidationError)
+    await workspaces.changeMembership(team.id, grace.id, { remove: grace.id })
+    assert.deepEqual((await auth.questionAccess(grace)).workspaceIds, [])
+  })
+
+  it('keeps each user their own most recent history', async () => {
+    const question = { id: 'q-1-python', title: 'Sum', language: 'python' } as Question
+    for (const detail of ['first', 'second', 'third']) {
+      await history.recordHistory({ userId: 'ada', kind: 'generation', status: 'succeeded', questions: [question], detail })
+    }
+    await history.recordHistory({ userId: 'grace', kind: 'export', status: 'succeeded', questions: [], detail: 'csv' })
+
+    const entries = await history.listHistory('ada')
+    assert.deepEqual(entries.map(entry => entry.detail), ['third', 'second'])
+    assert.deepEqual(entries[0].questions, [{ id: 'q-1-python', title: 'Sum', language: 'python' }])
+    assert.deepEqual(await history.listHistory('ada', 'export'), [])
+    assert.equal(await history.getHistoryEntry('grace', entries[0].id), undefined)
+  })
+})
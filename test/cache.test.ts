@@ -0,0 +1,81 @@
+import assert from 'node:assert/strict'
+import { after, before, describe, it } from 'node:test'
+import { mkdtemp, rm } from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import type { FormData } from '../lib/types'
+import type { GenerationEvent } from '../lib/generation/pipeline'
+
+type Cache = typeof import('../lib/generation/cache')
+
+const formData: FormData = {
+  positionName: 'Software Engineer',
+  languages: ['python'],
+  problem: '',
+  hint: '',
+  type: 'write_code',
+  difficultyLevel: 'easy',
+  topic: 'Arrays',
+  count: 2,
+  provider: 'mock'
+}
+
+// Sorted, since a live run delivers questions as they finish
+const idsOf = (events: GenerationEvent[]) =>
+  events.flatMap(event => event.type === 'question' ? event.questions.map(question => question.id) : []).sort()
+
+describe('generation cache', () => {
+  let base: string
+  let cache: Cache
+
+  before(async () => {
+    base = await mkdtemp(path.join(os.tmpdir(), 'cache-test-'))
+    process.env.DATA_DIR = path.join(base, 'data')
+    process.env.SANDBOX_WORK_DIR = path.join(base, 'work')
+    // Passes the command through unchanged; the isolation itself is
+    // covered in sandbox.test.ts
+    process.env.SANDBOX_ISOLATION_COMMAND = 'env'
+    process.env.MOCK_LLM_CHUNK_DELAY_MS = '0'
+    cache = await import('../lib/generation/cache')
+  })
+
+  after(async () => {
+    for (const name of ['DATA_DIR', 'SANDBOX_WORK_DIR', 'SANDBOX_ISOLATION_COMMAND', 'MOCK_LLM_CHUNK_DELAY_MS']) {
+      delete process.env[name]
+    }
+    await rm(base, { recursive: true, force: true })
+  })
+
+  const generate = async (request: FormData, options: Parameters<Cache['cachedGenerationEvents']>[1] = {}) => {
+    const events: GenerationEvent[] = []
+    for await (const event of cache.cachedGenerationEvents(request, options)) events.push(event)
+    return events
+  }
+
+  it('keys requests by what they generate, per user', async () => {
+    const key = await cache.generationCacheKey(formData)
+    assert.equal(await cache.generationCacheKey({ ...formData, topic: '  Arrays ', duplicateHandling: 'flag' }), key)
+    assert.notEqual(await cache.generationCacheKey({ ...formData, count: 3 }), key)
+    assert.notEqual(await cache.generationCacheKey({ ...formData, promptVersion: 1 }), key)
+    assert.notEqual(await cache.generationCacheKey(formData, { userId: 'user-1', workspaceIds: [] }), key)
+  })
+
+  it('replays a finished batch', async () => {
+    const request = { ...formData, topic: 'Replay' }
+    const first = await generate(request)
+    const second = await generate(request)
+    assert.deepEqual(idsOf(second), idsOf(first))
+    assert.deepEqual(second[second.length - 1], { type: 'done', total: 2, cached: true })
+
+    const fresh = await generate(request, { forceFresh: true })
+    assert.equal(idsOf(fresh).filter(id => idsOf(first).includes(id)).length, 0)
+  })
+
+  it('shares one run between identical requests in flight', async () => {
+    const request = { ...formData, topic: 'Shared' }
+    const [a, b] = await Promise.all([generate(request), generate(request)])
+    assert.equal(idsOf(a).length, 2)
+    assert.deepEqual(idsOf(b), idsOf(a))
+    assert.ok(!b.some(event => event.type === 'done' && event.cached))
+  })
+})
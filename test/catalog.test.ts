@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict'
+import { after, before, describe, it } from 'node:test'
+import { mkdtemp, rm } from 'fs/promises'
+import os from 'os'
+import path from 'path'
+
+type Catalog = typeof import('../lib/store/catalog')
+
+describe('position catalog', () => {
+  let base: string
+  let catalog: Catalog
+
+  before(async () => {
+    base = await mkdtemp(path.join(os.tmpdir(), 'catalog-test-'))
+    process.env.DATA_DIR = base
+    catalog = await import('../lib/store/catalog')
+  })
+
+  after(async () => {
+    delete process.env.DATA_DIR
+    await rm(base, { recursive: true, force: true })
+  })
+
+  it('starts with the default positions', async () => {
+    const position = await catalog.requirePosition('  software engineer ')
+    assert.equal(position.id, 'software-engineer')
+    assert.equal(position.seniority, 'senior')
+    await assert.rejects(catalog.requirePosition('Astronaut'), catalog.UnknownPositionError)
+  })
+
+  it('validates entries, or only the fields given for an update', () => {
+    assert.deepEqual(catalog.validatePositionInput({ name: ' ', companies: [], seniority: 'principal', interviewStyle: 3 }), [
+      'name must be a non-empty string',
+      'companies must be a non-empty list of company names',
+      'seniority must be one of: entry, mid, senior',
+      'interviewStyle must be a string'
+    ])
+    assert.deepEqual(catalog.validatePositionInput({ seniority: 'mid' }, true), [])
+    assert.deepEqual(catalog.validatePositionInput({ companies: ['Acme', ''] }, true), ['companies must be a non-empty list of company names'])
+  })
+
+  it('adds positions with trimmed fields and refuses duplicate names', async () => {
+    const position = await catalog.createPosition({
+      name: ' Data Engineer ',
+      companies: [' Acme '],
+      seniority: 'mid',
+      interviewStyle: ' Pairing on a pipeline. '
+    })
+    assert.equal(position.id, 'data-engineer')
+    assert.deepEqual([position.name, position.companies, position.interviewStyle], ['Data Engineer', ['Acme'], 'Pairing on a pipeline.'])
+    assert.deepEqual(await catalog.getPosition('data-engineer'), position)
+
+    await assert.rejects(
+      catalog.createPosition({ name: 'DATA ENGINEER', companies: ['Acme'], seniority: 'mid', interviewStyle: '' }),
+      /already exists/
+    )
+    await assert.rejects(
+      catalog.createPosition({ name: 'Analyst', companies: [], seniority: 'mid', interviewStyle: '' }),
+      catalog.CatalogValidationError
+    )
+  })
+
+  it('keeps the id when a position is renamed', async () => {
+    const renamed = await catalog.updatePosition('data-engineer', { name: 'Data Platform Engineer', seniority: 'senior' })
+    assert.equal(renamed?.id, 'data-engineer')
+    assert.equal((await catalog.findPositionByName('data platform engineer'))?.seniority, 'senior')
+    await assert.rejects(catalog.updatePosition('data-engineer', { name: 'Java Developer' }), /already exists/)
+    assert.equal(await catalog.updatePosition('missing', { seniority: 'mid' }), undefined)
+  })
+
+  it('deletes positions', async () => {
+    assert.ok(await catalog.deletePosition('data-engineer'))
+    assert.ok(!(await catalog.deletePosition('data-engineer')))
+    assert.equal(await catalog.getPosition('data-engineer'), undefined)
+  })
+})
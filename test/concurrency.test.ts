@@ -0,0 +1,108 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { EventChannel, EventLog, chunk, drainQueue, mapWithConcurrency } from '../lib/generation/concurrency'
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 1))
+
+async function collect<T>(events: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = []
+  for await (const item of events) items.push(item)
+  return items
+}
+
+describe('drainQueue', () => {
+  it('keeps at most `limit` tasks in flight', async () => {
+    let running = 0
+    let most = 0
+    await drainQueue([1, 2, 3, 4, 5, 6], 2, async () => {
+      most = Math.max(most, ++running)
+      await tick()
+      running--
+    })
+    assert.equal(most, 2)
+  })
+
+  it('runs tasks added while it works', async () => {
+    const queue = [3]
+    const ran: number[] = []
+    await drainQueue(queue, 2, async task => {
+      ran.push(task)
+      await tick()
+      if (task > 1) queue.push(task - 1)
+    })
+    assert.deepEqual(ran, [3, 2, 1])
+  })
+})
+
+describe('mapWithConcurrency', () => {
+  it('keeps results in input order', async () => {
+    const results = await mapWithConcurrency([30, 10, 20], 3, async delay => {
+      await new Promise(resolve => setTimeout(resolve, delay))
+      return delay / 10
+    })
+    assert.deepEqual(results, [3, 1, 2])
+  })
+})
+
+describe('chunk', () => {
+  it('splits a list into pieces of at most `size`', () => {
+    assert.deepEqual(chunk([1, 2, 3, 4, 5], 2), [[1, 2], [3, 4], [5]])
+    assert.deepEqual(chunk([], 2), [])
+  })
+})
+
+describe('EventChannel', () => {
+  it('delivers items pushed before and while the consumer waits', async () => {
+    const channel = new EventChannel<number>()
+    channel.push(1)
+    const consumed = collect(channel)
+    await tick()
+    channel.push(2)
+    channel.close()
+    channel.push(3)
+    assert.deepEqual(await consumed, [1, 2])
+  })
+
+  it('throws the closing error after the queued items', async () => {
+    const channel = new EventChannel<number>()
+    const items: number[] = []
+    channel.push(1)
+    channel.close(new Error('call failed'))
+    await assert.rejects(async () => {
+      for await (const item of channel) items.push(item)
+    }, /call failed/)
+    assert.deepEqual(items, [1])
+  })
+})
+
+describe('EventLog', () => {
+  it('replays every event to each follower', async () => {
+    const log = new EventLog<string>()
+    log.push('a')
+    const early = collect(log.follow())
+    await tick()
+    log.push('b')
+    const late = collect(log.follow())
+    log.close()
+    assert.deepEqual(await early, ['a', 'b'])
+    assert.deepEqual(await late, ['a', 'b'])
+    assert.ok(log.finished)
+  })
+
+  it('stops a follower whose signal aborts', async () => {
+    const log = new EventLog<string>()
+    log.push('a')
+    const abort = new AbortController()
+    const following = collect(log.follow(abort.signal))
+    await tick()
+    abort.abort()
+    assert.deepEqual(await following, ['a'])
+  })
+
+  it('throws the closing error to every follower', async () => {
+    const log = new EventLog<string>()
+    log.close(new Error('batch failed'))
+    await assert.rejects(collect(log.follow()), /batch failed/)
+    await assert.rejects(collect(log.follow()), /batch failed/)
+  })
+})
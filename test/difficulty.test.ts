@@ -0,0 +1,64 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { DifficultySource, describeMiss, estimateDifficulty } from '../lib/difficulty'
+
+const editorial = (approach: string, timeComplexity: string) =>
+  ({ approach, timeComplexity, spaceComplexity: 'O(1)', alternatives: [], pitfalls: ['None'] })
+
+const easy: DifficultySource = {
+  title: 'Total',
+  problemStatement: 'Print the sum of the N numbers given on one line.',
+  constraints: '1 <= N <= 100',
+  referenceSolution: { language: 'python', code: 'input()\nprint(sum(map(int, input().split())))' },
+  editorial: editorial('Add the numbers up.', 'O(N)')
+}
+
+const hard: DifficultySource = {
+  title: 'Range Updates',
+  problemStatement: 'Apply Q range additions to an array of N numbers and answer range minimum queries between them.',
+  constraints: '1 <= N <= 10^5\n1 <= Q <= 10^5',
+  referenceSolution: { language: 'python', code: '# segment tree\n' },
+  editorial: editorial('A segment tree with lazy propagation.', 'O(N log N)')
+}
+
+describe('estimateDifficulty', () => {
+  it('reads a plain loop over small inputs as easy', () => {
+    assert.deepEqual(estimateDifficulty(easy, 'easy'), {
+      score: 19,
+      level: 'easy',
+      requested: 'easy',
+      reasons: ['expects O(N) time', 'inputs up to 100', '11-word statement']
+    })
+  })
+
+  it('reads range-query structures over large inputs as hard', () => {
+    const estimate = estimateDifficulty(hard, 'hard')
+    assert.equal(estimate.level, 'hard')
+    assert.equal(estimate.reasons[0], 'uses range-query structure')
+    assert.equal(estimate.reasons[2], 'inputs up to 100,000')
+    assert.equal(estimate.mismatch, undefined)
+  })
+
+  it('flags scores outside the requested band', () => {
+    assert.equal(estimateDifficulty(easy, 'hard').mismatch, true)
+    assert.equal(estimateDifficulty(hard, 'easy').mismatch, true)
+  })
+
+  it('reweights the signals it can read', () => {
+    const bare = {
+      title: 'Story',
+      problemStatement: 'word '.repeat(240),
+      constraints: 'The input fits in memory.',
+      referenceSolution: { language: 'python', code: 'for line in lines: print(line)' }
+    }
+    const estimate = estimateDifficulty(bare, 'medium')
+    assert.deepEqual([estimate.score, estimate.level, estimate.reasons], [40, 'medium', ['240-word statement']])
+  })
+
+  it('describes a miss in one line', () => {
+    assert.equal(
+      describeMiss('Total', estimateDifficulty(easy, 'hard')),
+      '"Total" read as easy (19/100: expects O(N) time, inputs up to 100, 11-word statement)'
+    )
+  })
+})
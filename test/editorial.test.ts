@@ -0,0 +1,62 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import type { Editorial } from '../lib/types'
+import { formatEditorial, parseAlternatives, parseEditorial, parsePitfalls } from '../lib/editorial'
+
+const editorial: Editorial = {
+  approach: 'Sort the intervals by start.\n\nThen merge each one into the last kept interval when they overlap.',
+  timeComplexity: 'O(N log N)',
+  spaceComplexity: 'O(N)',
+  alternatives: [{ approach: 'Mark every covered point\non a line', timeComplexity: 'O(N + M)', spaceComplexity: 'O(M)' }],
+  pitfalls: ['Forgetting touching intervals', 'Not sorting first']
+}
+
+describe('editorial text', () => {
+  it('writes each part under its heading', () => {
+    assert.equal(formatEditorial(editorial), [
+      'Approach:',
+      editorial.approach,
+      '',
+      'Complexity:',
+      'Time: O(N log N)',
+      'Space: O(N)',
+      '',
+      'Alternatives:',
+      '- Mark every covered point on a line (time O(N + M), space O(M))',
+      '',
+      'Pitfalls:',
+      '- Forgetting touching intervals',
+      '- Not sorting first'
+    ].join('\n'))
+    assert.equal(formatEditorial(undefined), '')
+  })
+
+  it('reads back what it writes, with list items on one line', () => {
+    assert.deepEqual(parseEditorial(formatEditorial(editorial)), {
+      ...editorial,
+      alternatives: [{ ...editorial.alternatives[0], approach: 'Mark every covered point on a line' }]
+    })
+  })
+
+  it('leaves out empty lists', () => {
+    const bare = { ...editorial, alternatives: [], pitfalls: [] }
+    assert.doesNotMatch(formatEditorial(bare), /Alternatives:|Pitfalls:/)
+    assert.deepEqual(parseEditorial(formatEditorial(bare)), bare)
+  })
+
+  it('reads cells edited by hand', () => {
+    assert.equal(parseEditorial('  \n'), undefined)
+    assert.deepEqual(parseEditorial('Use two pointers.\nPitfalls:\n  - Off by one\nEmpty input'), {
+      approach: 'Use two pointers.',
+      timeComplexity: '',
+      spaceComplexity: '',
+      alternatives: [],
+      pitfalls: ['Off by one', 'Empty input']
+    })
+    assert.deepEqual(parseAlternatives('- Brute force\n- Heap (time O(N log K), space O(K))'), [
+      { approach: 'Brute force', timeComplexity: '', spaceComplexity: '' },
+      { approach: 'Heap', timeComplexity: 'O(N log K)', spaceComplexity: 'O(K)' }
+    ])
+    assert.deepEqual(parsePitfalls('\n- One\n\nTwo\n'), ['One', 'Two'])
+  })
+})
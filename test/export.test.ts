@@ -0,0 +1,127 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { inflateRawSync } from 'zlib'
+import type { Question } from '../lib/types'
+import { parseCsv } from '../lib/csv'
+import { exportQuestions, isExportFormat, slugify } from '../lib/export'
+import { createZip } from '../lib/export/zip'
+
+// Reads a zip back through its central directory
+function unzip(archive: Buffer): Map<string, Buffer> {
+  const files = new Map<string, Buffer>()
+  const end = archive.length - 22
+  assert.equal(archive.readUInt32LE(end), 0x06054b50)
+  let at = archive.readUInt32LE(end + 16)
+  for (let i = 0; i < archive.readUInt16LE(end + 10); i++) {
+    assert.equal(archive.readUInt32LE(at), 0x02014b50)
+    const nameLength = archive.readUInt16LE(at + 28)
+    const name = archive.subarray(at + 46, at + 46 + nameLength).toString('utf8')
+    const local = archive.readUInt32LE(at + 42)
+    const start = local + 30 + archive.readUInt16LE(local + 26)
+    files.set(name, inflateRawSync(archive.subarray(start, start + archive.readUInt32LE(at + 20))))
+    at += 46 + nameLength
+  }
+  return files
+}
+
+const variant = (language: string, code: string): Question => ({
+  id: `question-1-0-${language}`,
+  title: 'Two Sum & <Friends>',
+  problemStatement: 'Find two numbers that add up to the target.',
+  inputFormat: 'N, then N numbers, then the target.',
+  outputFormat: 'The two indices.',
+  constraints: '2 <= N <= 10^4',
+  sampleInput: '4\n2 7 11 15\n9',
+  sampleOutput: '0 1',
+  language,
+  implementation: code,
+  hints: [{ level: 'nudge', text: 'Remember what you have seen.' }],
+  editorial: {
+    approach: 'One pass with a hash map.',
+    timeComplexity: 'O(N)',
+    spaceComplexity: 'O(N)',
+    alternatives: [],
+    pitfalls: ['Using the same element twice']
+  },
+  referenceSolution: { language: 'python', code: 'print("0 1")' },
+  tests: [
+    { input: '4\n2 7 11 15\n9', expectedOutput: '0 1', kind: 'sample', description: 'Sample' },
+    { input: '2\n3 3\n6', expectedOutput: '0 1', kind: 'edge', description: 'Equal values' }
+  ]
+})
+
+const questions = [variant('python', 'def two_sum(nums, target):\n    pass'), variant('go', 'func twoSum() {}')]
+const context = { positionName: 'Backend Engineer', topic: 'Hashing', difficultyLevel: 'easy' as const }
+
+describe('exportQuestions', () => {
+  it('knows its formats', () => {
+    assert.ok(isExportFormat('domjudge'))
+    assert.ok(!isExportFormat('pdf'))
+    assert.equal(slugify('Two Sum & <Friends>'), 'two-sum-friends')
+    assert.equal(slugify('???'), 'problem')
+  })
+
+  it('folds language variants into one markdown problem', () => {
+    const file = exportQuestions(questions, 'markdown', context, { name: 'paper' })
+    const body = String(file.body)
+    assert.equal(file.filename, 'paper.md')
+    assert.equal(body.match(/^# Two Sum/gm)?.length, 1)
+    assert.match(body, /\*Easy · Hashing · Backend Engineer\*/)
+    assert.match(body, /### Python\n\n```python\ndef two_sum/)
+    assert.match(body, /### Go\n\n```go\nfunc twoSum/)
+    assert.match(body, /## Editorial\n\n### Intended Approach\n\nOne pass with a hash map\./)
+  })
+
+  it('escapes html', () => {
+    const body = String(exportQuestions(questions, 'html', context).body)
+    assert.match(body, /<title>Two Sum &amp; &lt;Friends&gt;<\/title>/)
+    assert.ok(!body.includes('<Friends>'))
+  })
+
+  it('keeps one csv row per variant', () => {
+    const [header, ...rows] = parseCsv(String(exportQuestions(questions, 'csv', context).body))
+    assert.deepEqual(rows.map(row => row[header.indexOf('language')]), ['python', 'go'])
+    assert.equal(rows[0][header.indexOf('template')], 'def two_sum(nums, target):\n    pass')
+    assert.equal(rows[0][header.indexOf('hiddenTests')], '2')
+  })
+
+  it('packages problems for HackerRank', () => {
+    const files = unzip(exportQuestions(questions, 'hackerrank', context).body as Buffer)
+    assert.deepEqual(Array.from(files.keys()), [
+      'two-sum-friends/statement.md',
+      'two-sum-friends/testcases.zip',
+      'two-sum-friends/metadata.json',
+      'two-sum-friends/templates/python.py',
+      'two-sum-friends/templates/go.go',
+      'two-sum-friends/editorial.md'
+    ])
+    const testcases = unzip(files.get('two-sum-friends/testcases.zip')!)
+    assert.deepEqual(Array.from(testcases.keys()), ['input/input00.txt', 'output/output00.txt', 'input/input01.txt', 'output/output01.txt'])
+    assert.equal(testcases.get('input/input01.txt')?.toString(), '2\n3 3\n6\n')
+    assert.ok(!files.get('two-sum-friends/statement.md')?.toString().includes('hash map'))
+  })
+
+  it('packages problems for DOMjudge', () => {
+    const files = unzip(exportQuestions(questions, 'domjudge', context).body as Buffer)
+    assert.equal(files.get('two-sum-friends/problem.yaml')?.toString(), 'name: "Two Sum & <Friends>"\n')
+    assert.equal(files.get('two-sum-friends/data/sample/1.ans')?.toString(), '0 1\n')
+    assert.equal(files.get('two-sum-friends/data/secret/01.in')?.toString(), '2\n3 3\n6\n')
+    assert.equal(files.get('two-sum-friends/submissions/accepted/reference.py')?.toString(), 'print("0 1")\n')
+    assert.doesNotMatch(files.get('two-sum-friends/problem_statement/problem.md')!.toString(), /Function Templates/)
+  })
+
+  it('gives problems with the same title distinct folders', () => {
+    const other = { ...questions[0], id: 'question-1-1-python' }
+    const files = unzip(exportQuestions([questions[0], other], 'domjudge', context).body as Buffer)
+    assert.ok(files.has('two-sum-friends-2/problem.yaml'))
+  })
+})
+
+describe('createZip', () => {
+  it('round-trips utf-8 names and binary content', () => {
+    const binary = Buffer.from([0, 255, 1, 254])
+    const files = unzip(createZip([{ path: 'naïve/ü.txt', content: 'héllo' }, { path: 'data.bin', content: binary }]))
+    assert.equal(files.get('naïve/ü.txt')?.toString(), 'héllo')
+    assert.deepEqual(files.get('data.bin'), binary)
+  })
+})
@@ -0,0 +1,83 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { HINT_REWRITE_MARKER, HintSource, checkHints, isLeaking, scoreHintLeak } from '../lib/hints'
+import { MockProvider } from '../lib/llm/mock'
+import type { Fixture } from '../lib/llm/fixtures'
+
+const context = {
+  signature: { functionName: 'maxProfit', parameters: [{ name: 'prices', type: 'int[]' }], returnType: 'int' },
+  referenceSolution: {
+    language: 'python',
+    code: 'best = 0\nlow = prices[0]\nfor price in prices:\n    low = min(low, price)\n    best = max(best, price - low)\nprint(best)'
+  }
+}
+
+const source: HintSource = {
+  ...context,
+  title: 'Best Time to Sell',
+  problemStatement: 'Find the largest profit from one buy and one later sell.',
+  hints: {
+    nudge: 'What is the cheapest day you could have bought on before today?',
+    approach: 'Track the lowest price so far; each day, selling today is the only candidate worth checking.',
+    nearSolution: 'Walk through the days once, remembering the lowest price seen and the best profit so far, and update both each day.'
+  }
+}
+
+const REWRITTEN = 'Think about which earlier day would have been the best one to buy on.'
+
+const REWRITE: Fixture = { name: 'hint-rewrite', description: 'A clean hint', match: HINT_REWRITE_MARKER, response: { hint: REWRITTEN } }
+
+describe('scoreHintLeak', () => {
+  it('passes plain prose, complexities included', () => {
+    for (const [level, text] of Object.entries(source.hints)) {
+      assert.deepEqual(scoreHintLeak(text, level as keyof typeof source.hints, context), { score: 0, reasons: [] })
+    }
+    assert.equal(scoreHintLeak('It runs in O(n) time; one pass is enough.', 'approach').score, 0)
+  })
+
+  it('flags code, the function name and copied reference lines', () => {
+    const declaration = scoreHintLeak('Start with def maxProfit(prices): and go from there.', 'nudge', context)
+    assert.ok(isLeaking(declaration))
+    assert.ok(declaration.reasons.includes('contains a declaration'))
+    assert.ok(declaration.reasons.includes('names the function candidates implement'))
+
+    const copied = scoreHintLeak('Keep best = max(best, price - low) as you go.', 'nearSolution', context)
+    assert.ok(copied.reasons.includes('repeats code from the reference solution'))
+    assert.equal(copied.score, 1)
+  })
+
+  it('leaves numbered steps and longer text to the near-solution', () => {
+    const steps = '1. Remember the lowest price.\n2. Compare each day against it.'
+    assert.ok(scoreHintLeak(steps, 'nudge').reasons.includes('spells out the solution step by step'))
+    assert.equal(scoreHintLeak(steps, 'nearSolution').score, 0)
+    assert.match(scoreHintLeak('word '.repeat(40), 'nudge').reasons[0], /25-word budget for a nudge hint/)
+  })
+})
+
+describe('checkHints', () => {
+  it('keeps hints that do not leak without asking the model', async () => {
+    const checked = await checkHints(new MockProvider([]), source)
+    assert.deepEqual(checked, { hints: source.hints, leaks: {} })
+  })
+
+  it('replaces a leaking hint with a cleaner rewrite', async () => {
+    const leaky = { ...source, hints: { ...source.hints, nudge: 'Use `min(low, price)` in a for (price of prices) loop.' } }
+    const checked = await checkHints(new MockProvider([REWRITE]), leaky)
+    assert.equal(checked.hints.nudge, REWRITTEN)
+    assert.equal(checked.hints.approach, source.hints.approach)
+    assert.deepEqual(checked.leaks, {})
+  })
+
+  it('flags a hint that still leaks when it cannot be rewritten', async () => {
+    const leaky = { ...source, hints: { ...source.hints, approach: 'Call maxProfit(prices) and return best.' } }
+    const errors = console.error
+    console.error = () => undefined
+    try {
+      const checked = await checkHints(new MockProvider([]), leaky)
+      assert.equal(checked.hints.approach, leaky.hints.approach)
+      assert.ok(checked.leaks.approach && isLeaking(checked.leaks.approach))
+    } finally {
+      console.error = errors
+    }
+  })
+})
@@ -0,0 +1,48 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { QuestionStreamParser } from '../lib/generation/jsonStream'
+
+const QUESTIONS = [
+  { title: 'Braces { and [ in text', tags: ['a', 'b'], nested: { depth: [1, { deeper: true }] } },
+  { title: 'Escaped \\" quote and \\\\ backslash }', sampleInput: '1\n2' },
+  { title: 'Third' }
+]
+
+const payload = `\`\`\`json\n${JSON.stringify({ questions: QUESTIONS }, null, 2)}\n\`\`\``
+
+// Feeds `text` to a parser in pieces of `size` characters
+function parseInChunks(text: string, size: number): unknown[] {
+  const parser = new QuestionStreamParser()
+  const found: unknown[] = []
+  for (let i = 0; i < text.length; i += size) {
+    found.push(...parser.push(text.slice(i, i + size)))
+  }
+  return found
+}
+
+describe('QuestionStreamParser', () => {
+  it('returns every question whatever the chunk size', () => {
+    for (const size of [1, 7, 64, payload.length]) {
+      assert.deepEqual(parseInChunks(payload, size), QUESTIONS, `chunks of ${size}`)
+    }
+  })
+
+  it('returns each question as soon as it is complete', () => {
+    const parser = new QuestionStreamParser()
+    const firstEnd = payload.indexOf('\n    },') + '\n    }'.length
+    assert.deepEqual(parser.push(payload.slice(0, firstEnd - 1)), [])
+    assert.deepEqual(parser.push(payload.slice(firstEnd - 1, firstEnd)), [QUESTIONS[0]])
+    assert.deepEqual(parser.push(payload.slice(firstEnd)), QUESTIONS.slice(1))
+  })
+
+  it('skips prose before the payload', () => {
+    const parser = new QuestionStreamParser()
+    assert.deepEqual(parser.push('Sure! Here is the [JSON] list:\n'), [])
+    assert.deepEqual(parser.push('{"questions": [{"title": "Only"}]}'), [{ title: 'Only' }])
+  })
+
+  it('hands back malformed questions as text', () => {
+    const parser = new QuestionStreamParser()
+    assert.deepEqual(parser.push('{"questions": [{"title": "Broken",}, {"title": "Fine"}]}'), ['{"title": "Broken",}', { title: 'Fine' }])
+  })
+})
@@ -0,0 +1,97 @@
+import assert from 'node:assert/strict'
+import { after, before, describe, it } from 'node:test'
+import { LLMProviderError, UnknownProviderError, getProvider, isProviderName } from '../lib/llm'
+import { MockProvider } from '../lib/llm/mock'
+import type { Fixture } from '../lib/llm/fixtures'
+
+const FIXTURES: Fixture[] = [
+  { name: 'template', description: 'A template', match: 'SINGLE LANGUAGE TEMPLATE', response: { implementation: 'def solve(): pass' } },
+  { name: 'plain', description: 'Plain text', match: 'PLAIN', response: 'just text' },
+  {
+    name: 'questions',
+    description: 'Three questions',
+    response: { questions: [{ title: 'First' }, { title: 'Second' }, { title: 'Third' }] }
+  }
+]
+
+const titlesOf = (text: string) => (JSON.parse(text).questions as { title: string }[]).map(question => question.title)
+
+describe('MockProvider', () => {
+  const provider = new MockProvider(FIXTURES)
+
+  before(() => {
+    process.env.MOCK_LLM_CHUNK_DELAY_MS = '0'
+  })
+
+  after(() => {
+    delete process.env.MOCK_LLM_CHUNK_DELAY_MS
+  })
+
+  it('answers with the first fixture whose match is in the prompt', async () => {
+    assert.deepEqual(JSON.parse(await provider.complete('SINGLE LANGUAGE TEMPLATE for python')), { implementation: 'def solve(): pass' })
+    assert.equal(await provider.complete('PLAIN please'), 'just text')
+  })
+
+  it('falls back to the fixture without a match', async () => {
+    assert.deepEqual(titlesOf(await provider.complete('Write some questions')), ['First', 'Second', 'Third'])
+  })
+
+  it('uses the fixture named by the model', async () => {
+    assert.equal(await provider.complete('SINGLE LANGUAGE TEMPLATE', { model: 'plain' }), 'just text')
+    await assert.rejects(provider.complete('anything', { model: 'missing' }), LLMProviderError)
+  })
+
+  it('fits questions to the count, batch slot and avoid list in the prompt', async () => {
+    assert.deepEqual(titlesOf(await provider.complete('"questions" must contain exactly 2 objects')), ['First', 'Second'])
+    assert.deepEqual(
+      titlesOf(await provider.complete('You are writing questions 3-5 of 5. "questions" must contain exactly 2 objects')),
+      ['Third', 'First']
+    )
+    assert.deepEqual(
+      titlesOf(await provider.complete('Avoid: First. "questions" must contain exactly 2 objects')),
+      ['Second', 'Third']
+    )
+  })
+
+  it('streams the same text it completes', async () => {
+    const prompt = '"questions" must contain exactly 3 objects'
+    const chunks: string[] = []
+    for await (const chunk of provider.stream(prompt)) chunks.push(chunk)
+    assert.equal(chunks.join(''), await provider.complete(prompt))
+  })
+
+  it('stops streaming once aborted', async () => {
+    const abort = new AbortController()
+    abort.abort()
+    const chunks: string[] = []
+    for await (const chunk of provider.stream('Write some questions', { signal: abort.signal })) chunks.push(chunk)
+    assert.deepEqual(chunks, [])
+  })
+
+  it('fails when no fixture answers the prompt', async () => {
+    await assert.rejects(new MockProvider([FIXTURES[0]]).complete('Write some questions'), /No fixture matches the prompt/)
+  })
+})
+
+describe('getProvider', () => {
+  it('resolves provider names and reuses instances', () => {
+    const provider = getProvider('mock')
+    assert.equal(provider.name, 'mock')
+    assert.equal(getProvider('mock'), provider)
+  })
+
+  it('rejects unknown providers', () => {
+    assert.ok(!isProviderName('claude'))
+    assert.throws(() => getProvider('claude'), UnknownProviderError)
+  })
+})
+
+describe('LLMProviderError', () => {
+  it('treats rate limits and server errors as transient', () => {
+    assert.ok(new LLMProviderError('openai', 'Too many requests', 429).transient)
+    assert.ok(new LLMProviderError('openai', 'Bad gateway', 502).transient)
+    assert.ok(!new LLMProviderError('openai', 'Bad request', 400).transient)
+    assert.ok(!new LLMProviderError('openai', 'No content').transient)
+    assert.ok(new LLMProviderError('openai', 'Connection reset', undefined, true).transient)
+  })
+})
@@ -0,0 +1,93 @@
+import assert from 'node:assert/strict'
+import { after, before, describe, it } from 'node:test'
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { formatCsv, parseCsv } from '../lib/csv'
+import { LocalSheetStorage, SheetStorageError, UnknownSheetStorageError, getSheetStorage } from '../lib/sheets'
+
+describe('csv', () => {
+  it('quotes only the cells that need it', () => {
+    assert.equal(formatCsv([['a', 'b,c'], ['say "hi"', 'two\nlines']]), 'a,"b,c"\r\n"say ""hi""","two\nlines"\r\n')
+  })
+
+  it('round-trips cells with quotes, commas and line breaks', () => {
+    const rows = [['id', 'text'], ['1', 'a "quoted", multi\r\nline cell'], ['2', '']]
+    assert.deepEqual(parseCsv(formatCsv(rows)), rows)
+  })
+
+  it('reads files with or without a final line break', () => {
+    assert.deepEqual(parseCsv('a,b\nc,d'), [['a', 'b'], ['c', 'd']])
+    assert.deepEqual(parseCsv('a,b\n'), [['a', 'b']])
+    assert.deepEqual(parseCsv(''), [])
+  })
+})
+
+describe('LocalSheetStorage', () => {
+  let directory: string
+
+  before(async () => {
+    directory = await mkdtemp(path.join(os.tmpdir(), 'local-sheets-test-'))
+  })
+
+  after(async () => {
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it('keeps one csv file per tab', async () => {
+    const storage = new LocalSheetStorage(directory)
+    assert.deepEqual(await storage.listTabs(), [])
+    await storage.addTab('Backend Engineer')
+    await storage.appendRows('Backend Engineer', [['Question ID', 'Title'], ['q-1', 'Sum, again']])
+    assert.deepEqual(await storage.listTabs(), ['Backend Engineer'])
+    assert.equal(await readFile(path.join(directory, 'Backend Engineer.csv'), 'utf8'), 'Question ID,Title\r\nq-1,"Sum, again"\r\n')
+  })
+
+  it('overwrites cells in place, leaving null cells and growing rows as needed', async () => {
+    const storage = new LocalSheetStorage(directory)
+    await storage.appendRows('Grid', [['a', 'b', 'c']])
+    await storage.writeRows('Grid', [{ row: 1, values: [null, 'B'] }, { row: 3, values: [null, null, 'x'] }])
+    assert.deepEqual(await storage.readRows('Grid'), [['a', 'B', 'c'], [''], ['', '', 'x']])
+  })
+
+  it('appends after the last row with content and drops trailing empty cells', async () => {
+    await writeFile(path.join(directory, 'Padded.csv'), 'a,b,,\r\n,,\r\n,\r\n')
+    const storage = new LocalSheetStorage(directory)
+    await storage.appendRows('Padded', [['c', null, '']])
+    assert.deepEqual(await storage.readRows('Padded'), [['a', 'b'], ['c']])
+  })
+
+  it('serialises concurrent writes to the same tab', async () => {
+    const storage = new LocalSheetStorage(directory)
+    await Promise.all(Array.from({ length: 10 }, (_, i) => storage.appendRows('Busy', [[`row ${i}`]])))
+    assert.equal((await storage.readRows('Busy')).length, 10)
+  })
+})
+
+describe('getSheetStorage', () => {
+  const names = ['SHEETS_STORAGE', 'GOOGLE_SHEETS_CLIENT_EMAIL', 'GOOGLE_SHEETS_PRIVATE_KEY', 'LOCAL_SHEETS_DIR']
+  const saved = Object.fromEntries(names.map(name => [name, process.env[name]]))
+
+  before(() => {
+    names.forEach(name => delete process.env[name])
+    process.env.LOCAL_SHEETS_DIR = path.join(os.tmpdir(), 'local-sheets-unused')
+  })
+
+  after(() => {
+    for (const name of names) {
+      if (saved[name] === undefined) delete process.env[name]
+      else process.env[name] = saved[name]
+    }
+  })
+
+  it('falls back to the local workbook without Google credentials', () => {
+    const storage = getSheetStorage()
+    assert.equal(storage.name, 'local')
+    assert.equal(storage.location, process.env.LOCAL_SHEETS_DIR)
+  })
+
+  it('refuses Google Sheets without credentials and unknown backends', () => {
+    assert.throws(() => getSheetStorage('google'), SheetStorageError)
+    assert.throws(() => getSheetStorage('excel'), UnknownSheetStorageError)
+  })
+})
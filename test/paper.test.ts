@@ -0,0 +1,128 @@
+import assert from 'node:assert/strict'
+import { after, before, describe, it } from 'node:test'
+import { mkdtemp, rm } from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { Question, baseIdOf } from '../lib/types'
+import type { DifficultyLevel } from '../lib/difficulty'
+import { estimateSolveMinutes } from '../lib/paper/timing'
+
+import type { PaperBlueprint } from '../lib/paper'
+
+type PaperModule = typeof import('../lib/paper')
+type Bank = typeof import('../lib/store/questionBank')
+
+const question = (id: string, title: string, score: number, level: DifficultyLevel = 'easy'): Question => ({
+  id,
+  title,
+  problemStatement: 'Read the numbers and print the answer.',
+  inputFormat: 'N numbers',
+  outputFormat: 'One number',
+  constraints: '1 <= N <= 10',
+  sampleInput: '1 2',
+  sampleOutput: '3',
+  language: 'python',
+  difficultyEstimate: { level, score, requested: level, reasons: [] }
+})
+
+describe('estimateSolveMinutes', () => {
+  it('grows with the difficulty score, rounded up to five minutes', () => {
+    assert.equal(estimateSolveMinutes(question('a-python', 'A', 20), 'easy', 'complete_code'), 20)
+    assert.equal(estimateSolveMinutes(question('a-python', 'A', 80), 'hard', 'complete_code'), 45)
+  })
+
+  it('adds time for writing the whole program', () => {
+    assert.equal(estimateSolveMinutes(question('a-python', 'A', 20), 'easy', 'write_code'), 25)
+  })
+
+  it('estimates questions saved without a difficulty estimate', () => {
+    const { difficultyEstimate, ...unestimated } = question('a-python', 'A', 0)
+    assert.equal(estimateSolveMinutes(unestimated, 'easy', 'complete_code') % 5, 0)
+  })
+})
+
+describe('baseIdOf', () => {
+  it('strips the language from variant ids only', () => {
+    assert.equal(baseIdOf({ id: 'question-1-0-python', language: 'python' }), 'question-1-0')
+    assert.equal(baseIdOf({ id: 'sheet-row-2-question' }), 'sheet-row-2-question')
+  })
+})
+
+describe('buildPaper', () => {
+  let base: string
+  let paper: PaperModule
+  let bank: Bank
+
+  before(async () => {
+    base = await mkdtemp(path.join(os.tmpdir(), 'paper-test-'))
+    process.env.DATA_DIR = path.join(base, 'data')
+    process.env.SANDBOX_WORK_DIR = path.join(base, 'work')
+    // Passes the command through unchanged; the isolation itself is
+    // covered in sandbox.test.ts
+    process.env.SANDBOX_ISOLATION_COMMAND = 'env'
+    process.env.MOCK_LLM_CHUNK_DELAY_MS = '0'
+    paper = await import('../lib/paper')
+    bank = await import('../lib/store/questionBank')
+
+    const saved = { positionName: 'Software Engineer', type: 'complete_code' } as const
+    await bank.saveQuestions([question('quick-python', 'Quick Sum', 10), question('longer-python', 'Longer Sum', 30)], {
+      ...saved, topic: 'Arrays', difficultyLevel: 'easy'
+    })
+    await bank.saveQuestions([question('words-python', 'Count Words', 50, 'medium')], { ...saved, topic: 'Strings', difficultyLevel: 'medium' })
+  })
+
+  after(async () => {
+    for (const name of ['DATA_DIR', 'SANDBOX_WORK_DIR', 'SANDBOX_ISOLATION_COMMAND', 'MOCK_LLM_CHUNK_DELAY_MS']) {
+      delete process.env[name]
+    }
+    await rm(base, { recursive: true, force: true })
+  })
+
+  const blueprint: Omit<PaperBlueprint, 'slots'> = {
+    positionName: 'Software Engineer',
+    languages: ['python'],
+    type: 'complete_code',
+    timeBudgetMinutes: 60,
+    provider: 'mock'
+  }
+
+  it('picks bank questions that fit the time budget, easiest first', async () => {
+    const draft = await paper.buildPaper({
+      ...blueprint,
+      source: 'bank',
+      slots: [{ topic: 'Strings', difficultyLevel: 'medium', count: 1 }, { topic: 'Arrays', difficultyLevel: 'easy', count: 1 }]
+    })
+    assert.deepEqual(draft.questions.map(placed => [placed.variants[0].title, placed.slot, placed.estimatedMinutes]), [
+      ['Longer Sum', 1, 25],
+      ['Count Words', 0, 30]
+    ])
+    assert.equal(draft.estimatedMinutes, 55)
+    assert.deepEqual(draft.shortfalls, [])
+    assert.equal(draft.title, 'Software Engineer paper (60 min)')
+  })
+
+  it('reports slots the bank cannot fill', async () => {
+    const draft = await paper.buildPaper({ ...blueprint, source: 'bank', slots: [{ topic: 'Arrays', difficultyLevel: 'easy', count: 3 }] })
+    assert.equal(draft.questions.length, 2)
+    assert.deepEqual(draft.shortfalls, [{ slot: 0, missing: 1 }])
+  })
+
+  it('generates what the bank lacks', async () => {
+    const draft = await paper.buildPaper({ ...blueprint, slots: [{ topic: 'Strings', difficultyLevel: 'medium', count: 2 }] })
+    assert.deepEqual(draft.questions.map(placed => placed.source).sort(), ['bank', 'generated'])
+    assert.deepEqual(draft.shortfalls, [])
+  })
+
+  it('exports the paper with a title page and per-question times', async () => {
+    const draft = await paper.buildPaper({
+      ...blueprint,
+      title: 'Onsite Round',
+      source: 'bank',
+      slots: [{ topic: 'Arrays', difficultyLevel: 'easy', count: 1 }]
+    })
+    const saved = { ...draft, id: 'paper-1', ownerId: 'ada', createdAt: '' }
+    const file = paper.exportPaper(saved, 'markdown')
+    assert.equal(file.filename, 'onsite-round.md')
+    assert.match(String(file.body), /^# Onsite Round\n\n\*1 question, about 25 of 60 minutes\*\n\n1\. Longer Sum \(Easy · Arrays · Software Engineer · ~25 min\)/)
+  })
+})
@@ -0,0 +1,95 @@
+import assert from 'node:assert/strict'
+import { after, before, describe, it } from 'node:test'
+import { mkdtemp, rm } from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import type { FormData } from '../lib/types'
+import type { GenerationEvent } from '../lib/generation/pipeline'
+
+type Pipeline = typeof import('../lib/generation/pipeline')
+
+const formData: FormData = {
+  positionName: 'Software Engineer',
+  languages: ['python', 'javascript'],
+  problem: '',
+  hint: '',
+  type: 'complete_code',
+  difficultyLevel: 'easy',
+  topic: 'Arrays',
+  count: 3,
+  provider: 'mock'
+}
+
+describe('generating a batch with the mock provider', () => {
+  let base: string
+  let pipeline: Pipeline
+
+  before(async () => {
+    base = await mkdtemp(path.join(os.tmpdir(), 'pipeline-test-'))
+    process.env.DATA_DIR = path.join(base, 'data')
+    process.env.SANDBOX_WORK_DIR = path.join(base, 'work')
+    // Passes the command through unchanged; the isolation itself is
+    // covered in sandbox.test.ts
+    process.env.SANDBOX_ISOLATION_COMMAND = 'env'
+    process.env.MOCK_LLM_CHUNK_DELAY_MS = '0'
+    pipeline = await import('../lib/generation/pipeline')
+  })
+
+  after(async () => {
+    for (const name of ['DATA_DIR', 'SANDBOX_WORK_DIR', 'SANDBOX_ISOLATION_COMMAND', 'MOCK_LLM_CHUNK_DELAY_MS']) {
+      delete process.env[name]
+    }
+    await rm(base, { recursive: true, force: true })
+  })
+
+  const generate = async (request: FormData) => {
+    const events: GenerationEvent[] = []
+    for await (const event of pipeline.generateQuestionEvents(request)) events.push(event)
+    return events
+  }
+
+  it('delivers the requested number of questions, one variant per language', async () => {
+    const events = await generate(formData)
+    const delivered = events.filter(event => event.type === 'question')
+    assert.equal(delivered.length, 3)
+    assert.deepEqual(events[events.length - 1], { type: 'done', total: 3 })
+
+    const batch = new pipeline.BatchCollector()
+    events.forEach(event => batch.add(event))
+    const groups = batch.groups()
+    assert.equal(groups.length, 3)
+    for (const variants of groups) {
+      assert.deepEqual(variants.map(question => question.language), ['python', 'javascript'])
+      assert.ok(variants.every(question => question.implementation && question.signature))
+    }
+    assert.equal(new Set(groups.map(variants => variants[0].title)).size, 3)
+  })
+
+  it('verifies samples and attaches hidden tests', async () => {
+    const batch = new pipeline.BatchCollector()
+    ;(await generate({ ...formData, count: 1 })).forEach(event => batch.add(event))
+    const [question] = batch.questions()
+    assert.equal(question.verification?.status, 'verified', question.verification?.error)
+    assert.equal(question.tests?.[0].kind, 'sample')
+    assert.ok((question.tests?.length ?? 0) > 1)
+  })
+
+  it('never reuses question ids across concurrent batches', async () => {
+    const batches = await Promise.all([generate(formData), generate(formData)])
+    const ids = batches.flatMap(events => {
+      const batch = new pipeline.BatchCollector()
+      events.forEach(event => batch.add(event))
+      return batch.questions().map(question => question.id)
+    })
+    assert.equal(ids.length, 12)
+    assert.equal(new Set(ids).size, ids.length)
+  })
+
+  it('stops when the request is cancelled', async () => {
+    const abort = new AbortController()
+    abort.abort()
+    const events: GenerationEvent[] = []
+    for await (const event of pipeline.generateQuestionEvents(formData, { signal: abort.signal })) events.push(event)
+    assert.equal(events.filter(event => event.type === 'question').length, 0)
+  })
+})
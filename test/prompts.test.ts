@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict'
+import { after, before, describe, it } from 'node:test'
+import { mkdtemp, rm } from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { renderPrompt } from '../lib/prompts/render'
+
+type Prompts = typeof import('../lib/prompts')
+
+describe('renderPrompt', () => {
+  it('inserts variables and keeps sections by whether they are set', () => {
+    const body = 'Write {{count}} questions.\n{{#topic}}\nTopic: {{topic}}\n{{/topic}}\n{{^topic}}\nAny topic.\n{{/topic}}\nDone.'
+    assert.equal(renderPrompt(body, { count: 3, topic: 'Graphs' }), 'Write 3 questions.\nTopic: Graphs\nDone.')
+    assert.equal(renderPrompt(body, { count: 3, topic: '' }), 'Write 3 questions.\nAny topic.\nDone.')
+  })
+
+  it('treats false and missing values as unset', () => {
+    assert.equal(renderPrompt('{{#flag}}on{{/flag}}{{^flag}}off{{/flag}}', { flag: false }), 'off')
+    assert.equal(renderPrompt('[{{missing}}]', {}), '[]')
+  })
+
+  it('leaves tags inside values alone', () => {
+    assert.equal(renderPrompt('Problem: {{problem}}', { problem: 'Print {{outputFormat}} and {{#x}}' }), 'Problem: Print {{outputFormat}} and {{#x}}')
+  })
+})
+
+describe('prompt templates', () => {
+  let base: string
+  let prompts: Prompts
+
+  before(async () => {
+    base = await mkdtemp(path.join(os.tmpdir(), 'prompts-test-'))
+    process.env.DATA_DIR = base
+    prompts = await import('../lib/prompts')
+  })
+
+  after(async () => {
+    delete process.env.DATA_DIR
+    await rm(base, { recursive: true, force: true })
+  })
+
+  it('picks the newest version unless one is asked for', async () => {
+    const newest = await prompts.getPromptTemplate('questions')
+    const first = await prompts.getPromptTemplate('questions', 1)
+    assert.ok(newest.version > 1)
+    assert.equal(prompts.promptVersionId(first), 'questions@1')
+    await assert.rejects(prompts.getPromptTemplate('questions', 99), /has no version 99/)
+    await assert.rejects(prompts.getPromptTemplate('summary'), prompts.UnknownPromptError)
+  })
+
+  it('numbers saved versions after the newest one', async () => {
+    const { version: newest } = await prompts.getPromptTemplate('implementation')
+    const saved = await prompts.createPromptVersion('implementation', 'Write the template in {{language}}.', 'Shorter')
+    assert.equal(saved.version, newest + 1)
+    assert.deepEqual(await prompts.getPromptTemplate('implementation'), saved)
+  })
+
+  it('rejects bodies it could not render', async () => {
+    await assert.rejects(prompts.createPromptVersion('implementation', '{{#language}}{{colour}}'), (error: unknown) => {
+      assert.ok(error instanceof prompts.PromptTemplateError)
+      assert.deepEqual(error.problems, ['unknown variable "colour"', '{{#language}} is never closed', 'body must contain {{language}}'])
+      return true
+    })
+    await assert.rejects(prompts.createPromptVersion('questions', 'Write {{count}} questions.'), /body must contain \{\{outputFormat\}\}/)
+    await assert.rejects(prompts.createPromptVersion('summary', 'Anything'), prompts.UnknownPromptError)
+  })
+})
@@ -0,0 +1,97 @@
+import assert from 'node:assert/strict'
+import { after, before, describe, it } from 'node:test'
+import { mkdtemp, readFile, rm } from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import type { Question } from '../lib/types'
+
+type Bank = typeof import('../lib/store/questionBank')
+
+const PARAMETERS = { positionName: 'Software Engineer', topic: 'Arrays', difficultyLevel: 'easy', type: 'write_code' } as const
+const ALICE = { userId: 'alice', workspaceIds: [] }
+const BOB = { userId: 'bob', workspaceIds: ['team'] }
+
+const question = (id: string, title = `Question ${id}`): Question => ({
+  id,
+  title,
+  problemStatement: `Solve ${title}`,
+  inputFormat: 'A number',
+  outputFormat: 'A number',
+  constraints: '1 <= n <= 10',
+  sampleInput: '1',
+  sampleOutput: '1',
+  language: 'python'
+})
+
+describe('question bank', () => {
+  let dataDir: string
+  let bank: Bank
+
+  // The store reads DATA_DIR when it is first loaded
+  before(async () => {
+    dataDir = await mkdtemp(path.join(os.tmpdir(), 'question-bank-test-'))
+    process.env.DATA_DIR = dataDir
+    bank = await import('../lib/store/questionBank')
+  })
+
+  after(async () => {
+    delete process.env.DATA_DIR
+    await rm(dataDir, { recursive: true, force: true })
+  })
+
+  it('saves questions with the parameters they were generated for', async () => {
+    const { created, updated } = await bank.saveQuestions([question('q1', 'Two Sum')], PARAMETERS, ALICE)
+    assert.equal(updated.length, 0)
+    assert.equal(created[0].ownerId, 'alice')
+    assert.equal(created[0].topic, 'Arrays')
+
+    const saved = JSON.parse(await readFile(path.join(dataDir, 'questions.json'), 'utf8'))
+    assert.deepEqual(saved.questions.map((q: Question) => q.id), ['q1'])
+  })
+
+  it('updates questions that are already saved', async () => {
+    const before = await bank.getQuestion('q1')
+    const { created, updated } = await bank.saveQuestions([question('q1', 'Two Sum II')], { ...PARAMETERS, difficultyLevel: 'medium' }, ALICE)
+    assert.equal(created.length, 0)
+    assert.equal(updated[0].title, 'Two Sum II')
+    assert.equal(updated[0].difficultyLevel, 'medium')
+    assert.equal(updated[0].createdAt, before?.createdAt)
+    assert.equal((await bank.listQuestions()).length, 1)
+  })
+
+  it('keeps concurrent saves', async () => {
+    await Promise.all(['q2', 'q3', 'q4'].map(id => bank.saveQuestions([question(id)], PARAMETERS, ALICE)))
+    assert.deepEqual((await bank.listQuestions()).map(q => q.id).sort(), ['q1', 'q2', 'q3', 'q4'])
+  })
+
+  it('filters by parameters and text', async () => {
+    assert.deepEqual((await bank.listQuestions({ search: 'two sum' })).map(q => q.id), ['q1'])
+    assert.deepEqual((await bank.listQuestions({ difficultyLevel: 'medium' })).map(q => q.id), ['q1'])
+    assert.deepEqual(await bank.listQuestions({ language: 'javascript' }), [])
+  })
+
+  it('shows questions to their owner and workspace only', async () => {
+    await bank.saveQuestions([question('shared')], PARAMETERS, ALICE, 'team')
+    const visibleToBob = (await bank.listQuestions({}, BOB)).map(q => q.id)
+    assert.deepEqual(visibleToBob, ['shared'])
+  })
+
+  it('refuses to overwrite another user\'s questions', async () => {
+    await assert.rejects(bank.saveQuestions([question('q5'), question('shared')], PARAMETERS, BOB), (error: unknown) => {
+      assert.ok(error instanceof bank.QuestionAccessError)
+      assert.deepEqual(error.ids, ['shared'])
+      return true
+    })
+    assert.equal(await bank.getQuestion('q5'), undefined)
+  })
+
+  it('updates and deletes single questions', async () => {
+    const updated = await bank.updateQuestion('q2', { title: 'Renamed' })
+    assert.equal(updated?.title, 'Renamed')
+    assert.equal(await bank.updateQuestion('missing', { title: 'Nope' }), undefined)
+
+    assert.ok(await bank.deleteQuestion('q2'))
+    assert.ok(!await bank.deleteQuestion('q2'))
+    assert.equal(await bank.getQuestion('q2'), undefined)
+  })
+})
@@ -0,0 +1,122 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import type { FormData } from '../lib/types'
+import {
+  GenerationValidationError,
+  atQuestionIndex,
+  extractJson,
+  parseImplementationPayload,
+  parseQuestion,
+  parseQuestionBlocks
+} from '../lib/questionSchema'
+import questionsFixture from '../lib/llm/fixtures/questions.json'
+
+const formData: FormData = {
+  positionName: 'Software Engineer',
+  languages: ['python', 'javascript'],
+  problem: '',
+  hint: '',
+  type: 'complete_code',
+  difficultyLevel: 'medium',
+  topic: 'Arrays'
+}
+
+const [question] = questionsFixture.response.questions
+const payload = JSON.stringify({ questions: [question] })
+
+// The field errors a rejected value produced
+function fieldErrorsOf(run: () => unknown) {
+  try {
+    run()
+  } catch (error) {
+    assert.ok(error instanceof GenerationValidationError)
+    return error.fieldErrors
+  }
+  assert.fail('expected a GenerationValidationError')
+}
+
+describe('extractJson', () => {
+  it('reads a bare object', () => {
+    assert.deepEqual(extractJson(payload), { questions: [question] })
+  })
+
+  it('reads an object in a code fence or surrounded by prose', () => {
+    assert.deepEqual(extractJson(`\`\`\`json\n${payload}\n\`\`\``), { questions: [question] })
+    assert.deepEqual(extractJson(`Here are your questions:\n${payload}\nGood luck!`), { questions: [question] })
+  })
+
+  it('rejects text without a JSON object', () => {
+    assert.deepEqual(fieldErrorsOf(() => extractJson('No questions today')), [
+      { path: '$', message: 'Response did not contain a JSON object' }
+    ])
+    assert.equal(fieldErrorsOf(() => extractJson('{ "questions": [ }'))[0].path, '$')
+  })
+})
+
+describe('parseQuestionBlocks', () => {
+  it('returns the unvalidated question objects', () => {
+    assert.deepEqual(parseQuestionBlocks(payload), [question])
+  })
+
+  it('requires a questions list', () => {
+    assert.deepEqual(fieldErrorsOf(() => parseQuestionBlocks('{ "items": [] }')), [
+      { path: 'questions', message: 'questions is required' }
+    ])
+  })
+})
+
+describe('parseQuestion', () => {
+  it('accepts a complete question', () => {
+    const parsed = parseQuestion(question, formData)
+    assert.equal(parsed.title, question.title)
+    assert.deepEqual(parsed.signature, question.signature)
+  })
+
+  it('requires a signature only for complete_code', () => {
+    const { signature, ...withoutSignature } = question
+    assert.deepEqual(fieldErrorsOf(() => parseQuestion(withoutSignature, formData)), [
+      { path: 'signature', message: 'signature is required' }
+    ])
+    assert.equal(parseQuestion(withoutSignature, { ...formData, type: 'write_code' }).title, question.title)
+  })
+
+  it('reports empty and malformed fields by path', () => {
+    const broken = {
+      ...question,
+      sampleOutput: '  ',
+      hints: { ...question.hints, approach: undefined },
+      signature: { ...question.signature, functionName: 'max sum' }
+    }
+    assert.deepEqual(fieldErrorsOf(() => parseQuestion(broken, formData)), [
+      { path: 'sampleOutput', message: 'sampleOutput must not be empty' },
+      { path: 'hints.approach', message: 'hints.approach is required' },
+      { path: 'signature.functionName', message: 'signature.functionName must be a plain identifier' }
+    ])
+  })
+
+  it('only accepts sandbox languages for the reference solution', () => {
+    const broken = { ...question, referenceSolution: { language: 'cobol', code: 'DISPLAY 1' } }
+    assert.deepEqual(fieldErrorsOf(() => parseQuestion(broken, formData)).map(error => error.path), ['referenceSolution.language'])
+  })
+})
+
+describe('atQuestionIndex', () => {
+  it('places question paths inside the payload', () => {
+    assert.deepEqual(atQuestionIndex([{ path: '$', message: 'a' }, { path: 'title', message: 'b' }], 2), [
+      { path: 'questions.2', message: 'a' },
+      { path: 'questions.2.title', message: 'b' }
+    ])
+  })
+})
+
+describe('parseImplementationPayload', () => {
+  it('returns the template', () => {
+    assert.equal(parseImplementationPayload('{ "implementation": "def solve():\\n    pass" }'), 'def solve():\n    pass')
+  })
+
+  it('rejects an empty template', () => {
+    assert.deepEqual(fieldErrorsOf(() => parseImplementationPayload('{ "implementation": "" }')), [
+      { path: 'implementation', message: 'implementation must not be empty' }
+    ])
+  })
+})
@@ -0,0 +1,28 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { RateLimiter, describeRateLimit, rateLimitHeaders } from '../lib/rateLimit'
+
+describe('RateLimiter', () => {
+  it('allows `limit` requests per key in each window', () => {
+    const limiter = new RateLimiter(2, 60_000)
+    assert.deepEqual(limiter.take('a', 0), { allowed: true, limit: 2, remaining: 1, retryAfter: 60 })
+    assert.equal(limiter.take('a', 1000).remaining, 0)
+    assert.deepEqual(limiter.take('a', 30_500), { allowed: false, limit: 2, remaining: 0, retryAfter: 30 })
+    assert.ok(limiter.take('b', 30_500).allowed)
+    assert.deepEqual(limiter.take('a', 60_000), { allowed: true, limit: 2, remaining: 1, retryAfter: 60 })
+  })
+
+  it('lets everything through with a limit of 0', () => {
+    const limiter = new RateLimiter(0, 60_000)
+    for (let i = 0; i < 5; i++) assert.ok(limiter.take('a').allowed)
+    assert.deepEqual(rateLimitHeaders(limiter.take('a')), {})
+  })
+
+  it('describes the limit in headers and errors', () => {
+    const limiter = new RateLimiter(1, 1000)
+    assert.deepEqual(rateLimitHeaders(limiter.take('a', 0)), { 'X-RateLimit-Limit': '1', 'X-RateLimit-Remaining': '0' })
+    const refused = limiter.take('a', 10)
+    assert.equal(rateLimitHeaders(refused)['Retry-After'], '1')
+    assert.deepEqual(describeRateLimit(refused, 'submissions'), { error: 'Too many submissions. Try again in 1 second.', retryAfter: 1 })
+  })
+})
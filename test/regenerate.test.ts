@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict'
+import { after, before, describe, it } from 'node:test'
+import { mkdtemp, rm } from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import type { FormData, Question } from '../lib/types'
+import { regenerationRequestSchema, validateRequest } from '../lib/requestSchema'
+import { renderTemplate } from '../lib/signature'
+import questionsFixture from '../lib/llm/fixtures/questions.json'
+
+type Pipeline = typeof import('../lib/generation/pipeline')
+
+const formData: FormData = {
+  positionName: 'Software Engineer',
+  languages: ['python', 'javascript'],
+  problem: '',
+  hint: '',
+  type: 'complete_code',
+  difficultyLevel: 'easy',
+  topic: 'Arrays',
+  provider: 'mock'
+}
+
+const [first, second] = questionsFixture.response.questions
+const asQuestion = (fixture: typeof first, id: string): Question => {
+  const { hints, editorial, referenceSolution, ...fields } = fixture
+  return { ...fields, id, language: 'javascript' }
+}
+
+describe('regeneration', () => {
+  let base: string
+  let pipeline: Pipeline
+
+  before(async () => {
+    base = await mkdtemp(path.join(os.tmpdir(), 'regenerate-test-'))
+    process.env.DATA_DIR = path.join(base, 'data')
+    process.env.SANDBOX_WORK_DIR = path.join(base, 'work')
+    // Passes the command through unchanged; the isolation itself is
+    // covered in sandbox.test.ts
+    process.env.SANDBOX_ISOLATION_COMMAND = 'env'
+    pipeline = await import('../lib/generation/pipeline')
+  })
+
+  after(async () => {
+    for (const name of ['DATA_DIR', 'SANDBOX_WORK_DIR', 'SANDBOX_ISOLATION_COMMAND']) {
+      delete process.env[name]
+    }
+    await rm(base, { recursive: true, force: true })
+  })
+
+  it('replaces a question with one unlike it and its siblings', async () => {
+    const replacing = asQuestion(first, 'question-1-0-javascript')
+    const sibling = asQuestion(second, 'question-1-1-javascript')
+    const variants = await pipeline.regenerateQuestion(formData, { replacing, siblings: [sibling] })
+
+    assert.deepEqual(variants.map(question => question.language), ['python', 'javascript'])
+    const [replacement] = variants
+    assert.ok(![first.title, second.title].includes(replacement.title), replacement.title)
+    assert.ok(!variants.some(question => question.id === replacing.id))
+    assert.equal(replacement.verification?.status, 'verified', replacement.verification?.error)
+  })
+
+  it('re-renders templates of questions with a signature', async () => {
+    const question = { ...asQuestion(first, 'question-1-0-python'), language: 'python', implementation: 'changed' }
+    const updated = await pipeline.regenerateImplementation(formData, question, 'python')
+    assert.equal(updated.implementation, renderTemplate(first.signature, 'python'))
+    assert.equal(updated.title, question.title)
+  })
+
+  it('asks the model for templates of questions without one', async () => {
+    const { signature, ...question } = asQuestion(first, 'question-1-0-javascript')
+    const updated = await pipeline.regenerateImplementation(formData, question, 'javascript')
+    assert.match(updated.implementation ?? '', /function solve\(nums\)/)
+  })
+
+  it('rejects requests with a malformed signature', () => {
+    const question = { ...asQuestion(first, 'question-1-0-javascript'), signature: { functionName: 'max sum', parameters: [], returnType: 'int' } }
+    const validation = validateRequest(regenerationRequestSchema, { inputParameters: formData, question, language: 'javascript' })
+    assert.ok(!validation.success)
+    assert.deepEqual(validation.fieldErrors.map(error => error.path), ['question.signature.functionName'])
+  })
+})
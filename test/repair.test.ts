@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict'
+import { after, before, describe, it } from 'node:test'
+import type { FormData } from '../lib/types'
+import { GenerationValidationError } from '../lib/questionSchema'
+import { QUESTION_REPAIR_MARKER, buildRepairPrompt, validateWithRepair } from '../lib/generation/repair'
+import { MockProvider } from '../lib/llm/mock'
+import questionsFixture from '../lib/llm/fixtures/questions.json'
+
+const formData: FormData = {
+  positionName: 'Software Engineer',
+  languages: ['python'],
+  problem: '',
+  hint: '',
+  type: 'complete_code',
+  difficultyLevel: 'easy',
+  topic: 'Arrays',
+  provider: 'mock'
+}
+
+const [complete] = questionsFixture.response.questions
+
+describe('validateWithRepair', () => {
+  const error = console.error
+
+  before(() => {
+    console.error = () => undefined
+  })
+
+  after(() => {
+    console.error = error
+  })
+
+  it('asks only for the invalid fields and keeps the rest', () => {
+    const { sampleOutput, ...question } = { ...complete, title: 'Kept Title' }
+    const prompt = buildRepairPrompt(formData, { ...question, constraints: '' }, ['sampleOutput', 'constraints'], [
+      { path: 'sampleOutput', message: 'sampleOutput is required' },
+      { path: 'constraints', message: 'constraints must not be empty' }
+    ])
+    assert.ok(prompt.includes(QUESTION_REPAIR_MARKER))
+    assert.ok(prompt.includes('"title": "Kept Title"'))
+    assert.ok(!prompt.includes('"constraints": ""'))
+    assert.match(prompt, /- sampleOutput: sampleOutput is required/)
+  })
+
+  it('fills in missing fields from the repair', async () => {
+    const { sampleOutput, editorial, ...question } = { ...complete, title: 'Kept Title' }
+    const repaired = await validateWithRepair(new MockProvider(), formData, question)
+    assert.equal(repaired.sampleOutput, complete.sampleOutput)
+    assert.deepEqual(repaired.editorial, complete.editorial)
+    assert.equal(repaired.title, 'Kept Title')
+  })
+
+  it('gives up on blocks that are not questions', async () => {
+    await assert.rejects(validateWithRepair(new MockProvider(), formData, 'not a question'), GenerationValidationError)
+  })
+
+  it('reports the original problems when the repair call fails', async () => {
+    const { signature, ...question } = complete
+    await assert.rejects(validateWithRepair(new MockProvider([]), formData, question), (error: unknown) => {
+      assert.ok(error instanceof GenerationValidationError)
+      assert.deepEqual(error.fieldErrors.map(fieldError => fieldError.path), ['signature'])
+      return true
+    })
+  })
+})
@@ -0,0 +1,100 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import {
+  generationRequestSchema,
+  messagesByField,
+  saveQuestionsRequestSchema,
+  sheetInputParametersSchema,
+  validateRequest
+} from '../lib/requestSchema'
+
+const request = {
+  positionName: '  Software Engineer ',
+  languages: ['python', 'go'],
+  type: 'write_code',
+  difficultyLevel: 'medium',
+  topic: 'Graphs'
+}
+
+const errorsOf = <T>(validation: ReturnType<typeof validateRequest<T>>) =>
+  validation.success ? [] : validation.fieldErrors.map(error => `${error.path}: ${error.message}`)
+
+describe('generationRequestSchema', () => {
+  it('accepts a form submission and fills in defaults', () => {
+    const validation = validateRequest(generationRequestSchema, request)
+    assert.ok(validation.success)
+    assert.deepEqual(validation.data, { ...request, positionName: 'Software Engineer', problem: '', hint: '' })
+  })
+
+  it('reports every invalid field by path', () => {
+    const validation = validateRequest(generationRequestSchema, {
+      ...request,
+      languages: ['python', 'cobol', 'python'],
+      topic: 'Astrology',
+      count: 2.5,
+      hint: 'x'.repeat(501)
+    })
+    assert.deepEqual(errorsOf(validation), [
+      'languages.1: language must be one of: javascript, python, java, cpp, csharp, go, rust, typescript',
+      'hint: hint must be at most 500 characters',
+      'topic: topic must be one of: the listed topics',
+      'count: count must be a whole number from 1 to 50'
+    ])
+  })
+
+  it('groups messages by form field under a prefix', () => {
+    const validation = validateRequest(generationRequestSchema, { ...request, languages: [], positionName: ' ' }, 'inputParameters')
+    assert.ok(!validation.success)
+    assert.deepEqual(messagesByField(validation.fieldErrors, 'inputParameters'), {
+      positionName: 'positionName is required',
+      languages: 'Select at least one language'
+    })
+    assert.deepEqual(errorsOf(validateRequest(generationRequestSchema, 'text', 'inputParameters')), ['inputParameters: Expected object, received string'])
+  })
+})
+
+describe('sheetInputParametersSchema', () => {
+  it('requires only the values a layout stores', () => {
+    const schema = sheetInputParametersSchema.required({ topic: true })
+    assert.deepEqual(validateRequest(schema, { topic: 'Arrays' }), { success: true, data: { topic: 'Arrays' } })
+    assert.deepEqual(errorsOf(validateRequest(schema, { positionName: 'QA' })), ['topic: topic is required'])
+    assert.deepEqual(errorsOf(validateRequest(sheetInputParametersSchema, { type: 'essay' })), ['type: type must be one of: complete_code, write_code'])
+  })
+})
+
+describe('saveQuestionsRequestSchema', () => {
+  const question = {
+    id: 'question-1-0-python',
+    title: 'Sum',
+    problemStatement: 'Add them up.',
+    inputFormat: 'N numbers',
+    outputFormat: 'Their sum',
+    constraints: '1 <= N <= 10',
+    sampleInput: '1 2',
+    sampleOutput: '3',
+    language: 'python'
+  }
+  const inputParameters = { positionName: 'QA', type: 'write_code', difficultyLevel: 'easy', topic: 'Arrays' }
+
+  it('keeps question fields it does not check', () => {
+    const validation = validateRequest(saveQuestionsRequestSchema, { questions: [question], inputParameters })
+    assert.ok(validation.success)
+    assert.equal(validation.data.questions[0].language, 'python')
+  })
+
+  it('rejects empty or malformed saves', () => {
+    assert.deepEqual(errorsOf(validateRequest(saveQuestionsRequestSchema, { questions: [], inputParameters })), ['questions: No questions provided'])
+    const validation = validateRequest(saveQuestionsRequestSchema, {
+      questions: [{ ...question, title: ' ', signature: { functionName: 'sum', parameters: [], returnType: 'Map' } }],
+      inputParameters: { ...inputParameters, topic: undefined },
+      workspaceId: ''
+    })
+    assert.ok(!validation.success)
+    assert.deepEqual(validation.fieldErrors.map(error => error.path), [
+      'questions.0.title',
+      'questions.0.signature.returnType',
+      'inputParameters.topic',
+      'workspaceId'
+    ])
+  })
+})
@@ -0,0 +1,138 @@
+import assert from 'node:assert/strict'
+import { after, before, describe, it } from 'node:test'
+import { LLMProvider, LLMProviderError } from '../lib/llm'
+import { GeminiProvider } from '../lib/llm/gemini'
+import { RetryingProvider, retryDelay } from '../lib/llm/retry'
+
+// Fails with each of `failures` in turn, then answers. A stream yields its
+// first chunk before failing when `midStream` is set.
+class FlakyProvider implements LLMProvider {
+  readonly name = 'mock' as const
+  readonly defaultModel = 'flaky'
+  calls = 0
+
+  constructor(private failures: Error[], private midStream = false) {}
+
+  async complete(): Promise<string> {
+    const failure = this.failures[this.calls++]
+    if (failure) throw failure
+    return 'answer'
+  }
+
+  async *stream(): AsyncGenerator<string> {
+    const failure = this.failures[this.calls++]
+    if (failure && this.midStream) yield 'partial'
+    if (failure) throw failure
+    yield 'answer'
+  }
+}
+
+const rateLimited = () => new LLMProviderError('mock', 'rate limited', 429)
+const badRequest = () => new LLMProviderError('mock', 'bad request', 400)
+
+async function collect(chunks: AsyncIterable<string>): Promise<string[]> {
+  const items: string[] = []
+  for await (const chunk of chunks) items.push(chunk)
+  return items
+}
+
+describe('RetryingProvider', () => {
+  const warn = console.warn
+
+  before(() => {
+    console.warn = () => undefined
+  })
+
+  after(() => {
+    console.warn = warn
+  })
+
+  it('retries transient failures', async () => {
+    const inner = new FlakyProvider([rateLimited(), rateLimited()])
+    assert.equal(await new RetryingProvider(inner, 3, 1).complete('prompt'), 'answer')
+    assert.equal(inner.calls, 3)
+  })
+
+  it('gives up after the configured retries', async () => {
+    const inner = new FlakyProvider([rateLimited(), rateLimited(), rateLimited()])
+    await assert.rejects(new RetryingProvider(inner, 2, 1).complete('prompt'), /rate limited/)
+    assert.equal(inner.calls, 3)
+  })
+
+  it('does not retry other failures or cancelled requests', async () => {
+    const inner = new FlakyProvider([badRequest()])
+    await assert.rejects(new RetryingProvider(inner, 3, 1).complete('prompt'), /bad request/)
+    assert.equal(inner.calls, 1)
+
+    const abort = new AbortController()
+    abort.abort()
+    const cancelled = new FlakyProvider([rateLimited()])
+    await assert.rejects(new RetryingProvider(cancelled, 3, 1).complete('prompt', { signal: abort.signal }), /rate limited/)
+    assert.equal(cancelled.calls, 1)
+  })
+
+  it('retries a stream only before its first chunk', async () => {
+    assert.deepEqual(await collect(new RetryingProvider(new FlakyProvider([rateLimited()]), 3, 1).stream('prompt')), ['answer'])
+
+    const inner = new FlakyProvider([rateLimited()], true)
+    await assert.rejects(collect(new RetryingProvider(inner, 3, 1).stream('prompt')), /rate limited/)
+    assert.equal(inner.calls, 1)
+  })
+})
+
+describe('retryDelay', () => {
+  it('doubles with each attempt, with jitter, up to a cap', () => {
+    for (let i = 0; i < 20; i++) {
+      const first = retryDelay(0, 100)
+      const third = retryDelay(2, 100)
+      const late = retryDelay(20, 100)
+      assert.ok(first >= 50 && first <= 100, String(first))
+      assert.ok(third >= 200 && third <= 400, String(third))
+      assert.ok(late >= 4000 && late <= 8000, String(late))
+    }
+  })
+})
+
+describe('GeminiProvider errors', () => {
+  const realFetch = globalThis.fetch
+  let respond: () => Promise<Response>
+
+  before(() => {
+    globalThis.fetch = () => respond()
+  })
+
+  after(() => {
+    globalThis.fetch = realFetch
+  })
+
+  const failure = async () => {
+    try {
+      await new GeminiProvider('test-key').complete('prompt')
+    } catch (error) {
+      assert.ok(error instanceof LLMProviderError)
+      return error
+    }
+    assert.fail('expected the request to fail')
+  }
+
+  it('returns the response text', async () => {
+    respond = async () => Response.json({ candidates: [{ content: { parts: [{ text: 'hello' }] } }] })
+    assert.equal(await new GeminiProvider('test-key').complete('prompt'), 'hello')
+  })
+
+  it('reads the HTTP status from the error message', async () => {
+    respond = async () => Response.json({ error: { message: 'Quota exceeded' } }, { status: 429, statusText: 'Too Many Requests' })
+    const rateLimit = await failure()
+    assert.deepEqual([rateLimit.status, rateLimit.transient], [429, true])
+
+    respond = async () => Response.json({ error: { message: 'API key not valid' } }, { status: 400, statusText: 'Bad Request' })
+    const invalid = await failure()
+    assert.deepEqual([invalid.status, invalid.transient], [400, false])
+  })
+
+  it('treats a failed fetch as transient', async () => {
+    respond = async () => { throw new TypeError('fetch failed') }
+    const dropped = await failure()
+    assert.deepEqual([dropped.status, dropped.transient], [undefined, true])
+  })
+})
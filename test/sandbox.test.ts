@@ -0,0 +1,154 @@
+import assert from 'node:assert/strict'
+import { after, before, describe, it } from 'node:test'
+import { execFileSync } from 'child_process'
+import { existsSync } from 'fs'
+import { chmod, mkdir, mkdtemp, rm, writeFile } from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import type { Question } from '../lib/types'
+import { gradeSubmission } from '../lib/assessment'
+import { DEFAULT_LIMITS, SandboxIsolationError, SandboxLanguage, runProgram } from '../lib/sandbox'
+
+const SECRET = 'hidden-test-expected-output'
+// Interpreters under the server user's home are hidden by the jail
+const SYSTEM_PYTHON = '/usr/bin/python3'
+
+// Stands in for nsjail: runs the program as nobody in new mount and network
+// namespaces, chrooted to a tmpfs holding only the system directories and
+// the run's directory. Needs root, util-linux and a system Python.
+const jailScript = (jailRoot: string) => `#!/bin/sh
+set -e
+work=$1
+shift
+exec unshare --mount --net --fork --kill-child sh -ec '
+  root=$1 work=$2
+  shift 2
+  mount -t tmpfs tmpfs "$root"
+  for dir in /usr /lib /lib64 /bin /etc; do
+    if [ -L "$dir" ]; then
+      ln -s "$(readlink "$dir")" "$root$dir"
+    elif [ -d "$dir" ]; then
+      mkdir -p "$root$dir"
+      mount -o bind,ro "$dir" "$root$dir"
+    fi
+  done
+  mkdir -p "$root$work"
+  mount -o bind "$work" "$root$work"
+  exec chroot --userspec=65534:65534 "$root" sh -c "cd \\"\\$0\\" && exec \\"\\$@\\"" "$work" "$@"
+' sh ${jailRoot} "$work" "$@"
+`
+
+const canJail = (() => {
+  if (process.platform !== 'linux' || process.getuid?.() !== 0 || !existsSync(SYSTEM_PYTHON)) return false
+  try {
+    execFileSync('unshare', ['--mount', '--net', '--fork', 'true'], { stdio: 'ignore' })
+    return true
+  } catch {
+    return false
+  }
+})()
+
+// Tries to read the data directory by absolute path and by walking up from
+// the run's directory, and to reach the network
+const ESCAPES: Record<SandboxLanguage, (dataFile: string) => string> = {
+  python: dataFile => `
+import os, socket
+for attempt in [lambda: open(${JSON.stringify(dataFile)}).read(), lambda: str(os.listdir('../..'))]:
+    try:
+        print(attempt())
+    except Exception as error:
+        print('blocked', type(error).__name__)
+try:
+    socket.create_connection(('1.1.1.1', 80), timeout=2)
+    print('network reachable')
+except OSError as error:
+    print('blocked', type(error).__name__)
+`,
+  javascript: dataFile => `
+const fs = require('fs')
+for (const attempt of [() => fs.readFileSync(${JSON.stringify(dataFile)}, 'utf8'), () => String(fs.readdirSync('../..'))]) {
+  try {
+    console.log(attempt())
+  } catch (error) {
+    console.log('blocked', error.code)
+  }
+}
+`,
+  typescript: dataFile => `
+import * as fs from 'fs'
+const attempts: (() => string)[] = [() => fs.readFileSync(${JSON.stringify(dataFile)}, 'utf8'), () => String(fs.readdirSync('../..'))]
+for (const attempt of attempts) {
+  try {
+    console.log(attempt())
+  } catch (error: any) {
+    console.log('blocked', error.code)
+  }
+}
+`
+}
+
+const question = {
+  id: 'q1',
+  title: 'Echo',
+  problemStatement: 'Print the input',
+  inputFormat: 'A number',
+  outputFormat: 'The number',
+  constraints: '1 <= n <= 10',
+  sampleInput: '3',
+  sampleOutput: '3'
+} as Question
+
+describe('sandbox isolation', () => {
+  let base: string
+  let dataFile: string
+
+  before(async () => {
+    base = await mkdtemp(path.join(os.tmpdir(), 'sandbox-test-'))
+    // Readable by the sandbox uid only through the jail's bind mount
+    await chmod(base, 0o755)
+    await mkdir(path.join(base, 'work'))
+    await mkdir(path.join(base, 'root'))
+    // Like DATA_DIR: private to the server's user
+    await mkdir(path.join(base, 'data'), { mode: 0o700 })
+    dataFile = path.join(base, 'data', 'assessments.json')
+    await writeFile(dataFile, JSON.stringify({ expectedOutput: SECRET }))
+    await writeFile(path.join(base, 'jail.sh'), jailScript(path.join(base, 'root')), { mode: 0o755 })
+    process.env.SANDBOX_WORK_DIR = path.join(base, 'work')
+  })
+
+  after(async () => {
+    delete process.env.SANDBOX_WORK_DIR
+    delete process.env.SANDBOX_ISOLATION_COMMAND
+    delete process.env.SANDBOX_PYTHON
+    await rm(base, { recursive: true, force: true })
+  })
+
+  it('refuses isolated runs without an isolation command', async () => {
+    delete process.env.SANDBOX_ISOLATION_COMMAND
+    await assert.rejects(runProgram('python', 'print(1)', '', DEFAULT_LIMITS, { isolated: true }), SandboxIsolationError)
+    await assert.rejects(gradeSubmission(question, 'python', 'print(input())'), SandboxIsolationError)
+  })
+
+  describe('with an isolation command', { skip: !canJail && 'needs root, unshare, chroot and /usr/bin/python3' }, () => {
+    before(() => {
+      process.env.SANDBOX_ISOLATION_COMMAND = `${path.join(base, 'jail.sh')} {workDir}`
+      process.env.SANDBOX_PYTHON = SYSTEM_PYTHON
+    })
+
+    it('grades submissions', async () => {
+      const graded = await gradeSubmission(question, 'python', 'print(input())')
+      assert.equal(graded.score, 100, JSON.stringify(graded.results))
+    })
+
+    for (const language of Object.keys(ESCAPES) as SandboxLanguage[]) {
+      it(`keeps ${language} submissions inside their directory`, async () => {
+        const run = await runProgram(language, ESCAPES[language](dataFile), '', DEFAULT_LIMITS, { isolated: true })
+        assert.equal(run.status, 'ok', run.stderr)
+        assert.ok(!run.stdout.includes(SECRET), run.stdout)
+        assert.ok(!run.stdout.includes('data'), run.stdout)
+        assert.ok(!run.stdout.includes('network reachable'), run.stdout)
+        assert.equal(run.stdout.match(/^blocked/gm)?.length, language === 'python' ? 2 : 1, run.stdout)
+      })
+    }
+  })
+})
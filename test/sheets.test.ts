@@ -0,0 +1,201 @@
+import assert from 'node:assert/strict'
+import { after, before, beforeEach, describe, it } from 'node:test'
+import { mkdtemp, rm } from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import type { Question } from '../lib/types'
+import {
+  LocalSheetStorage,
+  SHEET_COLUMN_PRESETS,
+  SheetMappingError,
+  SheetTabNotFoundError,
+  SheetStorage,
+  requiredSheetParameters,
+  resolveColumns,
+  resolveTabName,
+  readQuestionRows,
+  upsertQuestionRows
+} from '../lib/sheets'
+
+const inputParameters = { positionName: 'Backend Engineer', type: 'write_code' as const, difficultyLevel: 'easy' as const, topic: 'Arrays' }
+
+const question = (id: string, title: string): Question => ({
+  id,
+  title,
+  problemStatement: `Solve ${title}.`,
+  inputFormat: 'N, then N numbers.',
+  outputFormat: 'One number.',
+  constraints: '1 <= N <= 10',
+  sampleInput: '3\n1 2 3',
+  sampleOutput: '6',
+  language: 'python'
+})
+
+describe('upsertQuestionRows', () => {
+  let base: string
+  let storage: SheetStorage
+
+  before(async () => {
+    base = await mkdtemp(path.join(os.tmpdir(), 'sheets-test-'))
+  })
+
+  beforeEach(async () => {
+    storage = new LocalSheetStorage(await mkdtemp(path.join(base, 'workbook-')))
+  })
+
+  after(async () => {
+    await rm(base, { recursive: true, force: true })
+  })
+
+  const options = { columns: resolveColumns(['id', 'title', 'topic']), tab: 'Questions' }
+
+  it('creates the tab with a header row', async () => {
+    const result = await upsertQuestionRows(storage, [question('q-1-python', 'Sum')], inputParameters, options)
+    assert.deepEqual(result, { tab: 'Questions', created: ['q-1-python'], updated: [] })
+    assert.deepEqual(await storage.readRows('Questions'), [
+      ['Question ID', 'Title', 'Topic'],
+      ['q-1-python', 'Sum', 'Arrays']
+    ])
+  })
+
+  it('updates rows already in the tab instead of appending them again', async () => {
+    await upsertQuestionRows(storage, [question('q-1-python', 'Sum')], inputParameters, options)
+    const result = await upsertQuestionRows(
+      storage,
+      [question('q-1-python', 'Sum of All'), question('q-2-python', 'Product')],
+      inputParameters,
+      options
+    )
+    assert.deepEqual(result, { tab: 'Questions', created: ['q-2-python'], updated: ['q-1-python'] })
+    assert.deepEqual((await storage.readRows('Questions')).slice(1), [
+      ['q-1-python', 'Sum of All', 'Arrays'],
+      ['q-2-python', 'Product', 'Arrays']
+    ])
+  })
+
+  it('keeps the last copy of a question sent twice in one request', async () => {
+    await upsertQuestionRows(storage, [question('q-1-python', 'First'), question('q-1-python', 'Second')], inputParameters, options)
+    assert.deepEqual((await storage.readRows('Questions')).slice(1), [['q-1-python', 'Second', 'Arrays']])
+  })
+
+  it('matches columns by header and leaves unmapped cells alone', async () => {
+    await storage.addTab('Questions')
+    await storage.appendRows('Questions', [['Notes', 'Title', 'Question ID'], ['keep me', 'Old', 'q-1-python']])
+    await upsertQuestionRows(storage, [question('q-1-python', 'New')], inputParameters, options)
+    assert.deepEqual(await storage.readRows('Questions'), [
+      ['Notes', 'Title', 'Question ID', 'Topic'],
+      ['keep me', 'New', 'q-1-python', 'Arrays']
+    ])
+  })
+
+  it('fills rows imported without an ID in place', async () => {
+    await storage.addTab('Questions')
+    await storage.appendRows('Questions', [['Question ID', 'Title', 'Topic'], ['', 'Typed by hand', 'Arrays']])
+    const result = await upsertQuestionRows(storage, [question('sheet-row-2-python', 'Typed by hand')], inputParameters, options)
+    assert.deepEqual(result.updated, ['sheet-row-2-python'])
+    assert.equal((await storage.readRows('Questions')).length, 2)
+  })
+})
+
+describe('sheet column mapping', () => {
+  it('resolves presets and lists, always adding the ID', () => {
+    assert.deepEqual(resolveColumns('compact'), SHEET_COLUMN_PRESETS.compact)
+    assert.deepEqual(resolveColumns('title, topic, title'), ['title', 'topic', 'id'])
+    assert.throws(() => resolveColumns(['title', 'colour']), SheetMappingError)
+  })
+
+  it('requires only the form values the columns store', () => {
+    assert.deepEqual(requiredSheetParameters(['id', 'title', 'topic']), ['topic'])
+    assert.deepEqual(requiredSheetParameters(['id', 'title'], { mode: 'position' }), ['positionName'])
+    assert.deepEqual(requiredSheetParameters(SHEET_COLUMN_PRESETS.compact), ['positionName', 'type', 'difficultyLevel'])
+  })
+
+  it('names tabs after the position or the batch', () => {
+    assert.equal(resolveTabName({ mode: 'position' }, { positionName: 'QA / Test' }), 'QA - Test')
+    assert.equal(resolveTabName({ mode: 'batch' }, {}, 'question-1700000000000-0-python'), 'Batch 2023-11-14 22.13')
+    assert.equal(resolveTabName({ name: 'Shortlist' }), 'Shortlist')
+  })
+})
+
+describe('readQuestionRows', () => {
+  let base: string
+
+  before(async () => {
+    base = await mkdtemp(path.join(os.tmpdir(), 'sheets-import-test-'))
+  })
+
+  after(async () => {
+    await rm(base, { recursive: true, force: true })
+  })
+
+  const full: Question = {
+    ...question('question-1700000000000-0-python', 'Running Sum'),
+    implementation: 'def running_sum(nums):\n    pass',
+    hint: 'Keep a total.',
+    editorial: {
+      approach: 'Add each number to a running total.',
+      timeComplexity: 'O(N)',
+      spaceComplexity: 'O(1)',
+      alternatives: [{ approach: 'Recompute every prefix', timeComplexity: 'O(N^2)', spaceComplexity: 'O(1)' }],
+      pitfalls: ['Overflow on large inputs']
+    },
+    tests: [
+      { input: '3\n1 2 3', expectedOutput: '6', kind: 'sample', description: 'Sample' },
+      { input: '1\n-5', expectedOutput: '-5', kind: 'edge', description: 'Single negative' }
+    ],
+    verification: { status: 'verified' },
+    difficultyEstimate: { level: 'easy', score: 12, requested: 'easy', reasons: [] },
+    promptVersion: 'questions@2'
+  }
+  const params = { ...inputParameters, type: 'complete_code' as const, hint: '' }
+
+  const sendAndRead = async (columns: string) => {
+    const storage = new LocalSheetStorage(await mkdtemp(path.join(base, 'workbook-')))
+    await upsertQuestionRows(storage, [full], params, { columns: resolveColumns(columns), tab: 'Questions' })
+    return { storage, imported: await readQuestionRows(storage, 'Questions') }
+  }
+
+  it('reads back every field of the detailed layout', async () => {
+    const { imported } = await sendAndRead('detailed')
+    const [row] = imported.rows
+    assert.deepEqual(row.question, full)
+    assert.deepEqual(row.inputParameters, { positionName: 'Backend Engineer', type: 'complete_code', difficultyLevel: 'easy', topic: 'Arrays' })
+    assert.deepEqual(row.readOnlyColumns, [])
+  })
+
+  it('splits the compact problem cell back into its fields', async () => {
+    const { imported } = await sendAndRead('compact')
+    const { question: read } = imported.rows[0]
+    assert.equal(read.title, 'Solve Running Sum.')
+    assert.equal(read.sampleInput, full.sampleInput)
+    assert.equal(read.constraints, full.constraints)
+    assert.equal(read.implementation, full.implementation)
+    assert.deepEqual(read.editorial, full.editorial)
+    assert.deepEqual(read.tests, full.tests)
+  })
+
+  it('marks cells edited outside the layout as read-only', async () => {
+    const { storage } = await sendAndRead('id,title,language,template')
+    await storage.writeRows('Questions', [{ row: 2, values: [null, null, 'python', 'TODO: write the template'] }])
+    const { rows } = await readQuestionRows(storage, 'Questions')
+
+    assert.deepEqual(rows[0].columns, ['id', 'title', 'template'])
+    assert.deepEqual(rows[0].readOnlyColumns, ['language'])
+    assert.equal(rows[0].question.implementation, 'TODO: write the template')
+  })
+
+  it('skips empty rows and names rows without an ID after their row', async () => {
+    const { storage } = await sendAndRead('id,title')
+    await storage.writeRows('Questions', [{ row: 4, values: ['', 'Typed by hand'] }])
+    const { rows } = await readQuestionRows(storage, 'Questions')
+
+    assert.deepEqual(rows.map(row => row.row), [2, 4])
+    assert.equal(rows[1].question.id, 'sheet-row-4-question')
+    assert.equal(rows[1].question.title, 'Typed by hand')
+  })
+
+  it('refuses tabs that do not exist', async () => {
+    const { storage } = await sendAndRead('compact')
+    await assert.rejects(readQuestionRows(storage, 'Elsewhere'), SheetTabNotFoundError)
+  })
+})
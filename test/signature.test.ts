@@ -0,0 +1,124 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import type { FunctionSignature } from '../lib/types'
+import { TEMPLATE_LANGUAGES, isSignatureType, parseType, renderTemplate, renderTemplates } from '../lib/signature'
+
+const twoSum: FunctionSignature = {
+  functionName: 'two_sum',
+  parameters: [{ name: 'nums', type: 'int[]' }, { name: 'targetValue', type: 'long' }],
+  returnType: 'int[]'
+}
+
+const EXPECTED: Record<string, string> = {
+  javascript: [
+    '/**',
+    ' * @param {number[]} nums',
+    ' * @param {number} targetValue',
+    ' * @return {number[]}',
+    ' */',
+    'function twoSum(nums, targetValue) {',
+    '    // Your code here',
+    '}'
+  ].join('\n'),
+  typescript: [
+    'function twoSum(nums: number[], targetValue: number): number[] {',
+    '    // Your code here',
+    '}'
+  ].join('\n'),
+  python: [
+    'def two_sum(nums: list[int], target_value: int) -> list[int]:',
+    '    # Your code here',
+    '    pass'
+  ].join('\n'),
+  java: [
+    'class Solution {',
+    '    public int[] twoSum(int[] nums, long targetValue) {',
+    '        // Your code here',
+    '    }',
+    '}'
+  ].join('\n'),
+  cpp: [
+    'class Solution {',
+    'public:',
+    '    vector<int> twoSum(vector<int>& nums, long long targetValue) {',
+    '        // Your code here',
+    '    }',
+    '};'
+  ].join('\n'),
+  csharp: [
+    'public class Solution {',
+    '    public int[] TwoSum(int[] nums, long targetValue) {',
+    '        // Your code here',
+    '    }',
+    '}'
+  ].join('\n'),
+  go: [
+    'func twoSum(nums []int, targetValue int64) []int {',
+    '    // Your code here',
+    '}'
+  ].join('\n'),
+  rust: [
+    'impl Solution {',
+    '    pub fn two_sum(nums: Vec<i32>, target_value: i64) -> Vec<i32> {',
+    '        // Your code here',
+    '    }',
+    '}'
+  ].join('\n')
+}
+
+describe('signature types', () => {
+  it('parses scalars, nodes, arrays and grids', () => {
+    assert.deepEqual(parseType('int'), { base: 'int', dimensions: 0 })
+    assert.deepEqual(parseType('TreeNode[]'), { base: 'TreeNode', dimensions: 1 })
+    assert.deepEqual(parseType('char [ ] [ ]'), { base: 'char', dimensions: 2 })
+  })
+
+  it('rejects anything else', () => {
+    assert.equal(parseType('int[][][]'), undefined)
+    assert.equal(parseType('List<int>'), undefined)
+    assert.ok(!isSignatureType('void'))
+    assert.ok(isSignatureType('void', true))
+  })
+})
+
+describe('renderTemplate', () => {
+  for (const language of TEMPLATE_LANGUAGES) {
+    it(`renders ${language} in the language's conventions`, () => {
+      assert.equal(renderTemplate(twoSum, language), EXPECTED[language])
+    })
+  }
+
+  it('describes the node types a signature uses', () => {
+    const signature = { functionName: 'levelOrder', parameters: [{ name: 'root', type: 'TreeNode' }], returnType: 'int[][]' }
+    assert.equal(renderTemplate(signature, 'python'), [
+      '# TreeNode: binary tree node with val, left and right',
+      '',
+      'def level_order(root: Optional[TreeNode]) -> list[list[int]]:',
+      '    # Your code here',
+      '    pass'
+    ].join('\n'))
+    assert.match(renderTemplate(signature, 'rust'), /root: Option<Rc<RefCell<TreeNode>>>\) -> Vec<Vec<i32>>/)
+  })
+
+  it('keeps array elements of node types plain', () => {
+    const signature = { functionName: 'merge', parameters: [{ name: 'lists', type: 'ListNode[]' }], returnType: 'ListNode' }
+    assert.match(renderTemplate(signature, 'typescript'), /function merge\(lists: ListNode\[\]\): ListNode \| null \{/)
+    assert.match(renderTemplate(signature, 'python'), /def merge\(lists: list\[ListNode\]\) -> Optional\[ListNode\]:/)
+  })
+
+  it('renders void returns', () => {
+    const signature = { functionName: 'sortColors', parameters: [{ name: 'nums', type: 'int[]' }], returnType: 'void' }
+    assert.match(renderTemplate(signature, 'go'), /^func sortColors\(nums \[\]int\) \{/)
+    assert.match(renderTemplate(signature, 'python'), /-> None:/)
+    assert.match(renderTemplate(signature, 'java'), /public void sortColors/)
+  })
+
+  it('refuses types outside the vocabulary', () => {
+    assert.throws(() => renderTemplate({ ...twoSum, returnType: 'Map' }, 'java'), /Unsupported signature type "Map"/)
+  })
+
+  it('is deterministic and leaves unknown languages empty', () => {
+    assert.deepEqual(renderTemplates(twoSum, ['go', 'kotlin']), { go: EXPECTED.go, kotlin: '' })
+    assert.equal(renderTemplate(twoSum, 'java'), renderTemplate(twoSum, 'java'))
+  })
+})
@@ -0,0 +1,64 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { ComparableQuestion, DUPLICATE_THRESHOLD, findNearDuplicates, similarity } from '../lib/similarity'
+
+const twoSum: ComparableQuestion = {
+  id: 'two-sum',
+  title: 'Two Sum',
+  problemStatement: 'Given an array of integers and a target, return the indices of the two numbers that add up to the target.',
+  sampleInput: '4\n2 7 11 15\n9',
+  sampleOutput: '0 1'
+}
+
+// The same problem in other words and with a differently formatted example
+const pairSum: ComparableQuestion = {
+  id: 'pair-sum',
+  title: 'Pair With Target Sum',
+  problemStatement: 'You are given a list of integers and a target value. Print the positions of the two numbers that add up to the target value.',
+  sampleInput: '4\n[2, 7, 11, 15]\n9',
+  sampleOutput: '0 1'
+}
+
+const islands: ComparableQuestion = {
+  id: 'islands',
+  title: 'Number of Islands',
+  problemStatement: 'Count the connected groups of land cells in a grid of land and water, moving only up, down, left and right.',
+  sampleInput: '2 2\n1 0\n0 1',
+  sampleOutput: '2'
+}
+
+describe('similarity', () => {
+  it('scores a question as identical to itself', () => {
+    assert.equal(similarity(twoSum, twoSum), 1)
+  })
+
+  it('treats an identical example as a strong signal', () => {
+    assert.ok(similarity(twoSum, pairSum) >= 0.9)
+  })
+
+  it('scores unrelated questions low', () => {
+    assert.ok(similarity(twoSum, islands) < 0.2)
+  })
+
+  it('is symmetric', () => {
+    assert.equal(similarity(twoSum, islands), similarity(islands, twoSum))
+  })
+})
+
+describe('findNearDuplicates', () => {
+  it('matches candidates against the bank and earlier candidates', () => {
+    const copy = { ...twoSum, id: 'copy' }
+    const matches = findNearDuplicates([islands, pairSum, { ...islands, id: 'islands-again' }], [twoSum])
+    assert.equal(matches[0], undefined)
+    assert.deepEqual(matches[1], { id: 'two-sum', title: 'Two Sum', score: similarity(pairSum, twoSum), source: 'bank' })
+    assert.equal(matches[2]?.id, 'islands')
+    assert.equal(matches[2]?.source, 'batch')
+    assert.equal(findNearDuplicates([copy], [pairSum, twoSum])[0]?.id, 'two-sum')
+  })
+
+  it('honours the threshold', () => {
+    const score = similarity(twoSum, pairSum)
+    assert.ok(score >= DUPLICATE_THRESHOLD)
+    assert.equal(findNearDuplicates([pairSum], [twoSum], score + 0.01)[0], undefined)
+  })
+})
@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict'
+import { after, before, describe, it } from 'node:test'
+import { mkdtemp, rm } from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import type { FunctionSignature } from '../lib/types'
+import { starterCode } from '../lib/assessment/starter'
+import { DEFAULT_LIMITS, SANDBOX_LANGUAGES, runProgram } from '../lib/sandbox'
+import { renderTemplate } from '../lib/signature'
+import { NODE_TYPES } from '../lib/signature/types'
+
+// One signature per kind of type a template can hold
+const SIGNATURES: Record<string, FunctionSignature> = {
+  scalars: {
+    functionName: 'addNumbers',
+    parameters: [{ name: 'a', type: 'int' }, { name: 'b', type: 'long' }, { name: 'scale', type: 'double' }],
+    returnType: 'long'
+  },
+  text: {
+    functionName: 'is_anagram',
+    parameters: [{ name: 'first', type: 'string' }, { name: 'letter', type: 'char' }],
+    returnType: 'bool'
+  },
+  arrays: {
+    functionName: 'twoSum',
+    parameters: [{ name: 'nums', type: 'int[]' }, { name: 'words', type: 'string[]' }],
+    returnType: 'int[]'
+  },
+  grids: {
+    functionName: 'numIslands',
+    parameters: [{ name: 'grid', type: 'char[][]' }],
+    returnType: 'int[][]'
+  },
+  void: {
+    functionName: 'sortInPlace',
+    parameters: [{ name: 'nums', type: 'int[]' }],
+    returnType: 'void'
+  },
+  ...Object.fromEntries(NODE_TYPES.map(node => [node, {
+    functionName: `visit${node}`,
+    parameters: [{ name: 'root', type: node }, { name: 'others', type: `${node}[]` }],
+    returnType: node
+  }]))
+}
+
+// Builds a node with the starter's class and prints its value
+const USES_NODE: Record<string, (node: string) => string> = {
+  python: node => `print(${node}(7).val)`,
+  javascript: node => `console.log(new ${node}(7).val)`,
+  typescript: node => `console.log(new ${node}(7).val)`
+}
+
+describe('starter code', () => {
+  let workDir: string
+
+  before(async () => {
+    workDir = await mkdtemp(path.join(os.tmpdir(), 'starter-test-'))
+    process.env.SANDBOX_WORK_DIR = workDir
+  })
+
+  after(async () => {
+    delete process.env.SANDBOX_WORK_DIR
+    await rm(workDir, { recursive: true, force: true })
+  })
+
+  for (const language of SANDBOX_LANGUAGES) {
+    it(`runs in ${language} without a template`, async () => {
+      const run = await runProgram(language, starterCode(language), '1 2 3', DEFAULT_LIMITS)
+      assert.equal(run.status, 'ok', run.stderr)
+    })
+
+    for (const [kind, signature] of Object.entries(SIGNATURES)) {
+      it(`runs in ${language} with a ${kind} template`, async () => {
+        const code = starterCode(language, renderTemplate(signature, language))
+        const run = await runProgram(language, code, '1 2 3', DEFAULT_LIMITS)
+        assert.equal(run.status, 'ok', run.stderr)
+      })
+    }
+
+    for (const node of NODE_TYPES) {
+      it(`defines ${node} in ${language}`, async () => {
+        const code = `${starterCode(language, renderTemplate(SIGNATURES[node], language))}\n${USES_NODE[language](node)}\n`
+        const run = await runProgram(language, code, '', DEFAULT_LIMITS)
+        assert.equal(run.status, 'ok', run.stderr)
+        assert.equal(run.stdout.trim(), '7')
+      })
+    }
+  }
+})
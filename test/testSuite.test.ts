@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict'
+import { after, before, describe, it } from 'node:test'
+import { mkdtemp, rm } from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { MockProvider } from '../lib/llm/mock'
+import { MIN_TESTS_PER_QUESTION, buildTestInputPrompt, buildTestSuites, computeExpectedOutputs } from '../lib/testSuite'
+import { parseConstraintBounds, parseNumber } from '../lib/testSuite/constraints'
+import questionsFixture from '../lib/llm/fixtures/questions.json'
+
+const [question] = questionsFixture.response.questions
+
+describe('constraint bounds', () => {
+  it('reads the number styles models write', () => {
+    assert.equal(parseNumber('10^5'), 100000)
+    assert.equal(parseNumber('2 * 10^5'), 200000)
+    assert.equal(parseNumber('-10**4'), -10000)
+    assert.equal(parseNumber('1e9'), 1e9)
+    assert.equal(parseNumber('100,000'), 100000)
+  })
+
+  it('extracts ranges and splits shared ones', () => {
+    assert.deepEqual(parseConstraintBounds('1 <= N <= 10^5\n-10^4 ≤ A[i], B[i] ≤ 10^4\nExpected time complexity: O(N)'), [
+      { variable: 'N', min: 1, max: 100000 },
+      { variable: 'A[i]', min: -10000, max: 10000 },
+      { variable: 'B[i]', min: -10000, max: 10000 }
+    ])
+  })
+
+  it('ignores ranges that make no sense', () => {
+    assert.deepEqual(parseConstraintBounds('10 <= N <= 1\nN is small'), [])
+  })
+
+  it('lists the bounds in the test input prompt', () => {
+    const prompt = buildTestInputPrompt([question])
+    assert.match(prompt, /N in \[1, 100000\] -> include cases at 1 and at 100000/)
+    assert.match(prompt, new RegExp(`At least ${MIN_TESTS_PER_QUESTION} tests per question`))
+  })
+})
+
+describe('hidden test suites', () => {
+  let workDir: string
+
+  before(async () => {
+    workDir = await mkdtemp(path.join(os.tmpdir(), 'test-suite-test-'))
+    process.env.SANDBOX_WORK_DIR = workDir
+    // Passes the command through unchanged; the isolation itself is
+    // covered in sandbox.test.ts
+    process.env.SANDBOX_ISOLATION_COMMAND = 'env'
+  })
+
+  after(async () => {
+    delete process.env.SANDBOX_WORK_DIR
+    delete process.env.SANDBOX_ISOLATION_COMMAND
+    await rm(workDir, { recursive: true, force: true })
+  })
+
+  it('computes expected outputs with the reference solution', async () => {
+    const [suite] = await buildTestSuites(new MockProvider(), [question], [true])
+    assert.ok(suite.length > MIN_TESTS_PER_QUESTION, JSON.stringify(suite))
+    assert.deepEqual(suite[0], {
+      input: question.sampleInput,
+      expectedOutput: question.sampleOutput,
+      kind: 'sample',
+      description: 'Sample from the problem statement'
+    })
+    assert.equal(suite.find(test => test.input === '1\n-5')?.expectedOutput, '-5')
+    assert.ok(suite.slice(1).every(test => test.kind === 'edge' || test.kind === 'typical'))
+  })
+
+  it('leaves untrusted questions without tests', async () => {
+    assert.deepEqual(await buildTestSuites(new MockProvider(), [question], [false]), [[]])
+  })
+
+  it('drops inputs the reference solution cannot handle', async () => {
+    const solution = { language: 'python', code: 'n = int(input())\nprint(10 // n)' }
+    const cases = await computeExpectedOutputs(solution, [
+      { input: '2', kind: 'typical', description: 'Divides' },
+      { input: '0', kind: 'edge', description: 'Divides by zero' }
+    ])
+    assert.deepEqual(cases, [{ input: '2', expectedOutput: '5', kind: 'typical', description: 'Divides' }])
+  })
+
+  it('skips solutions in languages the sandbox cannot run', async () => {
+    assert.deepEqual(await computeExpectedOutputs({ language: 'java', code: 'class Main {}' }, [
+      { input: '1', kind: 'typical', description: 'One' }
+    ]), [])
+  })
+})
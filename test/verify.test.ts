@@ -0,0 +1,107 @@
+import assert from 'node:assert/strict'
+import { after, before, describe, it } from 'node:test'
+import { mkdtemp, readdir, rm } from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { DEFAULT_LIMITS, outputsMatch, runProgram } from '../lib/sandbox'
+import { verifySample } from '../lib/sandbox/verify'
+
+const SUM = {
+  language: 'python',
+  code: 'a, b = map(int, input().split())\nprint(a + b)'
+}
+
+describe('outputsMatch', () => {
+  it('ignores trailing whitespace and blank lines', () => {
+    assert.ok(outputsMatch('1 2\n3', '1 2  \r\n3\n\n'))
+  })
+
+  it('falls back to comparing tokens', () => {
+    assert.ok(outputsMatch('1 2 3', '1\n2\n3'))
+    assert.ok(!outputsMatch('1 2 3', '1 2'))
+    assert.ok(!outputsMatch('6', '7'))
+  })
+})
+
+describe('runProgram', () => {
+  let workDir: string
+
+  before(async () => {
+    workDir = await mkdtemp(path.join(os.tmpdir(), 'verify-test-'))
+    process.env.SANDBOX_WORK_DIR = workDir
+  })
+
+  after(async () => {
+    delete process.env.SANDBOX_WORK_DIR
+    await rm(workDir, { recursive: true, force: true })
+  })
+
+  it('runs a program on its input', async () => {
+    const run = await runProgram('python', SUM.code, '2 3', DEFAULT_LIMITS)
+    assert.equal(run.status, 'ok', run.stderr)
+    assert.equal(run.stdout, '5\n')
+  })
+
+  it('reports runtime errors and timeouts', async () => {
+    const failed = await runProgram('javascript', 'throw new Error("boom")', '', DEFAULT_LIMITS)
+    assert.equal(failed.status, 'runtime_error')
+    assert.match(failed.stderr, /boom/)
+
+    const slow = await runProgram('javascript', 'while (true) {}', '', { ...DEFAULT_LIMITS, timeoutMs: 300 })
+    assert.equal(slow.status, 'timeout')
+  })
+
+  it('stops programs that print too much', async () => {
+    const run = await runProgram('python', 'while True:\n    print("x" * 1000)', '', DEFAULT_LIMITS)
+    assert.equal(run.status, 'output_limit')
+  })
+
+  it('removes each run\'s directory', async () => {
+    await runProgram('python', 'open("scratch.txt", "w").write("x")', '', DEFAULT_LIMITS)
+    assert.deepEqual(await readdir(workDir), [])
+  })
+
+  describe('verifySample', () => {
+    before(() => {
+      // Passes the command through unchanged; the isolation itself is
+      // covered in sandbox.test.ts
+      process.env.SANDBOX_ISOLATION_COMMAND = 'env'
+    })
+
+    after(() => {
+      delete process.env.SANDBOX_ISOLATION_COMMAND
+    })
+
+    it('verifies a solution that prints the sample output', async () => {
+      const verification = await verifySample(SUM, '2 3', '5')
+      assert.equal(verification.status, 'verified', verification.error)
+      assert.equal(verification.actualOutput, '5')
+    })
+
+    it('flags a sample output the solution disagrees with', async () => {
+      const verification = await verifySample(SUM, '2 3', '6')
+      assert.equal(verification.status, 'mismatch')
+      assert.equal(verification.actualOutput, '5')
+    })
+
+    it('fails solutions that crash, are missing or can\'t run', async () => {
+      const crashed = await verifySample({ language: 'python', code: 'raise ValueError("bad input")' }, '2 3', '5')
+      assert.equal(crashed.status, 'failed')
+      assert.match(crashed.error ?? '', /^Runtime error: [\s\S]*ValueError: bad input/)
+
+      assert.deepEqual(await verifySample(undefined, '2 3', '5'), { status: 'failed', error: 'No reference solution was generated' })
+      assert.deepEqual(await verifySample({ language: 'java', code: 'class Main {}' }, '2 3', '5'), {
+        status: 'failed',
+        error: 'Cannot run java solutions in the sandbox'
+      })
+    })
+
+    it('does not run solutions without an isolation command', async () => {
+      delete process.env.SANDBOX_ISOLATION_COMMAND
+      const verification = await verifySample(SUM, '2 3', '5')
+      process.env.SANDBOX_ISOLATION_COMMAND = 'env'
+      assert.equal(verification.status, 'failed')
+      assert.match(verification.error ?? '', /SANDBOX_ISOLATION_COMMAND/)
+    })
+  })
+})